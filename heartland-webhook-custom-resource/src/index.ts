@@ -4,6 +4,7 @@ import {
   GetSecretValueCommand,
 } from '@aws-sdk/client-secrets-manager';
 import * as https from 'https';
+import { buildRegistrationBody } from './registration';
 
 interface WebhookResourceProps {
   WebhookUrl: string;
@@ -39,25 +40,30 @@ export const handler = async (
     }
 
     const parsedSecret = JSON.parse(secretResult.SecretString) as {
-      heartland?: { token?: string };
+      heartland?: { token?: string; webhookSecret?: string };
     };
     const token = parsedSecret.heartland?.token;
     if (!token) {
       throw new Error('Operational secret JSON does not contain heartland.token');
     }
     console.log(`Using Bearer token ${token}`)
+    const webhookSecret = parsedSecret.heartland?.webhookSecret;
 
     const { WebhookUrl, Events } = event.ResourceProperties as unknown as WebhookResourceProps;
 
-    if (event.RequestType === 'Create') {
-      // Register webhook with Heartland
-      const data = JSON.stringify({
-        url: WebhookUrl,
-        events: Events,
-      });
+    // An update registers a new webhook under a new PhysicalResourceId, so
+    // CloudFormation deletes the old registration once the stack update
+    // completes; that way existing webhooks pick up the token URL.
+    if (event.RequestType === 'Create' || event.RequestType === 'Update') {
+      if (!webhookSecret) {
+        throw new Error(
+          'Operational secret JSON does not contain heartland.webhookSecret; the webhook handlers reject deliveries without it'
+        );
+      }
 
+      // Register webhook with Heartland
+      const data = buildRegistrationBody(WebhookUrl, Events, webhookSecret);
 
-    
       const options: https.RequestOptions = {
         hostname: 'bamherndon.retail.heartland.us', // Heartland API hostname
         path: '/api/webhooks',               // Webhook registration endpoint
@@ -68,11 +74,10 @@ export const handler = async (
         },
       };
 
-      console.log(`Making request options ${options} data ${data}`);
-      const responseJson = await makeRequest(options, data);
-      console.log('Webhook registration response Json:', responseJson);
-      const response = (responseJson) as WebhookRegistrationResponse;
-      console.log('Webhook registration response:', response);
+      // The registered URL carries the webhook secret, so only log the bare URL
+      console.log(`Registering webhook ${WebhookUrl} for events ${Events.join(', ')}`);
+      const response = (await makeRequest(options, data)) as WebhookRegistrationResponse;
+      console.log(`Registered webhook ${response.id}`);
 
       return {
         PhysicalResourceId: `${response.id}`,
@@ -80,13 +85,6 @@ export const handler = async (
       };
     }
 
-    if (event.RequestType === 'Update') {
-      // For now, no special update logic; just keep the same PhysicalResourceId
-      return {
-        PhysicalResourceId: event.PhysicalResourceId,
-      };
-    }
-
     if (event.RequestType === 'Delete') {
       const webhookId = event.PhysicalResourceId;
 
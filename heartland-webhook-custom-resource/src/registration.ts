@@ -0,0 +1,30 @@
+/**
+ * Query parameter the webhook handlers read the shared secret from
+ * (`verifyCallbackToken` in heartland-webhook/src/webhook-auth.ts).
+ */
+export const WEBHOOK_TOKEN_PARAM = 'token';
+
+/**
+ * URL registered with Heartland for a webhook. Heartland cannot sign its
+ * deliveries or add headers, so `heartland.webhookSecret` is carried in the
+ * URL's `token` query parameter and checked by the handlers.
+ */
+export function buildRegistrationUrl(webhookUrl: string, webhookSecret: string): string {
+  const url = new URL(webhookUrl);
+  url.searchParams.set(WEBHOOK_TOKEN_PARAM, webhookSecret);
+  return url.toString();
+}
+
+/**
+ * Body of the `POST /api/webhooks` registration request.
+ */
+export function buildRegistrationBody(
+  webhookUrl: string,
+  events: string[],
+  webhookSecret: string
+): string {
+  return JSON.stringify({
+    url: buildRegistrationUrl(webhookUrl, webhookSecret),
+    events,
+  });
+}
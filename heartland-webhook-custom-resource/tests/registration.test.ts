@@ -0,0 +1,41 @@
+import {
+  WEBHOOK_TOKEN_PARAM,
+  buildRegistrationBody,
+  buildRegistrationUrl,
+} from '../src/registration';
+
+const FUNCTION_URL = 'https://abc.lambda-url.us-east-1.on.aws/';
+
+describe('buildRegistrationUrl', () => {
+  it('carries the webhook secret in the token parameter, keeping the query', () => {
+    const registered = new URL(
+      buildRegistrationUrl(`${FUNCTION_URL}?event=sales_transaction_completed`, 'shh')
+    );
+
+    expect(registered.origin + registered.pathname).toBe(FUNCTION_URL);
+    expect(registered.searchParams.get('event')).toBe('sales_transaction_completed');
+    expect(registered.searchParams.get(WEBHOOK_TOKEN_PARAM)).toBe('shh');
+  });
+
+  it('escapes secrets so the handlers read them back unchanged', () => {
+    const secret = 'a+b/c=d&e f';
+    const registered = buildRegistrationUrl(`${FUNCTION_URL}?event=item_created`, secret);
+
+    expect(registered).not.toContain(secret);
+    expect(new URL(registered).searchParams.get('token')).toBe(secret);
+  });
+
+  it('replaces a token already in the URL', () => {
+    const registered = new URL(buildRegistrationUrl(`${FUNCTION_URL}?token=old`, 'new'));
+
+    expect(registered.searchParams.getAll('token')).toEqual(['new']);
+  });
+});
+
+describe('buildRegistrationBody', () => {
+  it('registers the tokened URL for the given events', () => {
+    expect(
+      JSON.parse(buildRegistrationBody(FUNCTION_URL, ['item_created'], 'shh'))
+    ).toEqual({ url: `${FUNCTION_URL}?token=shh`, events: ['item_created'] });
+  });
+});
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { MessageAttachments, buildHeartlandUrl } from './clients';
+import { Notifier } from './notifier';
+
+/**
+ * An alert held back for the next digest.
+ */
+export interface AlertDigestEntry {
+  alertType: string;
+  // Sorts by time: `<createdAt>#<random>`
+  entryId: string;
+  createdAt: string;
+  text: string;
+  // What the alert is about, as passed to Notifier.sendMessage
+  fingerprint?: string;
+  // The image attached to the alert, linked in the digest
+  imageUrl?: string;
+}
+
+export interface AlertDigestStore {
+  add(entry: Omit<AlertDigestEntry, 'entryId'>): Promise<void>;
+  list(alertType: string): Promise<AlertDigestEntry[]>;
+  // Called once a digest with these entries was posted
+  remove(entries: AlertDigestEntry[]): Promise<void>;
+}
+
+// Entries not posted by then (e.g. the type was switched back to immediate) expire
+const DEFAULT_RETENTION_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * Process-local store. Used in tests and when no table is configured, in
+ * which case the digest Lambda never sees the buffered alerts.
+ */
+export class InMemoryAlertDigestStore implements AlertDigestStore {
+  private readonly entries = new Map<string, AlertDigestEntry[]>();
+
+  async add(entry: Omit<AlertDigestEntry, 'entryId'>): Promise<void> {
+    const entries = this.entries.get(entry.alertType) ?? [];
+    entries.push({ ...entry, entryId: buildEntryId(entry.createdAt) });
+    this.entries.set(entry.alertType, entries);
+  }
+
+  async list(alertType: string): Promise<AlertDigestEntry[]> {
+    // Stable, so alerts of the same instant keep the order they were added in
+    return [...(this.entries.get(alertType) ?? [])].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  async remove(entries: AlertDigestEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(
+        entry.alertType,
+        (this.entries.get(entry.alertType) ?? []).filter(
+          (existing) => existing.entryId !== entry.entryId
+        )
+      );
+    }
+  }
+}
+
+/**
+ * DynamoDB-backed store shared by the alerting Lambdas and the digest Lambda.
+ *
+ * Table schema: partition key `alertType` (string), sort key `entryId`
+ * (string), TTL attribute `expiresAt`. The entry is stored whole under
+ * `entry`.
+ */
+export class DynamoDbAlertDigestStore implements AlertDigestStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient,
+    private readonly retentionSeconds = DEFAULT_RETENTION_SECONDS
+  ) {}
+
+  async add(entry: Omit<AlertDigestEntry, 'entryId'>): Promise<void> {
+    const stored: AlertDigestEntry = { ...entry, entryId: buildEntryId(entry.createdAt) };
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          alertType: stored.alertType,
+          entryId: stored.entryId,
+          entry: stored,
+          expiresAt: Math.floor(Date.parse(stored.createdAt) / 1000) + this.retentionSeconds,
+        },
+      })
+    );
+  }
+
+  async list(alertType: string): Promise<AlertDigestEntry[]> {
+    const entries: AlertDigestEntry[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'alertType = :alertType',
+          ExpressionAttributeValues: { ':alertType': alertType },
+          ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+        })
+      );
+      entries.push(...(page.Items ?? []).map((item) => item.entry as AlertDigestEntry));
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return entries;
+  }
+
+  async remove(entries: AlertDigestEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { alertType: entry.alertType, entryId: entry.entryId },
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Build the store for the alerting Lambdas and the digest Lambda: DynamoDB
+ * when a table name is configured, otherwise the process-local fallback.
+ */
+export function createAlertDigestStore(tableName?: string): AlertDigestStore {
+  if (!tableName) {
+    return new InMemoryAlertDigestStore();
+  }
+  return new DynamoDbAlertDigestStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+/**
+ * Holds alerts of one type for the digest instead of sending them.
+ */
+export class DigestNotifier implements Notifier {
+  constructor(
+    private readonly alertType: string,
+    private readonly store: AlertDigestStore,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async sendMessage(
+    text: string,
+    fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void> {
+    await this.store.add({
+      alertType: this.alertType,
+      createdAt: this.now().toISOString(),
+      text,
+      ...(fingerprint ? { fingerprint } : {}),
+      ...(attachments?.imageUrl ? { imageUrl: attachments.imageUrl } : {}),
+    });
+  }
+}
+
+/**
+ * One digest message for a set of buffered alerts: grouped by alert type,
+ * then by what each alert is about (item, ticket or sales rep, from the
+ * fingerprint), busiest first, with a Heartland link per item or ticket.
+ * Identical alerts are listed once with a count, followed by the distinct
+ * images attached to them as links. Mentions are not carried into the
+ * digest.
+ */
+export function composeDigest(entries: AlertDigestEntry[], heartlandBaseUrl?: string): string {
+  const byType = groupBy(entries, (entry) => entry.alertType);
+  const sections = [...byType.entries()].map(([alertType, typeEntries]) => {
+    const bySubject = groupBy(typeEntries, (entry) => describeSubject(entry.fingerprint, heartlandBaseUrl));
+    const subjects = [...bySubject.entries()]
+      .sort(([, a], [, b]) => b.length - a.length)
+      .map(([subject, subjectEntries]) => {
+        const texts = [...groupBy(subjectEntries, (entry) => entry.text).entries()].map(
+          ([text, same]) =>
+            [
+              `  - ${text}${same.length > 1 ? ` (x${same.length})` : ''}`,
+              ...[...new Set(same.flatMap((entry) => (entry.imageUrl ? [entry.imageUrl] : [])))].map(
+                (imageUrl) => `    Image: ${imageUrl}`
+              ),
+            ].join('\n')
+        );
+        return [`• ${subject}: ${subjectEntries.length}`, ...texts].join('\n');
+      });
+    return [`${alertType}: ${typeEntries.length} alert(s)`, ...subjects].join('\n');
+  });
+
+  const since = entries.reduce(
+    (earliest, entry) => (entry.createdAt < earliest ? entry.createdAt : earliest),
+    entries[0]?.createdAt ?? ''
+  );
+  return [`Alert digest: ${entries.length} alert(s) since ${since}`, ...sections].join('\n\n');
+}
+
+// `item:<id>@<location>`, `ticket:<id>[:line:<id>]` and `rep:<name>:<kinds>`
+// are the fingerprints the strategies send; anything else is "other"
+function describeSubject(fingerprint: string | undefined, heartlandBaseUrl?: string): string {
+  const [kind, id] = (fingerprint ?? '').split(':');
+  const link = (path: string) =>
+    heartlandBaseUrl ? ` ( ${buildHeartlandUrl(heartlandBaseUrl, path)} )` : '';
+
+  if (kind === 'item' && id) {
+    const itemId = id.split('@')[0];
+    return `item ${itemId}${link(`/#items/edit/${itemId}`)}`;
+  }
+  if (kind === 'ticket' && id) {
+    return `ticket ${id}${link(`/#sales/tickets/edit/${id}`)}`;
+  }
+  if (kind === 'rep' && id) {
+    return `sales rep ${id}`;
+  }
+  return 'other';
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function buildEntryId(createdAt: string): string {
+  return `${createdAt}#${randomUUID().slice(0, 8)}`;
+}
@@ -0,0 +1,463 @@
+import { createHash } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  PutCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { MessageAttachments } from './clients';
+import { Notifier } from './notifier';
+import { noteSuppressedAlert } from './alert-tracking';
+
+export type SuppressionClaim =
+  | { send: true; suppressedCount: number; lastSentAt?: string }
+  | { send: false };
+
+export type SentClaim = Extract<SuppressionClaim, { send: true }>;
+
+/**
+ * The latest suppressed repeat of a fingerprint, kept so the repeats can be
+ * reported once the window closes even if no later alert arrives.
+ */
+export interface SuppressedRepeat {
+  alertType: string;
+  text: string;
+}
+
+/**
+ * A fingerprint whose window has closed with repeats not yet reported.
+ */
+export interface PendingRepeats {
+  fingerprint: string;
+  suppressedCount: number;
+  lastSentAt: string;
+  lastRepeat: SuppressedRepeat;
+}
+
+/**
+ * When each alert fingerprint was last sent, and how many repeats were
+ * suppressed since.
+ *
+ * An alert is claimed before it is sent. The claim succeeds when nothing was
+ * sent for the fingerprint within the window, and reports the repeats
+ * suppressed since the previous send; otherwise it counts one more repeat.
+ * A claim is released when the send fails: the fingerprint goes back to its
+ * previous send time and suppressed count, with its window closed, so the
+ * next repeat is sent and still reports those repeats.
+ *
+ * Each suppressed repeat is kept as the fingerprint's latest repeat. Once the
+ * window closes, `listPending` returns the fingerprints with repeats still
+ * unreported, for the scheduled sweep to report them when no later alert
+ * did. The sweep claims them with `claimPending`, which, unlike `claim`,
+ * fails without counting a repeat when a later alert got there first.
+ */
+export interface AlertSuppressionStore {
+  claim(
+    fingerprint: string,
+    windowSeconds: number,
+    repeat?: SuppressedRepeat
+  ): Promise<SuppressionClaim>;
+  release(fingerprint: string, claim: SentClaim, lastRepeat?: SuppressedRepeat): Promise<void>;
+  listPending(): Promise<PendingRepeats[]>;
+  claimPending(fingerprint: string, windowSeconds: number): Promise<SuppressionClaim>;
+}
+
+// Suppressed counts are kept this long after a window ends, for the next send
+const DEFAULT_RETENTION_SECONDS = 60 * 60 * 24 * 7;
+
+/**
+ * Process-local store. Used in tests and when no table is configured, in
+ * which case repeats are only suppressed within a single warm container.
+ */
+export class InMemoryAlertSuppressionStore implements AlertSuppressionStore {
+  private readonly records = new Map<
+    string,
+    {
+      sentAtMs: number;
+      windowEndsAtMs: number;
+      suppressedCount: number;
+      lastRepeat?: SuppressedRepeat;
+    }
+  >();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async claim(
+    fingerprint: string,
+    windowSeconds: number,
+    repeat?: SuppressedRepeat
+  ): Promise<SuppressionClaim> {
+    const nowMs = this.now();
+    const existing = this.records.get(fingerprint);
+
+    if (existing && existing.windowEndsAtMs > nowMs) {
+      existing.suppressedCount += 1;
+      existing.lastRepeat = repeat ?? existing.lastRepeat;
+      return { send: false };
+    }
+
+    this.records.set(fingerprint, {
+      sentAtMs: nowMs,
+      windowEndsAtMs: nowMs + windowSeconds * 1000,
+      suppressedCount: 0,
+    });
+    return existing
+      ? {
+          send: true,
+          suppressedCount: existing.suppressedCount,
+          lastSentAt: new Date(existing.sentAtMs).toISOString(),
+        }
+      : { send: true, suppressedCount: 0 };
+  }
+
+  async release(
+    fingerprint: string,
+    claim: SentClaim,
+    lastRepeat?: SuppressedRepeat
+  ): Promise<void> {
+    const current = this.records.get(fingerprint);
+    if (!claim.lastSentAt) {
+      this.records.delete(fingerprint);
+      return;
+    }
+    this.records.set(fingerprint, {
+      sentAtMs: Date.parse(claim.lastSentAt),
+      windowEndsAtMs: this.now(),
+      // Keep repeats counted while the failed send was in flight
+      suppressedCount: claim.suppressedCount + (current?.suppressedCount ?? 0),
+      lastRepeat: current?.lastRepeat ?? lastRepeat,
+    });
+  }
+
+  async listPending(): Promise<PendingRepeats[]> {
+    const nowMs = this.now();
+    return [...this.records.entries()].flatMap(([fingerprint, record]) =>
+      record.windowEndsAtMs <= nowMs && record.suppressedCount > 0 && record.lastRepeat
+        ? [
+            {
+              fingerprint,
+              suppressedCount: record.suppressedCount,
+              lastSentAt: new Date(record.sentAtMs).toISOString(),
+              lastRepeat: record.lastRepeat,
+            },
+          ]
+        : []
+    );
+  }
+
+  async claimPending(fingerprint: string, windowSeconds: number): Promise<SuppressionClaim> {
+    const existing = this.records.get(fingerprint);
+    if (!existing || existing.windowEndsAtMs > this.now() || existing.suppressedCount === 0) {
+      return { send: false };
+    }
+    return this.claim(fingerprint, windowSeconds);
+  }
+}
+
+/**
+ * DynamoDB-backed store shared by every Lambda instance.
+ *
+ * Table schema: partition key `fingerprint` (string), TTL attribute
+ * `expiresAt`. `windowEndsAt` is in epoch seconds. `listPending` scans the
+ * table, which only holds fingerprints alerted on in the last week.
+ */
+export class DynamoDbAlertSuppressionStore implements AlertSuppressionStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient,
+    private readonly retentionSeconds = DEFAULT_RETENTION_SECONDS
+  ) {}
+
+  async claim(
+    fingerprint: string,
+    windowSeconds: number,
+    repeat?: SuppressedRepeat
+  ): Promise<SuppressionClaim> {
+    const claim = await this.putSent(
+      fingerprint,
+      windowSeconds,
+      'attribute_not_exists(fingerprint) OR windowEndsAt <= :now'
+    );
+    if (claim.send) {
+      return claim;
+    }
+
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: { fingerprint },
+        UpdateExpression: repeat
+          ? 'ADD suppressedCount :one SET lastRepeat = :repeat'
+          : 'ADD suppressedCount :one',
+        ExpressionAttributeValues: { ':one': 1, ...(repeat ? { ':repeat': repeat } : {}) },
+      })
+    );
+    return { send: false };
+  }
+
+  async release(
+    fingerprint: string,
+    claim: SentClaim,
+    lastRepeat?: SuppressedRepeat
+  ): Promise<void> {
+    if (!claim.lastSentAt) {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { fingerprint },
+        })
+      );
+      return;
+    }
+
+    // Repeats counted while the failed send was in flight are kept, along
+    // with the latest of them
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: { fingerprint },
+        UpdateExpression: lastRepeat
+          ? 'SET sentAt = :sentAt, windowEndsAt = :now, lastRepeat = if_not_exists(lastRepeat, :repeat) ADD suppressedCount :count'
+          : 'SET sentAt = :sentAt, windowEndsAt = :now ADD suppressedCount :count',
+        ExpressionAttributeValues: {
+          ':sentAt': claim.lastSentAt,
+          ':now': Math.floor(Date.now() / 1000),
+          ':count': claim.suppressedCount,
+          ...(lastRepeat ? { ':repeat': lastRepeat } : {}),
+        },
+      })
+    );
+  }
+
+  async listPending(): Promise<PendingRepeats[]> {
+    const pending: PendingRepeats[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await this.docClient.send(
+        new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression:
+            'windowEndsAt <= :now AND suppressedCount > :zero AND attribute_exists(lastRepeat)',
+          ExpressionAttributeValues: { ':now': Math.floor(Date.now() / 1000), ':zero': 0 },
+          ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+        })
+      );
+      pending.push(
+        ...(page.Items ?? []).map((item) => ({
+          fingerprint: item.fingerprint as string,
+          suppressedCount: item.suppressedCount as number,
+          lastSentAt: item.sentAt as string,
+          lastRepeat: item.lastRepeat as SuppressedRepeat,
+        }))
+      );
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return pending;
+  }
+
+  async claimPending(fingerprint: string, windowSeconds: number): Promise<SuppressionClaim> {
+    return this.putSent(
+      fingerprint,
+      windowSeconds,
+      'windowEndsAt <= :now AND suppressedCount > :zero',
+      { ':zero': 0 }
+    );
+  }
+
+  // Record a send now, if the condition holds on the current row
+  private async putSent(
+    fingerprint: string,
+    windowSeconds: number,
+    condition: string,
+    values: Record<string, unknown> = {}
+  ): Promise<SuppressionClaim> {
+    const nowMs = Date.now();
+    const nowSeconds = Math.floor(nowMs / 1000);
+
+    try {
+      const result = await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            fingerprint,
+            sentAt: new Date(nowMs).toISOString(),
+            windowEndsAt: nowSeconds + windowSeconds,
+            suppressedCount: 0,
+            expiresAt: nowSeconds + windowSeconds + this.retentionSeconds,
+          },
+          ConditionExpression: condition,
+          ExpressionAttributeValues: { ':now': nowSeconds, ...values },
+          ReturnValues: 'ALL_OLD',
+        })
+      );
+      const previous = result.Attributes as
+        | { sentAt?: string; suppressedCount?: number }
+        | undefined;
+      return {
+        send: true,
+        suppressedCount: previous?.suppressedCount ?? 0,
+        lastSentAt: previous?.sentAt,
+      };
+    } catch (err) {
+      if ((err as { name?: string })?.name !== 'ConditionalCheckFailedException') {
+        throw err;
+      }
+      return { send: false };
+    }
+  }
+}
+
+/**
+ * Build the store for the alerting Lambdas: DynamoDB when a table name is
+ * configured, otherwise the process-local fallback.
+ */
+export function createAlertSuppressionStore(tableName?: string): AlertSuppressionStore {
+  if (!tableName) {
+    return new InMemoryAlertSuppressionStore();
+  }
+  return new DynamoDbAlertSuppressionStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+/**
+ * Drops repeats of an alert within the window and folds the number dropped
+ * into the next alert that goes out. Alerts are fingerprinted by type plus
+ * the fingerprint the sender passes (an item, a ticket, ...), or the text
+ * itself when it passes none. Repeats no later alert reports are reported by
+ * `reportPendingRepeats`. Suppression state failures are logged and the
+ * alert is sent anyway. The fingerprint is passed on to the wrapped notifier.
+ */
+export class SuppressingNotifier implements Notifier {
+  constructor(
+    private readonly notifier: Notifier,
+    private readonly alertType: string,
+    private readonly store: AlertSuppressionStore,
+    private readonly windowSeconds: number
+  ) {}
+
+  async sendMessage(
+    text: string,
+    fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void> {
+    const key = `${this.alertType}#${fingerprint ?? hashText(text)}`;
+
+    let claim: SuppressionClaim;
+    try {
+      claim = await this.store.claim(key, this.windowSeconds, {
+        alertType: this.alertType,
+        text,
+      });
+    } catch (err) {
+      console.error(
+        'Error reading alert suppression state; sending alert',
+        JSON.stringify({ fingerprint: key, error: String(err) }, null, 2)
+      );
+      claim = { send: true, suppressedCount: 0 };
+    }
+
+    if (!claim.send) {
+      console.log('Suppressed repeat alert', JSON.stringify({ fingerprint: key }, null, 2));
+      noteSuppressedAlert();
+      return;
+    }
+
+    const message =
+      claim.suppressedCount > 0
+        ? `${text}\n(${claim.suppressedCount} more occurrence(s) since ${claim.lastSentAt ?? 'the last alert'})`
+        : text;
+
+    try {
+      await (attachments || fingerprint !== undefined
+        ? this.notifier.sendMessage(message, fingerprint, attachments)
+        : this.notifier.sendMessage(message));
+    } catch (err) {
+      await this.store.release(key, claim).catch((releaseErr: unknown) =>
+        console.error(
+          'Error releasing alert suppression claim',
+          JSON.stringify({ fingerprint: key, error: String(releaseErr) }, null, 2)
+        )
+      );
+      throw err;
+    }
+  }
+}
+
+export interface RepeatRoute {
+  // Undefined when the alert type is no longer routed anywhere
+  notifier?: Notifier;
+  windowSeconds: number;
+}
+
+export interface ReportPendingRepeatsResult {
+  reported: number;
+  failedFingerprints: string[];
+}
+
+/**
+ * Report the repeats of every fingerprint whose window closed without a
+ * later alert to carry them: the latest repeat goes out with the count, and
+ * opens a new window. A fingerprint alerted again since it was listed is
+ * skipped, as that alert reported the count. A failed send is released, so
+ * the next sweep tries again.
+ */
+export async function reportPendingRepeats(
+  store: AlertSuppressionStore,
+  routeFor: (alertType: string) => RepeatRoute
+): Promise<ReportPendingRepeatsResult> {
+  const result: ReportPendingRepeatsResult = { reported: 0, failedFingerprints: [] };
+
+  for (const pending of await store.listPending()) {
+    const { notifier, windowSeconds } = routeFor(pending.lastRepeat.alertType);
+    if (!notifier) {
+      console.warn(
+        'No notification channel for suppressed repeats; leaving them unreported',
+        JSON.stringify(
+          { fingerprint: pending.fingerprint, alertType: pending.lastRepeat.alertType },
+          null,
+          2
+        )
+      );
+      continue;
+    }
+
+    const claim = await store.claimPending(pending.fingerprint, windowSeconds);
+    if (!claim.send) {
+      continue;
+    }
+
+    try {
+      await notifier.sendMessage(
+        `${pending.lastRepeat.text}\n(repeated ${claim.suppressedCount} time(s) since ${claim.lastSentAt ?? pending.lastSentAt})`
+      );
+    } catch (err) {
+      console.error(
+        'Error reporting suppressed repeats',
+        JSON.stringify({ fingerprint: pending.fingerprint, error: String(err) }, null, 2)
+      );
+      await store
+        .release(pending.fingerprint, claim, pending.lastRepeat)
+        .catch((releaseErr: unknown) =>
+          console.error(
+            'Error releasing alert suppression claim',
+            JSON.stringify({ fingerprint: pending.fingerprint, error: String(releaseErr) }, null, 2)
+          )
+        );
+      result.failedFingerprints.push(pending.fingerprint);
+      continue;
+    }
+    result.reported += 1;
+  }
+
+  return result;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
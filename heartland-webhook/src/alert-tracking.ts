@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Notifier } from './notifier';
+
+/**
+ * Alerts sent and dropped as repeats while one check ran.
+ */
+export interface AlertTally {
+  sent: number;
+  suppressed: number;
+}
+
+const tallies = new AsyncLocalStorage<AlertTally>();
+
+/**
+ * Run `run` and count into `tally` the alerts sent through `countingAlerts`
+ * notifiers, and the ones suppression dropped, while it runs. Concurrent
+ * runs keep separate tallies.
+ */
+export function countAlerts<T>(tally: AlertTally, run: () => Promise<T>): Promise<T> {
+  return tallies.run(tally, run);
+}
+
+/**
+ * Whether a tally shows an alert that someone actually received.
+ */
+export function wasAlerted(tally: AlertTally): boolean {
+  return tally.sent > tally.suppressed;
+}
+
+/**
+ * Counts each alert that `notifier` accepted without throwing.
+ */
+export function countingAlerts(notifier: Notifier): Notifier {
+  return {
+    sendMessage: async (...args: Parameters<Notifier['sendMessage']>) => {
+      await notifier.sendMessage(...args);
+      const tally = tallies.getStore();
+      if (tally) {
+        tally.sent += 1;
+      }
+    },
+  };
+}
+
+/**
+ * Called by SuppressingNotifier for each repeat it drops.
+ */
+export function noteSuppressedAlert(): void {
+  const tally = tallies.getStore();
+  if (tally) {
+    tally.suppressed += 1;
+  }
+}
@@ -0,0 +1,129 @@
+import { ChatCommand } from './model';
+
+/**
+ * Callback GroupMe posts to a bot's callback URL for every message in the
+ * bot's group. See https://dev.groupme.com/tutorials/bots
+ */
+export interface GroupMeCallback {
+  group_id?: string;
+  user_id: string;
+  name: string;
+  // `user`, or `bot` for bot posts, including the command bot's own replies
+  sender_type: string;
+  text: string;
+  [key: string]: unknown;
+}
+
+type ParseGroupMeCallbackResult =
+  | { ok: true; value: GroupMeCallback }
+  | { ok: false; error: string };
+
+export function parseGroupMeCallback(body: string): ParseGroupMeCallbackResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch (err) {
+    return { ok: false, error: `invalid JSON: ${String(err)}` };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'callback must be a JSON object' };
+  }
+
+  const callback = raw as Record<string, unknown>;
+  for (const field of ['user_id', 'name', 'sender_type', 'text']) {
+    if (typeof callback[field] !== 'string') {
+      return { ok: false, error: `"${field}" must be a string` };
+    }
+  }
+  return { ok: true, value: callback as GroupMeCallback };
+}
+
+/**
+ * GroupMe user ids allowed to run commands, from the comma-separated
+ * GROUPME_COMMAND_USER_IDS. Nobody is allowed when it is unset.
+ */
+export function loadCommandAllowlist(env: NodeJS.ProcessEnv = process.env): Set<string> {
+  return new Set(
+    (env.GROUPME_COMMAND_USER_IDS ?? '')
+      .split(',')
+      .map((userId) => userId.trim())
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Split `!name arg1 arg2` into the lower-cased name and its arguments, or
+ * undefined when the text is not a command.
+ */
+export function parseChatCommand(text: string): { name: string; args: string[] } | undefined {
+  const match = /^!([a-z][\w-]*)(?:\s+(.*))?$/is.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    name: match[1].toLowerCase(),
+    args: (match[2] ?? '').split(/\s+/).filter(Boolean),
+  };
+}
+
+/**
+ * The reply to a GroupMe message, or undefined when it gets none: messages
+ * from bots and messages that are not commands are ignored. `loadCommands`
+ * is only called for commands from allowlisted users, so ordinary chat
+ * does not load credentials.
+ */
+export async function answerChatMessage(
+  message: GroupMeCallback,
+  loadCommands: () => Promise<ChatCommand[]>,
+  allowedUserIds: Set<string>
+): Promise<string | undefined> {
+  if (message.sender_type !== 'user') {
+    return undefined;
+  }
+  const parsed = parseChatCommand(message.text);
+  if (!parsed) {
+    return undefined;
+  }
+
+  if (!allowedUserIds.has(message.user_id)) {
+    console.warn(
+      'Ignored command from a user not on the allowlist',
+      JSON.stringify({ userId: message.user_id, name: message.name, command: parsed.name }, null, 2)
+    );
+    return `Sorry ${message.name}, you are not allowed to run commands.`;
+  }
+
+  let commands: ChatCommand[];
+  try {
+    commands = await loadCommands();
+  } catch (err) {
+    console.error('Error setting up chat commands', err);
+    return 'Sorry, commands are unavailable right now.';
+  }
+  if (parsed.name === 'help') {
+    return [
+      'Commands:',
+      ...commands.map((command) => `${command.usage} - ${command.description}`),
+      '!help - this list',
+    ].join('\n');
+  }
+
+  const command = commands.find((candidate) => candidate.name === parsed.name);
+  if (!command) {
+    return `Unknown command !${parsed.name}. Try !help`;
+  }
+
+  console.log(
+    'Running chat command',
+    JSON.stringify({ command: command.name, args: parsed.args, userId: message.user_id }, null, 2)
+  );
+  try {
+    return await command.run(parsed.args);
+  } catch (err) {
+    console.error(
+      'Chat command failed',
+      JSON.stringify({ command: command.name, args: parsed.args, error: String(err) }, null, 2)
+    );
+    return `Sorry, !${command.name} failed: ${String(err)}`;
+  }
+}
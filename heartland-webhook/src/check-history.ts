@@ -0,0 +1,100 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { CheckSummary } from './model';
+
+export type CheckHistoryStatus = 'completed' | 'updated' | 'voided';
+
+/**
+ * The latest check results for a transaction, so a later void or update can
+ * tell which alerts were already sent.
+ */
+export interface CheckHistoryRecord {
+  transactionId: number;
+  // The event that produced these results
+  status: CheckHistoryStatus;
+  evaluatedAt: string;
+  check: boolean;
+  checks: CheckSummary[];
+}
+
+export interface CheckHistoryStore {
+  get(transactionId: number): Promise<CheckHistoryRecord | undefined>;
+  // Replaces any earlier record for the transaction
+  put(record: CheckHistoryRecord): Promise<void>;
+}
+
+// Voids and edits rarely come later than this
+const DEFAULT_RETENTION_SECONDS = 60 * 60 * 24 * 90;
+
+/**
+ * Process-local store. Used in tests and when no table is configured, in
+ * which case only events seen by the same warm container are compared.
+ */
+export class InMemoryCheckHistoryStore implements CheckHistoryStore {
+  private readonly records = new Map<number, CheckHistoryRecord>();
+
+  async get(transactionId: number): Promise<CheckHistoryRecord | undefined> {
+    return this.records.get(transactionId);
+  }
+
+  async put(record: CheckHistoryRecord): Promise<void> {
+    this.records.set(record.transactionId, record);
+  }
+}
+
+/**
+ * DynamoDB-backed store shared by the worker and replay.
+ *
+ * Table schema: partition key `transactionId` (number), TTL attribute
+ * `expiresAt`. The record is stored whole under `record`.
+ */
+export class DynamoDbCheckHistoryStore implements CheckHistoryStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient,
+    private readonly retentionSeconds = DEFAULT_RETENTION_SECONDS
+  ) {}
+
+  async get(transactionId: number): Promise<CheckHistoryRecord | undefined> {
+    const result = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { transactionId },
+        ConsistentRead: true,
+      })
+    );
+    return result.Item?.record as CheckHistoryRecord | undefined;
+  }
+
+  async put(record: CheckHistoryRecord): Promise<void> {
+    const evaluatedAtSeconds = Math.floor(Date.parse(record.evaluatedAt) / 1000);
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          transactionId: record.transactionId,
+          record,
+          expiresAt: evaluatedAtSeconds + this.retentionSeconds,
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Build the store for the transaction event handlers: DynamoDB when a table
+ * name is configured, otherwise the process-local fallback.
+ */
+export function createCheckHistoryStore(tableName?: string): CheckHistoryStore {
+  if (!tableName) {
+    return new InMemoryCheckHistoryStore();
+  }
+  return new DynamoDbCheckHistoryStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Replay stored webhook events locally.
+ *
+ *   npm run replay -- --file events.json
+ *   npm run replay -- --dlq <queue-url> --from 2026-01-01T00:00:00Z --to 2026-01-02T00:00:00Z
+ *   npm run replay -- --archive <bucket> --from 2026-01-01T00:00:00Z --event-types item_created
+ *
+ * The file holds either a ReplayRequest object or a bare array of events
+ * ({ id?, eventType, body }). Handler logic runs in this process, so the
+ * usual HEARTLAND_API_BASE_URL / OPERATIONAL_SECRET_ARN / GROUPME_BOT_ID /
+ * IDEMPOTENCY_TABLE_NAME variables and AWS credentials must be set.
+ */
+import * as fs from 'fs';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { createPayloadArchive } from '../payload-archive';
+import {
+  DeadLetterQueueEventSource,
+  PayloadArchiveEventSource,
+  ReplayEventSource,
+  ReplaySourceName,
+  createDefaultReplayProcessors,
+  parseReplayRequest,
+  runReplay,
+} from '../replay';
+
+interface CliArgs {
+  file?: string;
+  dlq?: string;
+  archive?: string;
+  eventTypes?: string[];
+  from?: string;
+  to?: string;
+  maxEvents?: number;
+  force: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { force: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    switch (arg) {
+      case '--file':
+        args.file = next;
+        i += 1;
+        break;
+      case '--dlq':
+        args.dlq = next;
+        i += 1;
+        break;
+      case '--archive':
+        args.archive = next;
+        i += 1;
+        break;
+      case '--event-types':
+        args.eventTypes = next?.split(',');
+        i += 1;
+        break;
+      case '--from':
+        args.from = next;
+        i += 1;
+        break;
+      case '--to':
+        args.to = next;
+        i += 1;
+        break;
+      case '--max-events':
+        args.maxEvents = Number(next);
+        i += 1;
+        break;
+      case '--force':
+        args.force = true;
+        break;
+      default:
+        throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  let raw: Record<string, unknown> = {};
+  if (args.file) {
+    const contents = JSON.parse(fs.readFileSync(args.file, 'utf8')) as unknown;
+    raw = Array.isArray(contents)
+      ? { events: contents }
+      : (contents as Record<string, unknown>);
+  } else if (args.dlq) {
+    raw = { source: 'dead-letter-queue' };
+  } else if (args.archive) {
+    raw = { source: 'payload-archive', ...(args.eventTypes ? { eventTypes: args.eventTypes } : {}) };
+  }
+
+  const parsed = parseReplayRequest({
+    ...raw,
+    ...(args.from ? { from: args.from } : {}),
+    ...(args.to ? { to: args.to } : {}),
+    ...(args.maxEvents ? { maxEvents: args.maxEvents } : {}),
+    ...(args.force ? { force: true } : {}),
+  });
+  if (!parsed.ok) {
+    throw new Error(`Invalid replay request: ${parsed.error}`);
+  }
+
+  const processors = createDefaultReplayProcessors({ force: parsed.value.force });
+  const sources: Partial<Record<ReplaySourceName, ReplayEventSource>> = {};
+  if (args.dlq) {
+    sources['dead-letter-queue'] = new DeadLetterQueueEventSource(
+      args.dlq,
+      new SQSClient({})
+    );
+  }
+  const archive = createPayloadArchive(args.archive);
+  if (archive) {
+    sources['payload-archive'] = new PayloadArchiveEventSource(
+      archive,
+      parsed.value.eventTypes ?? Object.keys(processors)
+    );
+  }
+
+  const outcomes = await runReplay(parsed.value, {
+    processors,
+    sources,
+  });
+
+  for (const outcome of outcomes) {
+    console.log(
+      [outcome.status.padEnd(9), outcome.eventType, outcome.id, outcome.detail ?? '']
+        .join('  ')
+        .trim()
+    );
+  }
+
+  if (outcomes.some((outcome) => outcome.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
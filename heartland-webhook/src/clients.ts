@@ -1,4 +1,5 @@
 import * as https from 'https';
+import { IncomingHttpHeaders } from 'http';
 import * as crypto from 'crypto';
 import { Readable } from 'stream';
 import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
@@ -25,6 +26,21 @@ export interface TicketLine {
 }
 export type TicketLinesResponse = PaginatedResponse<TicketLine>;
 
+/**
+ * Ticket as returned by:
+ * GET /api/sales/tickets/{{ticket_id}}
+ * GET /api/sales/tickets?_filter[customer_id]={{customer_id}}
+ */
+export interface HeartlandTicket {
+  id: number;
+  type?: string;
+  customer_id?: number | null;
+  completed_at?: string | null;
+  custom?: Record<string, unknown> | null;
+  [key: string]: unknown;
+}
+export type TicketsResponse = PaginatedResponse<HeartlandTicket>;
+
 /**
  * Inventory value row as returned by:
  * GET /api/inventory/values?group[]=item_id&group[]=location_id&item_id=...
@@ -54,6 +70,20 @@ export interface InventoryItem {
   custom?: HeartlandItemCustomFields | null;
   [key: string]: unknown;
 }
+export type InventoryItemsResponse = PaginatedResponse<InventoryItem>;
+
+/**
+ * Customer as returned by:
+ * GET /api/customers/{{customer_id}}
+ */
+export interface HeartlandCustomer {
+  id: number;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  customer_type?: string | null;
+  [key: string]: unknown;
+}
 
 export type PurchaseOrderStatus = 'pending' | 'open' | 'closed' | 'canceled';
 
@@ -106,9 +136,19 @@ export type HeartlandReportQuery = Record<
  * Documentation: https://dev.retail.heartland.us/
  */
 export interface HeartlandApiClient {
-  getTicketLines(ticketId: number): Promise<TicketLinesResponse>;
-  getInventoryValues(itemId: number): Promise<InventoryValuesResponse>;
-  getInventoryItem(itemId: number): Promise<InventoryItem>;
+  getTicketLines(ticketId: number, signal?: AbortSignal): Promise<TicketLinesResponse>;
+  getInventoryValues(itemId: number, signal?: AbortSignal): Promise<InventoryValuesResponse>;
+  getInventoryItem(itemId: number, signal?: AbortSignal): Promise<InventoryItem>;
+  findItemsByPublicId(publicId: string): Promise<InventoryItemsResponse>;
+  getCustomer(customerId: number, signal?: AbortSignal): Promise<HeartlandCustomer>;
+  listCustomerTickets(
+    customerId: number,
+    completedSince: string,
+    signal?: AbortSignal
+  ): Promise<TicketsResponse>;
+  listReturnsOfTicket(parentTicketId: number, signal?: AbortSignal): Promise<TicketsResponse>;
+  getTicket(ticketId: number): Promise<HeartlandTicket>;
+  updateTicket(ticketId: number, updates: Partial<HeartlandTicket>): Promise<HeartlandTicket>;
   updateInventoryItem(
     itemId: number,
     updates: Partial<InventoryItem>
@@ -143,13 +183,19 @@ export class DefaultHeartlandApiClient implements HeartlandApiClient {
     private readonly token: string
   ) {}
 
-  async getTicketLines(ticketId: number): Promise<TicketLinesResponse> {
+  async getTicketLines(
+    ticketId: number,
+    signal?: AbortSignal
+  ): Promise<TicketLinesResponse> {
     const path = `/api/sales/tickets/${ticketId}/lines?per_page=500`;
     const url = buildHeartlandUrl(this.baseUrl, path);
-    return httpGetJson<TicketLinesResponse>(url, this.token);
+    return httpGetJson<TicketLinesResponse>(url, this.token, signal);
   }
 
-  async getInventoryValues(itemId: number): Promise<InventoryValuesResponse> {
+  async getInventoryValues(
+    itemId: number,
+    signal?: AbortSignal
+  ): Promise<InventoryValuesResponse> {
     const path =
       `/api/inventory/values` +
       `?group[]=item_id&group[]=location_id` +
@@ -157,13 +203,85 @@ export class DefaultHeartlandApiClient implements HeartlandApiClient {
       `&exclude_empty_locations=true&per_page=50`;
 
     const url = buildHeartlandUrl(this.baseUrl, path);
-    return httpGetJson<InventoryValuesResponse>(url, this.token);
+    return httpGetJson<InventoryValuesResponse>(url, this.token, signal);
   }
 
-  async getInventoryItem(itemId: number): Promise<InventoryItem> {
+  async getInventoryItem(
+    itemId: number,
+    signal?: AbortSignal
+  ): Promise<InventoryItem> {
     const path = `/api/items/${encodeURIComponent(String(itemId))}`;
     const url = buildHeartlandUrl(this.baseUrl, path);
-    return httpGetJson<InventoryItem>(url, this.token);
+    return httpGetJson<InventoryItem>(url, this.token, signal);
+  }
+
+  async findItemsByPublicId(publicId: string): Promise<InventoryItemsResponse> {
+    const path =
+      `/api/items` +
+      `?_filter[public_id]=${encodeURIComponent(publicId)}` +
+      `&per_page=10`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpGetJson<InventoryItemsResponse>(url, this.token);
+  }
+
+  async getCustomer(
+    customerId: number,
+    signal?: AbortSignal
+  ): Promise<HeartlandCustomer> {
+    const path = `/api/customers/${encodeURIComponent(String(customerId))}`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpGetJson<HeartlandCustomer>(url, this.token, signal);
+  }
+
+  /**
+   * The customer's completed tickets since `completedSince` (ISO-8601),
+   * newest first. Only the first page (100 tickets) is returned.
+   */
+  async listCustomerTickets(
+    customerId: number,
+    completedSince: string,
+    signal?: AbortSignal
+  ): Promise<TicketsResponse> {
+    const path =
+      `/api/sales/tickets` +
+      `?_filter[customer_id]=${encodeURIComponent(String(customerId))}` +
+      `&_filter[status]=complete` +
+      `&_filter[completed_at][$gte]=${encodeURIComponent(completedSince)}` +
+      `&sort[]=completed_at,desc&per_page=100`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpGetJson<TicketsResponse>(url, this.token, signal);
+  }
+
+  /**
+   * Completed returns made against a sale (`parent_transaction_id`).
+   */
+  async listReturnsOfTicket(
+    parentTicketId: number,
+    signal?: AbortSignal
+  ): Promise<TicketsResponse> {
+    const path =
+      `/api/sales/tickets` +
+      `?_filter[parent_transaction_id]=${encodeURIComponent(String(parentTicketId))}` +
+      `&_filter[type]=Return` +
+      `&_filter[status]=complete` +
+      `&sort[]=id,asc&per_page=100`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpGetJson<TicketsResponse>(url, this.token, signal);
+  }
+
+  async getTicket(ticketId: number): Promise<HeartlandTicket> {
+    const path = `/api/sales/tickets/${encodeURIComponent(String(ticketId))}`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpGetJson<HeartlandTicket>(url, this.token);
+  }
+
+  async updateTicket(
+    ticketId: number,
+    updates: Partial<HeartlandTicket>
+  ): Promise<HeartlandTicket> {
+    const path = `/api/sales/tickets/${encodeURIComponent(String(ticketId))}`;
+    const url = buildHeartlandUrl(this.baseUrl, path);
+    return httpPutJson<HeartlandTicket>(url, this.token, updates);
   }
 
   async updateInventoryItem(
@@ -291,59 +409,319 @@ export class DefaultHeartlandApiClient implements HeartlandApiClient {
   }
 }
 
+/**
+ * Someone to @mention in a GroupMe message.
+ */
+export interface GroupMeMention {
+  // GroupMe user id
+  userId: string;
+  // Shown as `@<nickname>`; added to the start of the text unless already in it
+  nickname: string;
+}
+
+/**
+ * Extras sent along with a message. Channels that cannot attach an image
+ * append its link to the text; mentions only apply to GroupMe.
+ */
+export interface MessageAttachments {
+  // Publicly reachable image, e.g. the candidate picture of an item
+  imageUrl?: string;
+  mentions?: GroupMeMention[];
+}
+
 /**
  * GroupMe client abstraction.
  * API documentation: https://groupme-js.github.io/GroupMeCommunityDocs/api/
  */
 export interface GroupMeClient {
-  sendMessage(text: string): Promise<void>;
+  // `fingerprint` names what the alert is about (an item, a ticket, ...) so
+  // repeats can be suppressed; plain clients ignore it
+  sendMessage(
+    text: string,
+    fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void>;
+}
+
+export interface DefaultGroupMeClientOptions {
+  // Token of the account that owns the bot. Needed to upload images to the
+  // GroupMe image service; without it images are sent as links.
+  accessToken?: string;
+  // Mentioned in every message, e.g. whoever handles a channel's alerts
+  mentions?: GroupMeMention[];
+  // Attempts per message part on 429 and 5xx responses
+  maxAttempts?: number;
+  sleep?: (ms: number) => Promise<void>;
 }
 
+// GroupMe rejects bot messages with longer text
+export const GROUPME_MAX_TEXT_LENGTH = 1000;
+const GROUPME_DEFAULT_MAX_ATTEMPTS = 3;
+const GROUPME_RETRY_BASE_DELAY_MS = 1000;
+
 /**
  * Default GroupMe client that posts via HTTPS to /v3/bots/post.
+ *
+ * Text over GROUPME_MAX_TEXT_LENGTH is sent as several numbered messages,
+ * split at line breaks or spaces where possible. Each post is retried with
+ * backoff (or the Retry-After delay) on 429 and 5xx responses.
  */
 export class DefaultGroupMeClient implements GroupMeClient {
-  constructor(private readonly botId: string) {}
+  constructor(
+    private readonly botId: string,
+    private readonly options: DefaultGroupMeClientOptions = {}
+  ) {}
 
-  sendMessage(text: string): Promise<void> {
-    const payload = JSON.stringify({
-      bot_id: this.botId,
-      text,
-    });
+  async sendMessage(
+    text: string,
+    _fingerprint?: string,
+    attachments: MessageAttachments = {}
+  ): Promise<void> {
+    const mentions = uniqueMentions([
+      ...(this.options.mentions ?? []),
+      ...(attachments.mentions ?? []),
+    ]);
+    const missing = mentions.filter((mention) => !text.includes(`@${mention.nickname}`));
+    let fullText = missing.length
+      ? `${missing.map((mention) => `@${mention.nickname}`).join(' ')} ${text}`
+      : text;
+
+    let pictureUrl: string | undefined;
+    if (attachments.imageUrl) {
+      pictureUrl = await this.uploadImage(attachments.imageUrl);
+      if (!pictureUrl) {
+        fullText = `${fullText}\nImage: ${attachments.imageUrl}`;
+      }
+    }
+
+    // Once the first part is posted the alert has gone out: a later failure
+    // is logged rather than thrown, so a retry does not repost the earlier parts
+    const parts = splitGroupMeText(fullText);
+    const failedParts: { part: number; error: string }[] = [];
+    for (const [index, part] of parts.entries()) {
+      const partAttachments: Record<string, unknown>[] = [
+        ...(index === 0 && pictureUrl ? [{ type: 'image', url: pictureUrl }] : []),
+        ...buildMentionsAttachment(part, mentions),
+      ];
+      try {
+        await this.post({
+          bot_id: this.botId,
+          text: part,
+          ...(partAttachments.length > 0 ? { attachments: partAttachments } : {}),
+        });
+      } catch (err) {
+        if (index === 0) {
+          throw err;
+        }
+        failedParts.push({ part: index + 1, error: String(err) });
+      }
+    }
+
+    if (failedParts.length > 0) {
+      console.error(
+        'Error posting part of a GroupMe message; not retrying the message',
+        JSON.stringify({ parts: parts.length, failedParts }, null, 2)
+      );
+    }
+  }
 
-    return new Promise((resolve, reject) => {
-      const req = https.request(
+  private async post(payload: Record<string, unknown>): Promise<void> {
+    const maxAttempts = this.options.maxAttempts ?? GROUPME_DEFAULT_MAX_ATTEMPTS;
+    const sleep = this.options.sleep ?? defaultSleep;
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; ; attempt += 1) {
+      const response = await httpsRequest(
         'https://api.groupme.com/v3/bots/post',
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Content-Length': Buffer.byteLength(payload).toString(),
+            'Content-Length': Buffer.byteLength(body).toString(),
           },
         },
-        (res) => {
-          let data = '';
-          res.on('data', (chunk: Buffer | string) => {
-            data += chunk.toString();
-          });
-          res.on('end', () => {
-            const statusCode = res.statusCode ?? 0;
-            if (statusCode >= 200 && statusCode < 300) {
-              resolve();
-            } else {
-              reject(
-                new Error(`GroupMe HTTP ${statusCode}: ${data}`)
-              );
-            }
-          });
-        }
+        body
       );
+      if (response.statusCode >= 200 && response.statusCode < 300) {
+        return;
+      }
 
-      req.on('error', (err) => reject(err));
-      req.write(payload);
-      req.end();
-    });
+      const retryable = response.statusCode === 429 || response.statusCode >= 500;
+      if (!retryable || attempt >= maxAttempts) {
+        throw new Error(`GroupMe HTTP ${response.statusCode}: ${response.body.toString()}`);
+      }
+      const delayMs =
+        parseRetryAfterMs(response.headers['retry-after']) ??
+        GROUPME_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(
+        'Retrying GroupMe post',
+        JSON.stringify({ statusCode: response.statusCode, attempt, delayMs }, null, 2)
+      );
+      await sleep(delayMs);
+    }
   }
+
+  // Re-host the image on GroupMe so it shows inline. Returns undefined when
+  // that is not possible, in which case the caller sends the link instead.
+  private async uploadImage(imageUrl: string): Promise<string | undefined> {
+    const accessToken = this.options.accessToken;
+    if (!accessToken) {
+      return undefined;
+    }
+
+    try {
+      const image = await httpsRequest(imageUrl, { method: 'GET' });
+      if (image.statusCode < 200 || image.statusCode >= 300) {
+        throw new Error(`image HTTP ${image.statusCode}`);
+      }
+
+      const upload = await httpsRequest(
+        'https://image.groupme.com/pictures',
+        {
+          method: 'POST',
+          headers: {
+            'X-Access-Token': accessToken,
+            'Content-Type': firstHeader(image.headers['content-type']) ?? 'image/jpeg',
+            'Content-Length': image.body.length.toString(),
+          },
+        },
+        image.body
+      );
+      if (upload.statusCode < 200 || upload.statusCode >= 300) {
+        throw new Error(`GroupMe image service HTTP ${upload.statusCode}: ${upload.body.toString()}`);
+      }
+
+      const parsed = JSON.parse(upload.body.toString()) as { payload?: { url?: string } };
+      if (!parsed.payload?.url) {
+        throw new Error('GroupMe image service returned no url');
+      }
+      return parsed.payload.url;
+    } catch (err) {
+      console.error(
+        'Error uploading image to GroupMe; sending its link instead',
+        JSON.stringify({ imageUrl, error: String(err) }, null, 2)
+      );
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Split text into parts GroupMe accepts, breaking at the last line break or
+ * space that fits and never inside a surrogate pair. Parts are numbered
+ * `(1/3) ...` when there is more than one.
+ */
+export function splitGroupMeText(
+  text: string,
+  maxLength = GROUPME_MAX_TEXT_LENGTH
+): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  // Room for the `(12/34) ` part marker
+  const budget = maxLength - 10;
+  const parts: string[] = [];
+  let remaining = text;
+  while (remaining.length > budget) {
+    const window = remaining.slice(0, budget + 1);
+    let cut = window.lastIndexOf('\n');
+    if (cut <= 0) {
+      cut = window.lastIndexOf(' ');
+    }
+    if (cut > 0) {
+      parts.push(remaining.slice(0, cut));
+      remaining = remaining.slice(cut + 1);
+      continue;
+    }
+
+    cut = budget;
+    const code = remaining.charCodeAt(cut - 1);
+    if (code >= 0xd800 && code <= 0xdbff) {
+      cut -= 1;
+    }
+    parts.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut);
+  }
+  if (remaining) {
+    parts.push(remaining);
+  }
+
+  return parts.map((part, index) => `(${index + 1}/${parts.length}) ${part}`);
+}
+
+function buildMentionsAttachment(
+  text: string,
+  mentions: GroupMeMention[]
+): Record<string, unknown>[] {
+  const userIds: string[] = [];
+  const loci: [number, number][] = [];
+  for (const mention of mentions) {
+    const start = text.indexOf(`@${mention.nickname}`);
+    if (start >= 0) {
+      userIds.push(mention.userId);
+      loci.push([start, mention.nickname.length + 1]);
+    }
+  }
+  return userIds.length > 0 ? [{ type: 'mentions', user_ids: userIds, loci }] : [];
+}
+
+function uniqueMentions(mentions: GroupMeMention[]): GroupMeMention[] {
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    if (seen.has(mention.userId)) {
+      return false;
+    }
+    seen.add(mention.userId);
+    return true;
+  });
+}
+
+function parseRetryAfterMs(value: string | string[] | undefined): number | undefined {
+  const seconds = Number(firstHeader(value));
+  return firstHeader(value) !== undefined && Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : undefined;
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * HTTPS request that resolves with the status, headers and raw body
+ * whatever the status; callers decide what counts as a failure.
+ */
+function httpsRequest(
+  url: string,
+  options: https.RequestOptions,
+  body?: string | Buffer
+): Promise<{ statusCode: number; headers: IncomingHttpHeaders; body: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, options, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer | string) => {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      });
+      res.on('end', () => {
+        resolve({
+          statusCode: res.statusCode ?? 0,
+          headers: res.headers ?? {},
+          body: Buffer.concat(chunks),
+        });
+      });
+    });
+
+    req.on('error', (err) => reject(err));
+    if (body !== undefined) {
+      req.write(body);
+    }
+    req.end();
+  });
 }
 
 export interface BrickLinkItemResponse<T> {
@@ -367,8 +745,36 @@ export interface BrickLinkItem {
   [key: string]: unknown;
 }
 
+/**
+ * Price guide as returned by:
+ * GET /items/{type}/{no}/price?guide_type=...&new_or_used=...
+ * Prices are decimal strings in `currency_code`.
+ */
+export interface BrickLinkPriceGuide {
+  new_or_used: 'N' | 'U';
+  currency_code: string;
+  min_price: string;
+  max_price: string;
+  avg_price: string;
+  qty_avg_price: string;
+  unit_quantity: number;
+  total_quantity: number;
+  [key: string]: unknown;
+}
+
+export interface BrickLinkPriceGuideOptions {
+  // `sold`: last six months of sales; `stock`: current listings
+  guideType: 'sold' | 'stock';
+  newOrUsed: 'N' | 'U';
+}
+
 export interface BrickLinkClient {
   getItem(itemType: string, itemNo: string): Promise<BrickLinkItem>;
+  getPriceGuide(
+    itemType: string,
+    itemNo: string,
+    options: BrickLinkPriceGuideOptions
+  ): Promise<BrickLinkPriceGuide>;
 }
 
 export class DefaultBrickLinkClient implements BrickLinkClient {
@@ -387,6 +793,18 @@ export class DefaultBrickLinkClient implements BrickLinkClient {
     return httpGetBrickLinkJson<BrickLinkItem>(url, this.authHeader('GET', url));
   }
 
+  async getPriceGuide(
+    itemType: string,
+    itemNo: string,
+    options: BrickLinkPriceGuideOptions
+  ): Promise<BrickLinkPriceGuide> {
+    const path =
+      `/items/${encodeURIComponent(itemType)}/${encodeURIComponent(itemNo)}/price` +
+      `?guide_type=${options.guideType}&new_or_used=${options.newOrUsed}`;
+    const url = `${DefaultBrickLinkClient.BASE_URL}${path}`;
+    return httpGetBrickLinkJson<BrickLinkPriceGuide>(url, this.authHeader('GET', url));
+  }
+
   private authHeader(method: string, url: string): string {
     const oauthParams: Record<string, string> = {
       oauth_consumer_key: this.consumerKey,
@@ -397,10 +815,12 @@ export class DefaultBrickLinkClient implements BrickLinkClient {
       oauth_version: '1.0',
     };
 
+    // Query parameters are signed along with the OAuth ones
+    const queryParams = Object.fromEntries(new URL(url).searchParams);
     const signature = buildOauthSignature(
       method,
       url,
-      oauthParams,
+      { ...queryParams, ...oauthParams },
       this.consumerSecret,
       this.tokenSecret
     );
@@ -511,7 +931,12 @@ export class DefaultToyhouseMasterDataClient implements ToyhouseMasterDataClient
 /**
  * Simple HTTPS GET helper that returns parsed JSON.
  */
-export function httpGetJson<T>(url: string, token: string): Promise<T> {
+export function httpGetJson<T>(
+  url: string,
+  token: string,
+  // Aborting destroys the request and rejects with an AbortError
+  signal?: AbortSignal
+): Promise<T> {
   return new Promise<T>((resolve, reject) => {
     const req = https.get(
       url,
@@ -520,6 +945,7 @@ export function httpGetJson<T>(url: string, token: string): Promise<T> {
           Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
+        ...(signal ? { signal } : {}),
       },
       (res) => {
         if (!res) {
@@ -0,0 +1,35 @@
+import { HeartlandApiClient, InventoryItem } from '../clients';
+
+/**
+ * Find a Heartland item by what staff type: a public id (`75192-1`), a set
+ * number without the BrickLink suffix (`60240` is tried as `60240` and
+ * `60240-1`), or else a Heartland item id.
+ */
+export async function findHeartlandItem(
+  apiClient: HeartlandApiClient,
+  query: string
+): Promise<InventoryItem | null> {
+  const publicIds = query.includes('-') ? [query] : [query, `${query}-1`];
+  for (const publicId of publicIds) {
+    const { results } = await apiClient.findItemsByPublicId(publicId);
+    if (results.length > 0) {
+      return results[0];
+    }
+  }
+
+  if (!/^\d+$/.test(query)) {
+    return null;
+  }
+  try {
+    return await apiClient.getInventoryItem(Number(query));
+  } catch (err) {
+    if (String(err).includes('HTTP 404')) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export function describeItem(item: InventoryItem): string {
+  return [item.public_id, item.description].filter(Boolean).join(' ') || `Item ${item.id}`;
+}
@@ -0,0 +1,79 @@
+import { ChatCommand } from '../model';
+import { BrickLinkClient, BrickLinkPriceGuide, HeartlandApiClient } from '../clients';
+import { describeItem, findHeartlandItem } from './item-lookup';
+
+/**
+ * Command:
+ * `!price <set number>` - our Heartland price next to the BrickLink
+ * average sold price (last six months) for new and used.
+ */
+export class PriceCommand implements ChatCommand {
+  public readonly name = 'price';
+  public readonly usage = '!price <set number>';
+  public readonly description = 'our price and the BrickLink sold averages';
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly bricklinkClient: BrickLinkClient
+  ) {}
+
+  async run(args: string[]): Promise<string> {
+    const [query] = args;
+    if (!query) {
+      return `Usage: ${this.usage}`;
+    }
+    const bricklinkNo = query.includes('-') ? query : `${query}-1`;
+
+    const [item, bricklink] = await Promise.all([
+      findHeartlandItem(this.apiClient, query),
+      this.getBrickLinkPrices(bricklinkNo),
+    ]);
+
+    const title =
+      (item ? describeItem(item) : undefined) ??
+      [bricklinkNo, bricklink.name].filter(Boolean).join(' ');
+    const ourPrice = !item
+      ? 'Our price: not in Heartland'
+      : typeof item.price === 'number'
+        ? `Our price: $${item.price.toFixed(2)} (item ${item.id})`
+        : `Our price: not set (item ${item.id})`;
+    const bricklinkLine =
+      'error' in bricklink
+        ? `BrickLink: lookup failed (${bricklink.error})`
+        : `BrickLink sold, last 6 months: new ${formatGuide(bricklink.newGuide)}, used ${formatGuide(bricklink.usedGuide)}`;
+
+    return [title, ourPrice, bricklinkLine].join('\n');
+  }
+
+  // BrickLink failures still let the Heartland price through
+  private async getBrickLinkPrices(
+    itemNo: string
+  ): Promise<
+    | { name?: string; newGuide: BrickLinkPriceGuide; usedGuide: BrickLinkPriceGuide }
+    | { name?: undefined; error: string }
+  > {
+    try {
+      const [catalogItem, newGuide, usedGuide] = await Promise.all([
+        this.bricklinkClient.getItem('SET', itemNo),
+        this.bricklinkClient.getPriceGuide('SET', itemNo, { guideType: 'sold', newOrUsed: 'N' }),
+        this.bricklinkClient.getPriceGuide('SET', itemNo, { guideType: 'sold', newOrUsed: 'U' }),
+      ]);
+      const name =
+        (catalogItem as { name?: string }).name ?? catalogItem.item?.name ?? undefined;
+      return { name, newGuide, usedGuide };
+    } catch (err) {
+      console.error(
+        'Error fetching BrickLink prices',
+        JSON.stringify({ itemNo, error: String(err) }, null, 2)
+      );
+      return { error: String(err) };
+    }
+  }
+}
+
+function formatGuide(guide: BrickLinkPriceGuide): string {
+  if (!guide.unit_quantity) {
+    return 'no sales';
+  }
+  return `avg ${Number(guide.avg_price).toFixed(2)} ${guide.currency_code} (${guide.unit_quantity} sold)`;
+}
@@ -0,0 +1,35 @@
+import { ChatCommand } from '../model';
+import { BrickLinkClient, HeartlandApiClient } from '../clients';
+import { HeartlandReportRunner } from '../heartland-report-runner';
+import { StockCommand } from './stock-command';
+import { PriceCommand } from './price-command';
+import { TicketCommand } from './ticket-command';
+import { StaleInventoryCommand } from './stale-inventory-command';
+
+/**
+ * Clients available when building commands.
+ */
+export interface CommandDependencies {
+  heartland: {
+    apiClient: HeartlandApiClient;
+    baseUrl: string;
+  };
+  bricklinkClient: BrickLinkClient;
+  reportRunner: HeartlandReportRunner;
+}
+
+/**
+ * Every command the GroupMe command bot answers, keyed by the command's
+ * `name` (what follows the `!`). Add a command by implementing ChatCommand
+ * and registering it here.
+ */
+export const COMMAND_REGISTRY: Record<string, (deps: CommandDependencies) => ChatCommand> = {
+  stock: (deps) => new StockCommand(deps.heartland.apiClient, deps.heartland.baseUrl),
+  price: (deps) => new PriceCommand(deps.heartland.apiClient, deps.bricklinkClient),
+  ticket: (deps) => new TicketCommand(deps.heartland.apiClient, deps.heartland.baseUrl),
+  stale: (deps) => new StaleInventoryCommand(deps.reportRunner),
+};
+
+export function buildChatCommands(deps: CommandDependencies): ChatCommand[] {
+  return Object.values(COMMAND_REGISTRY).map((create) => create(deps));
+}
@@ -0,0 +1,56 @@
+import { ChatCommand } from '../model';
+import { HeartlandReportRunner } from '../heartland-report-runner';
+
+const DEPARTMENTS: Record<string, string> = {
+  used: 'Used Sets',
+  new: 'New Sets',
+};
+const DEFAULT_DAYS = 60;
+// Items listed, longest unsold first
+const MAX_ITEMS = 10;
+
+/**
+ * Command:
+ * `!stale <used|new> [days]` - in-stock sets not sold or received in the
+ * last `days` (default 60), using the same report as the undersold items
+ * workbook.
+ */
+export class StaleInventoryCommand implements ChatCommand {
+  public readonly name = 'stale';
+  public readonly usage = `!stale <${Object.keys(DEPARTMENTS).join('|')}> [days]`;
+  public readonly description = `sets unsold for ${DEFAULT_DAYS} days (or [days])`;
+
+  constructor(private readonly reportRunner: HeartlandReportRunner) {}
+
+  async run(args: string[]): Promise<string> {
+    const [kind, rawDays] = args;
+    const department = kind ? DEPARTMENTS[kind.toLowerCase()] : undefined;
+    const days = rawDays === undefined ? DEFAULT_DAYS : Number(rawDays);
+    if (!department || !Number.isInteger(days) || days <= 0) {
+      return `Usage: ${this.usage}`;
+    }
+
+    const report = await this.reportRunner.findItemsNotSold(department, days);
+    // Never sold sorts first
+    const rows = [...report.results].sort(
+      (a, b) =>
+        (b['current_inventory.days_since_last_sold'] ?? Number.MAX_SAFE_INTEGER) -
+        (a['current_inventory.days_since_last_sold'] ?? Number.MAX_SAFE_INTEGER)
+    );
+
+    const listed = rows.slice(0, MAX_ITEMS).map((row) => {
+      const lastSold = row['current_inventory.last_sold_date'];
+      return (
+        `• ${row['item.description']} (${row['item.public_id']}) at ${row['location.name']}: ` +
+        `${row['ending_inventory.qty_owned']} owned, ` +
+        (lastSold ? `last sold ${lastSold}` : 'never sold')
+      );
+    });
+
+    return [
+      `${department} not sold in ${days} days: ${report.total} item(s)`,
+      ...listed,
+      ...(report.total > listed.length ? [`(${report.total - listed.length} more)`] : []),
+    ].join('\n');
+  }
+}
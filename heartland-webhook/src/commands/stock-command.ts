@@ -0,0 +1,48 @@
+import { ChatCommand } from '../model';
+import { HeartlandApiClient, buildHeartlandUrl } from '../clients';
+import { describeItem, findHeartlandItem } from './item-lookup';
+
+/**
+ * Command:
+ * `!stock <set number or item id>` - on-hand and available quantity per
+ * location, from Heartland inventory values.
+ */
+export class StockCommand implements ChatCommand {
+  public readonly name = 'stock';
+  public readonly usage = '!stock <set number or item id>';
+  public readonly description = 'quantity on hand per location';
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string
+  ) {}
+
+  async run(args: string[]): Promise<string> {
+    const [query] = args;
+    if (!query) {
+      return `Usage: ${this.usage}`;
+    }
+
+    const item = await findHeartlandItem(this.apiClient, query);
+    if (!item) {
+      return `No item found for ${query}`;
+    }
+
+    const { results } = await this.apiClient.getInventoryValues(item.id);
+    const locations = results.map((row) => ({
+      locationId: row.location_id,
+      onHand: row.qty_on_hand ?? row.qty ?? 0,
+      available: row.qty_available ?? row.qty_on_hand ?? row.qty ?? 0,
+    }));
+    const total = locations.reduce((sum, location) => sum + location.onHand, 0);
+
+    return [
+      `${describeItem(item)}: ${total} on hand`,
+      ...locations.map(
+        (location) =>
+          `• location ${location.locationId ?? 'unknown'}: ${location.onHand} on hand, ${location.available} available`
+      ),
+      buildHeartlandUrl(this.heartlandBaseUrl, `/#items/edit/${item.id}`),
+    ].join('\n');
+  }
+}
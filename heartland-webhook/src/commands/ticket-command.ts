@@ -0,0 +1,68 @@
+import { ChatCommand } from '../model';
+import { HeartlandApiClient, buildHeartlandUrl } from '../clients';
+
+// Lines listed before the reply is cut short
+const MAX_LINES = 15;
+
+/**
+ * Command:
+ * `!ticket <ticket id>` - status, total and item lines of a sales ticket.
+ */
+export class TicketCommand implements ChatCommand {
+  public readonly name = 'ticket';
+  public readonly usage = '!ticket <ticket id>';
+  public readonly description = 'status, total and item lines of a ticket';
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string
+  ) {}
+
+  async run(args: string[]): Promise<string> {
+    const [query] = args;
+    if (!query || !/^\d+$/.test(query)) {
+      return `Usage: ${this.usage}`;
+    }
+    const ticketId = Number(query);
+
+    let ticket;
+    try {
+      ticket = await this.apiClient.getTicket(ticketId);
+    } catch (err) {
+      if (String(err).includes('HTTP 404')) {
+        return `No ticket ${ticketId}`;
+      }
+      throw err;
+    }
+    const { results } = await this.apiClient.getTicketLines(ticketId);
+    const itemLines = results.filter((line) => line.type === 'ItemLine');
+
+    const status = typeof ticket.status === 'string' ? ticket.status : 'unknown status';
+    const summary = [
+      `Ticket ${ticketId}${ticket.type ? ` (${ticket.type})` : ''}: ${status}`,
+      ...(typeof ticket.total === 'number' ? [`total ${ticket.total.toFixed(2)}`] : []),
+      ...(ticket.completed_at ? [`completed ${ticket.completed_at}`] : []),
+    ].join(', ');
+
+    const lines = itemLines.slice(0, MAX_LINES).map((line) => {
+      const qty = asNumber(line.qty) ?? 1;
+      const unitPrice = asNumber(line.adjusted_unit_price) ?? asNumber(line.unit_price);
+      return (
+        `• ${line.item_description ?? line.description ?? `Item ${line.item_id}`} x${qty}` +
+        (unitPrice !== undefined ? ` @ ${unitPrice.toFixed(2)}` : '')
+      );
+    });
+
+    return [
+      summary,
+      `${itemLines.length} item line(s)`,
+      ...lines,
+      ...(itemLines.length > MAX_LINES ? [`(${itemLines.length - MAX_LINES} more)`] : []),
+      buildHeartlandUrl(this.heartlandBaseUrl, `/#sales/tickets/edit/${ticketId}`),
+    ].join('\n');
+  }
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
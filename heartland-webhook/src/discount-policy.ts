@@ -0,0 +1,479 @@
+import { HeartlandTransaction } from './model';
+import { TicketLine } from './clients';
+import { isRecord } from './payload-fields';
+
+export type DayOfWeek = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+const DAYS_OF_WEEK: DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * When a rule applies. Every criterion given must match; string criteria are
+ * case-insensitive. `from`/`to` are inclusive store-local dates
+ * (YYYY-MM-DD) for promotional calendar windows.
+ */
+export interface DiscountPolicyMatch {
+  departments?: string[];
+  salesReps?: string[];
+  customerGroups?: string[];
+  daysOfWeek?: DayOfWeek[];
+  from?: string;
+  to?: string;
+}
+
+export interface DiscountPolicyRule {
+  name: string;
+  match: DiscountPolicyMatch;
+  // Discounts covered by this rule never fail the check (e.g. employee sales)
+  exempt?: boolean;
+  thresholdPercent?: number;
+  lineThresholdPercent?: number;
+  minAlertDiscount?: number;
+}
+
+/**
+ * Discount limits for a ticket. The first matching rule wins; anything a
+ * rule leaves unset falls back to the top-level values.
+ */
+export interface DiscountPolicy {
+  // Ticket-wide discount limit, as a percent of the original subtotal
+  thresholdPercent?: number;
+  // Limit for a single item line, as a percent of its original price
+  lineThresholdPercent?: number;
+  // Offending discounts at or below this dollar amount fail without an alert
+  minAlertDiscount?: number;
+  rules?: DiscountPolicyRule[];
+}
+
+export const DEFAULT_DISCOUNT_POLICY: Required<Omit<DiscountPolicy, 'rules'>> = {
+  thresholdPercent: 5,
+  lineThresholdPercent: 25,
+  minAlertDiscount: 5,
+};
+
+export interface DiscountPolicyInput {
+  tx: HeartlandTransaction;
+  // Undefined when the ticket lines could not be loaded
+  lines?: TicketLine[];
+  departmentsByItemId?: Map<number, string | undefined>;
+  customerGroup?: string;
+}
+
+export interface LineDiscount {
+  lineId: number;
+  itemId?: number;
+  description: string;
+  department?: string;
+  originalAmount: number;
+  discount: number;
+  discountPercent: number;
+  thresholdPercent: number;
+  rule?: string;
+}
+
+export interface TicketDiscount {
+  originalSubtotal: number;
+  discount: number;
+  discountPercent: number;
+  thresholdPercent: number;
+  rule?: string;
+}
+
+export interface DiscountPolicyEvaluation {
+  // Undefined when the ticket has no usable discount data
+  ticket?: TicketDiscount;
+  ticketViolated: boolean;
+  // Item lines with usable prices that were checked against the policy
+  linesChecked: number;
+  lineViolations: LineDiscount[];
+  // Set when the ticket-level rule exempts the whole ticket
+  exemptRule?: string;
+  minAlertDiscount: number;
+  // Dollar amount behind the violations, compared against minAlertDiscount
+  offendingDiscount: number;
+}
+
+/**
+ * Evaluate a ticket against the policy.
+ *
+ * Ticket-level rules (those without `departments`) pick the ticket threshold
+ * and can exempt the whole ticket. Each item line is then checked against
+ * the first rule matching it, including department rules. Lines that are
+ * exempt or governed by a department rule are left out of the ticket-wide
+ * percentage, so a department promotion does not trip the ticket limit.
+ */
+export function evaluateDiscountPolicy(
+  policy: DiscountPolicy,
+  input: DiscountPolicyInput
+): DiscountPolicyEvaluation {
+  const defaults = {
+    thresholdPercent: policy.thresholdPercent ?? DEFAULT_DISCOUNT_POLICY.thresholdPercent,
+    lineThresholdPercent:
+      policy.lineThresholdPercent ?? DEFAULT_DISCOUNT_POLICY.lineThresholdPercent,
+    minAlertDiscount: policy.minAlertDiscount ?? DEFAULT_DISCOUNT_POLICY.minAlertDiscount,
+  };
+  const rules = policy.rules ?? [];
+  const localDate = resolveLocalDate(input.tx);
+  const ticketFacts = {
+    salesRep: input.tx.sales_rep ?? undefined,
+    customerGroup: input.customerGroup,
+    localDate,
+  };
+
+  const ticketRule = rules.find(
+    (rule) => !rule.match.departments && matchesRule(rule, ticketFacts)
+  );
+  const minAlertDiscount = ticketRule?.minAlertDiscount ?? defaults.minAlertDiscount;
+
+  if (ticketRule?.exempt) {
+    return {
+      ticketViolated: false,
+      linesChecked: 0,
+      lineViolations: [],
+      exemptRule: ticketRule.name,
+      minAlertDiscount,
+      offendingDiscount: 0,
+    };
+  }
+
+  const lineViolations: LineDiscount[] = [];
+  let linesChecked = 0;
+  let excludedOriginal = 0;
+  let excludedDiscount = 0;
+
+  for (const line of input.lines ?? []) {
+    const amounts = getLineAmounts(line);
+    if (!amounts) {
+      continue;
+    }
+    linesChecked += 1;
+
+    const department =
+      typeof line.item_id === 'number'
+        ? input.departmentsByItemId?.get(line.item_id)
+        : undefined;
+    const rule = rules.find((candidate) =>
+      matchesRule(candidate, { ...ticketFacts, department })
+    );
+
+    if (rule?.exempt || rule?.match.departments) {
+      excludedOriginal += amounts.original;
+      excludedDiscount += amounts.discount;
+    }
+    if (rule?.exempt || amounts.discount <= 0) {
+      continue;
+    }
+
+    const thresholdPercent = rule?.lineThresholdPercent ?? defaults.lineThresholdPercent;
+    const discountPercent = (amounts.discount / amounts.original) * 100;
+    if (discountPercent > thresholdPercent) {
+      lineViolations.push({
+        lineId: line.id,
+        itemId: line.item_id,
+        description: describeLine(line),
+        department,
+        originalAmount: round(amounts.original),
+        discount: round(amounts.discount),
+        discountPercent: round(discountPercent),
+        thresholdPercent,
+        rule: rule?.name,
+      });
+    }
+  }
+
+  const ticket = getTicketDiscount(
+    input,
+    excludedOriginal,
+    excludedDiscount,
+    ticketRule?.thresholdPercent ?? defaults.thresholdPercent,
+    ticketRule?.name
+  );
+  const ticketViolated = Boolean(ticket && ticket.discountPercent > ticket.thresholdPercent);
+
+  const lineDiscountTotal = lineViolations.reduce((sum, line) => sum + line.discount, 0);
+
+  return {
+    ticket,
+    ticketViolated,
+    linesChecked,
+    lineViolations,
+    minAlertDiscount,
+    offendingDiscount: round(
+      Math.max(ticketViolated && ticket ? ticket.discount : 0, lineDiscountTotal)
+    ),
+  };
+}
+
+/**
+ * Whether evaluating the policy needs item departments or the customer, so
+ * the strategy only fetches them when a rule can use them.
+ */
+export function policyNeeds(policy: DiscountPolicy): {
+  departments: boolean;
+  customerGroup: boolean;
+} {
+  const rules = policy.rules ?? [];
+  return {
+    departments: rules.some((rule) => Boolean(rule.match.departments)),
+    customerGroup: rules.some((rule) => Boolean(rule.match.customerGroups)),
+  };
+}
+
+/**
+ * Returns one message per problem with a policy from the strategy config.
+ */
+export function validateDiscountPolicy(raw: unknown): string[] {
+  if (!isRecord(raw)) {
+    return ['must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const key of ['thresholdPercent', 'lineThresholdPercent', 'minAlertDiscount']) {
+    if (raw[key] !== undefined && !isNonNegativeNumber(raw[key])) {
+      errors.push(`"${key}" must be a non-negative number`);
+    }
+  }
+
+  if (raw.rules === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(raw.rules)) {
+    return [...errors, '"rules" must be an array'];
+  }
+
+  raw.rules.forEach((rule: unknown, index) => {
+    const at = `rules[${index}]`;
+    if (!isRecord(rule)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (typeof rule.name !== 'string' || !rule.name) {
+      errors.push(`${at}: "name" must be a non-empty string`);
+    }
+    if (rule.exempt !== undefined && typeof rule.exempt !== 'boolean') {
+      errors.push(`${at}: "exempt" must be a boolean`);
+    }
+    for (const key of ['thresholdPercent', 'lineThresholdPercent', 'minAlertDiscount']) {
+      if (rule[key] !== undefined && !isNonNegativeNumber(rule[key])) {
+        errors.push(`${at}: "${key}" must be a non-negative number`);
+      }
+    }
+
+    const match = rule.match;
+    if (!isRecord(match)) {
+      errors.push(`${at}: "match" must be an object`);
+      return;
+    }
+    for (const [key, value] of Object.entries(match)) {
+      if (['departments', 'salesReps', 'customerGroups'].includes(key)) {
+        if (!isStringArray(value)) {
+          errors.push(`${at}: "match.${key}" must be an array of strings`);
+        }
+      } else if (key === 'daysOfWeek') {
+        if (
+          !Array.isArray(value) ||
+          !value.every((day) => DAYS_OF_WEEK.includes(day as DayOfWeek))
+        ) {
+          errors.push(`${at}: "match.daysOfWeek" must only contain ${DAYS_OF_WEEK.join(', ')}`);
+        }
+      } else if (key === 'from' || key === 'to') {
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          errors.push(`${at}: "match.${key}" must be a YYYY-MM-DD date`);
+        }
+      } else {
+        errors.push(`${at}: unknown match criterion "${key}"`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+interface MatchFacts {
+  salesRep?: string;
+  customerGroup?: string;
+  localDate: string;
+  department?: string;
+}
+
+function matchesRule(rule: DiscountPolicyRule, facts: MatchFacts): boolean {
+  const { match } = rule;
+
+  if (match.departments && !includesIgnoreCase(match.departments, facts.department)) {
+    return false;
+  }
+  if (match.salesReps && !includesIgnoreCase(match.salesReps, facts.salesRep)) {
+    return false;
+  }
+  if (
+    match.customerGroups &&
+    !includesIgnoreCase(match.customerGroups, facts.customerGroup)
+  ) {
+    return false;
+  }
+  if (match.daysOfWeek && !match.daysOfWeek.includes(dayOfWeek(facts.localDate))) {
+    return false;
+  }
+  // ISO dates compare correctly as strings
+  if (match.from && facts.localDate < match.from) {
+    return false;
+  }
+  if (match.to && facts.localDate > match.to) {
+    return false;
+  }
+  return true;
+}
+
+function getTicketDiscount(
+  input: DiscountPolicyInput,
+  excludedOriginal: number,
+  excludedDiscount: number,
+  thresholdPercent: number,
+  rule: string | undefined
+): TicketDiscount | undefined {
+  const { tx } = input;
+  let originalSubtotal: number | undefined;
+  let discount: number | undefined;
+
+  if (typeof tx.original_subtotal === 'number' && typeof tx.total_discounts === 'number') {
+    originalSubtotal = tx.original_subtotal;
+    discount = tx.total_discounts;
+  } else if (input.lines) {
+    const amounts = input.lines
+      .map(getLineAmounts)
+      .filter((value): value is NonNullable<typeof value> => Boolean(value));
+    originalSubtotal = amounts.reduce((sum, value) => sum + value.original, 0);
+    discount = amounts.reduce((sum, value) => sum + value.discount, 0);
+  }
+
+  if (originalSubtotal === undefined || discount === undefined) {
+    return undefined;
+  }
+
+  originalSubtotal -= excludedOriginal;
+  discount -= excludedDiscount;
+  if (originalSubtotal <= 0) {
+    return undefined;
+  }
+
+  return {
+    originalSubtotal: round(originalSubtotal),
+    discount: round(discount),
+    discountPercent: round((discount / originalSubtotal) * 100),
+    thresholdPercent,
+    rule,
+  };
+}
+
+/**
+ * Original amount and discount of an item line, in dollars. The discount
+ * comes from the adjusted unit price, else the summed price adjustments,
+ * else the difference between the original and final unit price.
+ */
+export function getLineAmounts(line: TicketLine): { original: number; discount: number } | undefined {
+  const qty = Math.abs(asNumber(line.qty) ?? 1);
+  const originalUnit = asNumber(line.original_unit_price) ?? asNumber(line.unit_price);
+  if (originalUnit === undefined || originalUnit <= 0 || qty === 0) {
+    return undefined;
+  }
+
+  let unitDiscount = 0;
+  const adjustedUnit = asNumber(line.adjusted_unit_price);
+  const unitPrice = asNumber(line.unit_price);
+  if (adjustedUnit !== undefined) {
+    unitDiscount = originalUnit - adjustedUnit;
+  } else if (Array.isArray(line.price_adjustments) && line.price_adjustments.length > 0) {
+    unitDiscount = -line.price_adjustments
+      .map((entry) => (isRecord(entry) ? asNumber(entry.delta_price) : undefined))
+      .reduce<number>((sum, delta) => sum + (delta ?? 0), 0);
+  } else if (unitPrice !== undefined) {
+    unitDiscount = originalUnit - unitPrice;
+  }
+
+  return { original: originalUnit * qty, discount: unitDiscount * qty };
+}
+
+/**
+ * What was paid for each item line: its original amount less its own
+ * discount, less its share of the ticket-level discount (`total_discounts`
+ * minus the line discounts), spread in proportion to the lines' net amounts.
+ * Lines `getLineAmounts` cannot price are undefined and take no share.
+ */
+export function getNetLineAmounts(
+  lines: TicketLine[],
+  totalDiscounts: unknown
+): { netAmounts: (number | undefined)[]; ticketDiscount: number } {
+  const amounts = lines.map((line) => {
+    const lineAmounts = getLineAmounts(line);
+    return lineAmounts
+      ? { net: lineAmounts.original - lineAmounts.discount, discount: lineAmounts.discount }
+      : undefined;
+  });
+
+  const lineDiscounts = amounts.reduce((sum, amount) => sum + (amount?.discount ?? 0), 0);
+  const netTotal = amounts.reduce((sum, amount) => sum + Math.max(amount?.net ?? 0, 0), 0);
+  const ticketTotalDiscounts = asNumber(totalDiscounts);
+  const ticketDiscount =
+    ticketTotalDiscounts !== undefined && netTotal > 0
+      ? round(Math.max(ticketTotalDiscounts - lineDiscounts, 0))
+      : 0;
+
+  return {
+    netAmounts: amounts.map((amount) => {
+      if (!amount) {
+        return undefined;
+      }
+      const share = ticketDiscount > 0 ? (ticketDiscount * Math.max(amount.net, 0)) / netTotal : 0;
+      return amount.net - share;
+    }),
+    ticketDiscount,
+  };
+}
+
+function describeLine(line: TicketLine): string {
+  return (
+    line.item_description ??
+    line.description ??
+    (typeof line.item_id === 'number' ? `Item ${line.item_id}` : `Line ${line.id}`)
+  );
+}
+
+/**
+ * Store-local date of the sale, taken from local_completed_at (falling back
+ * to completed_at, then today in UTC).
+ */
+function resolveLocalDate(tx: HeartlandTransaction): string {
+  for (const value of [tx.local_completed_at, tx.completed_at]) {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return value.slice(0, 10);
+    }
+  }
+  return new Date().toISOString().slice(0, 10);
+}
+
+function dayOfWeek(localDate: string): DayOfWeek {
+  return DAYS_OF_WEEK[new Date(`${localDate}T00:00:00Z`).getUTCDay()];
+}
+
+function includesIgnoreCase(values: string[], value: string | undefined): boolean {
+  if (!value) {
+    return false;
+  }
+  const needle = value.toLowerCase();
+  return values.some((candidate) => candidate.toLowerCase() === needle);
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
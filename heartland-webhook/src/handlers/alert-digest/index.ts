@@ -0,0 +1,74 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { AlertDigestEntry, composeDigest, createAlertDigestStore } from '../../alert-digest';
+import { createChannelsNotifier, digestAlertTypes, routeChannels } from '../../notifier';
+
+export interface AlertDigestResult {
+  // Digest messages posted, one per set of channels
+  sent: number;
+  alerts: number;
+  failedRoutes: string[];
+}
+
+/**
+ * Scheduled Lambda entrypoint: post the buffered alerts of every digest
+ * alert type as one summary per set of channels, then drop them.
+ *
+ * Alerts of a route whose digest could not be posted are kept for the next
+ * run, and the invocation fails so the failure shows up in the Lambda's
+ * error metrics.
+ */
+export const handler = async (event: ScheduledEvent): Promise<AlertDigestResult> => {
+  console.log(
+    'Received AlertDigest schedule event',
+    JSON.stringify({ id: event.id, time: event.time, source: event.source }, null, 2)
+  );
+
+  const store = createAlertDigestStore(process.env.ALERT_DIGEST_TABLE_NAME);
+  const alertTypes = digestAlertTypes();
+
+  // Alert types sharing channels share one digest message
+  const byRoute = new Map<string, { alertType: string; entries: AlertDigestEntry[] }[]>();
+  for (const alertType of alertTypes) {
+    const entries = await store.list(alertType);
+    if (entries.length === 0) {
+      continue;
+    }
+    const route = routeChannels(alertType).join(',');
+    byRoute.set(route, [...(byRoute.get(route) ?? []), { alertType, entries }]);
+  }
+
+  const result: AlertDigestResult = { sent: 0, alerts: 0, failedRoutes: [] };
+  for (const [route, groups] of byRoute) {
+    const entries = groups.flatMap((group) => group.entries);
+    const notifier = createChannelsNotifier(groups[0].alertType);
+    if (!notifier) {
+      console.warn(
+        'No notification channel for digest alert types; keeping their alerts',
+        JSON.stringify({ alertTypes: groups.map((group) => group.alertType) }, null, 2)
+      );
+      continue;
+    }
+
+    try {
+      await notifier.sendMessage(composeDigest(entries, process.env.HEARTLAND_API_BASE_URL));
+    } catch (err) {
+      console.error(
+        'Error posting alert digest',
+        JSON.stringify({ route, alerts: entries.length, error: String(err) }, null, 2)
+      );
+      result.failedRoutes.push(route);
+      continue;
+    }
+
+    await store.remove(entries);
+    result.sent += 1;
+    result.alerts += entries.length;
+  }
+
+  console.log('Alert digest result', JSON.stringify(result, null, 2));
+
+  if (result.failedRoutes.length > 0) {
+    throw new Error(`Alert digest failed for channels ${result.failedRoutes.join('; ')}`);
+  }
+  return result;
+};
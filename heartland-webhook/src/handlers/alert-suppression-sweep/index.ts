@@ -0,0 +1,36 @@
+import { ScheduledEvent } from 'aws-lambda';
+import {
+  ReportPendingRepeatsResult,
+  createAlertSuppressionStore,
+  reportPendingRepeats,
+} from '../../alert-suppression';
+import { createChannelsNotifier, suppressionWindowSeconds } from '../../notifier';
+
+/**
+ * Scheduled Lambda entrypoint: report the suppressed repeats of every alert
+ * fingerprint whose window closed without a later alert to carry them.
+ *
+ * Repeats that could not be reported stay pending for the next run, and the
+ * invocation fails so the failure shows up in the Lambda's error metrics.
+ */
+export const handler = async (event: ScheduledEvent): Promise<ReportPendingRepeatsResult> => {
+  console.log(
+    'Received AlertSuppressionSweep schedule event',
+    JSON.stringify({ id: event.id, time: event.time, source: event.source }, null, 2)
+  );
+
+  const store = createAlertSuppressionStore(process.env.ALERT_SUPPRESSION_TABLE_NAME);
+  const result = await reportPendingRepeats(store, (alertType) => ({
+    notifier: createChannelsNotifier(alertType),
+    windowSeconds: suppressionWindowSeconds(alertType),
+  }));
+
+  console.log('Alert suppression sweep result', JSON.stringify(result, null, 2));
+
+  if (result.failedFingerprints.length > 0) {
+    throw new Error(
+      `Reporting suppressed repeats failed for ${result.failedFingerprints.join(', ')}`
+    );
+  }
+  return result;
+};
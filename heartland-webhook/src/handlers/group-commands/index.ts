@@ -0,0 +1,162 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager';
+import {
+  DefaultBrickLinkClient,
+  DefaultGroupMeClient,
+  DefaultHeartlandApiClient,
+} from '../../clients';
+import { HeartlandReportRunner } from '../../heartland-report-runner';
+import { answerChatMessage, loadCommandAllowlist, parseGroupMeCallback } from '../../chat-commands';
+import { buildChatCommands } from '../../commands/registry';
+import { ChatCommand } from '../../model';
+import { createUnauthorizedResponse, verifyCallbackToken } from '../../webhook-auth';
+
+const secretsClient = new SecretsManagerClient({});
+
+type OperationalSecret = {
+  heartland?: {
+    token?: string;
+  };
+  bricklink?: {
+    consumerKey?: string;
+    consumerSecret?: string;
+    tokenValue?: string;
+    tokenSecret?: string;
+  };
+  groupme?: {
+    callbackToken?: string;
+  };
+};
+
+let cachedSecret: OperationalSecret | null = null;
+
+/**
+ * Function URL set as the GroupMe command bot's callback URL, with
+ * `?token=<groupme.callbackToken>` from the operational secret. GroupMe
+ * posts every message in the group here; `!` commands from allowlisted
+ * users are answered in the group through the command bot.
+ *
+ * Always answers GroupMe with 200 once authenticated, so failed commands
+ * are not redelivered; the failure is posted as the reply instead.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  const secretId = process.env.OPERATIONAL_SECRET_ARN;
+  const botId = process.env.GROUPME_COMMAND_BOT_ID;
+  if (!secretId || !botId) {
+    console.error('Missing OPERATIONAL_SECRET_ARN or GROUPME_COMMAND_BOT_ID environment variable');
+    return createResponse(500, { status: 'error', error: 'command bot is not configured' });
+  }
+
+  let secret: OperationalSecret;
+  try {
+    secret = await getOperationalSecret(secretId);
+  } catch (err) {
+    console.error('Error loading operational secret:', err);
+    return createResponse(500, { status: 'error', error: 'operational secret unavailable' });
+  }
+
+  const callbackToken = secret.groupme?.callbackToken;
+  if (callbackToken) {
+    const auth = verifyCallbackToken(event, callbackToken);
+    if (!auth.ok) {
+      console.warn('Rejected unauthenticated GroupMe callback:', auth.reason);
+      return createUnauthorizedResponse();
+    }
+  } else if (process.env.WEBHOOK_AUTH_REQUIRED === 'true') {
+    console.warn('Rejected GroupMe callback: groupme.callbackToken is not configured');
+    return createUnauthorizedResponse();
+  } else {
+    console.warn('GroupMe callback authentication skipped: groupme.callbackToken is not configured');
+  }
+
+  const parsed = parseGroupMeCallback(event.body ?? '');
+  if (!parsed.ok) {
+    console.warn('Ignored malformed GroupMe callback:', parsed.error);
+    return createResponse(400, { status: 'error', error: parsed.error });
+  }
+
+  const reply = await answerChatMessage(
+    parsed.value,
+    async () => buildCommands(secret),
+    loadCommandAllowlist()
+  );
+  if (!reply) {
+    return createResponse(200, { status: 'ok', replied: false });
+  }
+
+  try {
+    await new DefaultGroupMeClient(botId, {
+      accessToken: process.env.GROUPME_ACCESS_TOKEN,
+    }).sendMessage(reply);
+  } catch (err) {
+    console.error('Error posting command reply to GroupMe', err);
+    return createResponse(200, { status: 'ok', replied: false });
+  }
+  return createResponse(200, { status: 'ok', replied: true });
+};
+
+function buildCommands(secret: OperationalSecret): ChatCommand[] {
+  const baseUrl = process.env.HEARTLAND_API_BASE_URL;
+  const token = secret.heartland?.token;
+  if (!baseUrl || !token) {
+    throw new Error('Missing HEARTLAND_API_BASE_URL or heartland.token in the operational secret');
+  }
+  const bricklink = secret.bricklink ?? {};
+  if (
+    !bricklink.consumerKey ||
+    !bricklink.consumerSecret ||
+    !bricklink.tokenValue ||
+    !bricklink.tokenSecret
+  ) {
+    throw new Error(
+      'Operational secret JSON must include bricklink.consumerKey, bricklink.consumerSecret, bricklink.tokenValue, bricklink.tokenSecret'
+    );
+  }
+
+  const apiClient = new DefaultHeartlandApiClient(baseUrl, token);
+  return buildChatCommands({
+    heartland: { apiClient, baseUrl },
+    bricklinkClient: new DefaultBrickLinkClient(
+      bricklink.consumerKey,
+      bricklink.consumerSecret,
+      bricklink.tokenValue,
+      bricklink.tokenSecret
+    ),
+    reportRunner: new HeartlandReportRunner(apiClient),
+  });
+}
+
+async function getOperationalSecret(secretId: string): Promise<OperationalSecret> {
+  if (cachedSecret) {
+    return cachedSecret;
+  }
+
+  const result = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretId })
+  );
+  if (!result.SecretString) {
+    throw new Error('SecretString is empty in Secrets Manager response');
+  }
+
+  cachedSecret = JSON.parse(result.SecretString) as OperationalSecret;
+  return cachedSecret;
+}
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,119 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import {
+  createInventoryExclusionStore,
+  isExclusionActive,
+  parseNewExclusion,
+} from '../../inventory-exclusions';
+
+const exclusionStore = createInventoryExclusionStore(
+  process.env.INVENTORY_EXCLUSIONS_TABLE_NAME
+);
+
+/**
+ * IAM-protected Function URL for managing inventory-non-negative exclusions.
+ *
+ *   GET                          active exclusions (?includeExpired=true for all)
+ *   GET    ?audit=true&limit=N   audit trail, newest first
+ *   POST   { itemId } | { field, value } | { tag }, optional reason, expiresAt
+ *   DELETE ?id=<exclusion id>
+ *
+ * Changes are attributed to the caller's IAM ARN in the audit trail.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  if (!exclusionStore) {
+    console.error('Missing INVENTORY_EXCLUSIONS_TABLE_NAME environment variable');
+    return createResponse(500, {
+      status: 'error',
+      error: 'inventory exclusion store is not configured',
+    });
+  }
+
+  const method = event.requestContext?.http?.method ?? 'GET';
+  const query = event.queryStringParameters ?? {};
+  const actor = getCallerArn(event);
+
+  try {
+    if (method === 'GET' && query.audit === 'true') {
+      const limit = query.limit ? Number(query.limit) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        return createResponse(400, { status: 'error', error: '"limit" must be a positive integer' });
+      }
+      const audit = await exclusionStore.listAudit(limit);
+      return createResponse(200, { status: 'ok', audit });
+    }
+
+    if (method === 'GET') {
+      const now = Date.now();
+      const exclusions = (await exclusionStore.list()).filter(
+        (exclusion) => query.includeExpired === 'true' || isExclusionActive(exclusion, now)
+      );
+      return createResponse(200, { status: 'ok', exclusions });
+    }
+
+    if (method === 'POST') {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(event.body ?? '');
+      } catch (err) {
+        return createResponse(400, { status: 'error', error: `invalid JSON: ${String(err)}` });
+      }
+
+      const parsed = parseNewExclusion(raw);
+      if (!parsed.ok) {
+        return createResponse(400, { status: 'error', error: parsed.error });
+      }
+
+      const exclusion = await exclusionStore.add(parsed.value, actor);
+      console.log('Added inventory exclusion', JSON.stringify(exclusion, null, 2));
+      return createResponse(201, { status: 'ok', exclusion });
+    }
+
+    if (method === 'DELETE') {
+      if (!query.id) {
+        return createResponse(400, { status: 'error', error: 'provide id' });
+      }
+
+      const exclusion = await exclusionStore.remove(query.id, actor);
+      if (!exclusion) {
+        return createResponse(404, { status: 'not_found', id: query.id });
+      }
+      console.log(
+        'Removed inventory exclusion',
+        JSON.stringify({ exclusion, removedBy: actor }, null, 2)
+      );
+      return createResponse(200, { status: 'ok', exclusion });
+    }
+
+    return createResponse(405, { status: 'error', error: `method ${method} not allowed` });
+  } catch (err) {
+    console.error('Inventory exclusion request failed:', err);
+    return createResponse(500, { status: 'error', error: String(err) });
+  }
+};
+
+/**
+ * The IAM principal that signed the request. Function URLs with AWS_IAM auth
+ * pass it in the request context; the plain event type does not declare it.
+ */
+function getCallerArn(event: APIGatewayProxyEventV2): string {
+  const requestContext = event.requestContext as {
+    authorizer?: { iam?: { userArn?: string } };
+  };
+  return requestContext?.authorizer?.iam?.userArn ?? 'unknown';
+}
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
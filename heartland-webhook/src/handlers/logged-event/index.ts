@@ -0,0 +1,59 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import {
+  authenticateWebhookEvent,
+  createUnauthorizedResponse,
+} from '../../webhook-auth';
+import { archivePayload, createPayloadArchive } from '../../payload-archive';
+import { isRecord } from '../../payload-fields';
+import { resolveEventType } from '../../webhook-routes';
+
+const payloadArchive = createPayloadArchive(process.env.WEBHOOK_ARCHIVE_BUCKET);
+
+/**
+ * Handler for event types that are subscribed but have no processing yet
+ * (e.g. item_updated, customer_created). Authenticates, archives and logs the
+ * payload so it can be inspected or replayed once real handling exists.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  const eventType = resolveEventType(event) ?? 'unknown';
+
+  const auth = await authenticateWebhookEvent(event);
+  if (!auth.ok) {
+    console.warn(`Rejected unauthenticated ${eventType} webhook:`, auth.reason);
+    return createUnauthorizedResponse();
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(event.body ?? '') as unknown;
+  } catch (err) {
+    console.error(`Failed to parse ${eventType} body as JSON:`, err);
+    console.error('Raw body:', event.body);
+    return createResponse();
+  }
+
+  const id = isRecord(payload) ? payload.id : undefined;
+  if ((typeof id === 'number' || typeof id === 'string') && event.body) {
+    await archivePayload(payloadArchive, eventType, id, event.body);
+  }
+
+  console.log(
+    `Received Heartland ${eventType} webhook:`,
+    JSON.stringify(payload, null, 2)
+  );
+
+  return createResponse();
+};
+
+function createResponse(): APIGatewayProxyResultV2 {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'ok' }),
+  };
+}
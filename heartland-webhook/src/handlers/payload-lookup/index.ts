@@ -0,0 +1,74 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import { createPayloadArchive } from '../../payload-archive';
+import { TRANSACTION_EVENT_TYPE } from '../../transaction-checks';
+import { ITEM_CREATED_EVENT_TYPE } from '../../item-enrichment';
+
+const payloadArchive = createPayloadArchive(process.env.WEBHOOK_ARCHIVE_BUCKET);
+
+/**
+ * IAM-protected Function URL that returns the archived webhook body for a
+ * ticket or item id.
+ *
+ *   ?ticketId=117060
+ *   ?itemId=109531
+ *   ?eventType=sales_transaction_completed&id=117060
+ *
+ * The `payload` in the response can be passed straight to the replay endpoint
+ * as one of its `events`.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  const query = event.queryStringParameters ?? {};
+
+  let eventType: string | undefined;
+  let id: string | undefined;
+  if (query.ticketId) {
+    eventType = TRANSACTION_EVENT_TYPE;
+    id = query.ticketId;
+  } else if (query.itemId) {
+    eventType = ITEM_CREATED_EVENT_TYPE;
+    id = query.itemId;
+  } else {
+    eventType = query.eventType;
+    id = query.id;
+  }
+
+  if (!eventType || !id) {
+    return createResponse(400, {
+      status: 'error',
+      error: 'provide ticketId, itemId, or eventType and id',
+    });
+  }
+
+  if (!payloadArchive) {
+    console.error('Missing WEBHOOK_ARCHIVE_BUCKET environment variable');
+    return createResponse(500, {
+      status: 'error',
+      error: 'payload archive is not configured',
+    });
+  }
+
+  console.log('Looking up archived payload', JSON.stringify({ eventType, id }, null, 2));
+
+  const payload = await payloadArchive.fetch(eventType, id);
+  if (!payload) {
+    return createResponse(404, { status: 'not_found', eventType, id });
+  }
+
+  return createResponse(200, { status: 'ok', payload });
+};
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
@@ -3,7 +3,8 @@ import {
   GetSecretValueCommand,
   SecretsManagerClient,
 } from '@aws-sdk/client-secrets-manager';
-import { DefaultGroupMeClient, DefaultHeartlandApiClient } from '../../clients';
+import { DefaultHeartlandApiClient } from '../../clients';
+import { PURCHASE_ORDER_RECEIVE_ALERT, createNotifier } from '../../notifier';
 
 const secretsClient = new SecretsManagerClient({});
 let cachedHeartlandToken: string | null = null;
@@ -31,7 +32,6 @@ export const handler = async (event: ScheduledEvent): Promise<void> => {
 
   const baseUrl = process.env.HEARTLAND_API_BASE_URL;
   const secretId = process.env.OPERATIONAL_SECRET_ARN;
-  const groupMeBotId = process.env.GROUPME_BOT_ID;
 
   if (!baseUrl || !secretId) {
     throw new Error(
@@ -39,17 +39,17 @@ export const handler = async (event: ScheduledEvent): Promise<void> => {
     );
   }
 
-  const groupMeClient = groupMeBotId ? new DefaultGroupMeClient(groupMeBotId) : null;
+  const notifier = createNotifier(PURCHASE_ORDER_RECEIVE_ALERT);
 
   const sendAlert = async (message: string): Promise<void> => {
-    if (!groupMeClient) {
-      console.warn('GROUPME_BOT_ID not set; skipping GroupMe alert');
+    if (!notifier) {
+      console.warn('No notification channel for purchase-order-receive; skipping alert');
       return;
     }
     try {
-      await groupMeClient.sendMessage(message);
+      await notifier.sendMessage(message);
     } catch (err) {
-      console.error('Failed to send GroupMe alert:', err);
+      console.error('Failed to send alert:', err);
     }
   };
 
@@ -0,0 +1,152 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager';
+import { DefaultHeartlandApiClient } from '../../clients';
+import {
+  Remediator,
+  createRemediationStore,
+  isRemediationDryRun,
+} from '../../remediation';
+
+const secretsClient = new SecretsManagerClient({});
+let cachedHeartlandToken: string | null = null;
+
+type OperationalSecret = {
+  heartland?: {
+    token?: string;
+  };
+};
+
+/**
+ * IAM-protected Function URL for the remediations applied by failing checks.
+ *
+ *   GET  ?transactionId=<id>            remediations recorded for a transaction
+ *   POST { transactionId, id }          revert an applied remediation
+ *
+ * Reverts are attributed to the caller's IAM ARN on the record.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  const tableName = process.env.REMEDIATION_TABLE_NAME;
+  if (!tableName) {
+    console.error('Missing REMEDIATION_TABLE_NAME environment variable');
+    return createResponse(500, {
+      status: 'error',
+      error: 'remediation store is not configured',
+    });
+  }
+  const store = createRemediationStore(tableName);
+
+  const method = event.requestContext?.http?.method ?? 'GET';
+  const query = event.queryStringParameters ?? {};
+
+  try {
+    if (method === 'GET') {
+      const transactionId = Number(query.transactionId);
+      if (!query.transactionId || !Number.isInteger(transactionId)) {
+        return createResponse(400, { status: 'error', error: 'provide transactionId' });
+      }
+      const remediations = await store.listForTransaction(transactionId);
+      return createResponse(200, { status: 'ok', remediations });
+    }
+
+    if (method === 'POST') {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(event.body ?? '');
+      } catch (err) {
+        return createResponse(400, { status: 'error', error: `invalid JSON: ${String(err)}` });
+      }
+
+      const body = (raw ?? {}) as Record<string, unknown>;
+      if (!Number.isInteger(body.transactionId) || typeof body.id !== 'string') {
+        return createResponse(400, {
+          status: 'error',
+          error: 'body must have an integer "transactionId" and a string "id"',
+        });
+      }
+
+      const baseUrl = process.env.HEARTLAND_API_BASE_URL;
+      const secretId = process.env.OPERATIONAL_SECRET_ARN;
+      if (!baseUrl || !secretId) {
+        throw new Error(
+          'Missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN environment variable'
+        );
+      }
+      const token = await getHeartlandApiTokenFromSecret(secretId);
+      const remediator = new Remediator(
+        new DefaultHeartlandApiClient(baseUrl, token),
+        store,
+        isRemediationDryRun()
+      );
+
+      const result = await remediator.revert(
+        body.transactionId as number,
+        body.id,
+        getCallerArn(event)
+      );
+      if (!result.ok) {
+        return createResponse(result.notFound ? 404 : 409, {
+          status: 'error',
+          error: result.error,
+        });
+      }
+      return createResponse(200, { status: 'ok', remediation: result.value });
+    }
+
+    return createResponse(405, { status: 'error', error: `method ${method} not allowed` });
+  } catch (err) {
+    console.error('Remediation request failed:', err);
+    return createResponse(500, { status: 'error', error: String(err) });
+  }
+};
+
+async function getHeartlandApiTokenFromSecret(secretId: string): Promise<string> {
+  if (cachedHeartlandToken) {
+    return cachedHeartlandToken;
+  }
+
+  const result = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretId })
+  );
+  if (!result.SecretString) {
+    throw new Error('SecretString is empty in Secrets Manager response');
+  }
+
+  const parsed = JSON.parse(result.SecretString) as OperationalSecret;
+  const token = parsed.heartland?.token;
+  if (!token) {
+    throw new Error('Operational secret JSON does not contain heartland.token');
+  }
+
+  cachedHeartlandToken = token;
+  return token;
+}
+
+/**
+ * The IAM principal that signed the request. Function URLs with AWS_IAM auth
+ * pass it in the request context; the plain event type does not declare it.
+ */
+function getCallerArn(event: APIGatewayProxyEventV2): string {
+  const requestContext = event.requestContext as {
+    authorizer?: { iam?: { userArn?: string } };
+  };
+  return requestContext?.authorizer?.iam?.userArn ?? 'unknown';
+}
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,95 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { createPayloadArchive } from '../../payload-archive';
+import {
+  DeadLetterQueueEventSource,
+  PayloadArchiveEventSource,
+  ReplayEventSource,
+  ReplaySourceName,
+  createDefaultReplayProcessors,
+  parseReplayRequest,
+  runReplay,
+} from '../../replay';
+
+const sqsClient = new SQSClient({});
+const payloadArchive = createPayloadArchive(process.env.WEBHOOK_ARCHIVE_BUCKET);
+
+/**
+ * IAM-protected Function URL that re-drives stored webhook events.
+ *
+ * Body: { events?: ReplayEvent[], source?: 'dead-letter-queue' | 'payload-archive',
+ *         eventTypes?: string[], from?: ISO-8601, to?: ISO-8601, maxEvents?: number,
+ *         force?: boolean }
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  console.log(
+    'Received replay request (envelope):',
+    JSON.stringify(
+      {
+        requestContext: {
+          http: event.requestContext?.http,
+          timeEpoch: event.requestContext?.timeEpoch,
+        },
+      },
+      null,
+      2
+    )
+  );
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(event.body ?? '');
+  } catch (err) {
+    return createResponse(400, { status: 'error', error: `invalid JSON: ${String(err)}` });
+  }
+
+  const parsed = parseReplayRequest(raw);
+  if (!parsed.ok) {
+    return createResponse(400, { status: 'error', error: parsed.error });
+  }
+
+  const processors = createDefaultReplayProcessors({ force: parsed.value.force });
+  const sources: Partial<Record<ReplaySourceName, ReplayEventSource>> = {};
+  const deadLetterQueueUrl = process.env.TRANSACTION_DLQ_URL;
+  if (deadLetterQueueUrl) {
+    sources['dead-letter-queue'] = new DeadLetterQueueEventSource(
+      deadLetterQueueUrl,
+      sqsClient
+    );
+  }
+  if (payloadArchive) {
+    sources['payload-archive'] = new PayloadArchiveEventSource(
+      payloadArchive,
+      parsed.value.eventTypes ?? Object.keys(processors)
+    );
+  }
+
+  try {
+    const outcomes = await runReplay(parsed.value, {
+      processors,
+      sources,
+    });
+
+    console.log('Replay outcomes:', JSON.stringify(outcomes, null, 2));
+    return createResponse(200, { status: 'ok', outcomes });
+  } catch (err) {
+    console.error('Replay request failed:', err);
+    return createResponse(400, { status: 'error', error: String(err) });
+  }
+};
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,81 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  Context,
+} from 'aws-lambda';
+import {
+  authenticateWebhookEvent,
+  createUnauthorizedResponse,
+} from '../../webhook-auth';
+import {
+  WebhookHandler,
+  parseWebhookRoutes,
+  resolveEventType,
+} from '../../webhook-routes';
+import { handler as transactionHandler } from '../transaction';
+import { handler as itemHandler } from '../item';
+import { handler as loggedEventHandler } from '../logged-event';
+
+/**
+ * Handler modules the router can dispatch to, by the name used in the CDK
+ * registration table. Each module authenticates the request itself.
+ */
+const HANDLER_MODULES: Record<string, WebhookHandler> = {
+  transaction: transactionHandler,
+  item: itemHandler,
+  log: loggedEventHandler,
+};
+
+const routes = parseWebhookRoutes(
+  process.env.WEBHOOK_ROUTES,
+  Object.keys(HANDLER_MODULES)
+);
+
+/**
+ * Single Function URL for every Heartland webhook event type.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2,
+  context?: Context
+): Promise<APIGatewayProxyResultV2> => {
+  const eventType = resolveEventType(event);
+  const moduleName = eventType ? routes[eventType] : undefined;
+
+  console.log(
+    'Routing Heartland webhook',
+    JSON.stringify({ eventType, handler: moduleName }, null, 2)
+  );
+
+  if (moduleName) {
+    return HANDLER_MODULES[moduleName](event, context);
+  }
+
+  // Unrouted events are still authenticated so the response reveals nothing.
+  const auth = await authenticateWebhookEvent(event);
+  if (!auth.ok) {
+    console.warn('Rejected unauthenticated webhook:', auth.reason);
+    return createUnauthorizedResponse();
+  }
+
+  if (!eventType) {
+    console.warn('Received webhook without an event type');
+    return createResponse(400, {
+      status: 'error',
+      error: 'missing event type',
+    });
+  }
+
+  console.warn('No handler registered for Heartland event type', eventType);
+  return createResponse(200, { status: 'ignored', eventType });
+};
+
+function createResponse(
+  statusCode: number,
+  body: Record<string, unknown>
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
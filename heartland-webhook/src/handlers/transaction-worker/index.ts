@@ -0,0 +1,107 @@
+import { Context, SQSBatchResponse, SQSEvent, SQSRecord } from 'aws-lambda';
+import { TransactionQueueMessage } from '../../model';
+import { createIdempotencyStore, processOnce } from '../../idempotency';
+import { deadlineFromContext } from '../../transaction-checks';
+import {
+  buildTransactionDeliveryKey,
+  isTransactionEventType,
+  processTransactionEvent,
+} from '../../transaction-events';
+import { parseTransactionBody } from '../../transaction-payload';
+
+const idempotencyStore = createIdempotencyStore(process.env.IDEMPOTENCY_TABLE_NAME);
+
+/**
+ * SQS worker for queued sales_transaction_completed, _updated and _voided
+ * webhooks.
+ *
+ * Records that throw (or are still in progress elsewhere) are reported as
+ * batch item failures so SQS retries them; after the queue's
+ * maxReceiveCount they move to the dead-letter queue.
+ */
+export const handler = async (
+  event: SQSEvent,
+  context?: Context
+): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchResponse['batchItemFailures'] = [];
+
+  for (const record of event.Records) {
+    try {
+      const done = await processRecord(record, deadlineFromContext(context));
+      if (!done) {
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    } catch (err) {
+      console.error(
+        'Error evaluating queued transaction',
+        JSON.stringify(
+          {
+            messageId: record.messageId,
+            receiveCount: record.attributes?.ApproximateReceiveCount,
+            error: String(err),
+          },
+          null,
+          2
+        )
+      );
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+};
+
+/**
+ * Returns false when the record should be retried later.
+ */
+async function processRecord(
+  record: SQSRecord,
+  deadline: number | undefined
+): Promise<boolean> {
+  const message = JSON.parse(record.body) as TransactionQueueMessage;
+
+  if (!isTransactionEventType(message.eventType)) {
+    console.warn(
+      'Dropping queued message with unsupported event type',
+      JSON.stringify({ messageId: record.messageId, eventType: message.eventType }, null, 2)
+    );
+    return true;
+  }
+
+  const parsed = parseTransactionBody(message.body);
+  if (!parsed.ok) {
+    // The webhook handler already parsed this body; a bad one will never succeed.
+    console.error('Dropping queued transaction with invalid body:', parsed.error);
+    return true;
+  }
+  const tx = parsed.value;
+
+  console.log(
+    'Evaluating queued transaction',
+    JSON.stringify(
+      {
+        messageId: record.messageId,
+        transactionId: tx.id,
+        eventType: message.eventType,
+        receivedAt: message.receivedAt,
+        receiveCount: record.attributes?.ApproximateReceiveCount,
+      },
+      null,
+      2
+    )
+  );
+
+  if (typeof tx.id !== 'number') {
+    await processTransactionEvent(message.eventType, tx, { deadline });
+    return true;
+  }
+
+  const outcome = await processOnce(
+    idempotencyStore,
+    buildTransactionDeliveryKey(message.eventType, tx, message.body),
+    async () =>
+      JSON.stringify(await processTransactionEvent(message.eventType, tx, { deadline }))
+  );
+
+  return outcome.kind !== 'in_progress';
+}
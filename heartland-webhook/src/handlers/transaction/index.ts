@@ -1,306 +1,77 @@
-// src/index.ts
 import {
   APIGatewayProxyEventV2,
   APIGatewayProxyResultV2,
+  Context,
 } from 'aws-lambda';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
 import {
   HeartlandTransaction,
-  TransactionKind,
-  CheckSummary,
+  PayloadValidationError,
+  TransactionQueueMessage,
   WebhookResponseBody,
-  TransactionCompletionStrategy,
 } from '../../model';
 import {
-  DefaultGroupMeClient,
-  DefaultHeartlandApiClient,
-  GroupMeClient,
-} from '../../clients';
-import { InventoryNonNegativeStrategy } from '../../strategies/inventory-non-negative-strategy';
-import { PriceAdjustedItemStrategy } from '../../strategies/price-adjusted-item-strategy';
-import { HighDiscountTicketStrategy } from '../../strategies/high-discount-ticket-strategy';
+  authenticateWebhookEvent,
+  createUnauthorizedResponse,
+} from '../../webhook-auth';
+import { createIdempotencyStore, processOnce } from '../../idempotency';
 import {
-  SecretsManagerClient,
-  GetSecretValueCommand,
-} from '@aws-sdk/client-secrets-manager';
-
-
-/**
- * Strategy 1:
- * Use Heartland's explicit fields: type/status/completed?
- */
-class TypeAndStatusCompletionStrategy implements TransactionCompletionStrategy {
-  public readonly name = 'type-and-status';
-
-  supports(_tx: HeartlandTransaction): boolean {
-    return true;
-  }
-
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
-    if (typeof tx['completed?'] === 'boolean') {
-      return tx['completed?'] === true;
-    }
-
-    if (typeof tx.status === 'string') {
-      return tx.status.toLowerCase() === 'complete';
-    }
-
-    return false;
-  }
-}
-
-/**
- * Strategy 2:
- * Based on financial fields: a transaction is “good” if
- * balance is 0 and the amounts look settled.
- */
-class BalanceCompletionStrategy implements TransactionCompletionStrategy {
-  public readonly name = 'balance-based';
-
-  supports(tx: HeartlandTransaction): boolean {
-    return typeof tx.balance === 'number';
-  }
-
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
-    if (typeof tx.balance !== 'number') {
-      return false;
-    }
-    return Math.abs(tx.balance) < 0.0001;
-  }
-}
-
-/**
- * Strategy 3:
- * Fallback heuristic: if there's a completed_at timestamp,
- * treat it as complete.
- */
-class CompletedTimestampStrategy implements TransactionCompletionStrategy {
-  public readonly name = 'completed-timestamp';
-
-  supports(tx: HeartlandTransaction): boolean {
-    return (
-      typeof tx.completed_at === 'string' ||
-      typeof tx.local_completed_at === 'string'
-    );
-  }
-
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
-    return Boolean(tx.completed_at || tx.local_completed_at);
-  }
-}
-
-const secretsClient = new SecretsManagerClient({});
-let cachedHeartlandToken: string | null = null;
-let cachedStrategies: TransactionCompletionStrategy[] | null = null;
-
-async function getHeartlandApiTokenFromSecret(): Promise<string> {
-  if (cachedHeartlandToken) {
-    return cachedHeartlandToken;
-  }
-
-  const secretArn = process.env.OPERATIONAL_SECRET_ARN;
-  if (!secretArn) {
-    throw new Error('OPERATIONAL_SECRET_ARN environment variable is not set');
-  }
-
-  const result = await secretsClient.send(
-    new GetSecretValueCommand({ SecretId: secretArn })
-  );
-
-  if (!result.SecretString) {
-    throw new Error('SecretString is empty in Secrets Manager response');
-  }
-
-  const parsed = JSON.parse(result.SecretString) as {
-    heartland?: { token?: string };
-  };
-
-  const token = parsed.heartland?.token;
-  if (!token) {
-    throw new Error('Operational secret JSON does not contain heartland.token');
-  }
-
-  cachedHeartlandToken = token;
-  return token;
-}
-
-
-/**
- * Build the default strategy list.
- *
- * This is async because we may need to fetch the Heartland API token from
- * Secrets Manager to construct the inventory strategy's API client.
- */
-async function buildDefaultCompletionStrategies(): Promise<TransactionCompletionStrategy[]> {
-  if (cachedStrategies) {
-    return cachedStrategies;
-  }
-
-  const strategies: TransactionCompletionStrategy[] = [
-    new TypeAndStatusCompletionStrategy(),
-    new BalanceCompletionStrategy(),
-    new CompletedTimestampStrategy(),
-  ];
-
-  const baseUrl = process.env.HEARTLAND_API_BASE_URL;
-  const secretArn = process.env.OPERATIONAL_SECRET_ARN;
-
-  if (!baseUrl || !secretArn) {
-    console.warn(
-      '[inventory-non-negative] Not added: missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN'
-    );
-    cachedStrategies = strategies;
-    return strategies;
-  }
-
-  try {
-    const token = await getHeartlandApiTokenFromSecret();
-    const apiClient = new DefaultHeartlandApiClient(baseUrl, token);
-    
-    let groupMeClient: GroupMeClient | undefined;
-    const botId = process.env.GROUPME_BOT_ID;
-    
-    if (!botId) {
-      console.warn(
-        '[inventory-non-negative] GROUPME_BOT_ID not set; inventory strategy will not send GroupMe alerts'
-      );
-    } else {
-      groupMeClient = new DefaultGroupMeClient(botId);
-    }
-    
-    strategies.push(new PriceAdjustedItemStrategy(apiClient, groupMeClient));
-    strategies.push(new HighDiscountTicketStrategy(groupMeClient));
-    strategies.push(
-      new InventoryNonNegativeStrategy(apiClient, baseUrl, groupMeClient)
-    );
-
-  } catch (err) {
-    console.error(
-      '[inventory-non-negative] Error creating inventory strategy',
-      err
-    );
-  }
-
-  cachedStrategies = strategies;
-  return strategies;
-}
-
-// Build strategies once per cold start and reuse for all invocations
-const strategiesPromise: Promise<TransactionCompletionStrategy[]> =
-  buildDefaultCompletionStrategies();
+  TRANSACTION_EVENT_TYPE,
+  classifyTransaction,
+  deadlineFromContext,
+} from '../../transaction-checks';
+import {
+  TRANSACTION_VOIDED_EVENT_TYPE,
+  buildTransactionDeliveryKey,
+  isTransactionEventType,
+  processTransactionEvent,
+} from '../../transaction-events';
+import { archivePayload, createPayloadArchive } from '../../payload-archive';
+import {
+  alertOnPayloadDrift,
+  parseTransactionBody,
+} from '../../transaction-payload';
+import { resolveEventType } from '../../webhook-routes';
 
+const sqsClient = new SQSClient({});
+const idempotencyStore = createIdempotencyStore(process.env.IDEMPOTENCY_TABLE_NAME);
+const payloadArchive = createPayloadArchive(process.env.WEBHOOK_ARCHIVE_BUCKET);
 
 /**
- * Evaluate the transaction against all strategies.
- * - overall `check` passes only if all executed checks pass.
+ * Helper for consistent 200 responses
  */
-async function evaluateChecks(
-  tx: HeartlandTransaction,
-  strategies: TransactionCompletionStrategy[]
-): Promise<{ check: boolean; checks: CheckSummary[] }> {
-  const checks: CheckSummary[] = [];
-
-  let overall = true;
-  let anyExecuted = false;
-
-  for (const strategy of strategies) {
-    const supported = strategy.supports(tx);
-
-    if (!supported) {
-      checks.push({
-        name: strategy.name,
-        executed: false,
-        passed: false,
-      });
-      continue;
-    }
-
-    let passed = false;
-    try {
-      passed = await strategy.checkTx(tx);
-    } catch (err) {
-      console.error(
-        `[${strategy.name}] Error during checkTx`,
-        JSON.stringify({ error: String(err) }, null, 2)
-      );
-      passed = false;
-    }
-
-    checks.push({
-      name: strategy.name,
-      executed: true,
-      passed,
-    });
-
-    anyExecuted = true;
-    if (!passed) {
-      overall = false;
-    }
-  }
-
-  if (!anyExecuted) {
-    overall = false;
-  }
-
+function createResponse(body: WebhookResponseBody): APIGatewayProxyResultV2 {
   return {
-    check: overall,
-    checks,
-  };
-}
-
-/**
- * Classify as sale / return / other
- */
-function classifyTransaction(tx: HeartlandTransaction): TransactionKind {
-  if (tx.type === 'Ticket') return 'sale';
-  if (tx.type === 'Return') return 'return';
-
-  if (typeof tx.total === 'number') {
-    if (tx.total > 0) return 'sale';
-    if (tx.total < 0) return 'return';
-  }
-
-  return 'other';
-}
-
-function logTransactionSummary(tx: HeartlandTransaction, kind: TransactionKind): void {
-  const summary = {
-    kind,
-    id: tx.id,
-    type: tx.type,
-    total: tx.total,
-    parent_transaction_id: tx.parent_transaction_id,
-    customer_id: tx.customer_id,
-    customer_name: tx.customer_name,
-    source_location_id: tx.source_location_id,
-    sales_rep: tx.sales_rep,
-    status: tx.status,
-    completed_flag: tx['completed?'],
-    balance: tx.balance,
-    completed_at: tx.completed_at,
-    local_completed_at: tx.local_completed_at,
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
   };
-
-  console.log('Heartland transaction summary:', JSON.stringify(summary, null, 2));
 }
 
 /**
- * Helper for consistent 200 responses
+ * 409 response for a retry that arrives while the first delivery is still
+ * being processed; Heartland will retry again later.
  */
-function createResponse(body: WebhookResponseBody): APIGatewayProxyResultV2 {
+function createInProgressResponse(): APIGatewayProxyResultV2 {
   return {
-    statusCode: 200,
+    statusCode: 409,
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify(body),
+    body: JSON.stringify({ status: 'in_progress' }),
   };
 }
 
 /**
- * Lambda handler
+ * Lambda handler for completed, updated and voided transactions. The event
+ * type comes from the router's query parameter or header; direct posts
+ * without one are treated as completed.
  */
 export const handler = async (
-  event: APIGatewayProxyEventV2
+  event: APIGatewayProxyEventV2,
+  context?: Context
 ): Promise<APIGatewayProxyResultV2> => {
   console.log(
     'Received Heartland webhook event (envelope):',
@@ -317,6 +88,12 @@ export const handler = async (
     )
   );
 
+  const auth = await authenticateWebhookEvent(event);
+  if (!auth.ok) {
+    console.warn('Rejected unauthenticated webhook:', auth.reason);
+    return createUnauthorizedResponse();
+  }
+
   if (!event.body) {
     console.warn('Received webhook with no body');
     return createResponse({
@@ -327,11 +104,9 @@ export const handler = async (
     });
   }
 
-  let tx: HeartlandTransaction;
-  try {
-    tx = JSON.parse(event.body) as HeartlandTransaction;
-  } catch (err) {
-    console.error('Failed to parse webhook body as JSON:', err);
+  const parsed = parseTransactionBody(event.body);
+  if (!parsed.ok) {
+    console.error('Failed to parse webhook body:', parsed.error);
     console.error('Raw body:', event.body);
 
     return createResponse({
@@ -342,24 +117,103 @@ export const handler = async (
     });
   }
 
-  const kind = classifyTransaction(tx);
-  const strategies = await strategiesPromise;
-  const { check, checks } = await evaluateChecks(tx, strategies);
+  const resolvedEventType = resolveEventType(event);
+  const eventType = isTransactionEventType(resolvedEventType)
+    ? (resolvedEventType as string)
+    : TRANSACTION_EVENT_TYPE;
 
-  logTransactionSummary(tx, kind);
-  console.log('Completion checks summary:', JSON.stringify(checks, null, 2));
+  const { value: tx } = parsed;
+  // Only the id of a voided ticket is used, so its shape is not checked
+  const validationErrors =
+    eventType === TRANSACTION_VOIDED_EVENT_TYPE ? [] : parsed.validationErrors;
+  await alertOnPayloadDrift(tx, validationErrors);
 
-  const firstPassing = checks.find((c) => c.executed && c.passed)?.name;
+  if (typeof tx.id === 'number') {
+    await archivePayload(payloadArchive, eventType, tx.id, event.body);
+  }
 
-  const responseBody: WebhookResponseBody = {
-    status: 'ok',
-    transactionKind: kind,
-    transactionId: tx.id,
-    transactionType: tx.type,
-    check,
-    completionStrategy: firstPassing,
-    checks,
-  };
+  const queueUrl = process.env.TRANSACTION_QUEUE_URL;
+  if (queueUrl) {
+    return enqueueTransaction(queueUrl, eventType, tx, event.body, validationErrors);
+  }
+
+  const deadline = deadlineFromContext(context);
+
+  if (typeof tx.id !== 'number') {
+    return createResponse(
+      withValidationErrors(
+        await processTransactionEvent(eventType, tx, { deadline }),
+        validationErrors
+      )
+    );
+  }
 
-  return createResponse(responseBody);
+  const outcome = await processOnce(
+    idempotencyStore,
+    buildTransactionDeliveryKey(eventType, tx, event.body),
+    async () => JSON.stringify(await processTransactionEvent(eventType, tx, { deadline }))
+  );
+
+  if (outcome.kind === 'in_progress') {
+    return createInProgressResponse();
+  }
+
+  return createResponse(
+    withValidationErrors(
+      JSON.parse(outcome.responseBody) as WebhookResponseBody,
+      validationErrors
+    )
+  );
 };
+
+function withValidationErrors(
+  body: WebhookResponseBody,
+  validationErrors: PayloadValidationError[]
+): WebhookResponseBody {
+  return validationErrors.length > 0 ? { ...body, validationErrors } : body;
+}
+
+/**
+ * Hand the raw payload to the transaction worker and acknowledge immediately,
+ * so slow Heartland lookups never run inside the webhook's timeout.
+ */
+async function enqueueTransaction(
+  queueUrl: string,
+  eventType: string,
+  tx: HeartlandTransaction,
+  rawBody: string,
+  validationErrors: PayloadValidationError[]
+): Promise<APIGatewayProxyResultV2> {
+  const message: TransactionQueueMessage = {
+    eventType,
+    body: rawBody,
+    receivedAt: new Date().toISOString(),
+  };
+
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: queueUrl,
+      MessageBody: JSON.stringify(message),
+    })
+  );
+
+  console.log(
+    'Queued Heartland transaction for evaluation',
+    JSON.stringify({ transactionId: tx.id, type: tx.type, eventType }, null, 2)
+  );
+
+  return createResponse(
+    withValidationErrors(
+      {
+        status: 'ok',
+        transactionKind: classifyTransaction(tx),
+        transactionId: tx.id,
+        transactionType: tx.type,
+        check: false,
+        checks: [],
+        queued: true,
+      },
+      validationErrors
+    )
+  );
+}
@@ -5,16 +5,14 @@ import {
 } from '@aws-sdk/client-secrets-manager';
 import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import {
-  DefaultGroupMeClient,
-  DefaultHeartlandApiClient,
-} from '../../clients';
+import { DefaultHeartlandApiClient } from '../../clients';
 import ExcelJS from 'exceljs';
 import {
   FindItemsNotSoldResult,
   HeartlandItemsNotSoldRow,
   HeartlandReportRunner,
 } from '../../heartland-report-runner';
+import { REPORT_ALERT, createNotifier } from '../../notifier';
 
 const secretsClient = new SecretsManagerClient({});
 const s3Client = new S3Client({});
@@ -63,7 +61,6 @@ export const handler = async (event: ScheduledEvent): Promise<void> => {
   const baseUrl = process.env.HEARTLAND_API_BASE_URL;
   const secretId = process.env.OPERATIONAL_SECRET_ARN;
   const reportsBucket = process.env.UNDERSOLD_REPORTS_S3_BUCKET;
-  const groupMeBotId = process.env.GROUPME_BOT_ID;
   if (!baseUrl || !secretId || !reportsBucket) {
     throw new Error(
       'Missing HEARTLAND_API_BASE_URL, OPERATIONAL_SECRET_ARN, or UNDERSOLD_REPORTS_S3_BUCKET environment variable'
@@ -132,14 +129,14 @@ export const handler = async (event: ScheduledEvent): Promise<void> => {
     JSON.stringify({ bucket: reportsBucket, key, presignedUrl }, null, 2)
   );
 
-  if (!groupMeBotId) {
-    console.warn('GROUPME_BOT_ID not set; skipping GroupMe notification');
+  const notifier = createNotifier(REPORT_ALERT);
+  if (!notifier) {
+    console.warn('No notification channel for report; skipping report notification');
     return;
   }
 
-  // Send report link to GroupMe channel.
-  const groupMeClient = new DefaultGroupMeClient(groupMeBotId);
-  await groupMeClient.sendMessage(
+  // Send report link to the report channels.
+  await notifier.sendMessage(
     `Undersold Items report (Used Sets + New Sets, >60 days) is ready: ${presignedUrl}`
   );
 };
@@ -0,0 +1,282 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+export type DeliveryStatus = 'in_progress' | 'completed';
+
+/**
+ * One row of the webhook delivery ledger.
+ */
+export interface DeliveryRecord {
+  deliveryKey: string;
+  status: DeliveryStatus;
+  responseBody?: string;
+  updatedAt: string;
+}
+
+export type ClaimResult =
+  | { claimed: true }
+  | { claimed: false; record: DeliveryRecord };
+
+/**
+ * Ledger of processed webhook deliveries, keyed by event type + entity id.
+ *
+ * A delivery is claimed before processing, completed with the response body
+ * that was returned, and released if processing throws so a retry can run.
+ */
+export interface IdempotencyStore {
+  claim(deliveryKey: string): Promise<ClaimResult>;
+  complete(deliveryKey: string, responseBody: string): Promise<void>;
+  release(deliveryKey: string): Promise<void>;
+}
+
+export type IdempotentOutcome =
+  | { kind: 'processed'; responseBody: string }
+  | { kind: 'duplicate'; responseBody: string }
+  | { kind: 'in_progress' };
+
+// A claim older than this is treated as abandoned (e.g. the Lambda timed out).
+const DEFAULT_IN_PROGRESS_TTL_SECONDS = 120;
+const DEFAULT_COMPLETED_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+export function buildDeliveryKey(eventType: string, id: number | string): string {
+  return `${eventType}#${id}`;
+}
+
+/**
+ * Process-local ledger. Used in tests and when no table is configured, in
+ * which case duplicates are only caught within a single warm container.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<
+    string,
+    DeliveryRecord & { lockExpiresAtMs?: number }
+  >();
+
+  constructor(
+    private readonly inProgressTtlSeconds = DEFAULT_IN_PROGRESS_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async claim(deliveryKey: string): Promise<ClaimResult> {
+    const existing = this.records.get(deliveryKey);
+    const nowMs = this.now();
+
+    if (
+      existing &&
+      !(
+        existing.status === 'in_progress' &&
+        (existing.lockExpiresAtMs ?? 0) < nowMs
+      )
+    ) {
+      return {
+        claimed: false,
+        record: {
+          deliveryKey,
+          status: existing.status,
+          responseBody: existing.responseBody,
+          updatedAt: existing.updatedAt,
+        },
+      };
+    }
+
+    this.records.set(deliveryKey, {
+      deliveryKey,
+      status: 'in_progress',
+      updatedAt: new Date(nowMs).toISOString(),
+      lockExpiresAtMs: nowMs + this.inProgressTtlSeconds * 1000,
+    });
+    return { claimed: true };
+  }
+
+  async complete(deliveryKey: string, responseBody: string): Promise<void> {
+    this.records.set(deliveryKey, {
+      deliveryKey,
+      status: 'completed',
+      responseBody,
+      updatedAt: new Date(this.now()).toISOString(),
+    });
+  }
+
+  async release(deliveryKey: string): Promise<void> {
+    this.records.delete(deliveryKey);
+  }
+}
+
+/**
+ * DynamoDB-backed ledger shared by every Lambda instance.
+ *
+ * Table schema: partition key `deliveryKey` (string), TTL attribute `expiresAt`.
+ */
+export class DynamoDbIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient,
+    private readonly inProgressTtlSeconds = DEFAULT_IN_PROGRESS_TTL_SECONDS,
+    private readonly completedTtlSeconds = DEFAULT_COMPLETED_TTL_SECONDS
+  ) {}
+
+  async claim(deliveryKey: string): Promise<ClaimResult> {
+    const nowMs = Date.now();
+    const nowSeconds = Math.floor(nowMs / 1000);
+
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            deliveryKey,
+            status: 'in_progress',
+            updatedAt: new Date(nowMs).toISOString(),
+            lockExpiresAt: nowSeconds + this.inProgressTtlSeconds,
+            expiresAt: nowSeconds + this.completedTtlSeconds,
+          },
+          ConditionExpression:
+            'attribute_not_exists(deliveryKey) OR (#status = :inProgress AND lockExpiresAt < :now)',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':inProgress': 'in_progress',
+            ':now': nowSeconds,
+          },
+        })
+      );
+      return { claimed: true };
+    } catch (err) {
+      if ((err as { name?: string })?.name !== 'ConditionalCheckFailedException') {
+        throw err;
+      }
+    }
+
+    const existing = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { deliveryKey },
+        ConsistentRead: true,
+      })
+    );
+
+    const item = existing.Item as Partial<DeliveryRecord> | undefined;
+    return {
+      claimed: false,
+      record: {
+        deliveryKey,
+        status: item?.status === 'completed' ? 'completed' : 'in_progress',
+        responseBody:
+          typeof item?.responseBody === 'string' ? item.responseBody : undefined,
+        updatedAt: item?.updatedAt ?? new Date(nowMs).toISOString(),
+      },
+    };
+  }
+
+  async complete(deliveryKey: string, responseBody: string): Promise<void> {
+    const nowMs = Date.now();
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: { deliveryKey },
+        UpdateExpression:
+          'SET #status = :completed, responseBody = :responseBody, updatedAt = :updatedAt, expiresAt = :expiresAt REMOVE lockExpiresAt',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':completed': 'completed',
+          ':responseBody': responseBody,
+          ':updatedAt': new Date(nowMs).toISOString(),
+          ':expiresAt': Math.floor(nowMs / 1000) + this.completedTtlSeconds,
+        },
+      })
+    );
+  }
+
+  async release(deliveryKey: string): Promise<void> {
+    await this.docClient.send(
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: { deliveryKey },
+      })
+    );
+  }
+}
+
+/**
+ * Build the ledger for a handler: DynamoDB when a table name is configured,
+ * otherwise the process-local fallback.
+ */
+export function createIdempotencyStore(tableName?: string): IdempotencyStore {
+  if (!tableName) {
+    return new InMemoryIdempotencyStore();
+  }
+  return new DynamoDbIdempotencyStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+/**
+ * Run `work` at most once per delivery key.
+ *
+ * Ledger failures are logged and processing continues: a duplicate alert is
+ * preferable to dropping a check because the ledger was unavailable.
+ */
+export async function processOnce(
+  store: IdempotencyStore,
+  deliveryKey: string,
+  work: () => Promise<string>
+): Promise<IdempotentOutcome> {
+  let claim: ClaimResult;
+  try {
+    claim = await store.claim(deliveryKey);
+  } catch (err) {
+    console.error(
+      'Idempotency ledger claim failed; processing without deduplication',
+      JSON.stringify({ deliveryKey, error: String(err) }, null, 2)
+    );
+    claim = { claimed: true };
+  }
+
+  if (!claim.claimed) {
+    if (claim.record.status === 'completed' && claim.record.responseBody) {
+      console.log(
+        'Duplicate webhook delivery; returning cached response',
+        JSON.stringify({ deliveryKey, updatedAt: claim.record.updatedAt }, null, 2)
+      );
+      return { kind: 'duplicate', responseBody: claim.record.responseBody };
+    }
+
+    console.warn(
+      'Webhook delivery is already being processed',
+      JSON.stringify({ deliveryKey, updatedAt: claim.record.updatedAt }, null, 2)
+    );
+    return { kind: 'in_progress' };
+  }
+
+  let responseBody: string;
+  try {
+    responseBody = await work();
+  } catch (err) {
+    try {
+      await store.release(deliveryKey);
+    } catch (releaseErr) {
+      console.error(
+        'Idempotency ledger release failed',
+        JSON.stringify({ deliveryKey, error: String(releaseErr) }, null, 2)
+      );
+    }
+    throw err;
+  }
+
+  try {
+    await store.complete(deliveryKey, responseBody);
+  } catch (err) {
+    console.error(
+      'Idempotency ledger complete failed',
+      JSON.stringify({ deliveryKey, error: String(err) }, null, 2)
+    );
+  }
+
+  return { kind: 'processed', responseBody };
+}
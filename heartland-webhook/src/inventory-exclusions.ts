@@ -0,0 +1,548 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { InventoryItem } from './clients';
+
+/**
+ * What an exclusion applies to:
+ * - `item`: one Heartland item id
+ * - `custom-field`: items whose custom field (or top-level field, e.g.
+ *   `track_inventory`) equals `value`, compared case-insensitively. Heartland
+ *   names boolean fields with a trailing `?` (`track_inventory?`), which the
+ *   rule may leave off
+ * - `tag`: items whose comma-separated `custom.tags` include `tag`
+ */
+export type ExclusionRule =
+  | { kind: 'item'; itemId: number }
+  | { kind: 'custom-field'; field: string; value: string }
+  | { kind: 'tag'; tag: string };
+
+export interface InventoryExclusion {
+  id: string;
+  rule: ExclusionRule;
+  reason?: string;
+  createdBy: string;
+  createdAt: string;
+  // ISO-8601; the exclusion stops applying after this instant
+  expiresAt?: string;
+}
+
+export interface NewInventoryExclusion {
+  rule: ExclusionRule;
+  reason?: string;
+  expiresAt?: string;
+}
+
+export type ExclusionAuditAction = 'added' | 'removed';
+
+export interface ExclusionAuditEntry {
+  action: ExclusionAuditAction;
+  exclusionId: string;
+  actor: string;
+  at: string;
+  exclusion: InventoryExclusion;
+}
+
+/**
+ * Managed exclusions for the inventory-non-negative check. Every add and
+ * remove is recorded in the audit trail together with the actor.
+ */
+export interface InventoryExclusionStore {
+  // All exclusions, including expired ones
+  list(): Promise<InventoryExclusion[]>;
+  add(input: NewInventoryExclusion, actor: string): Promise<InventoryExclusion>;
+  // Resolves undefined when no exclusion has the id
+  remove(id: string, actor: string): Promise<InventoryExclusion | undefined>;
+  // Newest first
+  listAudit(limit?: number): Promise<ExclusionAuditEntry[]>;
+  // Whether the named one-off seed has run
+  isSeeded(seed: string): Promise<boolean>;
+  // Run a named one-off seed: add the exclusions and mark the seed as run,
+  // all at once. Resolves [] without adding anything when it already ran.
+  seed(seed: string, inputs: NewInventoryExclusion[], actor: string): Promise<InventoryExclusion[]>;
+}
+
+export type ParseExclusionResult =
+  | { ok: true; value: NewInventoryExclusion }
+  | { ok: false; error: string };
+
+const DEFAULT_AUDIT_LIMIT = 50;
+
+/**
+ * Process-local store. Used in tests; exclusions are lost with the container.
+ */
+export class InMemoryInventoryExclusionStore implements InventoryExclusionStore {
+  private readonly exclusions = new Map<string, InventoryExclusion>();
+  private readonly audit: ExclusionAuditEntry[] = [];
+  private readonly seeds = new Set<string>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async list(): Promise<InventoryExclusion[]> {
+    return Array.from(this.exclusions.values());
+  }
+
+  async add(input: NewInventoryExclusion, actor: string): Promise<InventoryExclusion> {
+    const exclusion = buildExclusion(input, actor, this.now());
+    this.exclusions.set(exclusion.id, exclusion);
+    this.audit.push(buildAuditEntry('added', exclusion, actor, exclusion.createdAt));
+    return exclusion;
+  }
+
+  async remove(id: string, actor: string): Promise<InventoryExclusion | undefined> {
+    const exclusion = this.exclusions.get(id);
+    if (!exclusion) {
+      return undefined;
+    }
+    this.exclusions.delete(id);
+    this.audit.push(
+      buildAuditEntry('removed', exclusion, actor, new Date(this.now()).toISOString())
+    );
+    return exclusion;
+  }
+
+  async listAudit(limit = DEFAULT_AUDIT_LIMIT): Promise<ExclusionAuditEntry[]> {
+    return this.audit.slice().reverse().slice(0, limit);
+  }
+
+  async isSeeded(seed: string): Promise<boolean> {
+    return this.seeds.has(seed);
+  }
+
+  async seed(
+    seed: string,
+    inputs: NewInventoryExclusion[],
+    actor: string
+  ): Promise<InventoryExclusion[]> {
+    if (this.seeds.has(seed)) {
+      return [];
+    }
+    this.seeds.add(seed);
+    const added: InventoryExclusion[] = [];
+    for (const input of inputs) {
+      added.push(await this.add(input, actor));
+    }
+    return added;
+  }
+}
+
+const EXCLUSION_PARTITION = 'exclusion';
+const AUDIT_PARTITION = 'audit';
+const SEED_PARTITION = 'seed';
+
+/**
+ * DynamoDB-backed store shared by the worker and the admin endpoint.
+ *
+ * Table schema: partition key `pk` (string), sort key `sk` (string).
+ * Exclusions live under `pk = "exclusion"` keyed by id; audit entries under
+ * `pk = "audit"` keyed by `<timestamp>#<id>#<action>`, so they sort
+ * chronologically. Seeds that have run are marked under `pk = "seed"`,
+ * keyed by name.
+ * An exclusion and its audit entry are written in one transaction, and so
+ * is a seed with its marker.
+ */
+export class DynamoDbInventoryExclusionStore implements InventoryExclusionStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient
+  ) {}
+
+  async list(): Promise<InventoryExclusion[]> {
+    const items = await this.query(EXCLUSION_PARTITION);
+    return items.map((item) => item.exclusion as InventoryExclusion);
+  }
+
+  async add(input: NewInventoryExclusion, actor: string): Promise<InventoryExclusion> {
+    const exclusion = buildExclusion(input, actor, Date.now());
+    const entry = buildAuditEntry('added', exclusion, actor, exclusion.createdAt);
+
+    await this.docClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: this.tableName,
+              Item: { pk: EXCLUSION_PARTITION, sk: exclusion.id, exclusion },
+              ConditionExpression: 'attribute_not_exists(sk)',
+            },
+          },
+          { Put: { TableName: this.tableName, Item: this.auditItem(entry) } },
+        ],
+      })
+    );
+    return exclusion;
+  }
+
+  async remove(id: string, actor: string): Promise<InventoryExclusion | undefined> {
+    const existing = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { pk: EXCLUSION_PARTITION, sk: id },
+        ConsistentRead: true,
+      })
+    );
+    const exclusion = existing.Item?.exclusion as InventoryExclusion | undefined;
+    if (!exclusion) {
+      return undefined;
+    }
+
+    const entry = buildAuditEntry('removed', exclusion, actor, new Date().toISOString());
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: { pk: EXCLUSION_PARTITION, sk: id },
+                ConditionExpression: 'attribute_exists(sk)',
+              },
+            },
+            { Put: { TableName: this.tableName, Item: this.auditItem(entry) } },
+          ],
+        })
+      );
+    } catch (err) {
+      // Removed concurrently by someone else; their audit entry stands
+      if ((err as { name?: string })?.name === 'TransactionCanceledException') {
+        return undefined;
+      }
+      throw err;
+    }
+    return exclusion;
+  }
+
+  async listAudit(limit = DEFAULT_AUDIT_LIMIT): Promise<ExclusionAuditEntry[]> {
+    const items = await this.query(AUDIT_PARTITION, { newestFirst: true, limit });
+    return items.map((item) => item.entry as ExclusionAuditEntry);
+  }
+
+  async isSeeded(seed: string): Promise<boolean> {
+    const marker = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { pk: SEED_PARTITION, sk: seed },
+        ConsistentRead: true,
+      })
+    );
+    return Boolean(marker.Item);
+  }
+
+  async seed(
+    seed: string,
+    inputs: NewInventoryExclusion[],
+    actor: string
+  ): Promise<InventoryExclusion[]> {
+    const nowMs = Date.now();
+    const exclusions = inputs.map((input) => buildExclusion(input, actor, nowMs));
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: { pk: SEED_PARTITION, sk: seed, seededAt: new Date(nowMs).toISOString() },
+                ConditionExpression: 'attribute_not_exists(sk)',
+              },
+            },
+            ...exclusions.flatMap((exclusion) => [
+              {
+                Put: {
+                  TableName: this.tableName,
+                  Item: { pk: EXCLUSION_PARTITION, sk: exclusion.id, exclusion },
+                },
+              },
+              {
+                Put: {
+                  TableName: this.tableName,
+                  Item: this.auditItem(
+                    buildAuditEntry('added', exclusion, actor, exclusion.createdAt)
+                  ),
+                },
+              },
+            ]),
+          ],
+        })
+      );
+    } catch (err) {
+      // Seeded concurrently by another instance
+      if ((err as { name?: string })?.name === 'TransactionCanceledException') {
+        return [];
+      }
+      throw err;
+    }
+    return exclusions;
+  }
+
+  private auditItem(entry: ExclusionAuditEntry): Record<string, unknown> {
+    return {
+      pk: AUDIT_PARTITION,
+      sk: `${entry.at}#${entry.exclusionId}#${entry.action}`,
+      entry,
+    };
+  }
+
+  private async query(
+    partition: string,
+    { newestFirst = false, limit }: { newestFirst?: boolean; limit?: number } = {}
+  ): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'pk = :pk',
+          ExpressionAttributeValues: { ':pk': partition },
+          ScanIndexForward: !newestFirst,
+          ...(limit !== undefined ? { Limit: limit - items.length } : {}),
+          ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+        })
+      );
+      items.push(...(page.Items ?? []));
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey && (limit === undefined || items.length < limit));
+
+    return items;
+  }
+}
+
+/**
+ * Build the store for a handler, or undefined when no table is configured
+ * (only the exclusions bundled in the strategy config then apply).
+ */
+export function createInventoryExclusionStore(
+  tableName?: string
+): InventoryExclusionStore | undefined {
+  if (!tableName) {
+    return undefined;
+  }
+  return new DynamoDbInventoryExclusionStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+export function isExclusionActive(exclusion: InventoryExclusion, nowMs = Date.now()): boolean {
+  return !exclusion.expiresAt || Date.parse(exclusion.expiresAt) > nowMs;
+}
+
+/**
+ * Whether the rule excludes the item. `item` is only needed for
+ * custom-field and tag rules; without it they never match.
+ */
+export function exclusionMatches(
+  rule: ExclusionRule,
+  itemId: number,
+  item?: InventoryItem
+): boolean {
+  if (rule.kind === 'item') {
+    return rule.itemId === itemId;
+  }
+  if (!item) {
+    return false;
+  }
+
+  if (rule.kind === 'tag') {
+    const tags = typeof item.custom?.tags === 'string' ? item.custom.tags : '';
+    return tags
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .includes(rule.tag.toLowerCase());
+  }
+
+  const value = item.custom?.[rule.field] ?? item[rule.field] ?? item[`${rule.field}?`];
+  return (
+    value !== undefined &&
+    value !== null &&
+    String(value).trim().toLowerCase() === rule.value.toLowerCase()
+  );
+}
+
+/**
+ * Parse an admin request body. Exactly one of:
+ *
+ *   { "itemId": 101996 }
+ *   { "field": "track_inventory", "value": "false" }
+ *   { "tag": "consignment" }
+ *
+ * plus optional `reason` and `expiresAt` (ISO-8601, in the future).
+ */
+export function parseNewExclusion(
+  raw: unknown,
+  nowMs = Date.now()
+): ParseExclusionResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'request body must be a JSON object' };
+  }
+  const body = raw as Record<string, unknown>;
+
+  const kinds = ['itemId', 'field', 'tag'].filter((key) => body[key] !== undefined);
+  if (kinds.length !== 1) {
+    return { ok: false, error: 'provide exactly one of itemId, field (with value) or tag' };
+  }
+
+  let rule: ExclusionRule;
+  if (body.itemId !== undefined) {
+    if (!Number.isInteger(body.itemId)) {
+      return { ok: false, error: '"itemId" must be an integer' };
+    }
+    rule = { kind: 'item', itemId: body.itemId as number };
+  } else if (body.field !== undefined) {
+    if (!isNonEmptyString(body.field)) {
+      return { ok: false, error: '"field" must be a non-empty string' };
+    }
+    if (
+      typeof body.value !== 'string' &&
+      typeof body.value !== 'number' &&
+      typeof body.value !== 'boolean'
+    ) {
+      return { ok: false, error: '"value" must be a string, number or boolean' };
+    }
+    rule = { kind: 'custom-field', field: body.field.trim(), value: String(body.value) };
+  } else {
+    if (!isNonEmptyString(body.tag)) {
+      return { ok: false, error: '"tag" must be a non-empty string' };
+    }
+    rule = { kind: 'tag', tag: body.tag.trim() };
+  }
+
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    return { ok: false, error: '"reason" must be a string' };
+  }
+
+  let expiresAt: string | undefined;
+  if (body.expiresAt !== undefined) {
+    const expiresAtMs = typeof body.expiresAt === 'string' ? Date.parse(body.expiresAt) : NaN;
+    if (Number.isNaN(expiresAtMs)) {
+      return { ok: false, error: '"expiresAt" must be an ISO-8601 date' };
+    }
+    if (expiresAtMs <= nowMs) {
+      return { ok: false, error: '"expiresAt" must be in the future' };
+    }
+    expiresAt = new Date(expiresAtMs).toISOString();
+  }
+
+  return {
+    ok: true,
+    value: {
+      rule,
+      ...(body.reason ? { reason: body.reason as string } : {}),
+      ...(expiresAt ? { expiresAt } : {}),
+    },
+  };
+}
+
+/**
+ * Items the inventory-non-negative check excluded by default before
+ * exclusions moved to the table. Seeded into the table once by
+ * seedLegacyExclusions, and the check's default until then.
+ */
+export const LEGACY_EXCLUDED_ITEM_IDS: readonly number[] = [
+  101996,
+  106379,
+  102112,
+  104961,
+  104962,
+  103065,
+];
+
+const LEGACY_SEED = 'legacy-excluded-item-ids';
+const SEED_ACTOR = 'seed';
+
+/**
+ * Add the legacy item exclusions to the table unless it was seeded before,
+ * skipping ids that already have an active exclusion. Runs when the
+ * transaction checks are built, so no manual step is needed after a deploy.
+ * Resolves false when the table could not be seeded; the caller then keeps
+ * excluding the legacy ids itself.
+ */
+export async function seedLegacyExclusions(
+  store: InventoryExclusionStore,
+  nowMs = Date.now()
+): Promise<boolean> {
+  try {
+    if (await store.isSeeded(LEGACY_SEED)) {
+      return true;
+    }
+    const excluded = new Set(
+      (await store.list()).flatMap((exclusion) =>
+        exclusion.rule.kind === 'item' && isExclusionActive(exclusion, nowMs)
+          ? [exclusion.rule.itemId]
+          : []
+      )
+    );
+    const added = await store.seed(
+      LEGACY_SEED,
+      LEGACY_EXCLUDED_ITEM_IDS.filter((itemId) => !excluded.has(itemId)).map((itemId) => ({
+        rule: { kind: 'item' as const, itemId },
+        reason: 'Formerly bundled with the inventory-non-negative check',
+      })),
+      SEED_ACTOR
+    );
+    if (added.length > 0) {
+      console.log(
+        'Seeded legacy inventory exclusions',
+        JSON.stringify(
+          { exclusions: added.map((exclusion) => describeExclusionRule(exclusion.rule)) },
+          null,
+          2
+        )
+      );
+    }
+    return true;
+  } catch (err) {
+    console.error(
+      'Error seeding legacy inventory exclusions; excluding them from config instead',
+      JSON.stringify({ error: String(err) }, null, 2)
+    );
+    return false;
+  }
+}
+
+export function describeExclusionRule(rule: ExclusionRule): string {
+  switch (rule.kind) {
+    case 'item':
+      return `item ${rule.itemId}`;
+    case 'custom-field':
+      return `${rule.field}=${rule.value}`;
+    case 'tag':
+      return `tag "${rule.tag}"`;
+  }
+}
+
+function buildExclusion(
+  input: NewInventoryExclusion,
+  actor: string,
+  nowMs: number
+): InventoryExclusion {
+  return {
+    id: randomUUID(),
+    rule: input.rule,
+    ...(input.reason ? { reason: input.reason } : {}),
+    createdBy: actor,
+    createdAt: new Date(nowMs).toISOString(),
+    ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
+  };
+}
+
+function buildAuditEntry(
+  action: ExclusionAuditAction,
+  exclusion: InventoryExclusion,
+  actor: string,
+  at: string
+): ExclusionAuditEntry {
+  return { action, exclusionId: exclusion.id, actor, at, exclusion };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
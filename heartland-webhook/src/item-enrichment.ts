@@ -0,0 +1,479 @@
+import { HeartlandItemCreatedPayload } from './model';
+import {
+  DefaultBrickLinkClient,
+  DefaultHeartlandApiClient,
+  DefaultToyhouseMasterDataClient,
+  ToyhouseMasterDataItem,
+  buildHeartlandUrl,
+} from './clients';
+import { IMAGE_FAILURE_ALERT, createNotifier } from './notifier';
+import {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+} from '@aws-sdk/client-secrets-manager';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  getBoolean,
+  getBooleanOrNull,
+  getNumber,
+  getNumberOrNull,
+  getRecordOrNull,
+  getString,
+  getStringOrNull,
+  isRecord,
+} from './payload-fields';
+
+export const ITEM_CREATED_EVENT_TYPE = 'item_created';
+
+/**
+ * Fetch and apply the item image, then set tags. Failures are reported to
+ * GroupMe rather than thrown.
+ */
+export async function processItemCreated(
+  payload: HeartlandItemCreatedPayload
+): Promise<void> {
+  console.log(
+    'Parsed Heartland item_created payload:',
+    JSON.stringify(payload, null, 2)
+  );
+
+  const baseUrl = process.env.HEARTLAND_API_BASE_URL;
+  const operationalSecretArn = process.env.OPERATIONAL_SECRET_ARN;
+  const toyhouseMasterDataS3Path = process.env.TOYHOUSE_MASTER_DATA_S3_PATH;
+
+  console.log('Item handler configuration:', {
+    baseUrl,
+    hasOperationalSecretArn: Boolean(operationalSecretArn),
+    toyhouseMasterDataS3Path,
+  });
+
+  if (!baseUrl || !operationalSecretArn) {
+    console.warn(
+      'Skipping item enrichment: missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN'
+    );
+    return;
+  }
+
+  if (typeof payload.id !== 'number') {
+    console.warn('Skipping item enrichment: payload is missing numeric id');
+    return;
+  }
+
+  const subDepartmentFromPayload = payload.custom?.subDepartment;
+  const useToyhouseImage = isNewInBoxSubDepartment(subDepartmentFromPayload);
+  const bricklinkId = payload.custom?.bricklinkId;
+  const toyhouseLookupId = bricklinkId
+    ? bricklinkId.split('-')[0]?.trim() || undefined
+    : undefined;
+  const bricklinkItemType = departmentToBricklinkItemType(
+    payload.custom?.department
+  );
+  let imageFailureReason: string | null = null;
+  let imageUrl: string | undefined;
+  let toyhouseItem: ToyhouseMasterDataItem | null = null;
+
+  console.log('Image selection context:', {
+    subDepartment: subDepartmentFromPayload,
+    useToyhouseImage,
+    bricklinkId,
+    toyhouseLookupId,
+  });
+
+  if (!bricklinkId) {
+    imageFailureReason = 'missing bricklinkId';
+  } else if (useToyhouseImage) {
+    if (!toyhouseMasterDataS3Path) {
+      imageFailureReason = 'missing TOYHOUSE_MASTER_DATA_S3_PATH';
+    } else if (!toyhouseLookupId) {
+      imageFailureReason = 'missing Toyhouse lookup id';
+    } else {
+      try {
+        const toyhouseClient = getToyhouseMasterDataClient(
+          toyhouseMasterDataS3Path
+        );
+        toyhouseItem = await toyhouseClient.getItemByNumber(toyhouseLookupId);
+        imageUrl = normalizeImageUrl(getToyhouseImageUrl(toyhouseItem));
+        if (!imageUrl) {
+          imageFailureReason = `Toyhouse image not found for Item # ${toyhouseLookupId}`;
+        }
+      } catch (err) {
+        imageFailureReason = `Toyhouse lookup failed: ${String(err)}`;
+      }
+    }
+  }
+
+  console.log('Toyhouse lookup result:', {
+    hasToyhouseItem: Boolean(toyhouseItem),
+    imageUrl,
+    imageFailureReason,
+  });
+
+  let heartlandClient: DefaultHeartlandApiClient;
+  let bricklinkClient: DefaultBrickLinkClient;
+
+  try {
+    const { heartlandToken, bricklinkCreds } =
+      await getOperationalSecrets(operationalSecretArn);
+
+    heartlandClient = new DefaultHeartlandApiClient(baseUrl, heartlandToken);
+    bricklinkClient = new DefaultBrickLinkClient(
+      bricklinkCreds.consumerKey,
+      bricklinkCreds.consumerSecret,
+      bricklinkCreds.tokenValue,
+      bricklinkCreds.tokenSecret
+    );
+  } catch (err) {
+    console.error('Error loading operational secrets:', err);
+    await sendImageFailureMessage({
+      baseUrl,
+      itemId: payload.id,
+      reason: `Operational secrets error: ${String(err)}`,
+    });
+    return;
+  }
+
+  if (!imageFailureReason && !useToyhouseImage && bricklinkId) {
+    try {
+      console.log('Fetching BrickLink image:', { bricklinkId, bricklinkItemType });
+      const bricklinkItem = await bricklinkClient.getItem(bricklinkItemType, bricklinkId);
+      const rawImageUrl =
+        (bricklinkItem as { image_url?: string }).image_url ??
+        bricklinkItem.item?.image_url;
+      imageUrl = normalizeImageUrl(rawImageUrl);
+      if (!imageUrl) {
+        imageFailureReason = `BrickLink image not found for Item # ${toyhouseLookupId ?? 'unknown'}`;
+      }
+    } catch (err) {
+      imageFailureReason = `BrickLink lookup failed: ${String(err)}`;
+    }
+  }
+
+  console.log('BrickLink lookup result:', {
+    imageUrl,
+    imageFailureReason,
+  });
+
+  if (imageUrl) {
+    try {
+      console.log('Updating Heartland item image:', {
+        itemId: payload.id,
+        imageUrl,
+      });
+      await heartlandClient.updateInventoryItemImage(payload.id, imageUrl);
+    } catch (err) {
+      imageFailureReason = `Heartland image update failed: ${String(err)}`;
+    }
+  } else {
+    console.warn('Skipping image update because imageUrl is empty', {
+      itemId: payload.id,
+      imageFailureReason,
+    });
+  }
+
+  if (imageFailureReason) {
+    await sendImageFailureMessage({
+      baseUrl,
+      itemId: payload.id,
+      reason: imageFailureReason,
+      // Set when an image was found but could not be saved to Heartland
+      imageUrl,
+    });
+  }
+
+  try {
+    const bamCategory = payload.custom?.bamCategory;
+    const category = payload.custom?.category;
+    const tags = ['add', bamCategory, category].filter(Boolean).join(', ');
+
+    console.log('Updating Heartland item tags:', {
+      itemId: payload.id,
+      tags,
+    });
+    await heartlandClient.updateInventoryItem(payload.id, {
+      custom: { tags },
+    });
+  } catch (err) {
+    console.error('Error updating Heartland item tags:', err);
+  }
+
+}
+
+const s3Client = new S3Client({});
+let cachedToyhouseClient: DefaultToyhouseMasterDataClient | null = null;
+let cachedToyhousePath: string | null = null;
+
+const secretsClient = new SecretsManagerClient({});
+let cachedHeartlandToken: string | null = null;
+let cachedBricklinkCreds:
+  | {
+      consumerKey: string;
+      consumerSecret: string;
+      tokenValue: string;
+      tokenSecret: string;
+    }
+  | null = null;
+
+async function getOperationalSecrets(secretArn: string): Promise<{
+  heartlandToken: string;
+  bricklinkCreds: {
+    consumerKey: string;
+    consumerSecret: string;
+    tokenValue: string;
+    tokenSecret: string;
+  };
+}> {
+  if (cachedHeartlandToken && cachedBricklinkCreds) {
+    return {
+      heartlandToken: cachedHeartlandToken,
+      bricklinkCreds: cachedBricklinkCreds,
+    };
+  }
+
+  const result = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretArn })
+  );
+
+  if (!result.SecretString) {
+    throw new Error('SecretString is empty in Secrets Manager response');
+  }
+
+  const parsed = JSON.parse(result.SecretString) as {
+    heartland?: { token?: string };
+    bricklink?: {
+      consumerKey?: string;
+      consumerSecret?: string;
+      tokenValue?: string;
+      tokenSecret?: string;
+    };
+  };
+
+  const token = parsed.heartland?.token;
+  if (!token) {
+    throw new Error('Operational secret JSON does not contain heartland.token');
+  }
+
+  const consumerKey = parsed.bricklink?.consumerKey;
+  const consumerSecret = parsed.bricklink?.consumerSecret;
+  const tokenValue = parsed.bricklink?.tokenValue;
+  const tokenSecret = parsed.bricklink?.tokenSecret;
+
+  if (!consumerKey || !consumerSecret || !tokenValue || !tokenSecret) {
+    throw new Error(
+      'Operational secret JSON must include bricklink.consumerKey, bricklink.consumerSecret, bricklink.tokenValue, bricklink.tokenSecret'
+    );
+  }
+
+  cachedHeartlandToken = token;
+  cachedBricklinkCreds = {
+    consumerKey,
+    consumerSecret,
+    tokenValue,
+    tokenSecret,
+  };
+
+  return {
+    heartlandToken: token,
+    bricklinkCreds: cachedBricklinkCreds,
+  };
+}
+
+function getToyhouseMasterDataClient(
+  s3Path: string
+): DefaultToyhouseMasterDataClient {
+  if (!cachedToyhouseClient || cachedToyhousePath !== s3Path) {
+    cachedToyhouseClient = new DefaultToyhouseMasterDataClient(
+      s3Path,
+      s3Client
+    );
+    cachedToyhousePath = s3Path;
+  }
+
+  return cachedToyhouseClient;
+}
+
+async function sendImageFailureMessage(params: {
+  baseUrl: string;
+  itemId: number;
+  reason: string;
+  // Candidate image, attached so staff can set it by hand
+  imageUrl?: string;
+}): Promise<void> {
+  const { baseUrl, itemId, reason, imageUrl } = params;
+  const notifier = createNotifier(IMAGE_FAILURE_ALERT);
+  if (!notifier) {
+    console.warn(
+      'No notification channel for image-failure; cannot send image failure notification'
+    );
+    return;
+  }
+
+  const itemUrl = buildHeartlandUrl(baseUrl, `/#items/edit/${itemId}`);
+  const message = `Cannot set image for ${itemId} (${itemUrl} ) because ${reason}`;
+
+  try {
+    await (imageUrl
+      ? notifier.sendMessage(message, undefined, { imageUrl })
+      : notifier.sendMessage(message));
+  } catch (err) {
+    console.error('Error posting image failure notification', err);
+  }
+}
+
+function isNewInBoxSubDepartment(subDepartment: string | undefined): boolean {
+  if (!subDepartment) {
+    return false;
+  }
+  return subDepartment.trim().toLowerCase() === 'new in box';
+}
+
+function departmentToBricklinkItemType(department: string | undefined): string {
+  if (department?.trim().toLowerCase() === 'minifigs') {
+    return 'MINIFIG';
+  }
+  return 'SET';
+}
+
+function getToyhouseImageUrl(
+  item: ToyhouseMasterDataItem | null
+): string | undefined {
+  if (!item) {
+    return undefined;
+  }
+
+  const raw = item.raw ?? {};
+  const candidates = [
+    raw['Image 1'],
+    raw['Image 2'],
+    raw['Image 3'],
+  ];
+
+  for (const value of candidates) {
+    const trimmed = value?.trim();
+    if (trimmed) {
+      return trimmed;
+    }
+  }
+
+  return undefined;
+}
+
+function normalizeImageUrl(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  if (url.startsWith('//')) {
+    return `http:${url}`;
+  }
+  return url;
+}
+
+export type ParseResult =
+  | { ok: true; value: HeartlandItemCreatedPayload }
+  | { ok: false; error: string };
+
+export function parseItemCreatedBody(body: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body) as unknown;
+  } catch (err) {
+    return { ok: false, error: `invalid JSON: ${String(err)}` };
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, error: 'payload is not an object' };
+  }
+
+  const id = getNumber(raw, 'id');
+  if (typeof id !== 'number') {
+    return { ok: false, error: 'payload is missing a numeric id' };
+  }
+
+  const payload: HeartlandItemCreatedPayload = {
+    id,
+    metadata: getRecordOrNull(raw, 'metadata'),
+    cost: getNumberOrNull(raw, 'cost'),
+    price: getNumberOrNull(raw, 'price'),
+    description: getString(raw, 'description'),
+    allowFractionalQty: getBoolean(raw, 'allow_fractional_qty?'),
+    publicId: getString(raw, 'public_id'),
+    defaultLookupId: getNumberOrNull(raw, 'default_lookup_id'),
+    longDescription: getString(raw, 'long_description'),
+    custom: getCustomFields(raw.custom),
+    active: getBoolean(raw, 'active?'),
+    createdAt: getString(raw, 'created_at'),
+    updatedAt: getString(raw, 'updated_at'),
+    financialClassId: getNumberOrNull(raw, 'financial_class_id'),
+    importBatchId: getNumberOrNull(raw, 'import_batch_id'),
+    primaryVendorId: getNumberOrNull(raw, 'primary_vendor_id'),
+    primaryBarcode: getStringOrNull(raw, 'primary_barcode'),
+    gridId: getNumberOrNull(raw, 'grid_id'),
+    originalPrice: getNumberOrNull(raw, 'original_price'),
+    sortKey: getNumberOrNull(raw, 'sort_key'),
+    metadataPrivate: getRecordOrNull(raw, 'metadata_private'),
+    importSetId: getNumberOrNull(raw, 'import_set_id'),
+    createdByUserId: getNumberOrNull(raw, 'created_by_user_id'),
+    promptForPrice: getBoolean(raw, 'prompt_for_price?'),
+    promptForDescription: getBoolean(raw, 'prompt_for_description?'),
+    useDynamicMargin: getBoolean(raw, 'use_dynamic_margin?'),
+    dynamicMargin: getNumberOrNull(raw, 'dynamic_margin'),
+    updatedByUserId: getNumberOrNull(raw, 'updated_by_user_id'),
+    weight: getNumberOrNull(raw, 'weight'),
+    width: getNumberOrNull(raw, 'width'),
+    height: getNumberOrNull(raw, 'height'),
+    depth: getNumberOrNull(raw, 'depth'),
+    trackInventory: getBoolean(raw, 'track_inventory?'),
+    addOnForItemsMatchingFilter: getBoolean(
+      raw,
+      'add_on_for_items_matching_filter?'
+    ),
+    addOnItemFilter: getStringOrNull(raw, 'add_on_item_filter'),
+    uuid: getString(raw, 'uuid'),
+    primaryImageId: getNumberOrNull(raw, 'primary_image_id'),
+    defaultPriceListId: getNumberOrNull(raw, 'default_price_list_id'),
+    type: getString(raw, 'type'),
+    availableOnline: getBoolean(raw, 'available_online?'),
+    hasImages: getBooleanOrNull(raw, 'has_images?'),
+    weightUnit: getStringOrNull(raw, 'weight_unit'),
+    widthUnit: getStringOrNull(raw, 'width_unit'),
+    heightUnit: getStringOrNull(raw, 'height_unit'),
+    depthUnit: getStringOrNull(raw, 'depth_unit'),
+    productType: getString(raw, 'product_type'),
+  };
+
+  return { ok: true, value: payload };
+}
+
+function getCustomFields(
+  value: unknown
+): HeartlandItemCreatedPayload['custom'] {
+  if (value === null || value === undefined) {
+    return value as null | undefined;
+  }
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  const mapped: HeartlandItemCreatedPayload['custom'] = {
+    upc: getString(value, 'upc'),
+    tags: getString(value, 'tags'),
+    theme: getString(value, 'theme'),
+    series: getString(value, 'series'),
+    retired: getString(value, 'retired'),
+    category: getString(value, 'category'),
+    department: getString(value, 'department'),
+    launchDate: getString(value, 'launch_date'),
+    bamCategory: getString(value, 'bam_category'),
+    bricklinkId: getString(value, 'bricklink_id'),
+    taxCategory: getString(value, 'tax_category'),
+    subDepartment: getString(value, 'sub_department'),
+    retirementDate: getString(value, 'retirement_date'),
+  };
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (!(key in mapped)) {
+      mapped[key] = fieldValue;
+    }
+  }
+
+  return mapped;
+}
@@ -1,18 +1,22 @@
 // src/model.ts
+import { TransactionContext } from './transaction-context';
+
 export type HeartlandTransactionType = 'Ticket' | 'Return' | string;
 
 export interface HeartlandTransaction {
   id: number;
   type: HeartlandTransactionType;
-  customer_id?: number;
-  customer_name?: string;
+  customer_id?: number | null;
+  customer_name?: string | null;
   source_location_id?: number;
-  sales_rep?: string;
+  sales_rep?: string | null;
   total: number;
+  total_discounts?: number;
+  original_subtotal?: number;
   parent_transaction_id?: number | null;
   status?: string;
-  completed_at?: string;
-  local_completed_at?: string;
+  completed_at?: string | null;
+  local_completed_at?: string | null;
   // Heartland literal field name
   'completed?'?: boolean;
   balance?: number;
@@ -22,10 +26,67 @@ export interface HeartlandTransaction {
 
 export type TransactionKind = 'sale' | 'return' | 'other';
 
+export type CheckSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Structured outcome of a strategy check. `reason` is a one-line, human
+ * readable explanation; `evidence` carries the values behind it (offending
+ * item ids, discount percent, price deltas, ...).
+ */
+export interface CheckResult {
+  passed: boolean;
+  severity?: CheckSeverity;
+  reason?: string;
+  evidence?: Record<string, unknown>;
+  // Changes to make in Heartland because the check failed
+  remediations?: RemediationAction[];
+}
+
+/**
+ * A change to Heartland data requested by a failing check. Actions are plain
+ * data so they can be recorded, held back in dry-run mode and reverted later
+ * (see src/remediation.ts).
+ */
+export type RemediationAction =
+  | { kind: 'add-item-tag'; itemId: number; tag: string }
+  | { kind: 'annotate-ticket'; ticketId: number; field: string; note: string };
+
+export type RemediationStatus = 'applied' | 'dry-run' | 'unchanged' | 'failed' | 'reverted';
+
+export interface RemediationOutcome {
+  id: string;
+  kind: RemediationAction['kind'];
+  status: RemediationStatus;
+  error?: string;
+}
+
 export interface CheckSummary {
   name: string;
   executed: boolean;
   passed: boolean;
+  // True when the strategy did not finish within its timeout
+  timedOut?: boolean;
+  // True for strategies in shadow mode; they do not count towards `check`
+  shadow?: boolean;
+  // Only present when the strategy returned a CheckResult, threw or timed out
+  severity?: CheckSeverity;
+  reason?: string;
+  evidence?: Record<string, unknown>;
+  // What happened to each remediation the check asked for
+  remediations?: RemediationOutcome[];
+  // True when the check's alert reached someone: sent, not dropped as a
+  // repeat. Only these are followed up when the ticket is edited or voided
+  alerted?: boolean;
+}
+
+/**
+ * A payload field that is missing or has an unexpected type.
+ */
+export interface PayloadValidationError {
+  field: string;
+  code: 'missing' | 'invalid_type';
+  expected: string;
+  received: string;
 }
 
 export interface WebhookResponseBody {
@@ -36,6 +97,24 @@ export interface WebhookResponseBody {
   check: boolean;
   completionStrategy?: string;
   checks: CheckSummary[];
+  // True when the payload was queued and checks run asynchronously
+  queued?: boolean;
+  // True for a sales_transaction_voided event; no checks run
+  voided?: boolean;
+  // Checks that failed earlier for this transaction and no longer do
+  resolved?: string[];
+  // Present when the payload did not match the expected transaction shape
+  validationErrors?: PayloadValidationError[];
+}
+
+/**
+ * Message placed on the transaction queue by the webhook handler and
+ * consumed by the transaction worker.
+ */
+export interface TransactionQueueMessage {
+  eventType: string;
+  body: string;
+  receivedAt: string;
 }
 
 /**
@@ -51,10 +130,40 @@ export interface TransactionCompletionStrategy {
   supports(tx: HeartlandTransaction): boolean;
 
   /**
-   * Return true if, according to this strategy, the transaction passes
-   * the check.
+   * Return whether, according to this strategy, the transaction passes
+   * the check. Strategies that can explain a failure return a CheckResult;
+   * a plain boolean is still accepted.
+   *
+   * `signal` is aborted when the check times out; strategies should pass it
+   * to API calls and skip alerts once it has fired.
+   *
+   * `context` shares Heartland data fetched for this transaction with the
+   * other strategies; read ticket lines, inventory, items and the customer
+   * through it rather than calling the API client directly.
+   */
+  checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<boolean | CheckResult>;
+}
+
+/**
+ * A `!<name>` command answered by the GroupMe command bot.
+ */
+export interface ChatCommand {
+  readonly name: string;
+
+  // e.g. `!stock <set number or item id>`; listed by `!help`
+  readonly usage: string;
+  readonly description: string;
+
+  /**
+   * The reply to the command. `args` are the whitespace-separated words
+   * after the command name; arguments that make no sense get the usage as
+   * the reply rather than an error.
    */
-  checkTx(tx: HeartlandTransaction): Promise<boolean>;
+  run(args: string[]): Promise<string>;
 }
 
 export interface HeartlandItemCustomFields {
@@ -0,0 +1,546 @@
+import * as https from 'https';
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { AlertDigestStore, DigestNotifier, createAlertDigestStore } from './alert-digest';
+import {
+  AlertSuppressionStore,
+  SuppressingNotifier,
+  createAlertSuppressionStore,
+} from './alert-suppression';
+import { DefaultGroupMeClient, GroupMeMention, MessageAttachments } from './clients';
+import { isRecord } from './payload-fields';
+import { STRATEGY_REGISTRY } from './strategies/registry';
+
+/**
+ * Anything an alert can be sent through. Same shape as GroupMeClient, so
+ * strategies written against GroupMeClient accept any notifier.
+ */
+export interface Notifier {
+  sendMessage(
+    text: string,
+    fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void>;
+}
+
+/**
+ * Alert types raised outside the transaction checks. Each check's alerts use
+ * the strategy name as their type (`inventory-non-negative`, ...).
+ */
+export const IMAGE_FAILURE_ALERT = 'image-failure';
+export const PURCHASE_ORDER_RECEIVE_ALERT = 'purchase-order-receive';
+export const REPORT_ALERT = 'report';
+export const PAYLOAD_DRIFT_ALERT = 'payload-drift';
+
+const OTHER_ALERT_TYPES = [
+  IMAGE_FAILURE_ALERT,
+  PURCHASE_ORDER_RECEIVE_ALERT,
+  REPORT_ALERT,
+  PAYLOAD_DRIFT_ALERT,
+];
+
+export type ChannelConfig =
+  // `mentions` are @mentioned in every alert sent to the channel
+  | { type: 'groupme'; botId: string; mentions?: GroupMeMention[] }
+  | { type: 'slack'; webhookUrl: string }
+  | { type: 'email'; from: string; to: string[]; subjectPrefix?: string }
+  | { type: 'sns'; topicArn: string; subjectPrefix?: string };
+
+/**
+ * How an alert type is delivered: sent as it happens, held for the
+ * scheduled digest, or both.
+ */
+export type AlertDelivery = 'immediate' | 'digest' | 'both';
+
+const ALERT_DELIVERIES: AlertDelivery[] = ['immediate', 'digest', 'both'];
+
+/**
+ * Named channels and which of them each alert type goes to. Alert types
+ * without a route go to `defaultChannels`.
+ */
+export interface NotificationConfig {
+  channels: Record<string, ChannelConfig>;
+  routes: Record<string, string[]>;
+  defaultChannels: string[];
+  // Per-alert-type override of ALERT_SUPPRESSION_WINDOW_MINUTES; 0 sends every repeat
+  suppressionWindowMinutes: Record<string, number>;
+  // Alert types not listed are immediate
+  delivery: Record<string, AlertDelivery>;
+}
+
+const DEFAULT_SUBJECT_PREFIX = 'Heartland alert';
+const DEFAULT_SUPPRESSION_WINDOW_MINUTES = 60;
+
+/**
+ * Posts `{ text }` to a Slack incoming webhook.
+ */
+export class SlackWebhookNotifier implements Notifier {
+  constructor(private readonly webhookUrl: string) {}
+
+  sendMessage(text: string, _fingerprint?: string, attachments?: MessageAttachments): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const body = JSON.stringify({ text: withImageLink(text, attachments) });
+      const req = https.request(
+        this.webhookUrl,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body).toString(),
+          },
+        },
+        (res) => {
+          let data = '';
+          res.on('data', (chunk: Buffer | string) => {
+            data += chunk.toString();
+          });
+          res.on('end', () => {
+            const statusCode = res.statusCode ?? 0;
+            if (statusCode >= 200 && statusCode < 300) {
+              resolve();
+            } else {
+              reject(new Error(`Slack HTTP ${statusCode}: ${data}`));
+            }
+          });
+        }
+      );
+      req.on('error', reject);
+      req.write(body);
+      req.end();
+    });
+  }
+}
+
+/**
+ * Sends each alert as a plain-text email through SES.
+ */
+export class SesEmailNotifier implements Notifier {
+  constructor(
+    private readonly sesClient: SESClient,
+    private readonly from: string,
+    private readonly to: string[],
+    private readonly subject: string
+  ) {}
+
+  async sendMessage(
+    text: string,
+    _fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void> {
+    await this.sesClient.send(
+      new SendEmailCommand({
+        Source: this.from,
+        Destination: { ToAddresses: this.to },
+        Message: {
+          Subject: { Data: this.subject },
+          Body: { Text: { Data: withImageLink(text, attachments) } },
+        },
+      })
+    );
+  }
+}
+
+/**
+ * Publishes each alert to an SNS topic, for SMS or other subscribers.
+ */
+export class SnsNotifier implements Notifier {
+  constructor(
+    private readonly snsClient: SNSClient,
+    private readonly topicArn: string,
+    private readonly subject: string
+  ) {}
+
+  async sendMessage(
+    text: string,
+    _fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void> {
+    await this.snsClient.send(
+      new PublishCommand({
+        TopicArn: this.topicArn,
+        // SNS subjects are limited to 100 characters
+        Subject: this.subject.slice(0, 100),
+        Message: withImageLink(text, attachments),
+      })
+    );
+  }
+}
+
+/**
+ * Sends to every channel of a route. One channel failing does not stop the
+ * others; the failures are then thrown together so callers log them as usual.
+ */
+export class FanOutNotifier implements Notifier {
+  constructor(private readonly channels: { name: string; notifier: Notifier }[]) {}
+
+  async sendMessage(
+    text: string,
+    fingerprint?: string,
+    attachments?: MessageAttachments
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      this.channels.map((channel) => channel.notifier.sendMessage(text, fingerprint, attachments))
+    );
+    const failures = results.flatMap((result, index) =>
+      result.status === 'rejected'
+        ? [`${this.channels[index].name}: ${String(result.reason)}`]
+        : []
+    );
+    if (failures.length > 0) {
+      throw new Error(`Notification failed on ${failures.join('; ')}`);
+    }
+  }
+}
+
+/**
+ * Read NOTIFICATION_ROUTES. Without it, every alert goes to the GroupMe bot
+ * in GROUPME_BOT_ID, as before routing existed. Throws on an invalid config,
+ * listing every problem. The config is read when a handler first builds a
+ * notifier, so a bad deploy fails that invocation instead of dropping alerts.
+ */
+export function loadNotificationConfig(env: NodeJS.ProcessEnv = process.env): NotificationConfig {
+  const raw = env.NOTIFICATION_ROUTES;
+  if (!raw) {
+    const botId = env.GROUPME_BOT_ID;
+    return botId
+      ? {
+          channels: { groupme: { type: 'groupme', botId } },
+          routes: {},
+          defaultChannels: ['groupme'],
+          suppressionWindowMinutes: {},
+          delivery: {},
+        }
+      : { channels: {}, routes: {}, defaultChannels: [], suppressionWindowMinutes: {}, delivery: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (err) {
+    throw new Error(`NOTIFICATION_ROUTES is not valid JSON: ${String(err)}`);
+  }
+
+  const result = validateNotificationConfig(parsed);
+  if (!result.ok) {
+    throw new Error(`Invalid NOTIFICATION_ROUTES: ${result.errors.join('; ')}`);
+  }
+  return result.value;
+}
+
+type ValidateNotificationConfigResult =
+  | { ok: true; value: NotificationConfig }
+  | { ok: false; errors: string[] };
+
+export function validateNotificationConfig(raw: unknown): ValidateNotificationConfigResult {
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ['config must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const channels: Record<string, ChannelConfig> = {};
+
+  if (!isRecord(raw.channels)) {
+    errors.push('"channels" must be an object of channel name to channel');
+  } else {
+    for (const [name, channel] of Object.entries(raw.channels)) {
+      const problem = validateChannel(channel);
+      if (problem) {
+        errors.push(`channel "${name}" ${problem}`);
+      } else {
+        channels[name] = channel as ChannelConfig;
+      }
+    }
+  }
+
+  const knownAlertTypes = [...Object.keys(STRATEGY_REGISTRY), ...OTHER_ALERT_TYPES];
+  const checkChannelList = (label: string, value: unknown): string[] => {
+    if (!Array.isArray(value) || value.some((name) => typeof name !== 'string')) {
+      errors.push(`${label} must be an array of channel names`);
+      return [];
+    }
+    for (const name of value as string[]) {
+      if (isRecord(raw.channels) && !(name in raw.channels)) {
+        errors.push(`${label} uses unknown channel "${name}"`);
+      }
+    }
+    return value as string[];
+  };
+
+  const routes: Record<string, string[]> = {};
+  if (raw.routes !== undefined) {
+    if (!isRecord(raw.routes)) {
+      errors.push('"routes" must be an object of alert type to channel names');
+    } else {
+      for (const [alertType, names] of Object.entries(raw.routes)) {
+        if (!knownAlertTypes.includes(alertType)) {
+          errors.push(
+            `unknown alert type "${alertType}" (known: ${knownAlertTypes.join(', ')})`
+          );
+          continue;
+        }
+        routes[alertType] = checkChannelList(`route "${alertType}"`, names);
+      }
+    }
+  }
+
+  const defaultChannels =
+    raw.defaultChannels === undefined
+      ? []
+      : checkChannelList('"defaultChannels"', raw.defaultChannels);
+
+  const suppressionWindowMinutes: Record<string, number> = {};
+  if (raw.suppressionWindowMinutes !== undefined) {
+    if (!isRecord(raw.suppressionWindowMinutes)) {
+      errors.push('"suppressionWindowMinutes" must be an object of alert type to minutes');
+    } else {
+      for (const [alertType, minutes] of Object.entries(raw.suppressionWindowMinutes)) {
+        if (!knownAlertTypes.includes(alertType)) {
+          errors.push(`unknown alert type "${alertType}" in "suppressionWindowMinutes"`);
+        } else if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+          errors.push(`suppression window for "${alertType}" must be a non-negative number`);
+        } else {
+          suppressionWindowMinutes[alertType] = minutes;
+        }
+      }
+    }
+  }
+
+  const delivery: Record<string, AlertDelivery> = {};
+  if (raw.delivery !== undefined) {
+    if (!isRecord(raw.delivery)) {
+      errors.push('"delivery" must be an object of alert type to delivery');
+    } else {
+      for (const [alertType, mode] of Object.entries(raw.delivery)) {
+        if (!knownAlertTypes.includes(alertType)) {
+          errors.push(`unknown alert type "${alertType}" in "delivery"`);
+        } else if (!ALERT_DELIVERIES.includes(mode as AlertDelivery)) {
+          errors.push(
+            `delivery for "${alertType}" must be one of ${ALERT_DELIVERIES.join(', ')}`
+          );
+        } else {
+          delivery[alertType] = mode as AlertDelivery;
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return {
+    ok: true,
+    value: { channels, routes, defaultChannels, suppressionWindowMinutes, delivery },
+  };
+}
+
+function validateChannel(channel: unknown): string | undefined {
+  if (!isRecord(channel)) {
+    return 'must be an object';
+  }
+  switch (channel.type) {
+    case 'groupme':
+      if (!isNonEmptyString(channel.botId)) {
+        return 'needs a "botId"';
+      }
+      return channel.mentions === undefined ||
+        (Array.isArray(channel.mentions) &&
+          channel.mentions.every(
+            (mention) =>
+              isRecord(mention) &&
+              isNonEmptyString(mention.userId) &&
+              isNonEmptyString(mention.nickname)
+          ))
+        ? undefined
+        : 'needs "mentions" to be an array of { userId, nickname }';
+    case 'slack':
+      return isNonEmptyString(channel.webhookUrl) && channel.webhookUrl.startsWith('https://')
+        ? undefined
+        : 'needs an https "webhookUrl"';
+    case 'email':
+      if (!isNonEmptyString(channel.from)) {
+        return 'needs a "from" address';
+      }
+      return Array.isArray(channel.to) && channel.to.length > 0 && channel.to.every(isNonEmptyString)
+        ? undefined
+        : 'needs a non-empty "to" array of addresses';
+    case 'sns':
+      return isNonEmptyString(channel.topicArn) ? undefined : 'needs a "topicArn"';
+    default:
+      return `has unknown type ${JSON.stringify(channel.type)} (known: groupme, slack, email, sns)`;
+  }
+}
+
+let cachedConfig: { raw: string | undefined; botId: string | undefined; config: NotificationConfig } | null =
+  null;
+let sesClient: SESClient | undefined;
+let snsClient: SNSClient | undefined;
+let suppressionStore: AlertSuppressionStore | undefined;
+let digestStore: AlertDigestStore | undefined;
+
+function getNotificationConfig(env: NodeJS.ProcessEnv): NotificationConfig {
+  if (
+    !cachedConfig ||
+    cachedConfig.raw !== env.NOTIFICATION_ROUTES ||
+    cachedConfig.botId !== env.GROUPME_BOT_ID
+  ) {
+    cachedConfig = {
+      raw: env.NOTIFICATION_ROUTES,
+      botId: env.GROUPME_BOT_ID,
+      config: loadNotificationConfig(env),
+    };
+  }
+  return cachedConfig.config;
+}
+
+/**
+ * Alert types held for the digest, alone or as well as sent immediately.
+ */
+export function digestAlertTypes(
+  config: NotificationConfig = getNotificationConfig(process.env)
+): string[] {
+  return Object.entries(config.delivery)
+    .filter(([, mode]) => mode !== 'immediate')
+    .map(([alertType]) => alertType);
+}
+
+/**
+ * Names of the channels an alert type is sent to.
+ */
+export function routeChannels(
+  alertType: string,
+  config: NotificationConfig = getNotificationConfig(process.env)
+): string[] {
+  return config.routes[alertType] ?? config.defaultChannels;
+}
+
+/**
+ * The notifier for an alert type, or undefined when it is routed nowhere
+ * (e.g. neither NOTIFICATION_ROUTES nor GROUPME_BOT_ID is set). Immediate
+ * alerts go through repeat suppression; digest alerts are all buffered, so
+ * the digest can count them.
+ */
+export function createNotifier(
+  alertType: string,
+  env: NodeJS.ProcessEnv = process.env
+): Notifier | undefined {
+  const config = getNotificationConfig(env);
+  const notifier = createChannelsNotifier(alertType, env);
+  if (!notifier) {
+    return undefined;
+  }
+
+  const delivery = config.delivery[alertType] ?? 'immediate';
+  const immediate = delivery === 'digest' ? undefined : suppressRepeats(notifier, alertType, env);
+  if (delivery === 'immediate') {
+    return immediate;
+  }
+
+  digestStore ??= createAlertDigestStore(env.ALERT_DIGEST_TABLE_NAME);
+  const digest = new DigestNotifier(alertType, digestStore);
+  return immediate
+    ? new FanOutNotifier([
+        { name: 'immediate', notifier: immediate },
+        { name: 'digest', notifier: digest },
+      ])
+    : digest;
+}
+
+/**
+ * The channels routed to an alert type, without suppression or digest
+ * buffering. Used to post the digest itself.
+ */
+export function createChannelsNotifier(
+  alertType: string,
+  env: NodeJS.ProcessEnv = process.env
+): Notifier | undefined {
+  const config = getNotificationConfig(env);
+  const names = routeChannels(alertType, config);
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const channels = names.map((name) => ({
+    name,
+    notifier: createChannelNotifier(config.channels[name], alertType, env),
+  }));
+  return channels.length === 1 ? channels[0].notifier : new FanOutNotifier(channels);
+}
+
+/**
+ * How long repeats of an alert type are suppressed for, in seconds; 0 sends
+ * every repeat.
+ */
+export function suppressionWindowSeconds(
+  alertType: string,
+  env: NodeJS.ProcessEnv = process.env
+): number {
+  const config = getNotificationConfig(env);
+  const windowMinutes =
+    config.suppressionWindowMinutes[alertType] ?? getDefaultSuppressionWindowMinutes(env);
+  return Math.max(windowMinutes, 0) * 60;
+}
+
+function suppressRepeats(notifier: Notifier, alertType: string, env: NodeJS.ProcessEnv): Notifier {
+  const windowSeconds = suppressionWindowSeconds(alertType, env);
+  if (windowSeconds <= 0) {
+    return notifier;
+  }
+  suppressionStore ??= createAlertSuppressionStore(env.ALERT_SUPPRESSION_TABLE_NAME);
+  return new SuppressingNotifier(notifier, alertType, suppressionStore, windowSeconds);
+}
+
+function getDefaultSuppressionWindowMinutes(env: NodeJS.ProcessEnv): number {
+  const raw = env.ALERT_SUPPRESSION_WINDOW_MINUTES;
+  if (raw === undefined || raw.trim() === '') {
+    return DEFAULT_SUPPRESSION_WINDOW_MINUTES;
+  }
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(
+      'Invalid ALERT_SUPPRESSION_WINDOW_MINUTES; using the default',
+      JSON.stringify({ value: raw, default: DEFAULT_SUPPRESSION_WINDOW_MINUTES }, null, 2)
+    );
+    return DEFAULT_SUPPRESSION_WINDOW_MINUTES;
+  }
+  return parsed;
+}
+
+function createChannelNotifier(
+  channel: ChannelConfig,
+  alertType: string,
+  env: NodeJS.ProcessEnv
+): Notifier {
+  switch (channel.type) {
+    case 'groupme':
+      return new DefaultGroupMeClient(channel.botId, {
+        accessToken: env.GROUPME_ACCESS_TOKEN,
+        mentions: channel.mentions,
+      });
+    case 'slack':
+      return new SlackWebhookNotifier(channel.webhookUrl);
+    case 'email':
+      sesClient ??= new SESClient({});
+      return new SesEmailNotifier(
+        sesClient,
+        channel.from,
+        channel.to,
+        `${channel.subjectPrefix ?? DEFAULT_SUBJECT_PREFIX}: ${alertType}`
+      );
+    case 'sns':
+      snsClient ??= new SNSClient({});
+      return new SnsNotifier(
+        snsClient,
+        channel.topicArn,
+        `${channel.subjectPrefix ?? DEFAULT_SUBJECT_PREFIX}: ${alertType}`
+      );
+  }
+}
+
+// Channels without image attachments get the image as a link
+function withImageLink(text: string, attachments?: MessageAttachments): string {
+  return attachments?.imageUrl ? `${text}\nImage: ${attachments.imageUrl}` : text;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
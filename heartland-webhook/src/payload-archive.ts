@@ -0,0 +1,236 @@
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+/**
+ * One archived webhook body, in the same shape the replay endpoint accepts.
+ */
+export interface ArchivedPayload {
+  id: string;
+  eventType: string;
+  body: string;
+  receivedAt: string;
+  key: string;
+}
+
+/**
+ * Raw webhook bodies as Heartland sent them, kept for debugging and replay.
+ */
+export interface PayloadArchive {
+  store(
+    eventType: string,
+    id: number | string,
+    body: string,
+    receivedAt?: Date
+  ): Promise<string>;
+  fetch(eventType: string, id: number | string): Promise<ArchivedPayload | undefined>;
+  // Payloads of one event type received on a UTC date (yyyy-mm-dd)
+  list(date: string, eventType: string): Promise<ArchivedPayloadKey[]>;
+  fetchKey(key: string): Promise<ArchivedPayload | undefined>;
+}
+
+/**
+ * A payload key as listed, with when it was written, so callers can filter
+ * by time before fetching bodies.
+ */
+export interface ArchivedPayloadKey {
+  key: string;
+  lastModified?: Date;
+}
+
+const PAYLOAD_PREFIX = 'payloads';
+const INDEX_PREFIX = 'index';
+
+/**
+ * `payloads/<yyyy-mm-dd>/<event type>/<id>.json`, dated by receipt (UTC).
+ */
+export function buildPayloadKey(
+  eventType: string,
+  id: number | string,
+  receivedAt: Date
+): string {
+  const date = receivedAt.toISOString().slice(0, 10);
+  return `${PAYLOAD_PREFIX}/${date}/${eventType}/${id}.json`;
+}
+
+/**
+ * `index/<event type>/<id>.json` — points at the latest dated payload key so
+ * lookups by id don't have to list every date prefix.
+ */
+export function buildIndexKey(eventType: string, id: number | string): string {
+  return `${INDEX_PREFIX}/${eventType}/${id}.json`;
+}
+
+interface IndexEntry {
+  key: string;
+  receivedAt: string;
+}
+
+/**
+ * S3-backed archive. Objects expire through the bucket's lifecycle rule.
+ */
+export class S3PayloadArchive implements PayloadArchive {
+  constructor(
+    private readonly bucket: string,
+    private readonly s3Client: S3Client
+  ) {}
+
+  async store(
+    eventType: string,
+    id: number | string,
+    body: string,
+    receivedAt: Date = new Date()
+  ): Promise<string> {
+    const key = buildPayloadKey(eventType, id, receivedAt);
+
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: 'application/json',
+        Metadata: {
+          'event-type': eventType,
+          'received-at': receivedAt.toISOString(),
+        },
+      })
+    );
+
+    const entry: IndexEntry = { key, receivedAt: receivedAt.toISOString() };
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: buildIndexKey(eventType, id),
+        Body: JSON.stringify(entry),
+        ContentType: 'application/json',
+      })
+    );
+
+    return key;
+  }
+
+  async fetch(
+    eventType: string,
+    id: number | string
+  ): Promise<ArchivedPayload | undefined> {
+    const indexBody = await this.getObjectText(buildIndexKey(eventType, id));
+    if (indexBody === undefined) {
+      return undefined;
+    }
+
+    const entry = JSON.parse(indexBody) as IndexEntry;
+    const body = await this.getObjectText(entry.key);
+    if (body === undefined) {
+      return undefined;
+    }
+
+    return {
+      id: String(id),
+      eventType,
+      body,
+      receivedAt: entry.receivedAt,
+      key: entry.key,
+    };
+  }
+
+  async list(date: string, eventType: string): Promise<ArchivedPayloadKey[]> {
+    const keys: ArchivedPayloadKey[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${PAYLOAD_PREFIX}/${date}/${eventType}/`,
+          ...(continuationToken ? { ContinuationToken: continuationToken } : {}),
+        })
+      );
+      keys.push(
+        ...(page.Contents ?? []).flatMap((object) =>
+          object.Key ? [{ key: object.Key, lastModified: object.LastModified }] : []
+        )
+      );
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  async fetchKey(key: string): Promise<ArchivedPayload | undefined> {
+    const match = /^[^/]+\/[^/]+\/([^/]+)\/([^/]+)\.json$/.exec(key);
+    if (!match) {
+      return undefined;
+    }
+
+    const object = await this.getObject(key);
+    if (!object) {
+      return undefined;
+    }
+
+    return {
+      id: match[2],
+      eventType: match[1],
+      body: object.body,
+      receivedAt: object.metadata['received-at'] ?? `${key.split('/')[1]}T00:00:00.000Z`,
+      key,
+    };
+  }
+
+  private async getObjectText(key: string): Promise<string | undefined> {
+    return (await this.getObject(key))?.body;
+  }
+
+  private async getObject(
+    key: string
+  ): Promise<{ body: string; metadata: Record<string, string> } | undefined> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      const body = await response.Body?.transformToString();
+      return body === undefined ? undefined : { body, metadata: response.Metadata ?? {} };
+    } catch (err) {
+      if ((err as { name?: string })?.name === 'NoSuchKey') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Build the archive for a handler, or undefined when no bucket is configured.
+ */
+export function createPayloadArchive(bucket?: string): PayloadArchive | undefined {
+  if (!bucket) {
+    return undefined;
+  }
+  return new S3PayloadArchive(bucket, new S3Client({}));
+}
+
+/**
+ * Archive a webhook body without letting an S3 failure fail the delivery.
+ */
+export async function archivePayload(
+  archive: PayloadArchive | undefined,
+  eventType: string,
+  id: number | string,
+  body: string
+): Promise<void> {
+  if (!archive) {
+    return;
+  }
+
+  try {
+    const key = await archive.store(eventType, id, body);
+    console.log('Archived webhook payload', JSON.stringify({ eventType, id, key }, null, 2));
+  } catch (err) {
+    console.error(
+      'Failed to archive webhook payload',
+      JSON.stringify({ eventType, id, error: String(err) }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Typed readers for untrusted webhook payload fields. Each returns undefined
+ * when the value is absent or has the wrong type; the `OrNull` variants keep
+ * an explicit JSON null distinct from a missing field.
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function getString(source: Record<string, unknown>, key: string): string | undefined {
+  const value = source[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getStringOrNull(
+  source: Record<string, unknown>,
+  key: string
+): string | null | undefined {
+  const value = source[key];
+  if (value === null) {
+    return null;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getNumber(source: Record<string, unknown>, key: string): number | undefined {
+  const value = source[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function getNumberOrNull(
+  source: Record<string, unknown>,
+  key: string
+): number | null | undefined {
+  const value = source[key];
+  if (value === null) {
+    return null;
+  }
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function getBoolean(
+  source: Record<string, unknown>,
+  key: string
+): boolean | undefined {
+  const value = source[key];
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+export function getBooleanOrNull(
+  source: Record<string, unknown>,
+  key: string
+): boolean | null | undefined {
+  const value = source[key];
+  if (value === null) {
+    return null;
+  }
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+export function getRecordOrNull(
+  source: Record<string, unknown>,
+  key: string
+): Record<string, unknown> | null | undefined {
+  const value = source[key];
+  if (value === null) {
+    return null;
+  }
+  return isRecord(value) ? value : undefined;
+}
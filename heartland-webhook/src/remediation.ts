@@ -0,0 +1,310 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { HeartlandApiClient } from './clients';
+import { RemediationAction, RemediationOutcome, RemediationStatus } from './model';
+
+/**
+ * One remediation requested by a strategy for a transaction, with what was
+ * there before so it can be reverted.
+ */
+export interface RemediationRecord {
+  // Stable per transaction, strategy and target, so redeliveries do not repeat it
+  id: string;
+  transactionId: number;
+  strategy: string;
+  action: RemediationAction;
+  status: RemediationStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Tags (add-item-tag) or field value (annotate-ticket) before the change
+  previousValue?: string | null;
+  error?: string;
+  revertedBy?: string;
+}
+
+export interface RemediationStore {
+  get(transactionId: number, id: string): Promise<RemediationRecord | undefined>;
+  put(record: RemediationRecord): Promise<void>;
+  listForTransaction(transactionId: number): Promise<RemediationRecord[]>;
+}
+
+export type RevertResult =
+  | { ok: true; value: RemediationRecord }
+  | { ok: false; error: string; notFound?: boolean };
+
+/**
+ * Process-local store. Used in tests and when no table is configured, in
+ * which case records only last as long as the warm container.
+ */
+export class InMemoryRemediationStore implements RemediationStore {
+  private readonly records = new Map<string, RemediationRecord>();
+
+  async get(transactionId: number, id: string): Promise<RemediationRecord | undefined> {
+    return this.records.get(`${transactionId}#${id}`);
+  }
+
+  async put(record: RemediationRecord): Promise<void> {
+    this.records.set(`${record.transactionId}#${record.id}`, record);
+  }
+
+  async listForTransaction(transactionId: number): Promise<RemediationRecord[]> {
+    return Array.from(this.records.values()).filter(
+      (record) => record.transactionId === transactionId
+    );
+  }
+}
+
+/**
+ * DynamoDB-backed store shared by the worker and the admin endpoint.
+ *
+ * Table schema: partition key `transactionId` (number), sort key `id`
+ * (string). The record is stored whole under `record`.
+ */
+export class DynamoDbRemediationStore implements RemediationStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient
+  ) {}
+
+  async get(transactionId: number, id: string): Promise<RemediationRecord | undefined> {
+    const result = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { transactionId, id },
+        ConsistentRead: true,
+      })
+    );
+    return result.Item?.record as RemediationRecord | undefined;
+  }
+
+  async put(record: RemediationRecord): Promise<void> {
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: { transactionId: record.transactionId, id: record.id, record },
+      })
+    );
+  }
+
+  async listForTransaction(transactionId: number): Promise<RemediationRecord[]> {
+    const records: RemediationRecord[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'transactionId = :transactionId',
+          ExpressionAttributeValues: { ':transactionId': transactionId },
+          ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+        })
+      );
+      records.push(...(page.Items ?? []).map((item) => item.record as RemediationRecord));
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return records;
+  }
+}
+
+/**
+ * Build the store for a handler: DynamoDB when a table name is configured,
+ * otherwise the process-local fallback.
+ */
+export function createRemediationStore(tableName?: string): RemediationStore {
+  if (!tableName) {
+    return new InMemoryRemediationStore();
+  }
+  return new DynamoDbRemediationStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+/**
+ * Dry run unless REMEDIATION_DRY_RUN is explicitly "false", so a new
+ * deployment never changes Heartland data by accident.
+ */
+export function isRemediationDryRun(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.REMEDIATION_DRY_RUN?.trim().toLowerCase() !== 'false';
+}
+
+// Settled records are not applied again when a transaction is redelivered
+const SETTLED_STATUSES: RemediationStatus[] = ['applied', 'unchanged', 'reverted'];
+
+/**
+ * Applies the remediations requested by failing checks through the Heartland
+ * API, records each one, and reverts them on request. In dry-run mode actions
+ * are recorded with status `dry-run` and Heartland is left untouched.
+ */
+export class Remediator {
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly store: RemediationStore,
+    private readonly dryRun: boolean,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async run(
+    transactionId: number,
+    strategy: string,
+    actions: RemediationAction[]
+  ): Promise<RemediationOutcome[]> {
+    const outcomes: RemediationOutcome[] = [];
+    // Sequential: two actions may touch the same item
+    for (const action of actions) {
+      const record = await this.runOne(transactionId, strategy, action);
+      outcomes.push({
+        id: record.id,
+        kind: action.kind,
+        status: record.status,
+        ...(record.error !== undefined ? { error: record.error } : {}),
+      });
+    }
+    return outcomes;
+  }
+
+  async revert(transactionId: number, id: string, actor: string): Promise<RevertResult> {
+    const record = await this.store.get(transactionId, id);
+    if (!record) {
+      return {
+        ok: false,
+        error: `no remediation "${id}" for transaction ${transactionId}`,
+        notFound: true,
+      };
+    }
+    if (record.status !== 'applied') {
+      return { ok: false, error: `remediation "${id}" is ${record.status}, not applied` };
+    }
+
+    await this.undo(record);
+    const reverted: RemediationRecord = {
+      ...record,
+      status: 'reverted',
+      updatedAt: new Date(this.now()).toISOString(),
+      revertedBy: actor,
+    };
+    await this.store.put(reverted);
+    console.log('Reverted remediation', JSON.stringify(reverted, null, 2));
+    return { ok: true, value: reverted };
+  }
+
+  private async runOne(
+    transactionId: number,
+    strategy: string,
+    action: RemediationAction
+  ): Promise<RemediationRecord> {
+    const id = remediationId(strategy, action);
+    const existing = await this.store.get(transactionId, id);
+    if (existing && SETTLED_STATUSES.includes(existing.status)) {
+      return existing;
+    }
+
+    const at = new Date(this.now()).toISOString();
+    const base = {
+      id,
+      transactionId,
+      strategy,
+      action,
+      createdAt: existing?.createdAt ?? at,
+      updatedAt: at,
+    };
+
+    let record: RemediationRecord;
+    if (this.dryRun) {
+      record = { ...base, status: 'dry-run' };
+    } else {
+      try {
+        const { changed, previousValue } = await this.apply(action);
+        record = { ...base, status: changed ? 'applied' : 'unchanged', previousValue };
+      } catch (err) {
+        console.error(
+          `[${strategy}] Remediation failed`,
+          JSON.stringify({ transactionId, action, error: String(err) }, null, 2)
+        );
+        record = { ...base, status: 'failed', error: String(err) };
+      }
+    }
+
+    await this.store.put(record);
+    console.log('Remediation recorded', JSON.stringify(record, null, 2));
+    return record;
+  }
+
+  private async apply(
+    action: RemediationAction
+  ): Promise<{ changed: boolean; previousValue: string | null }> {
+    switch (action.kind) {
+      case 'add-item-tag': {
+        const item = await this.apiClient.getInventoryItem(action.itemId);
+        const tags = typeof item.custom?.tags === 'string' ? item.custom.tags : null;
+        const current = splitTags(tags);
+        if (current.some((tag) => tag.toLowerCase() === action.tag.toLowerCase())) {
+          return { changed: false, previousValue: tags };
+        }
+        await this.apiClient.updateInventoryItem(action.itemId, {
+          custom: { tags: [...current, action.tag].join(', ') },
+        });
+        return { changed: true, previousValue: tags };
+      }
+      case 'annotate-ticket': {
+        const ticket = await this.apiClient.getTicket(action.ticketId);
+        const value = ticket.custom?.[action.field];
+        const previousValue = typeof value === 'string' ? value : null;
+        if (previousValue === action.note) {
+          return { changed: false, previousValue };
+        }
+        await this.apiClient.updateTicket(action.ticketId, {
+          custom: { [action.field]: action.note },
+        });
+        return { changed: true, previousValue };
+      }
+    }
+  }
+
+  /**
+   * Tags are removed rather than restored wholesale, so tags added by
+   * someone else since are kept. Ticket fields get their previous value back.
+   */
+  private async undo(record: RemediationRecord): Promise<void> {
+    const action = record.action;
+    switch (action.kind) {
+      case 'add-item-tag': {
+        const item = await this.apiClient.getInventoryItem(action.itemId);
+        const tags = splitTags(typeof item.custom?.tags === 'string' ? item.custom.tags : null);
+        await this.apiClient.updateInventoryItem(action.itemId, {
+          custom: {
+            tags: tags.filter((tag) => tag.toLowerCase() !== action.tag.toLowerCase()).join(', '),
+          },
+        });
+        return;
+      }
+      case 'annotate-ticket':
+        await this.apiClient.updateTicket(action.ticketId, {
+          custom: { [action.field]: record.previousValue ?? null },
+        });
+        return;
+    }
+  }
+}
+
+export function remediationId(strategy: string, action: RemediationAction): string {
+  switch (action.kind) {
+    case 'add-item-tag':
+      return `${strategy}:add-item-tag:${action.itemId}:${action.tag.toLowerCase()}`;
+    case 'annotate-ticket':
+      return `${strategy}:annotate-ticket:${action.ticketId}:${action.field}`;
+  }
+}
+
+function splitTags(tags: string | null): string[] {
+  return (tags ?? '')
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== '');
+}
@@ -0,0 +1,208 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+export type RepActivityKind = 'discount' | 'price-adjustment' | 'return' | 'no-customer';
+
+export const REP_ACTIVITY_KINDS: RepActivityKind[] = [
+  'discount',
+  'price-adjustment',
+  'return',
+  'no-customer',
+];
+
+/**
+ * One transaction rung up by a sales rep, with the activity it showed.
+ */
+export interface RepActivity {
+  salesRep: string;
+  transactionId: number;
+  // ISO-8601 completion time of the transaction
+  at: string;
+  kinds: RepActivityKind[];
+}
+
+export interface RepActivityCounts {
+  transactions: number;
+  counts: Record<RepActivityKind, number>;
+}
+
+/**
+ * Per-rep transaction history used for rolling-window rates. Records are
+ * keyed by transaction: recording the same transaction again (a retry,
+ * replay or edit) replaces its kinds but keeps the time first recorded.
+ */
+export interface RepActivityStore {
+  // Resolves true when the transaction had not been recorded before
+  record(activity: RepActivity): Promise<boolean>;
+  // Transactions for the rep completed at or after `since` (ISO-8601)
+  summarize(salesRep: string, since: string): Promise<RepActivityCounts>;
+}
+
+// Longest window a rate can be computed over
+const DEFAULT_RETENTION_SECONDS = 60 * 60 * 24 * 35;
+
+/**
+ * Process-local store. Used in tests and when no table is configured, in
+ * which case rates only cover transactions seen by one warm container.
+ */
+export class InMemoryRepActivityStore implements RepActivityStore {
+  private readonly activities = new Map<string, RepActivity>();
+
+  async record(activity: RepActivity): Promise<boolean> {
+    const key = activityKey(activity);
+    const existing = this.activities.get(key);
+    this.activities.set(key, { ...activity, at: existing?.at ?? activity.at });
+    return !existing;
+  }
+
+  async summarize(salesRep: string, since: string): Promise<RepActivityCounts> {
+    const rep = normalizeRep(salesRep);
+    return countActivities(
+      Array.from(this.activities.values())
+        .filter((activity) => normalizeRep(activity.salesRep) === rep && activity.at >= since)
+        .map((activity) => activity.kinds)
+    );
+  }
+}
+
+/**
+ * DynamoDB-backed store shared by every Lambda instance.
+ *
+ * Table schema: partition key `salesRep` (string, trimmed and lower-cased),
+ * sort key `sk`, TTL attribute `expiresAt`. Each transaction has two rows:
+ * its activity, keyed `<completed at>#<transaction id>` so a window is a
+ * range query, and a marker keyed `#<transaction id>` holding the time first
+ * recorded. The marker is written conditionally with the activity, so a
+ * transaction recorded again updates the activity row it was first recorded
+ * under. Markers sort before every timestamp and stay out of the window.
+ */
+export class DynamoDbRepActivityStore implements RepActivityStore {
+  constructor(
+    private readonly tableName: string,
+    private readonly docClient: DynamoDBDocumentClient,
+    private readonly retentionSeconds = DEFAULT_RETENTION_SECONDS
+  ) {}
+
+  async record(activity: RepActivity): Promise<boolean> {
+    const salesRep = normalizeRep(activity.salesRep);
+    const markerKey = { salesRep, sk: `#${activity.transactionId}` };
+    const expiresAt = Math.floor(Date.parse(activity.at) / 1000) + this.retentionSeconds;
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: { ...markerKey, at: activity.at, expiresAt },
+                ConditionExpression: 'attribute_not_exists(sk)',
+              },
+            },
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: {
+                  salesRep,
+                  sk: `${activity.at}#${activity.transactionId}`,
+                  transactionId: activity.transactionId,
+                  at: activity.at,
+                  kinds: activity.kinds,
+                  expiresAt,
+                },
+              },
+            },
+          ],
+        })
+      );
+      return true;
+    } catch (err) {
+      if ((err as { name?: string })?.name !== 'TransactionCanceledException') {
+        throw err;
+      }
+      const marker = await this.docClient.send(
+        new GetCommand({ TableName: this.tableName, Key: markerKey, ConsistentRead: true })
+      );
+      // Cancelled by a conflicting write rather than an existing marker
+      if (typeof marker.Item?.at !== 'string') {
+        throw err;
+      }
+
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { salesRep, sk: `${marker.Item.at}#${activity.transactionId}` },
+          UpdateExpression: 'SET kinds = :kinds',
+          ExpressionAttributeValues: { ':kinds': activity.kinds },
+        })
+      );
+      return false;
+    }
+  }
+
+  async summarize(salesRep: string, since: string): Promise<RepActivityCounts> {
+    const kinds: RepActivityKind[][] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const page = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'salesRep = :rep AND sk >= :since',
+          ExpressionAttributeValues: { ':rep': normalizeRep(salesRep), ':since': since },
+          ProjectionExpression: 'kinds',
+          ...(exclusiveStartKey ? { ExclusiveStartKey: exclusiveStartKey } : {}),
+        })
+      );
+      for (const item of page.Items ?? []) {
+        kinds.push(Array.isArray(item.kinds) ? (item.kinds as RepActivityKind[]) : []);
+      }
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return countActivities(kinds);
+  }
+}
+
+/**
+ * Build the store for the transaction checks: DynamoDB when a table name is
+ * configured, otherwise the process-local fallback.
+ */
+export function createRepActivityStore(tableName?: string): RepActivityStore {
+  if (!tableName) {
+    return new InMemoryRepActivityStore();
+  }
+  return new DynamoDbRepActivityStore(
+    tableName,
+    DynamoDBDocumentClient.from(new DynamoDBClient({}))
+  );
+}
+
+function countActivities(activities: RepActivityKind[][]): RepActivityCounts {
+  const counts = Object.fromEntries(REP_ACTIVITY_KINDS.map((kind) => [kind, 0])) as Record<
+    RepActivityKind,
+    number
+  >;
+  for (const kinds of activities) {
+    for (const kind of kinds) {
+      if (kind in counts) {
+        counts[kind] += 1;
+      }
+    }
+  }
+  return { transactions: activities.length, counts };
+}
+
+function activityKey(activity: RepActivity): string {
+  return `${normalizeRep(activity.salesRep)}#${activity.transactionId}`;
+}
+
+function normalizeRep(salesRep: string): string {
+  return salesRep.trim().toLowerCase();
+}
@@ -0,0 +1,524 @@
+import {
+  ChangeMessageVisibilityCommand,
+  DeleteMessageCommand,
+  ReceiveMessageCommand,
+  SQSClient,
+} from '@aws-sdk/client-sqs';
+import { TransactionQueueMessage } from './model';
+import {
+  IdempotencyStore,
+  buildDeliveryKey,
+  createIdempotencyStore,
+  processOnce,
+} from './idempotency';
+import { TRANSACTION_EVENT_TYPE } from './transaction-checks';
+import {
+  TRANSACTION_EVENT_TYPES,
+  buildTransactionDeliveryKey,
+  processTransactionEvent,
+} from './transaction-events';
+import {
+  ITEM_CREATED_EVENT_TYPE,
+  parseItemCreatedBody,
+  processItemCreated,
+} from './item-enrichment';
+import { parseTransactionBody } from './transaction-payload';
+import { PayloadArchive } from './payload-archive';
+
+/**
+ * A stored webhook delivery to re-drive through the handler logic.
+ */
+export interface ReplayEvent {
+  id: string;
+  eventType: string;
+  body: string;
+  receivedAt?: string;
+}
+
+export type ReplayStatus = 'succeeded' | 'duplicate' | 'skipped' | 'failed';
+
+export interface ReplayOutcome {
+  id: string;
+  eventType: string;
+  status: ReplayStatus;
+  detail?: string;
+}
+
+export interface ReplayWindow {
+  from?: Date;
+  to?: Date;
+}
+
+export type ReplaySourceName = 'dead-letter-queue' | 'payload-archive';
+
+const REPLAY_SOURCES: ReplaySourceName[] = ['dead-letter-queue', 'payload-archive'];
+
+/**
+ * Replay request accepted by the replay Lambda and the CLI.
+ * Either `events` or `source` must be given. The `payload-archive` source
+ * needs `window.from`, and reads `eventTypes` (default: every type with a
+ * replay processor).
+ */
+export interface ReplayRequest {
+  events?: ReplayEvent[];
+  source?: ReplaySourceName;
+  eventTypes?: string[];
+  window?: ReplayWindow;
+  maxEvents?: number;
+  // Re-run even when the ledger says the delivery already completed
+  force?: boolean;
+}
+
+/**
+ * Re-runs one event. Resolves with a short human-readable detail, or with
+ * `{ duplicate: true }` when the ledger already has the delivery.
+ */
+export type ReplayProcessor = (
+  body: string
+) => Promise<{ detail: string; duplicate?: boolean }>;
+
+/**
+ * Where stored events come from and how successfully replayed ones are
+ * acknowledged.
+ */
+export interface ReplayEventSource {
+  receiveEvents(window: ReplayWindow, maxEvents: number): Promise<ReplayEvent[]>;
+  acknowledge(event: ReplayEvent): Promise<void>;
+}
+
+const DEFAULT_MAX_EVENTS = 100;
+
+/**
+ * Reads failed transaction messages from the dead-letter queue.
+ *
+ * Messages outside the window stay invisible until the scan ends, so the
+ * scan does not receive them again, and are then made visible again;
+ * replayed messages are deleted; failed ones reappear after the visibility
+ * timeout. The scan stops at an empty receive or at a message it has
+ * already seen.
+ */
+export class DeadLetterQueueEventSource implements ReplayEventSource {
+  private readonly receiptHandles = new Map<string, string>();
+
+  constructor(
+    private readonly queueUrl: string,
+    private readonly sqsClient: SQSClient
+  ) {}
+
+  async receiveEvents(window: ReplayWindow, maxEvents: number): Promise<ReplayEvent[]> {
+    const events: ReplayEvent[] = [];
+    const seenMessageIds = new Set<string>();
+    const skippedReceiptHandles: string[] = [];
+
+    scan: while (events.length < maxEvents) {
+      const response = await this.sqsClient.send(
+        new ReceiveMessageCommand({
+          QueueUrl: this.queueUrl,
+          MaxNumberOfMessages: Math.min(10, maxEvents - events.length),
+          VisibilityTimeout: 300,
+          WaitTimeSeconds: 1,
+          MessageSystemAttributeNames: ['SentTimestamp'],
+        })
+      );
+
+      const messages = response.Messages ?? [];
+      if (messages.length === 0) {
+        break;
+      }
+
+      for (const message of messages) {
+        if (!message.MessageId || !message.ReceiptHandle || !message.Body) {
+          continue;
+        }
+        if (seenMessageIds.has(message.MessageId)) {
+          break scan;
+        }
+        seenMessageIds.add(message.MessageId);
+
+        const sentAt = new Date(Number(message.Attributes?.SentTimestamp ?? 0));
+        if (!isInWindow(sentAt, window)) {
+          skippedReceiptHandles.push(message.ReceiptHandle);
+          continue;
+        }
+
+        let queued: TransactionQueueMessage;
+        try {
+          queued = JSON.parse(message.Body) as TransactionQueueMessage;
+        } catch {
+          queued = {
+            eventType: TRANSACTION_EVENT_TYPE,
+            body: message.Body,
+            receivedAt: sentAt.toISOString(),
+          };
+        }
+
+        this.receiptHandles.set(message.MessageId, message.ReceiptHandle);
+        events.push({
+          id: message.MessageId,
+          eventType: queued.eventType,
+          body: queued.body,
+          receivedAt: queued.receivedAt ?? sentAt.toISOString(),
+        });
+      }
+    }
+
+    for (const receiptHandle of skippedReceiptHandles) {
+      await this.sqsClient.send(
+        new ChangeMessageVisibilityCommand({
+          QueueUrl: this.queueUrl,
+          ReceiptHandle: receiptHandle,
+          VisibilityTimeout: 0,
+        })
+      );
+    }
+
+    return events;
+  }
+
+  async acknowledge(event: ReplayEvent): Promise<void> {
+    const receiptHandle = this.receiptHandles.get(event.id);
+    if (!receiptHandle) {
+      return;
+    }
+
+    await this.sqsClient.send(
+      new DeleteMessageCommand({
+        QueueUrl: this.queueUrl,
+        ReceiptHandle: receiptHandle,
+      })
+    );
+    this.receiptHandles.delete(event.id);
+  }
+}
+
+/**
+ * Reads archived webhook bodies (see payload-archive.ts) received within the
+ * window, oldest first, one UTC date prefix per day and event type. Only the
+ * bodies of listed objects written within the window are fetched.
+ *
+ * The archive keeps one payload per id and day, the latest delivery. Nothing
+ * is removed on acknowledgement; the delivery ledger reports payloads that
+ * already completed as duplicates.
+ */
+export class PayloadArchiveEventSource implements ReplayEventSource {
+  constructor(
+    private readonly archive: PayloadArchive,
+    private readonly eventTypes: string[],
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async receiveEvents(window: ReplayWindow, maxEvents: number): Promise<ReplayEvent[]> {
+    if (!window.from) {
+      throw new Error('Replaying from the payload archive needs a from time');
+    }
+    const to = window.to ?? this.now();
+    const events: ReplayEvent[] = [];
+
+    for (const date of utcDatesBetween(window.from, to)) {
+      const listed = (
+        await Promise.all(this.eventTypes.map((eventType) => this.archive.list(date, eventType)))
+      )
+        .flat()
+        .filter((entry) => !entry.lastModified || isInWindow(entry.lastModified, { ...window, to }))
+        .sort((a, b) => (a.lastModified?.getTime() ?? 0) - (b.lastModified?.getTime() ?? 0));
+
+      for (const entry of listed) {
+        if (events.length >= maxEvents) {
+          return events;
+        }
+        const payload = await this.archive.fetchKey(entry.key);
+        if (!payload || !isInWindow(new Date(payload.receivedAt), { ...window, to })) {
+          continue;
+        }
+        events.push({
+          id: payload.key,
+          eventType: payload.eventType,
+          body: payload.body,
+          receivedAt: payload.receivedAt,
+        });
+      }
+    }
+
+    return events;
+  }
+
+  async acknowledge(): Promise<void> {
+    // Archived payloads stay for their retention period
+  }
+}
+
+/**
+ * Processors for the event types the webhook handlers understand.
+ */
+export function createDefaultReplayProcessors(
+  options: { force?: boolean; idempotencyStore?: IdempotencyStore } = {}
+): Record<string, ReplayProcessor> {
+  const store =
+    options.idempotencyStore ??
+    createIdempotencyStore(process.env.IDEMPOTENCY_TABLE_NAME);
+
+  const runOnce = async (
+    deliveryKey: string,
+    work: () => Promise<string>
+  ): Promise<{ responseBody: string; duplicate: boolean }> => {
+    if (options.force) {
+      return { responseBody: await work(), duplicate: false };
+    }
+
+    const outcome = await processOnce(store, deliveryKey, work);
+    if (outcome.kind === 'in_progress') {
+      throw new Error(`${deliveryKey} is already being processed`);
+    }
+    return {
+      responseBody: outcome.responseBody,
+      duplicate: outcome.kind === 'duplicate',
+    };
+  };
+
+  const transactionProcessor = (eventType: string): ReplayProcessor => async (body) => {
+    const parsed = parseTransactionBody(body);
+    if (!parsed.ok) {
+      throw new Error(`invalid transaction payload: ${parsed.error}`);
+    }
+    const tx = parsed.value;
+    if (typeof tx.id !== 'number') {
+      throw new Error('transaction payload is missing a numeric id');
+    }
+
+    const { responseBody, duplicate } = await runOnce(
+      buildTransactionDeliveryKey(eventType, tx, body),
+      async () => JSON.stringify(await processTransactionEvent(eventType, tx))
+    );
+    const response = JSON.parse(responseBody) as { check?: boolean; voided?: boolean };
+    return {
+      detail: response.voided
+        ? `transaction ${tx.id} voided`
+        : `transaction ${tx.id} check=${String(response.check)}`,
+      duplicate,
+    };
+  };
+
+  return {
+    ...Object.fromEntries(
+      TRANSACTION_EVENT_TYPES.map((eventType) => [eventType, transactionProcessor(eventType)])
+    ),
+    [ITEM_CREATED_EVENT_TYPE]: async (body) => {
+      const parsed = parseItemCreatedBody(body);
+      if (!parsed.ok) {
+        throw new Error(`invalid item_created payload: ${parsed.error}`);
+      }
+
+      const { duplicate } = await runOnce(
+        buildDeliveryKey(ITEM_CREATED_EVENT_TYPE, parsed.value.id),
+        async () => {
+          await processItemCreated(parsed.value);
+          return JSON.stringify({ status: 'ok' });
+        }
+      );
+      return { detail: `item ${parsed.value.id} enriched`, duplicate };
+    },
+  };
+}
+
+/**
+ * Replay events one at a time, recording an outcome for each. A failure
+ * never stops the remaining events from being replayed.
+ */
+export async function replayEvents(
+  events: ReplayEvent[],
+  processors: Record<string, ReplayProcessor>,
+  source?: ReplayEventSource
+): Promise<ReplayOutcome[]> {
+  const outcomes: ReplayOutcome[] = [];
+
+  for (const event of events) {
+    const processor = processors[event.eventType];
+    if (!processor) {
+      outcomes.push({
+        id: event.id,
+        eventType: event.eventType,
+        status: 'skipped',
+        detail: `no replay processor for event type ${event.eventType}`,
+      });
+      continue;
+    }
+
+    try {
+      const result = await processor(event.body);
+      if (source) {
+        await source.acknowledge(event);
+      }
+      outcomes.push({
+        id: event.id,
+        eventType: event.eventType,
+        status: result.duplicate ? 'duplicate' : 'succeeded',
+        detail: result.detail,
+      });
+    } catch (err) {
+      console.error(
+        'Replay failed',
+        JSON.stringify({ id: event.id, eventType: event.eventType, error: String(err) }, null, 2)
+      );
+      outcomes.push({
+        id: event.id,
+        eventType: event.eventType,
+        status: 'failed',
+        detail: String(err),
+      });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Resolve a replay request into events and replay them.
+ */
+export async function runReplay(
+  request: ReplayRequest,
+  deps: {
+    processors: Record<string, ReplayProcessor>;
+    sources?: Partial<Record<ReplaySourceName, ReplayEventSource>>;
+  }
+): Promise<ReplayOutcome[]> {
+  const window = request.window ?? {};
+  const maxEvents = request.maxEvents ?? DEFAULT_MAX_EVENTS;
+
+  if (request.events) {
+    const events = request.events.filter((event) =>
+      event.receivedAt ? isInWindow(new Date(event.receivedAt), window) : true
+    );
+    return replayEvents(events.slice(0, maxEvents), deps.processors);
+  }
+
+  if (!request.source) {
+    throw new Error('Replay request must include events or a source');
+  }
+
+  const source = deps.sources?.[request.source];
+  if (!source) {
+    throw new Error(`Replay source ${request.source} is not configured`);
+  }
+
+  const events = await source.receiveEvents(window, maxEvents);
+  return replayEvents(events, deps.processors, source);
+}
+
+type ParseReplayRequestResult =
+  | { ok: true; value: ReplayRequest }
+  | { ok: false; error: string };
+
+/**
+ * Validate a JSON replay request (Lambda body or CLI file).
+ */
+export function parseReplayRequest(raw: unknown): ParseReplayRequestResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'request is not an object' };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const request: ReplayRequest = {};
+
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events)) {
+      return { ok: false, error: 'events must be an array' };
+    }
+    const events: ReplayEvent[] = [];
+    for (const [index, entry] of input.events.entries()) {
+      const event = entry as Record<string, unknown>;
+      if (
+        !event ||
+        typeof event.eventType !== 'string' ||
+        (typeof event.body !== 'string' && typeof event.body !== 'object')
+      ) {
+        return {
+          ok: false,
+          error: `events[${index}] must have an eventType and a body`,
+        };
+      }
+      events.push({
+        id: typeof event.id === 'string' ? event.id : `event-${index}`,
+        eventType: event.eventType,
+        // Accept already-parsed payloads as a convenience for hand-written files
+        body: typeof event.body === 'string' ? event.body : JSON.stringify(event.body),
+        receivedAt: typeof event.receivedAt === 'string' ? event.receivedAt : undefined,
+      });
+    }
+    request.events = events;
+  }
+
+  if (input.source !== undefined) {
+    if (!REPLAY_SOURCES.includes(input.source as ReplaySourceName)) {
+      return { ok: false, error: `unsupported source ${String(input.source)}` };
+    }
+    request.source = input.source as ReplaySourceName;
+  }
+
+  if (input.eventTypes !== undefined) {
+    if (request.source !== 'payload-archive') {
+      return { ok: false, error: 'eventTypes is only supported with source payload-archive' };
+    }
+    if (
+      !Array.isArray(input.eventTypes) ||
+      input.eventTypes.length === 0 ||
+      input.eventTypes.some((eventType) => typeof eventType !== 'string')
+    ) {
+      return { ok: false, error: 'eventTypes must be a non-empty array of event types' };
+    }
+    request.eventTypes = input.eventTypes as string[];
+  }
+
+  if (!request.events && !request.source) {
+    return { ok: false, error: 'request must include events or a source' };
+  }
+
+  const window: ReplayWindow = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = input[key];
+    if (value === undefined) {
+      continue;
+    }
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      return { ok: false, error: `${key} must be an ISO-8601 timestamp` };
+    }
+    window[key] = date;
+  }
+  request.window = window;
+
+  if (request.source === 'payload-archive' && !request.events && !window.from) {
+    return { ok: false, error: 'source payload-archive needs a from time' };
+  }
+
+  if (input.maxEvents !== undefined) {
+    if (typeof input.maxEvents !== 'number' || input.maxEvents <= 0) {
+      return { ok: false, error: 'maxEvents must be a positive number' };
+    }
+    request.maxEvents = input.maxEvents;
+  }
+
+  request.force = input.force === true;
+
+  return { ok: true, value: request };
+}
+
+// yyyy-mm-dd of every UTC day from `from` to `to`, inclusive
+function utcDatesBetween(from: Date, to: Date): string[] {
+  const dates: string[] = [];
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  while (day <= to) {
+    dates.push(day.toISOString().slice(0, 10));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+function isInWindow(date: Date, window: ReplayWindow): boolean {
+  if (window.from && date < window.from) {
+    return false;
+  }
+  if (window.to && date > window.to) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,24 @@
+import {
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+
+/**
+ * Strategy:
+ * Based on financial fields: a transaction is “good” if
+ * balance is 0 and the amounts look settled.
+ */
+export class BalanceCompletionStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'balance-based';
+
+  supports(tx: HeartlandTransaction): boolean {
+    return typeof tx.balance === 'number';
+  }
+
+  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+    if (typeof tx.balance !== 'number') {
+      return false;
+    }
+    return Math.abs(tx.balance) < 0.0001;
+  }
+}
@@ -0,0 +1,307 @@
+import {
+  CheckResult,
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  TicketLine,
+  buildHeartlandUrl,
+} from '../clients';
+import { TransactionContext } from '../transaction-context';
+import { getNetLineAmounts } from '../discount-policy';
+
+export interface BelowCostSaleOptions {
+  // Lowest acceptable margin, as a percent of the net unit price
+  minMarginPercent?: number;
+  // Per-department floors (matched case-insensitively), overriding minMarginPercent
+  departmentMinMarginPercent?: Record<string, number>;
+}
+
+type CostSource = 'item' | 'inventory';
+
+interface LineMargin {
+  lineId: number;
+  itemId: number;
+  description: string;
+  department?: string;
+  qty: number;
+  // After line adjustments and the line's share of ticket-level discounts
+  netUnitPrice: number;
+  unitCost: number;
+  costSource: CostSource;
+  // Undefined when the line was sold for nothing
+  marginPercent?: number;
+  minMarginPercent: number;
+}
+
+/**
+ * Strategy:
+ * Fail when an item line's margin, after discounts and price adjustments,
+ * falls below the floor for its department (0% by default, i.e. sold below
+ * cost). The cost is the item's `cost`, falling back to the inventory
+ * `unit_cost` at the ticket's location.
+ *
+ * A line's net price is its original price less its own adjustments (read
+ * like the discount policy does), less its share of the ticket-level
+ * discount: whatever `total_discounts` holds beyond the line discounts,
+ * spread over the lines by their discounted amount.
+ */
+export class BelowCostSaleStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'below-cost-sale';
+  public static readonly DEFAULT_MIN_MARGIN_PERCENT = 0;
+
+  private readonly minMarginPercent: number;
+  private readonly departmentMinMarginPercent: Map<string, number>;
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string,
+    private readonly groupMeClient?: GroupMeClient,
+    options: BelowCostSaleOptions = {}
+  ) {
+    this.minMarginPercent =
+      options.minMarginPercent ?? BelowCostSaleStrategy.DEFAULT_MIN_MARGIN_PERCENT;
+    this.departmentMinMarginPercent = new Map(
+      Object.entries(options.departmentMinMarginPercent ?? {}).map(([department, floor]) => [
+        department.toLowerCase(),
+        floor,
+      ])
+    );
+  }
+
+  supports(tx: HeartlandTransaction): boolean {
+    if (typeof tx.id !== 'number') {
+      console.warn(`[${this.name}] Transaction id is missing or invalid; skipping`);
+      return false;
+    }
+
+    // Only care about Ticket transactions (sales).
+    return tx.type === 'Ticket';
+  }
+
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
+    const ticketId = tx.id;
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
+
+    let lines: TicketLine[];
+    try {
+      lines = await data.getItemLines();
+    } catch (err) {
+      console.error(
+        `[${this.name}] Error retrieving ticket lines`,
+        JSON.stringify({ ticketId, error: String(err) }, null, 2)
+      );
+      return {
+        passed: false,
+        severity: 'warning',
+        reason: `Could not retrieve ticket lines: ${String(err)}`,
+      };
+    }
+
+    const { netUnitPrices, ticketDiscount } = getNetUnitPrices(tx, lines);
+    const lineMargins = await Promise.all(
+      lines.map((line, index) => this.getLineMargin(tx, line, netUnitPrices[index], data))
+    );
+    const margins: LineMargin[] = [];
+    const unknownCostItemIds: number[] = [];
+    lines.forEach((line, index) => {
+      const margin = lineMargins[index];
+      if (margin) {
+        margins.push(margin);
+      } else if (typeof line.item_id === 'number') {
+        unknownCostItemIds.push(line.item_id);
+      }
+    });
+
+    const violations = margins.filter(
+      (margin) => margin.marginPercent === undefined || margin.marginPercent < margin.minMarginPercent
+    );
+    const evidence = {
+      linesChecked: margins.length,
+      ...(ticketDiscount > 0 ? { ticketDiscount } : {}),
+      ...(unknownCostItemIds.length > 0 ? { unknownCostItemIds } : {}),
+      ...(violations.length > 0
+        ? { itemIds: violations.map((margin) => margin.itemId), lines: violations }
+        : {}),
+    };
+
+    if (violations.length === 0) {
+      console.log(
+        `[${this.name}] All line margins at or above their floor`,
+        JSON.stringify({ ticketId, ...evidence }, null, 2)
+      );
+      return { passed: true, evidence };
+    }
+
+    console.warn(
+      `[${this.name}] Low-margin lines detected`,
+      JSON.stringify({ ticketId, lines: violations }, null, 2)
+    );
+
+    if (signal?.aborted) {
+      console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+    } else if (!this.groupMeClient) {
+      console.warn(`[${this.name}] No GroupMe client configured; skipping GroupMe alerts`);
+    } else {
+      const ticketUrl = buildHeartlandUrl(
+        this.heartlandBaseUrl,
+        `/#sales/tickets/edit/${ticketId}`
+      );
+      try {
+        await this.groupMeClient.sendMessage(
+          violations
+            .map(
+              (margin) =>
+                `${describeMargin(margin)} (floor ${margin.minMarginPercent}%)` +
+                ` in ticket ${ticketId} ( ${ticketUrl} )`
+            )
+            .join('\n'),
+          `ticket:${ticketId}`
+        );
+      } catch (err) {
+        console.error(`[${this.name}] Error posting to GroupMe`, err);
+      }
+    }
+
+    return {
+      passed: false,
+      // Selling below cost loses money; a thin margin may be intentional
+      severity: violations.some((margin) => margin.netUnitPrice < margin.unitCost)
+        ? 'critical'
+        : 'warning',
+      reason:
+        `${violations.length} line(s) below their margin floor: ` +
+        violations.map(describeMargin).join(', '),
+      evidence,
+    };
+  }
+
+  /**
+   * Undefined when the line has no item, no price or no cost could be found.
+   */
+  private async getLineMargin(
+    tx: HeartlandTransaction,
+    line: TicketLine,
+    netUnitPrice: number | undefined,
+    data: TransactionContext
+  ): Promise<LineMargin | undefined> {
+    const itemId = line.item_id;
+    if (typeof itemId !== 'number' || netUnitPrice === undefined) {
+      return undefined;
+    }
+
+    let itemCost: number | undefined;
+    let department: string | undefined;
+    try {
+      const item = await data.getItem(itemId);
+      itemCost = asPositiveNumber(item.cost);
+      department = typeof item.custom?.department === 'string' ? item.custom.department : undefined;
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not load item cost`,
+        JSON.stringify({ itemId, error: String(err) }, null, 2)
+      );
+    }
+
+    let unitCost = itemCost;
+    let costSource: CostSource = 'item';
+    if (unitCost === undefined) {
+      unitCost = await this.getInventoryUnitCost(tx, itemId, data);
+      costSource = 'inventory';
+    }
+    if (unitCost === undefined) {
+      return undefined;
+    }
+
+    const minMarginPercent =
+      (department !== undefined
+        ? this.departmentMinMarginPercent.get(department.toLowerCase())
+        : undefined) ?? this.minMarginPercent;
+
+    return {
+      lineId: line.id,
+      itemId,
+      description: line.item_description ?? line.description ?? `Item ${itemId}`,
+      ...(department !== undefined ? { department } : {}),
+      qty: Math.abs(asNumber(line.qty) ?? 1),
+      netUnitPrice,
+      unitCost,
+      costSource,
+      ...(netUnitPrice > 0
+        ? { marginPercent: round(((netUnitPrice - unitCost) / netUnitPrice) * 100) }
+        : {}),
+      minMarginPercent,
+    };
+  }
+
+  /**
+   * `unit_cost` at the ticket's location, else at any location.
+   */
+  private async getInventoryUnitCost(
+    tx: HeartlandTransaction,
+    itemId: number,
+    data: TransactionContext
+  ): Promise<number | undefined> {
+    try {
+      const rows = (await data.getInventoryValues(itemId)).results ?? [];
+      const atLocation = rows.find((row) => row.location_id === tx.source_location_id);
+      return (
+        asPositiveNumber(atLocation?.unit_cost) ??
+        rows.map((row) => asPositiveNumber(row.unit_cost)).find((cost) => cost !== undefined)
+      );
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not load inventory unit cost`,
+        JSON.stringify({ itemId, error: String(err) }, null, 2)
+      );
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Net unit price of each line, after its own discount and its share of the
+ * ticket-level discount. Lines priced at nothing keep their final unit price
+ * (undefined without one).
+ */
+function getNetUnitPrices(
+  tx: HeartlandTransaction,
+  lines: TicketLine[]
+): { netUnitPrices: (number | undefined)[]; ticketDiscount: number } {
+  const { netAmounts, ticketDiscount } = getNetLineAmounts(lines, tx.total_discounts);
+  return {
+    netUnitPrices: netAmounts.map((net, index) => {
+      const line = lines[index];
+      if (net === undefined) {
+        return asNumber(line.adjusted_unit_price) ?? asNumber(line.unit_price);
+      }
+      return round(net / Math.abs(asNumber(line.qty) ?? 1));
+    }),
+    ticketDiscount,
+  };
+}
+
+function describeMargin(margin: LineMargin): string {
+  const marginText =
+    margin.marginPercent === undefined ? 'sold for $0' : `${margin.marginPercent}% margin`;
+  return `${margin.description} sold at $${margin.netUnitPrice} against cost $${margin.unitCost} (${marginText})`;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function asPositiveNumber(value: unknown): number | undefined {
+  const number = asNumber(value);
+  return number !== undefined && number > 0 ? number : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
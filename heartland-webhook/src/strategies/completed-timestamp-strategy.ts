@@ -0,0 +1,24 @@
+import {
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+
+/**
+ * Strategy:
+ * Fallback heuristic: if there's a completed_at timestamp,
+ * treat it as complete.
+ */
+export class CompletedTimestampStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'completed-timestamp';
+
+  supports(tx: HeartlandTransaction): boolean {
+    return (
+      typeof tx.completed_at === 'string' ||
+      typeof tx.local_completed_at === 'string'
+    );
+  }
+
+  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+    return Boolean(tx.completed_at || tx.local_completed_at);
+  }
+}
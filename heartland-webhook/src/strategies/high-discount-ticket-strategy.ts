@@ -1,22 +1,56 @@
 import {
+  CheckResult,
   HeartlandTransaction,
   TransactionCompletionStrategy,
 } from '../model';
-import { GroupMeClient } from '../clients';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  TicketLine,
+  buildHeartlandUrl,
+} from '../clients';
+import {
+  DiscountPolicy,
+  DiscountPolicyEvaluation,
+  evaluateDiscountPolicy,
+  policyNeeds,
+} from '../discount-policy';
+import { TransactionContext } from '../transaction-context';
 
-const HEARTLAND_TICKET_URL_BASE =
-  'https://bamherndon.retail.heartland.us/#sales/tickets/edit';
+export interface HighDiscountTicketOptions {
+  // Fail when total_discounts exceeds this percentage of original_subtotal
+  thresholdPercent?: number;
+  // Discounts at or below this dollar amount fail the check without an alert
+  minAlertDiscount?: number;
+  // Per-department/rep/customer/day/promotion limits; see discount-policy.ts
+  policy?: DiscountPolicy;
+}
 
 /**
  * Strategy:
- * Fail if total_discounts exceeds 5% of original_subtotal.
+ * Fail if the ticket's discount, or any single line's discount, exceeds the
+ * limit the discount policy sets for it (5% of original_subtotal for the
+ * ticket and 25% per line by default).
  */
 export class HighDiscountTicketStrategy
   implements TransactionCompletionStrategy
 {
   public readonly name = 'high-discount-ticket';
 
-  constructor(private readonly groupMeClient?: GroupMeClient) {}
+  private readonly policy: DiscountPolicy;
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string,
+    private readonly groupMeClient?: GroupMeClient,
+    options: HighDiscountTicketOptions = {}
+  ) {
+    this.policy = {
+      ...options.policy,
+      thresholdPercent: options.policy?.thresholdPercent ?? options.thresholdPercent,
+      minAlertDiscount: options.policy?.minAlertDiscount ?? options.minAlertDiscount,
+    };
+  }
 
   supports(tx: HeartlandTransaction): boolean {
     if (typeof tx.id !== 'number') {
@@ -34,66 +68,206 @@ export class HighDiscountTicketStrategy
     return true;
   }
 
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
     const ticketId = tx.id;
-    const totalDiscounts =
-      typeof tx.total_discounts === 'number' ? tx.total_discounts : undefined;
-    const originalSubtotal =
-      typeof tx.original_subtotal === 'number' ? tx.original_subtotal : undefined;
-
-    if (
-      typeof totalDiscounts !== 'number' ||
-      typeof originalSubtotal !== 'number' ||
-      originalSubtotal <= 0
-    ) {
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
+
+    let lines: TicketLine[] | undefined;
+    try {
+      lines = await data.getItemLines();
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not retrieve ticket lines; checking ticket totals only`,
+        JSON.stringify({ ticketId, error: String(err) }, null, 2)
+      );
+    }
+
+    const needs = policyNeeds(this.policy);
+    const evaluation = evaluateDiscountPolicy(this.policy, {
+      tx,
+      lines,
+      departmentsByItemId:
+        needs.departments && lines ? await this.loadDepartments(data, lines) : undefined,
+      customerGroup: needs.customerGroup ? await this.loadCustomerGroup(data) : undefined,
+    });
+
+    if (evaluation.exemptRule) {
+      return {
+        passed: true,
+        severity: 'info',
+        reason: `Discounts exempt under policy rule "${evaluation.exemptRule}"`,
+      };
+    }
+
+    if (!evaluation.ticket && evaluation.linesChecked === 0) {
       console.warn(
         `[${this.name}] Missing or invalid discount data; treating as pass`,
         JSON.stringify({ ticketId }, null, 2)
       );
-      return true;
+      return {
+        passed: true,
+        severity: 'info',
+        reason: 'Missing or invalid discount data; discount not checked',
+      };
     }
 
-    const discountPercent = (totalDiscounts / originalSubtotal) * 100;
-    const thresholdPercent = 5;
+    const evidence = buildEvidence(evaluation);
 
-    if (discountPercent > thresholdPercent) {
-      const ticketUrl = `${HEARTLAND_TICKET_URL_BASE}/${ticketId}`;
+    if (!evaluation.ticketViolated && evaluation.lineViolations.length === 0) {
+      return { passed: true, evidence };
+    }
+
+    console.warn(
+      `[${this.name}] High discount detected`,
+      JSON.stringify({ ticketId, ...evidence }, null, 2)
+    );
+
+    const alertable = evaluation.offendingDiscount > evaluation.minAlertDiscount;
+    if (!alertable) {
       console.warn(
-        `[${this.name}] High discount detected`,
-        JSON.stringify(
-          {
-            ticketId,
-            totalDiscounts,
-            originalSubtotal,
-            discountPercent,
-          },
-          null,
-          2
-        )
+        `[${this.name}] Discount <= $${evaluation.minAlertDiscount}; skipping GroupMe alerts`
       );
-
-      if (totalDiscounts <= 5) {
-        console.warn(
-          `[${this.name}] Discount <= $5; skipping GroupMe alerts`
-        );
-      } else if (!this.groupMeClient) {
-        console.warn(
-          `[${this.name}] No GroupMe client configured; skipping GroupMe alerts`
+    } else if (signal?.aborted) {
+      console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+    } else if (!this.groupMeClient) {
+      console.warn(
+        `[${this.name}] No GroupMe client configured; skipping GroupMe alerts`
+      );
+    } else {
+      try {
+        await this.groupMeClient.sendMessage(
+          this.buildAlert(ticketId, evaluation),
+          `ticket:${ticketId}`
         );
-      } else {
-        const message =
-          `Ticket ${ticketId} (  ${ticketUrl}  )  -  ${originalSubtotal}` +
-          ` was discounted by ${discountPercent.toFixed(2)}%`;
+      } catch (err) {
+        console.error(`[${this.name}] Error posting to GroupMe`, err);
+      }
+    }
+
+    return {
+      passed: false,
+      // Small discounts fail the check but are not worth an alert
+      severity: alertable ? 'warning' : 'info',
+      reason: describeViolations(evaluation),
+      evidence,
+    };
+  }
+
+  private buildAlert(ticketId: number, evaluation: DiscountPolicyEvaluation): string {
+    const ticketUrl = buildHeartlandUrl(
+      this.heartlandBaseUrl,
+      `/#sales/tickets/edit/${ticketId}`
+    );
+    const messages: string[] = [];
+    const { ticket } = evaluation;
+
+    if (evaluation.ticketViolated && ticket) {
+      messages.push(
+        `Ticket ${ticketId} (  ${ticketUrl}  )  -  ${ticket.originalSubtotal}` +
+          ` was discounted by ${ticket.discountPercent.toFixed(2)}%` +
+          ` ($${ticket.discount} off, threshold ${ticket.thresholdPercent}%)`
+      );
+    }
+
+    for (const line of evaluation.lineViolations) {
+      messages.push(
+        `${line.description} was discounted by ${line.discountPercent.toFixed(2)}%` +
+          ` ($${line.discount} off $${line.originalAmount}, threshold ${line.thresholdPercent}%)` +
+          ` in ticket ${ticketId} ( ${ticketUrl} )`
+      );
+    }
+
+    return messages.join('\n');
+  }
+
+  private async loadDepartments(
+    data: TransactionContext,
+    lines: TicketLine[]
+  ): Promise<Map<number, string | undefined>> {
+    const itemIds = Array.from(
+      new Set(
+        lines
+          .map((line) => line.item_id)
+          .filter((id): id is number => typeof id === 'number')
+      )
+    );
+
+    const departments = new Map<number, string | undefined>();
+    await Promise.all(
+      itemIds.map(async (itemId) => {
         try {
-          await this.groupMeClient.sendMessage(message);
+          const item = await data.getItem(itemId);
+          const department = item.custom?.department;
+          departments.set(itemId, typeof department === 'string' ? department : undefined);
         } catch (err) {
-          console.error(`[${this.name}] Error posting to GroupMe`, err);
+          console.warn(
+            `[${this.name}] Could not load item department`,
+            JSON.stringify({ itemId, error: String(err) }, null, 2)
+          );
         }
-      }
+      })
+    );
+    return departments;
+  }
 
-      return false;
+  private async loadCustomerGroup(data: TransactionContext): Promise<string | undefined> {
+    try {
+      const customer = await data.getCustomer();
+      return typeof customer?.customer_type === 'string' ? customer.customer_type : undefined;
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not load customer`,
+        JSON.stringify({ customerId: data.tx.customer_id, error: String(err) }, null, 2)
+      );
+      return undefined;
     }
+  }
+}
 
-    return true;
+function buildEvidence(evaluation: DiscountPolicyEvaluation): Record<string, unknown> {
+  const { ticket } = evaluation;
+  return {
+    ...(ticket
+      ? {
+          totalDiscounts: ticket.discount,
+          originalSubtotal: ticket.originalSubtotal,
+          discountPercent: ticket.discountPercent,
+          thresholdPercent: ticket.thresholdPercent,
+          ...(ticket.rule ? { rule: ticket.rule } : {}),
+        }
+      : {}),
+    ...(evaluation.linesChecked > 0 ? { linesChecked: evaluation.linesChecked } : {}),
+    ...(evaluation.lineViolations.length > 0
+      ? {
+          itemIds: evaluation.lineViolations.map((line) => line.itemId),
+          lines: evaluation.lineViolations,
+        }
+      : {}),
+  };
+}
+
+function describeViolations(evaluation: DiscountPolicyEvaluation): string {
+  const parts: string[] = [];
+  const { ticket } = evaluation;
+
+  if (evaluation.ticketViolated && ticket) {
+    parts.push(
+      `Ticket was discounted by ${ticket.discountPercent.toFixed(2)}%` +
+        ` ($${ticket.discount} of $${ticket.originalSubtotal}),` +
+        ` above the ${ticket.thresholdPercent}% threshold`
+    );
+  }
+  if (evaluation.lineViolations.length > 0) {
+    parts.push(
+      `${evaluation.lineViolations.length} line(s) above their discount threshold: ` +
+        evaluation.lineViolations
+          .map((line) => `${line.description} (${line.discountPercent.toFixed(2)}%)`)
+          .join(', ')
+    );
   }
+  return parts.join('; ');
 }
@@ -1,13 +1,22 @@
 import {
+  CheckResult,
   HeartlandTransaction,
+  RemediationAction,
   TransactionCompletionStrategy,
 } from '../model';
 import {
   GroupMeClient,
   HeartlandApiClient,
-  InventoryValuesResponse,
   TicketLinesResponse,
 } from '../clients';
+import { TransactionContext } from '../transaction-context';
+import {
+  InventoryExclusion,
+  InventoryExclusionStore,
+  describeExclusionRule,
+  exclusionMatches,
+  isExclusionActive,
+} from '../inventory-exclusions';
 
 /**
  * Strategy:
@@ -15,25 +24,31 @@ import {
  *
  * If any item at the ticket's location has negative inventory, the check fails
  * and we log + optionally send GroupMe alerts.
+ *
+ * Items are skipped when they are in the configured `excludedItemIds` or
+ * match an active exclusion from the managed exclusion store (by item id,
+ * custom field or tag).
+ *
+ * With a `recountTag`, the check asks for each negative item to be tagged
+ * with it, so staff can find the items to recount.
  */
 export class InventoryNonNegativeStrategy
   implements TransactionCompletionStrategy
 {
   public readonly name = 'inventory-non-negative';
-  private static readonly EXCLUDED_ITEM_IDS = new Set<number>([
-    101996,
-    106379,
-    102112,
-    104961,
-    104962,
-    103065,
-  ]);
+
+  private readonly excludedItemIds: Set<number>;
 
   constructor(
     private readonly apiClient: HeartlandApiClient,
     private readonly heartlandBaseUrl: string,
-    private readonly groupMeClient?: GroupMeClient
-  ) {}
+    private readonly groupMeClient?: GroupMeClient,
+    excludedItemIds: readonly number[] = [],
+    private readonly exclusionStore?: InventoryExclusionStore,
+    private readonly recountTag?: string
+  ) {
+    this.excludedItemIds = new Set(excludedItemIds);
+  }
 
   supports(tx: HeartlandTransaction): boolean {
     if (typeof tx.id !== 'number') {
@@ -56,8 +71,13 @@ export class InventoryNonNegativeStrategy
     return true;
   }
 
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
     const ticketId = tx.id;
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
     const locationId = tx.source_location_id as number;
 
     console.log(
@@ -68,21 +88,34 @@ export class InventoryNonNegativeStrategy
     // 1. Retrieve ticket lines
     let linesResponse: TicketLinesResponse;
     try {
-      linesResponse = await this.apiClient.getTicketLines(ticketId);
+      linesResponse = await data.getTicketLines();
     } catch (err) {
       console.error(
         `[${this.name}] Error retrieving ticket lines`,
         JSON.stringify({ ticketId, error: String(err) }, null, 2)
       );
       // Fail the check if we can't validate inventory
-      return false;
+      return {
+        passed: false,
+        severity: 'warning',
+        reason: `Could not retrieve ticket lines: ${String(err)}`,
+      };
+    }
+
+    const exclusions = await this.loadExclusions(ticketId);
+    const excludedItemIds = new Set(this.excludedItemIds);
+    for (const exclusion of exclusions) {
+      if (exclusion.rule.kind === 'item') {
+        excludedItemIds.add(exclusion.rule.itemId);
+      }
     }
+    const itemExclusions = exclusions.filter((exclusion) => exclusion.rule.kind !== 'item');
 
     const itemDescriptionById = new Map<number, string>();
 
     for (const line of linesResponse.results ?? []) {
       if (line.type === 'ItemLine' && typeof line.item_id === 'number') {
-        if (InventoryNonNegativeStrategy.EXCLUDED_ITEM_IDS.has(line.item_id)) {
+        if (excludedItemIds.has(line.item_id)) {
           continue;
         }
 
@@ -104,7 +137,7 @@ export class InventoryNonNegativeStrategy
             (line) =>
               line.type === 'ItemLine' &&
               typeof line.item_id === 'number' &&
-              !InventoryNonNegativeStrategy.EXCLUDED_ITEM_IDS.has(line.item_id)
+              !excludedItemIds.has(line.item_id)
           )
           .map((line) => line.item_id as number)
       )
@@ -115,7 +148,7 @@ export class InventoryNonNegativeStrategy
         `[${this.name}] No ItemLine rows found for ticket; treating as pass`,
         JSON.stringify({ ticketId }, null, 2)
       );
-      return true;
+      return { passed: true, reason: 'No item lines to check' };
     }
 
     console.log(
@@ -127,7 +160,7 @@ export class InventoryNonNegativeStrategy
       )
     );
 
-    const negatives: Array<{
+    let negatives: Array<{
       item_id: number;
       location_id?: number;
       qty_on_hand?: number;
@@ -138,7 +171,7 @@ export class InventoryNonNegativeStrategy
     // 2. For each item, retrieve inventory values grouped by item+location
     for (const itemId of itemIds) {
       try {
-        const invResponse = await this.apiClient.getInventoryValues(itemId);
+        const invResponse = await data.getInventoryValues(itemId);
 
       for (const row of invResponse.results ?? []) {
         // If a location_id is present, restrict to the ticket's location
@@ -181,10 +214,42 @@ export class InventoryNonNegativeStrategy
           JSON.stringify({ itemId, error: String(err) }, null, 2)
         );
         // Fail the check if we can't validate inventory
-        return false;
+        return {
+          passed: false,
+          severity: 'warning',
+          reason: `Could not retrieve inventory for item ${itemId}: ${String(err)}`,
+          evidence: { itemId },
+        };
       }
     }
 
+    const excluded: Array<{ itemId: number; exclusionId: string }> = [];
+    if (negatives.length > 0 && itemExclusions.length > 0) {
+      const kept: typeof negatives = [];
+      for (const neg of negatives) {
+        const exclusion = await this.findItemExclusion(data, neg.item_id, itemExclusions);
+        if (exclusion) {
+          console.log(
+            `[${this.name}] Negative inventory excluded`,
+            JSON.stringify(
+              {
+                ticketId,
+                itemId: neg.item_id,
+                exclusionId: exclusion.id,
+                rule: describeExclusionRule(exclusion.rule),
+              },
+              null,
+              2
+            )
+          );
+          excluded.push({ itemId: neg.item_id, exclusionId: exclusion.id });
+        } else {
+          kept.push(neg);
+        }
+      }
+      negatives = kept;
+    }
+
     if (negatives.length > 0) {
       console.warn(
         `[${this.name}] Negative inventory detected`,
@@ -201,7 +266,9 @@ export class InventoryNonNegativeStrategy
       );
 
       // Best-effort GroupMe notifications (if a client was provided).
-      if (!this.groupMeClient) {
+      if (signal?.aborted) {
+        console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+      } else if (!this.groupMeClient) {
         console.warn(
           `[${this.name}] No GroupMe client configured; skipping GroupMe alerts`
         );
@@ -213,7 +280,10 @@ export class InventoryNonNegativeStrategy
             negatives.map((neg) => {
               const url = `${base}/#items/edit/${neg.item_id}`;
               const text = `${neg.description} (${url}) has negative inventory balance`;
-              return this.groupMeClient!.sendMessage(text);
+              return this.groupMeClient!.sendMessage(
+                text,
+                `item:${neg.item_id}@${locationId}`
+              );
             })
           );
         } catch (err) {
@@ -225,13 +295,81 @@ export class InventoryNonNegativeStrategy
         }
       }
 
-      return false;
+      const remediations: RemediationAction[] = this.recountTag
+        ? negatives.map((neg) => ({
+            kind: 'add-item-tag',
+            itemId: neg.item_id,
+            tag: this.recountTag as string,
+          }))
+        : [];
+
+      return {
+        passed: false,
+        severity: 'critical',
+        reason:
+          `${negatives.length} item(s) have negative inventory at location ${locationId}: ` +
+          negatives.map((neg) => neg.description).join(', '),
+        evidence: {
+          locationId,
+          itemIds: negatives.map((neg) => neg.item_id),
+          items: negatives,
+          ...(excluded.length > 0 ? { excluded } : {}),
+        },
+        ...(remediations.length > 0 ? { remediations } : {}),
+      };
     }
 
     console.log(
       `[${this.name}] All inventory quantities non-negative`,
       JSON.stringify({ ticketId, locationId }, null, 2)
     );
-    return true;
+    return {
+      passed: true,
+      evidence: { locationId, itemIds, ...(excluded.length > 0 ? { excluded } : {}) },
+    };
+  }
+
+  /**
+   * Active managed exclusions. A store failure is logged and the check runs
+   * with the configured item ids only, so an outage cannot hide negatives.
+   */
+  private async loadExclusions(ticketId: number): Promise<InventoryExclusion[]> {
+    if (!this.exclusionStore) {
+      return [];
+    }
+
+    try {
+      const now = Date.now();
+      return (await this.exclusionStore.list()).filter((exclusion) =>
+        isExclusionActive(exclusion, now)
+      );
+    } catch (err) {
+      console.error(
+        `[${this.name}] Error loading inventory exclusions; using configured item ids only`,
+        JSON.stringify({ ticketId, error: String(err) }, null, 2)
+      );
+      return [];
+    }
+  }
+
+  /**
+   * First custom-field or tag exclusion matching the item. The item is only
+   * fetched for negative rows; if it cannot be loaded it is not excluded.
+   */
+  private async findItemExclusion(
+    data: TransactionContext,
+    itemId: number,
+    exclusions: InventoryExclusion[]
+  ): Promise<InventoryExclusion | undefined> {
+    try {
+      const item = await data.getItem(itemId);
+      return exclusions.find((exclusion) => exclusionMatches(exclusion.rule, itemId, item));
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not load item to check exclusions`,
+        JSON.stringify({ itemId, error: String(err) }, null, 2)
+      );
+      return undefined;
+    }
   }
 }
@@ -1,4 +1,5 @@
 import {
+  CheckResult,
   HeartlandTransaction,
   TransactionCompletionStrategy,
 } from '../model';
@@ -6,14 +7,16 @@ import {
   GroupMeClient,
   HeartlandApiClient,
   TicketLinesResponse,
+  buildHeartlandUrl,
 } from '../clients';
-
-const HEARTLAND_TICKET_URL_BASE =
-  'https://bamherndon.retail.heartland.us/#sales/tickets/edit';
+import { TransactionContext } from '../transaction-context';
 
 /**
  * Strategy:
  * Detect whether any item line has an adjusted price.
+ *
+ * With a `ticketNoteField`, the check asks for that ticket custom field to be
+ * set to a note listing the adjustments.
  */
 export class PriceAdjustedItemStrategy
   implements TransactionCompletionStrategy
@@ -22,7 +25,9 @@ export class PriceAdjustedItemStrategy
 
   constructor(
     private readonly apiClient: HeartlandApiClient,
-    private readonly groupMeClient?: GroupMeClient
+    private readonly heartlandBaseUrl: string,
+    private readonly groupMeClient?: GroupMeClient,
+    private readonly ticketNoteField?: string
   ) {}
 
   supports(tx: HeartlandTransaction): boolean {
@@ -41,8 +46,13 @@ export class PriceAdjustedItemStrategy
     return true;
   }
 
-  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
     const ticketId = tx.id;
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
 
     console.log(
       `[${this.name}] Starting price adjustment check`,
@@ -51,13 +61,17 @@ export class PriceAdjustedItemStrategy
 
     let linesResponse: TicketLinesResponse;
     try {
-      linesResponse = await this.apiClient.getTicketLines(ticketId);
+      linesResponse = await data.getTicketLines();
     } catch (err) {
       console.error(
         `[${this.name}] Error retrieving ticket lines`,
         JSON.stringify({ ticketId, error: String(err) }, null, 2)
       );
-      return false;
+      return {
+        passed: false,
+        severity: 'warning',
+        reason: `Could not retrieve ticket lines: ${String(err)}`,
+      };
     }
 
     const itemLines = (linesResponse.results ?? []).filter(
@@ -69,7 +83,7 @@ export class PriceAdjustedItemStrategy
         `[${this.name}] No ItemLine rows found for ticket; treating as pass`,
         JSON.stringify({ ticketId }, null, 2)
       );
-      return true;
+      return { passed: true, reason: 'No item lines to check' };
     }
 
     const adjustedItems = itemLines
@@ -111,12 +125,17 @@ export class PriceAdjustedItemStrategy
         JSON.stringify({ ticketId, items: adjustedItems }, null, 2)
       );
 
-      if (!this.groupMeClient) {
+      if (signal?.aborted) {
+        console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+      } else if (!this.groupMeClient) {
         console.warn(
           `[${this.name}] No GroupMe client configured; skipping GroupMe alerts`
         );
       } else {
-        const ticketUrl = `${HEARTLAND_TICKET_URL_BASE}/${ticketId}`;
+        const ticketUrl = buildHeartlandUrl(
+          this.heartlandBaseUrl,
+          `/#sales/tickets/edit/${ticketId}`
+        );
 
         try {
           await Promise.all(
@@ -129,7 +148,10 @@ export class PriceAdjustedItemStrategy
                 `Item ${item.description} price was adjusted by ${deltaText}` +
                 ` from ${original} to ${adjusted} in ticket ${ticketId}` +
                 ` ( ${ticketUrl} )`;
-              return this.groupMeClient!.sendMessage(text);
+              return this.groupMeClient!.sendMessage(
+                text,
+                `ticket:${ticketId}:line:${item.line_id}`
+              );
             })
           );
         } catch (err) {
@@ -137,14 +159,47 @@ export class PriceAdjustedItemStrategy
         }
       }
 
-      return false;
+      const reason =
+        `${adjustedItems.length} item(s) had their price adjusted: ` +
+        adjustedItems
+          .map((item) => `${item.description} (${formatPrice(getDeltaPrice(item))})`)
+          .join(', ');
+
+      return {
+        passed: false,
+        severity: 'warning',
+        reason,
+        evidence: {
+          itemIds: adjustedItems.map((item) => item.item_id),
+          items: adjustedItems.map((item) => ({
+            line_id: item.line_id,
+            item_id: item.item_id,
+            description: item.description,
+            original_unit_price: item.original_unit_price,
+            adjusted_unit_price: item.adjusted_unit_price,
+            delta_price: getDeltaPrice(item),
+          })),
+        },
+        ...(this.ticketNoteField
+          ? {
+              remediations: [
+                {
+                  kind: 'annotate-ticket' as const,
+                  ticketId,
+                  field: this.ticketNoteField,
+                  note: reason,
+                },
+              ],
+            }
+          : {}),
+      };
     }
 
     console.log(
       `[${this.name}] No price adjustments detected`,
       JSON.stringify({ ticketId }, null, 2)
     );
-    return true;
+    return { passed: true };
   }
 }
 
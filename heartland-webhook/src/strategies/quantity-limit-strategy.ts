@@ -0,0 +1,496 @@
+import {
+  CheckResult,
+  HeartlandItemCustomFields,
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  TicketLine,
+  buildHeartlandUrl,
+} from '../clients';
+import { TransactionContext } from '../transaction-context';
+
+export type QuantityLimitGroup = 'item' | 'bricklinkId' | 'theme';
+
+export const QUANTITY_LIMIT_GROUPS: QuantityLimitGroup[] = ['item', 'bricklinkId', 'theme'];
+
+// Most units one customer may buy, per item / BrickLink id / theme
+export type QuantityLimits = Partial<Record<QuantityLimitGroup, number>>;
+
+export interface QuantityLimitOptions {
+  maxQuantity?: QuantityLimits;
+  // Limits for retired or retiring items; the lower of the two limits applies
+  retiredMaxQuantity?: QuantityLimits;
+  // An item whose retirementDate is this close counts as retiring
+  retiringWithinDays?: number;
+  // How far back the customer's earlier tickets count; 0 checks this ticket only
+  lookbackDays?: number;
+}
+
+type RetirementStatus = 'retired' | 'retiring';
+
+interface ItemFacts {
+  description: string;
+  bricklinkId?: string;
+  theme?: string;
+  retirement?: RetirementStatus;
+}
+
+interface PriorLine {
+  ticketId: number;
+  itemId: number;
+  qty: number;
+}
+
+interface CustomerHistory {
+  ticketsChecked: number;
+  lines: PriorLine[];
+  // Set when the earlier tickets could not be loaded
+  error?: string;
+}
+
+interface GroupTotal {
+  group: QuantityLimitGroup;
+  key: string;
+  description: string;
+  // Units on this ticket
+  quantity: number;
+  // Units on the customer's earlier tickets in the lookback window
+  priorQuantity: number;
+  retirement?: RetirementStatus;
+  itemIds: number[];
+  ticketIds: number[];
+}
+
+interface QuantityViolation extends GroupTotal {
+  limit: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each earlier ticket costs a lines request, so only the newest are read
+const MAX_LOOKBACK_TICKETS = 20;
+
+const RETIRED_VALUES = ['retired', 'yes', 'y', 'true', '1'];
+
+/**
+ * Strategy:
+ * Flag tickets where a customer buys more units of the same item, or of
+ * items sharing a `bricklinkId` or `theme` custom field, than the configured
+ * limit, counting the customer's other tickets in the lookback window as
+ * well as this one. Items marked retired, or with a `retirementDate` that is
+ * past or near, are held to the (usually tighter) retired limits.
+ */
+export class QuantityLimitStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'quantity-limit';
+  public static readonly DEFAULT_MAX_QUANTITY: QuantityLimits = { item: 5, bricklinkId: 5 };
+  public static readonly DEFAULT_RETIRED_MAX_QUANTITY: QuantityLimits = {
+    item: 2,
+    bricklinkId: 2,
+  };
+  public static readonly DEFAULT_RETIRING_WITHIN_DAYS = 90;
+  public static readonly DEFAULT_LOOKBACK_DAYS = 30;
+
+  private readonly maxQuantity: QuantityLimits;
+  private readonly retiredMaxQuantity: QuantityLimits;
+  private readonly retiringWithinDays: number;
+  private readonly lookbackDays: number;
+  private readonly groups: QuantityLimitGroup[];
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string,
+    private readonly groupMeClient?: GroupMeClient,
+    options: QuantityLimitOptions = {}
+  ) {
+    this.maxQuantity = options.maxQuantity ?? QuantityLimitStrategy.DEFAULT_MAX_QUANTITY;
+    this.retiredMaxQuantity =
+      options.retiredMaxQuantity ?? QuantityLimitStrategy.DEFAULT_RETIRED_MAX_QUANTITY;
+    this.retiringWithinDays =
+      options.retiringWithinDays ?? QuantityLimitStrategy.DEFAULT_RETIRING_WITHIN_DAYS;
+    this.lookbackDays = options.lookbackDays ?? QuantityLimitStrategy.DEFAULT_LOOKBACK_DAYS;
+    // Only groups with a limit are worth totalling
+    this.groups = QUANTITY_LIMIT_GROUPS.filter(
+      (group) =>
+        this.maxQuantity[group] !== undefined || this.retiredMaxQuantity[group] !== undefined
+    );
+  }
+
+  supports(tx: HeartlandTransaction): boolean {
+    if (typeof tx.id !== 'number') {
+      console.warn(`[${this.name}] Transaction id is missing or invalid; skipping`);
+      return false;
+    }
+
+    // Only care about Ticket transactions (sales).
+    return tx.type === 'Ticket';
+  }
+
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
+    const ticketId = tx.id;
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
+
+    let lines: TicketLine[];
+    try {
+      lines = await data.getItemLines();
+    } catch (err) {
+      console.error(
+        `[${this.name}] Error retrieving ticket lines`,
+        JSON.stringify({ ticketId, error: String(err) }, null, 2)
+      );
+      return {
+        passed: false,
+        severity: 'warning',
+        reason: `Could not retrieve ticket lines: ${String(err)}`,
+      };
+    }
+
+    const purchased = sumQuantities(lines);
+    if (purchased.size === 0) {
+      return { passed: true, evidence: { itemsChecked: 0 } };
+    }
+
+    const nowMs = Date.now();
+    const facts = new Map<number, ItemFacts>();
+    await this.loadItemFacts(Array.from(purchased.keys()), lines, data, facts, nowMs);
+
+    const history = await this.loadHistory(tx, data, nowMs);
+    // Earlier items only need loading when they can share a BrickLink id or theme
+    if (history && this.groups.some((group) => group !== 'item')) {
+      await this.loadItemFacts(
+        Array.from(new Set(history.lines.map((line) => line.itemId))),
+        [],
+        data,
+        facts,
+        nowMs
+      );
+    }
+
+    const totals = this.totalByGroup(purchased, history?.lines ?? [], facts);
+    const violations: QuantityViolation[] = [];
+    for (const total of totals) {
+      const limit = this.limitFor(total.group, total.retirement);
+      if (limit !== undefined && total.quantity + total.priorQuantity > limit) {
+        violations.push({ ...total, limit });
+      }
+    }
+
+    const evidence = {
+      itemsChecked: purchased.size,
+      ...(typeof tx.customer_id === 'number'
+        ? { customerId: tx.customer_id, lookbackDays: this.lookbackDays }
+        : {}),
+      ...(history ? { ticketsChecked: history.ticketsChecked } : {}),
+      ...(history?.error !== undefined ? { historyUnavailable: true } : {}),
+      ...(violations.length > 0
+        ? {
+            itemIds: Array.from(new Set(violations.flatMap((violation) => violation.itemIds))),
+            violations,
+          }
+        : {}),
+    };
+
+    if (violations.length === 0) {
+      console.log(
+        `[${this.name}] All quantities within their limits`,
+        JSON.stringify({ ticketId, ...evidence }, null, 2)
+      );
+      return { passed: true, evidence };
+    }
+
+    console.warn(
+      `[${this.name}] Quantity limits exceeded`,
+      JSON.stringify({ ticketId, ...evidence }, null, 2)
+    );
+
+    if (signal?.aborted) {
+      console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+    } else if (!this.groupMeClient) {
+      console.warn(`[${this.name}] No GroupMe client configured; skipping GroupMe alerts`);
+    } else {
+      const ticketUrl = buildHeartlandUrl(
+        this.heartlandBaseUrl,
+        `/#sales/tickets/edit/${ticketId}`
+      );
+      const buyer =
+        typeof tx.customer_id === 'number' ? `customer ${tx.customer_id}` : 'no customer';
+      try {
+        await this.groupMeClient.sendMessage(
+          `Quantity limit exceeded in ticket ${ticketId} (${buyer}) ( ${ticketUrl} ):\n` +
+            violations.map((violation) => this.describeViolation(violation)).join('\n'),
+          `ticket:${ticketId}`
+        );
+      } catch (err) {
+        console.error(`[${this.name}] Error posting to GroupMe`, err);
+      }
+    }
+
+    return {
+      passed: false,
+      severity: 'warning',
+      reason:
+        `${violations.length} quantity limit(s) exceeded: ` +
+        violations.map((violation) => this.describeViolation(violation)).join('; '),
+      evidence,
+    };
+  }
+
+  /**
+   * Undefined for walk-in tickets, or when the lookback is turned off.
+   */
+  private async loadHistory(
+    tx: HeartlandTransaction,
+    data: TransactionContext,
+    nowMs: number
+  ): Promise<CustomerHistory | undefined> {
+    if (this.lookbackDays <= 0) {
+      return undefined;
+    }
+
+    const since = new Date(nowMs - this.lookbackDays * DAY_MS).toISOString();
+    try {
+      const tickets = await data.getCustomerTickets(since);
+      if (!tickets) {
+        return undefined;
+      }
+
+      const recent = tickets.slice(0, MAX_LOOKBACK_TICKETS);
+      const ticketLines = await Promise.all(
+        recent.map((ticket) => data.getOtherTicketLines(ticket.id))
+      );
+      const lines: PriorLine[] = [];
+      recent.forEach((ticket, index) => {
+        for (const line of ticketLines[index].results ?? []) {
+          if (line.type !== 'ItemLine') {
+            continue;
+          }
+          const qty = asPositiveNumber(line.qty ?? 1);
+          if (typeof line.item_id === 'number' && qty !== undefined) {
+            lines.push({ ticketId: ticket.id, itemId: line.item_id, qty });
+          }
+        }
+      });
+      return { ticketsChecked: recent.length, lines };
+    } catch (err) {
+      console.warn(
+        `[${this.name}] Could not load the customer's earlier tickets; checking this ticket only`,
+        JSON.stringify({ ticketId: tx.id, customerId: tx.customer_id, error: String(err) }, null, 2)
+      );
+      return { ticketsChecked: 0, lines: [], error: String(err) };
+    }
+  }
+
+  private async loadItemFacts(
+    itemIds: number[],
+    lines: TicketLine[],
+    data: TransactionContext,
+    facts: Map<number, ItemFacts>,
+    nowMs: number
+  ): Promise<void> {
+    const missing = itemIds.filter((itemId) => !facts.has(itemId));
+    const loaded = await Promise.all(
+      missing.map(async (itemId): Promise<ItemFacts> => {
+        const line = lines.find((candidate) => candidate.item_id === itemId);
+        const description = line?.item_description ?? line?.description ?? `Item ${itemId}`;
+        try {
+          const item = await data.getItem(itemId);
+          const custom = item.custom ?? undefined;
+          return {
+            description: line ? description : item.description ?? description,
+            ...optionalField('bricklinkId', custom?.bricklinkId),
+            ...optionalField('theme', custom?.theme),
+            ...optionalField(
+              'retirement',
+              retirementStatus(custom, nowMs, this.retiringWithinDays)
+            ),
+          };
+        } catch (err) {
+          console.warn(
+            `[${this.name}] Could not load item; counting it by item id only`,
+            JSON.stringify({ itemId, error: String(err) }, null, 2)
+          );
+          return { description };
+        }
+      })
+    );
+    missing.forEach((itemId, index) => facts.set(itemId, loaded[index]));
+  }
+
+  /**
+   * Totals for every group an item on this ticket belongs to. Earlier
+   * purchases only count towards those groups.
+   */
+  private totalByGroup(
+    purchased: Map<number, number>,
+    priorLines: PriorLine[],
+    facts: Map<number, ItemFacts>
+  ): GroupTotal[] {
+    const totals = new Map<string, GroupTotal>();
+
+    for (const [itemId, qty] of purchased) {
+      const itemFacts = facts.get(itemId) ?? { description: `Item ${itemId}` };
+      for (const group of this.groups) {
+        const key = groupKey(group, itemId, itemFacts);
+        if (key === undefined) {
+          continue;
+        }
+        const id = `${group}:${key.toLowerCase()}`;
+        const total = totals.get(id) ?? {
+          group,
+          key,
+          description: describeGroup(group, key, itemFacts),
+          quantity: 0,
+          priorQuantity: 0,
+          itemIds: [],
+          ticketIds: [],
+        };
+        total.quantity += qty;
+        total.retirement = strongerRetirement(total.retirement, itemFacts.retirement);
+        pushUnique(total.itemIds, itemId);
+        totals.set(id, total);
+      }
+    }
+
+    for (const line of priorLines) {
+      const itemFacts = facts.get(line.itemId) ?? { description: `Item ${line.itemId}` };
+      for (const group of this.groups) {
+        const key = groupKey(group, line.itemId, itemFacts);
+        const total = key !== undefined ? totals.get(`${group}:${key.toLowerCase()}`) : undefined;
+        if (!total) {
+          continue;
+        }
+        total.priorQuantity += line.qty;
+        pushUnique(total.itemIds, line.itemId);
+        pushUnique(total.ticketIds, line.ticketId);
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  private limitFor(
+    group: QuantityLimitGroup,
+    retirement: RetirementStatus | undefined
+  ): number | undefined {
+    const limit = this.maxQuantity[group];
+    const retiredLimit = retirement ? this.retiredMaxQuantity[group] : undefined;
+    if (retiredLimit === undefined) {
+      return limit;
+    }
+    return limit === undefined ? retiredLimit : Math.min(limit, retiredLimit);
+  }
+
+  private describeViolation(violation: QuantityViolation): string {
+    const bought = violation.quantity + violation.priorQuantity;
+    const breakdown =
+      violation.priorQuantity > 0
+        ? ` (${violation.quantity} on this ticket, ${violation.priorQuantity}` +
+          ` in the last ${this.lookbackDays} days)`
+        : '';
+    const limitText = violation.retirement
+      ? `limit ${violation.limit} for ${violation.retirement} items`
+      : `limit ${violation.limit}`;
+    return `${violation.description}: ${bought} bought${breakdown}, ${limitText}`;
+  }
+}
+
+/**
+ * Units bought per item; lines without an item and returned units
+ * (negative quantities) are ignored.
+ */
+function sumQuantities(lines: TicketLine[]): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    const qty = asPositiveNumber(line.qty ?? 1);
+    if (typeof line.item_id === 'number' && qty !== undefined) {
+      totals.set(line.item_id, (totals.get(line.item_id) ?? 0) + qty);
+    }
+  }
+  return totals;
+}
+
+function retirementStatus(
+  custom: HeartlandItemCustomFields | undefined,
+  nowMs: number,
+  retiringWithinDays: number
+): RetirementStatus | undefined {
+  const retired = typeof custom?.retired === 'string' ? custom.retired.trim().toLowerCase() : '';
+  if (RETIRED_VALUES.includes(retired)) {
+    return 'retired';
+  }
+
+  const retirementMs =
+    typeof custom?.retirementDate === 'string' ? Date.parse(custom.retirementDate) : Number.NaN;
+  if (Number.isNaN(retirementMs)) {
+    return retired === 'retiring' ? 'retiring' : undefined;
+  }
+  if (retirementMs <= nowMs) {
+    return 'retired';
+  }
+  if (retired === 'retiring' || retirementMs <= nowMs + retiringWithinDays * DAY_MS) {
+    return 'retiring';
+  }
+  return undefined;
+}
+
+function strongerRetirement(
+  a: RetirementStatus | undefined,
+  b: RetirementStatus | undefined
+): RetirementStatus | undefined {
+  if (a === 'retired' || b === 'retired') {
+    return 'retired';
+  }
+  return a ?? b;
+}
+
+function groupKey(
+  group: QuantityLimitGroup,
+  itemId: number,
+  facts: ItemFacts
+): string | undefined {
+  switch (group) {
+    case 'item':
+      return String(itemId);
+    case 'bricklinkId':
+      return facts.bricklinkId;
+    case 'theme':
+      return facts.theme;
+  }
+}
+
+function describeGroup(group: QuantityLimitGroup, key: string, facts: ItemFacts): string {
+  switch (group) {
+    case 'item':
+      return facts.description;
+    case 'bricklinkId':
+      return `BrickLink ${key}`;
+    case 'theme':
+      return `Theme ${key}`;
+  }
+}
+
+function optionalField<K extends string, V>(
+  key: K,
+  value: V | undefined
+): Partial<Record<K, V>> {
+  if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+    return {};
+  }
+  return { [key]: typeof value === 'string' ? value.trim() : value } as Partial<Record<K, V>>;
+}
+
+function pushUnique(values: number[], value: number): void {
+  if (!values.includes(value)) {
+    values.push(value);
+  }
+}
+
+function asPositiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
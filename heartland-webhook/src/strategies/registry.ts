@@ -0,0 +1,347 @@
+import { TransactionCompletionStrategy } from '../model';
+import { GroupMeClient, HeartlandApiClient } from '../clients';
+import { TypeAndStatusCompletionStrategy } from './type-and-status-strategy';
+import { BalanceCompletionStrategy } from './balance-completion-strategy';
+import { CompletedTimestampStrategy } from './completed-timestamp-strategy';
+import { PriceAdjustedItemStrategy } from './price-adjusted-item-strategy';
+import { HighDiscountTicketStrategy } from './high-discount-ticket-strategy';
+import { InventoryNonNegativeStrategy } from './inventory-non-negative-strategy';
+import { ReturnValidationStrategy } from './return-validation-strategy';
+import { BelowCostSaleStrategy } from './below-cost-sale-strategy';
+import { RepAnomalyStrategy } from './rep-anomaly-strategy';
+import {
+  QUANTITY_LIMIT_GROUPS,
+  QuantityLimitGroup,
+  QuantityLimitStrategy,
+  QuantityLimits,
+} from './quantity-limit-strategy';
+import { DiscountPolicy, validateDiscountPolicy } from '../discount-policy';
+import { InventoryExclusionStore } from '../inventory-exclusions';
+import {
+  InMemoryRepActivityStore,
+  REP_ACTIVITY_KINDS,
+  RepActivityKind,
+  RepActivityStore,
+} from '../rep-activity';
+
+/**
+ * `notify` alerts through the strategy's notification route; `none` never
+ * alerts. `groupme` is the deprecated name of `notify`, from when GroupMe was
+ * the only channel, and is still accepted.
+ */
+export type AlertChannel = 'notify' | 'none' | 'groupme';
+
+const ALERT_CHANNELS: AlertChannel[] = ['notify', 'none'];
+
+export const DEPRECATED_ALERT_CHANNEL = 'groupme';
+
+type ParamType =
+  | 'number'
+  | 'string'
+  | 'number[]'
+  | 'numberMap'
+  | 'repRatePercents'
+  | 'quantityLimits'
+  | 'alertChannel'
+  | 'discountPolicy';
+
+export type StrategyParams = Record<string, unknown>;
+
+/**
+ * Clients available when building strategies. `heartland` is absent when
+ * the API base URL or token could not be resolved.
+ */
+export interface StrategyDependencies {
+  heartland?: {
+    apiClient: HeartlandApiClient;
+    baseUrl: string;
+  };
+  // Where the strategy's alerts go: its notification route, or the
+  // shadow bot for strategies in shadow mode
+  groupMeClient?: GroupMeClient;
+  // Managed inventory exclusions; absent when no table is configured
+  inventoryExclusionStore?: InventoryExclusionStore;
+  // Item ids inventory-non-negative excludes when its config lists none:
+  // the legacy ids until they are seeded into the exclusion table
+  defaultExcludedItemIds?: readonly number[];
+  // Per-rep transaction history for rolling-window rates
+  repActivityStore?: RepActivityStore;
+}
+
+interface StrategyDefinition {
+  // Skipped (with a warning) when Heartland credentials are unavailable
+  requiresHeartland: boolean;
+  params: Record<string, ParamType>;
+  create(params: StrategyParams, deps: StrategyDependencies): TransactionCompletionStrategy;
+}
+
+/**
+ * Every strategy that can be named in the strategy config, keyed by the
+ * strategy's `name`.
+ */
+export const STRATEGY_REGISTRY: Record<string, StrategyDefinition> = {
+  'type-and-status': {
+    requiresHeartland: false,
+    params: {},
+    create: () => new TypeAndStatusCompletionStrategy(),
+  },
+  'balance-based': {
+    requiresHeartland: false,
+    params: {},
+    create: () => new BalanceCompletionStrategy(),
+  },
+  'completed-timestamp': {
+    requiresHeartland: false,
+    params: {},
+    create: () => new CompletedTimestampStrategy(),
+  },
+  'price-adjusted-item': {
+    requiresHeartland: true,
+    params: { ticketNoteField: 'string', alertChannel: 'alertChannel' },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'price-adjusted-item');
+      return new PriceAdjustedItemStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        params.ticketNoteField as string | undefined
+      );
+    },
+  },
+  'high-discount-ticket': {
+    requiresHeartland: true,
+    params: {
+      thresholdPercent: 'number',
+      minAlertDiscount: 'number',
+      policy: 'discountPolicy',
+      alertChannel: 'alertChannel',
+    },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'high-discount-ticket');
+      return new HighDiscountTicketStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        {
+          thresholdPercent: params.thresholdPercent as number | undefined,
+          minAlertDiscount: params.minAlertDiscount as number | undefined,
+          policy: params.policy as DiscountPolicy | undefined,
+        }
+      );
+    },
+  },
+  'inventory-non-negative': {
+    requiresHeartland: true,
+    params: { excludedItemIds: 'number[]', recountTag: 'string', alertChannel: 'alertChannel' },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'inventory-non-negative');
+      return new InventoryNonNegativeStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        (params.excludedItemIds as number[] | undefined) ?? deps.defaultExcludedItemIds,
+        deps.inventoryExclusionStore,
+        params.recountTag as string | undefined
+      );
+    },
+  },
+  'return-validation': {
+    requiresHeartland: true,
+    params: { maxUnlinkedReturnAmount: 'number', alertChannel: 'alertChannel' },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'return-validation');
+      return new ReturnValidationStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        { maxUnlinkedReturnAmount: params.maxUnlinkedReturnAmount as number | undefined }
+      );
+    },
+  },
+  'below-cost-sale': {
+    requiresHeartland: true,
+    params: {
+      minMarginPercent: 'number',
+      departmentMinMarginPercent: 'numberMap',
+      alertChannel: 'alertChannel',
+    },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'below-cost-sale');
+      return new BelowCostSaleStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        {
+          minMarginPercent: params.minMarginPercent as number | undefined,
+          departmentMinMarginPercent: params.departmentMinMarginPercent as
+            | Record<string, number>
+            | undefined,
+        }
+      );
+    },
+  },
+  'rep-anomaly': {
+    requiresHeartland: true,
+    params: {
+      windowHours: 'number',
+      minTransactions: 'number',
+      maxRatePercent: 'repRatePercents',
+      alertChannel: 'alertChannel',
+    },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'rep-anomaly');
+      return new RepAnomalyStrategy(
+        heartland.apiClient,
+        deps.repActivityStore ?? new InMemoryRepActivityStore(),
+        resolveAlertClient(params, deps),
+        {
+          windowHours: params.windowHours as number | undefined,
+          minTransactions: params.minTransactions as number | undefined,
+          maxRatePercent: params.maxRatePercent as
+            | Partial<Record<RepActivityKind, number>>
+            | undefined,
+        }
+      );
+    },
+  },
+  'quantity-limit': {
+    requiresHeartland: true,
+    params: {
+      maxQuantity: 'quantityLimits',
+      retiredMaxQuantity: 'quantityLimits',
+      retiringWithinDays: 'number',
+      lookbackDays: 'number',
+      alertChannel: 'alertChannel',
+    },
+    create: (params, deps) => {
+      const heartland = requireHeartland(deps, 'quantity-limit');
+      return new QuantityLimitStrategy(
+        heartland.apiClient,
+        heartland.baseUrl,
+        resolveAlertClient(params, deps),
+        {
+          maxQuantity: params.maxQuantity as QuantityLimits | undefined,
+          retiredMaxQuantity: params.retiredMaxQuantity as QuantityLimits | undefined,
+          retiringWithinDays: params.retiringWithinDays as number | undefined,
+          lookbackDays: params.lookbackDays as number | undefined,
+        }
+      );
+    },
+  },
+};
+
+/**
+ * Returns one message per problem with `params` for the named strategy.
+ */
+export function validateStrategyParams(name: string, params: StrategyParams): string[] {
+  const definition = STRATEGY_REGISTRY[name];
+  if (!definition) {
+    return [`unknown strategy "${name}"`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const type = definition.params[key];
+    if (!type) {
+      errors.push(`unknown param "${key}" for strategy "${name}"`);
+      continue;
+    }
+
+    if (type === 'number' && (typeof value !== 'number' || value < 0)) {
+      errors.push(`"${key}" for strategy "${name}" must be a non-negative number`);
+    } else if (type === 'string' && (typeof value !== 'string' || value.trim() === '')) {
+      errors.push(`"${key}" for strategy "${name}" must be a non-empty string`);
+    } else if (
+      type === 'number[]' &&
+      (!Array.isArray(value) || !value.every((entry) => Number.isInteger(entry)))
+    ) {
+      errors.push(`"${key}" for strategy "${name}" must be an array of integers`);
+    } else if (
+      type === 'numberMap' &&
+      (!value ||
+        typeof value !== 'object' ||
+        Array.isArray(value) ||
+        !Object.values(value).every(
+          (entry) => typeof entry === 'number' && Number.isFinite(entry)
+        ))
+    ) {
+      errors.push(`"${key}" for strategy "${name}" must be an object of numbers`);
+    } else if (type === 'repRatePercents') {
+      errors.push(
+        ...validateRepRatePercents(value).map(
+          (error) => `"${key}" for strategy "${name}" ${error}`
+        )
+      );
+    } else if (type === 'quantityLimits') {
+      errors.push(
+        ...validateQuantityLimits(value).map(
+          (error) => `"${key}" for strategy "${name}" ${error}`
+        )
+      );
+    } else if (type === 'discountPolicy') {
+      errors.push(
+        ...validateDiscountPolicy(value).map(
+          (error) => `"${key}" for strategy "${name}": ${error}`
+        )
+      );
+    } else if (
+      type === 'alertChannel' &&
+      !ALERT_CHANNELS.includes(value as AlertChannel) &&
+      value !== DEPRECATED_ALERT_CHANNEL
+    ) {
+      errors.push(
+        `"${key}" for strategy "${name}" must be one of ${ALERT_CHANNELS.join(', ')}`
+      );
+    }
+  }
+  return errors;
+}
+
+function validateRepRatePercents(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [kind, percent] of Object.entries(value)) {
+    if (!REP_ACTIVITY_KINDS.includes(kind as RepActivityKind)) {
+      errors.push(`has unknown activity "${kind}" (known: ${REP_ACTIVITY_KINDS.join(', ')})`);
+    } else if (typeof percent !== 'number' || percent < 0 || percent > 100) {
+      errors.push(`"${kind}" must be a percentage between 0 and 100`);
+    }
+  }
+  return errors;
+}
+
+function validateQuantityLimits(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [group, limit] of Object.entries(value)) {
+    if (!QUANTITY_LIMIT_GROUPS.includes(group as QuantityLimitGroup)) {
+      errors.push(`has unknown group "${group}" (known: ${QUANTITY_LIMIT_GROUPS.join(', ')})`);
+    } else if (!Number.isInteger(limit) || (limit as number) < 0) {
+      errors.push(`"${group}" must be a non-negative integer`);
+    }
+  }
+  return errors;
+}
+
+function requireHeartland(
+  deps: StrategyDependencies,
+  name: string
+): NonNullable<StrategyDependencies['heartland']> {
+  if (!deps.heartland) {
+    throw new Error(`Strategy "${name}" requires the Heartland API client`);
+  }
+  return deps.heartland;
+}
+
+function resolveAlertClient(
+  params: StrategyParams,
+  deps: StrategyDependencies
+): GroupMeClient | undefined {
+  return params.alertChannel === 'none' ? undefined : deps.groupMeClient;
+}
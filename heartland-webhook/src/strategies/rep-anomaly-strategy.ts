@@ -0,0 +1,259 @@
+import {
+  CheckResult,
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+import { GroupMeClient, HeartlandApiClient } from '../clients';
+import { TransactionContext } from '../transaction-context';
+import {
+  RepActivityCounts,
+  RepActivityKind,
+  RepActivityStore,
+} from '../rep-activity';
+
+export interface RepAnomalyOptions {
+  // Length of the rolling window, in hours
+  windowHours?: number;
+  // Rates are not judged until the rep has this many transactions in the window
+  minTransactions?: number;
+  // Highest acceptable share of the rep's transactions, per activity kind
+  maxRatePercent?: Partial<Record<RepActivityKind, number>>;
+}
+
+interface RateBreach {
+  kind: RepActivityKind;
+  count: number;
+  transactions: number;
+  ratePercent: number;
+  maxRatePercent: number;
+}
+
+const KIND_LABELS: Record<RepActivityKind, string> = {
+  discount: 'a discount',
+  'price-adjustment': 'a price adjustment',
+  return: 'a return',
+  'no-customer': 'no customer',
+};
+
+/**
+ * Strategy:
+ * Track each sales rep's discounts, price adjustments, returns and tickets
+ * without a customer over a rolling window, and fail while any of those
+ * rates is above its limit. The owners are alerted once when a rate crosses
+ * its limit, not on every transaction while it stays above. A transaction
+ * that was already recorded (a retry, replay or edit) never counts as the
+ * one that crossed.
+ */
+export class RepAnomalyStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'rep-anomaly';
+  public static readonly DEFAULT_WINDOW_HOURS = 24 * 7;
+  public static readonly DEFAULT_MIN_TRANSACTIONS = 20;
+  public static readonly DEFAULT_MAX_RATE_PERCENT: Partial<Record<RepActivityKind, number>> = {
+    discount: 30,
+    'price-adjustment': 20,
+    return: 10,
+  };
+
+  private readonly windowHours: number;
+  private readonly minTransactions: number;
+  private readonly maxRatePercent: Partial<Record<RepActivityKind, number>>;
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly store: RepActivityStore,
+    private readonly groupMeClient?: GroupMeClient,
+    options: RepAnomalyOptions = {}
+  ) {
+    this.windowHours = options.windowHours ?? RepAnomalyStrategy.DEFAULT_WINDOW_HOURS;
+    this.minTransactions =
+      options.minTransactions ?? RepAnomalyStrategy.DEFAULT_MIN_TRANSACTIONS;
+    this.maxRatePercent =
+      options.maxRatePercent ?? RepAnomalyStrategy.DEFAULT_MAX_RATE_PERCENT;
+  }
+
+  supports(tx: HeartlandTransaction): boolean {
+    if (typeof tx.id !== 'number') {
+      console.warn(`[${this.name}] Transaction id is missing or invalid; skipping`);
+      return false;
+    }
+
+    if (typeof tx.sales_rep !== 'string' || tx.sales_rep.trim() === '') {
+      return false;
+    }
+
+    return tx.type === 'Ticket' || tx.type === 'Return';
+  }
+
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
+    const salesRep = (tx.sales_rep as string).trim();
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
+
+    const kinds = await this.classify(tx, data);
+    const nowMs = Date.now();
+    const at = resolveCompletedAt(tx, nowMs);
+    const since = new Date(nowMs - this.windowHours * 60 * 60 * 1000).toISOString();
+
+    const firstRecord = await this.store.record({ salesRep, transactionId: tx.id, at, kinds });
+    const after = await this.store.summarize(salesRep, since);
+
+    const breaches = this.findBreaches(after);
+    const evidence = {
+      salesRep,
+      windowHours: this.windowHours,
+      transactions: after.transactions,
+      counts: after.counts,
+      kinds,
+      ...(breaches.length > 0 ? { breaches } : {}),
+    };
+
+    if (breaches.length === 0) {
+      return { passed: true, evidence };
+    }
+
+    // The window without this transaction, to tell a new breach from an ongoing one
+    const before = at >= since ? withoutTransaction(after, kinds) : after;
+    const newBreaches = firstRecord
+      ? breaches.filter(
+          (breach) => !this.findBreaches(before).some((previous) => previous.kind === breach.kind)
+        )
+      : [];
+
+    console.warn(
+      `[${this.name}] Sales rep above activity rate limit`,
+      JSON.stringify({ transactionId: tx.id, ...evidence, newBreaches }, null, 2)
+    );
+
+    // Breaches that were already over the limit before this transaction, or
+    // that this transaction crossed on an earlier run, were alerted then
+    if (newBreaches.length > 0) {
+      await this.alert(
+        signal,
+        newBreaches.map((breach) => this.describeBreach(salesRep, breach)).join('\n'),
+        `rep:${salesRep}:${newBreaches.map((breach) => breach.kind).join(',')}`
+      );
+    }
+
+    return {
+      passed: false,
+      severity: 'warning',
+      reason: breaches.map((breach) => this.describeBreach(salesRep, breach)).join('; '),
+      evidence,
+    };
+  }
+
+  private async alert(
+    signal: AbortSignal | undefined,
+    text: string,
+    fingerprint: string
+  ): Promise<void> {
+    if (signal?.aborted) {
+      console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+      return;
+    }
+    if (!this.groupMeClient) {
+      console.warn(`[${this.name}] No GroupMe client configured; skipping GroupMe alerts`);
+      return;
+    }
+
+    try {
+      await this.groupMeClient.sendMessage(text, fingerprint);
+    } catch (err) {
+      console.error(`[${this.name}] Error posting to GroupMe`, err);
+    }
+  }
+
+  private async classify(
+    tx: HeartlandTransaction,
+    data: TransactionContext
+  ): Promise<RepActivityKind[]> {
+    const kinds: RepActivityKind[] = [];
+
+    if (tx.type === 'Return') {
+      kinds.push('return');
+    } else if (typeof tx.total_discounts === 'number' && tx.total_discounts > 0) {
+      kinds.push('discount');
+    }
+
+    if (tx.type === 'Ticket') {
+      try {
+        const lines = await data.getItemLines();
+        const adjusted = lines.some(
+          (line) =>
+            (line.adjusted_unit_price !== null && line.adjusted_unit_price !== undefined) ||
+            (Array.isArray(line.price_adjustments) && line.price_adjustments.length > 0)
+        );
+        if (adjusted) {
+          kinds.push('price-adjustment');
+        }
+      } catch (err) {
+        console.warn(
+          `[${this.name}] Could not retrieve ticket lines; price adjustments not counted`,
+          JSON.stringify({ transactionId: tx.id, error: String(err) }, null, 2)
+        );
+      }
+    }
+
+    if (typeof tx.customer_id !== 'number') {
+      kinds.push('no-customer');
+    }
+
+    return kinds;
+  }
+
+  private findBreaches(summary: RepActivityCounts): RateBreach[] {
+    if (summary.transactions < this.minTransactions || summary.transactions === 0) {
+      return [];
+    }
+
+    const breaches: RateBreach[] = [];
+    for (const [kind, maxRatePercent] of Object.entries(this.maxRatePercent) as Array<
+      [RepActivityKind, number]
+    >) {
+      const count = summary.counts[kind] ?? 0;
+      const ratePercent = round((count / summary.transactions) * 100);
+      if (ratePercent > maxRatePercent) {
+        breaches.push({
+          kind,
+          count,
+          transactions: summary.transactions,
+          ratePercent,
+          maxRatePercent,
+        });
+      }
+    }
+    return breaches;
+  }
+
+  private describeBreach(salesRep: string, breach: RateBreach): string {
+    return (
+      `Sales rep ${salesRep}: ${breach.count} of ${breach.transactions} transactions` +
+      ` in the last ${this.windowHours}h had ${KIND_LABELS[breach.kind]}` +
+      ` (${breach.ratePercent}%, limit ${breach.maxRatePercent}%)`
+    );
+  }
+}
+
+function withoutTransaction(
+  summary: RepActivityCounts,
+  kinds: RepActivityKind[]
+): RepActivityCounts {
+  const counts = { ...summary.counts };
+  for (const kind of kinds) {
+    counts[kind] = Math.max(0, counts[kind] - 1);
+  }
+  return { transactions: Math.max(0, summary.transactions - 1), counts };
+}
+
+function resolveCompletedAt(tx: HeartlandTransaction, nowMs: number): string {
+  const completedAt =
+    typeof tx.completed_at === 'string' ? Date.parse(tx.completed_at) : Number.NaN;
+  return new Date(Number.isNaN(completedAt) ? nowMs : completedAt).toISOString();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
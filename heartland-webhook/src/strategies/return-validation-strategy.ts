@@ -0,0 +1,345 @@
+import {
+  CheckResult,
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  HeartlandTicket,
+  TicketLine,
+  TicketLinesResponse,
+  buildHeartlandUrl,
+} from '../clients';
+import { TransactionContext } from '../transaction-context';
+import { getNetLineAmounts } from '../discount-policy';
+
+export interface ReturnValidationOptions {
+  // Returns without a parent ticket refunding more than this (dollars) fail
+  maxUnlinkedReturnAmount?: number;
+}
+
+type ReturnViolationKind = 'not-on-parent' | 'quantity-exceeds-sale' | 'refund-exceeds-price';
+
+interface ItemTotals {
+  itemId: number;
+  description: string;
+  qty: number;
+  amount: number;
+}
+
+interface ReturnViolation {
+  kind: ReturnViolationKind;
+  itemId: number;
+  description: string;
+  returnedQty: number;
+  refunded: number;
+  soldQty?: number;
+  paid?: number;
+  // Returned and refunded by earlier returns against the same sale
+  alreadyReturnedQty?: number;
+  alreadyRefunded?: number;
+}
+
+/**
+ * Strategy:
+ * Validate a return against the sale it was made against
+ * (`parent_transaction_id`). Every returned item must be on the parent
+ * ticket, in no greater quantity, and refunded no more than was paid for
+ * it, after netting out earlier returns against the same sale. What was paid
+ * counts line discounts and the sale's share of ticket-level discounts, the
+ * same way `below-cost-sale` does. Returns with
+ * no parent ticket fail when they refund more than `maxUnlinkedReturnAmount`.
+ */
+export class ReturnValidationStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'return-validation';
+  public static readonly DEFAULT_MAX_UNLINKED_RETURN_AMOUNT = 25;
+
+  private readonly maxUnlinkedReturnAmount: number;
+
+  constructor(
+    private readonly apiClient: HeartlandApiClient,
+    private readonly heartlandBaseUrl: string,
+    private readonly groupMeClient?: GroupMeClient,
+    options: ReturnValidationOptions = {}
+  ) {
+    this.maxUnlinkedReturnAmount =
+      options.maxUnlinkedReturnAmount ??
+      ReturnValidationStrategy.DEFAULT_MAX_UNLINKED_RETURN_AMOUNT;
+  }
+
+  supports(tx: HeartlandTransaction): boolean {
+    if (typeof tx.id !== 'number') {
+      console.warn(`[${this.name}] Transaction id is missing or invalid; skipping`);
+      return false;
+    }
+
+    return tx.type === 'Return';
+  }
+
+  async checkTx(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal,
+    context?: TransactionContext
+  ): Promise<CheckResult> {
+    const returnId = tx.id;
+    const parentId =
+      typeof tx.parent_transaction_id === 'number' ? tx.parent_transaction_id : undefined;
+    const data = context ?? new TransactionContext(tx, this.apiClient, signal);
+
+    console.log(
+      `[${this.name}] Starting return validation`,
+      JSON.stringify({ returnId, parentId }, null, 2)
+    );
+
+    if (parentId === undefined) {
+      return this.checkUnlinkedReturn(tx, signal);
+    }
+
+    let returnLines: TicketLine[];
+    let parentLines: TicketLinesResponse | undefined;
+    let parentTicket: HeartlandTicket | undefined;
+    let earlierReturnIds: number[];
+    let earlierReturnLines: TicketLine[];
+    try {
+      const [lines, parent, parentTx, earlierReturns] = await Promise.all([
+        data.getItemLines(),
+        data.getParentTicketLines(),
+        data.getParentTicket(),
+        data.getEarlierReturns(),
+      ]);
+      returnLines = lines;
+      parentLines = parent;
+      parentTicket = parentTx;
+      earlierReturnIds = (earlierReturns ?? []).map((ticket) => ticket.id);
+      earlierReturnLines = (
+        await Promise.all(earlierReturnIds.map((ticketId) => data.getOtherTicketLines(ticketId)))
+      ).flatMap((response) => response.results ?? []);
+    } catch (err) {
+      console.error(
+        `[${this.name}] Error retrieving return or parent ticket lines`,
+        JSON.stringify({ returnId, parentId, error: String(err) }, null, 2)
+      );
+      return {
+        passed: false,
+        severity: 'warning',
+        reason: `Could not retrieve return or parent ticket lines: ${String(err)}`,
+        evidence: { parentId },
+      };
+    }
+
+    const returned = totalsByItem(returnLines);
+    const saleLines = (parentLines?.results ?? []).filter((line) => line.type === 'ItemLine');
+    const sold = totalsByItem(
+      saleLines,
+      getNetLineAmounts(saleLines, parentTicket?.total_discounts).netAmounts
+    );
+    const returnedBefore = totalsByItem(
+      earlierReturnLines.filter((line) => line.type === 'ItemLine')
+    );
+
+    if (returned.size === 0) {
+      return { passed: true, reason: 'No item lines to check', evidence: { parentId } };
+    }
+
+    const violations: ReturnViolation[] = [];
+    for (const item of returned.values()) {
+      const sale = sold.get(item.itemId);
+      const base = {
+        itemId: item.itemId,
+        description: item.description,
+        returnedQty: item.qty,
+        refunded: round(item.amount),
+      };
+
+      if (!sale) {
+        violations.push({ kind: 'not-on-parent', ...base });
+        continue;
+      }
+
+      const before = returnedBefore.get(item.itemId);
+      const withSale = {
+        ...base,
+        soldQty: sale.qty,
+        paid: round(sale.amount),
+        ...(before
+          ? { alreadyReturnedQty: before.qty, alreadyRefunded: round(before.amount) }
+          : {}),
+      };
+      if (item.qty > sale.qty - (before?.qty ?? 0)) {
+        violations.push({ kind: 'quantity-exceeds-sale', ...withSale });
+      }
+      // Allow for rounding of per-unit prices
+      if (item.amount > sale.amount - (before?.amount ?? 0) + 0.01) {
+        violations.push({ kind: 'refund-exceeds-price', ...withSale });
+      }
+    }
+
+    const evidence = {
+      parentId,
+      ...(earlierReturnIds.length > 0 ? { earlierReturnIds } : {}),
+      itemIds: Array.from(returned.keys()),
+      ...(violations.length > 0 ? { violations } : {}),
+    };
+
+    if (violations.length === 0) {
+      console.log(
+        `[${this.name}] Return matches its parent ticket`,
+        JSON.stringify({ returnId, parentId }, null, 2)
+      );
+      return { passed: true, evidence };
+    }
+
+    console.warn(
+      `[${this.name}] Return does not match its parent ticket`,
+      JSON.stringify({ returnId, parentId, violations }, null, 2)
+    );
+
+    const returnUrl = this.ticketUrl(returnId);
+    const parentUrl = this.ticketUrl(parentId);
+    await this.alert(
+      signal,
+      violations
+        .map(
+          (violation) =>
+            `Return ${returnId} ( ${returnUrl} ): ${describeViolation(violation)}` +
+            ` on sale ${parentId} ( ${parentUrl} )`
+        )
+        .join('\n'),
+      `ticket:${returnId}`
+    );
+
+    return {
+      passed: false,
+      // Refunding more than was paid loses money; the rest may be clerical
+      severity: violations.some((violation) => violation.kind === 'refund-exceeds-price')
+        ? 'critical'
+        : 'warning',
+      reason:
+        `${violations.length} problem(s) with return against ticket ${parentId}: ` +
+        violations.map(describeViolation).join('; '),
+      evidence,
+    };
+  }
+
+  private async checkUnlinkedReturn(
+    tx: HeartlandTransaction,
+    signal?: AbortSignal
+  ): Promise<CheckResult> {
+    const refunded = round(Math.abs(typeof tx.total === 'number' ? tx.total : 0));
+    const evidence = { refunded, maxUnlinkedReturnAmount: this.maxUnlinkedReturnAmount };
+
+    if (refunded <= this.maxUnlinkedReturnAmount) {
+      return {
+        passed: true,
+        severity: 'info',
+        reason: `Return has no parent ticket; $${refunded} is within the $${this.maxUnlinkedReturnAmount} limit`,
+        evidence,
+      };
+    }
+
+    console.warn(
+      `[${this.name}] Return without a parent ticket above the limit`,
+      JSON.stringify({ returnId: tx.id, ...evidence }, null, 2)
+    );
+
+    await this.alert(
+      signal,
+      `Return ${tx.id} ( ${this.ticketUrl(tx.id)} ) refunded $${refunded}` +
+        ` without a parent ticket (limit $${this.maxUnlinkedReturnAmount})`,
+      `ticket:${tx.id}`
+    );
+
+    return {
+      passed: false,
+      severity: 'warning',
+      reason: `Return has no parent ticket and refunded $${refunded}, above the $${this.maxUnlinkedReturnAmount} limit`,
+      evidence,
+    };
+  }
+
+  private ticketUrl(ticketId: number): string {
+    return buildHeartlandUrl(this.heartlandBaseUrl, `/#sales/tickets/edit/${ticketId}`);
+  }
+
+  private async alert(
+    signal: AbortSignal | undefined,
+    text: string,
+    fingerprint: string
+  ): Promise<void> {
+    if (signal?.aborted) {
+      console.warn(`[${this.name}] Check timed out; skipping GroupMe alerts`);
+      return;
+    }
+    if (!this.groupMeClient) {
+      console.warn(`[${this.name}] No GroupMe client configured; skipping GroupMe alerts`);
+      return;
+    }
+
+    try {
+      await this.groupMeClient.sendMessage(text, fingerprint);
+    } catch (err) {
+      console.error(`[${this.name}] Error posting to GroupMe`, err);
+    }
+  }
+}
+
+/**
+ * Quantity and amount per item id. Return lines carry negative quantities,
+ * so both are summed as absolute values. The amount is the line's entry in
+ * `netAmounts` when given, else its adjusted unit price, when it has one,
+ * times its quantity.
+ */
+function totalsByItem(
+  lines: TicketLine[],
+  netAmounts: (number | undefined)[] = []
+): Map<number, ItemTotals> {
+  const totals = new Map<number, ItemTotals>();
+
+  for (const [index, line] of lines.entries()) {
+    if (typeof line.item_id !== 'number') {
+      continue;
+    }
+
+    const qty = Math.abs(asNumber(line.qty) ?? 1);
+    const unitPrice = asNumber(line.adjusted_unit_price) ?? asNumber(line.unit_price) ?? 0;
+    const existing = totals.get(line.item_id) ?? {
+      itemId: line.item_id,
+      description: line.item_description ?? line.description ?? `Item ${line.item_id}`,
+      qty: 0,
+      amount: 0,
+    };
+    existing.qty += qty;
+    existing.amount += netAmounts[index] ?? Math.abs(unitPrice) * qty;
+    totals.set(line.item_id, existing);
+  }
+
+  return totals;
+}
+
+function describeViolation(violation: ReturnViolation): string {
+  switch (violation.kind) {
+    case 'not-on-parent':
+      return `${violation.description} was not on the original sale`;
+    case 'quantity-exceeds-sale':
+      return (
+        `${violation.description} returned ${violation.returnedQty}, sold ${violation.soldQty}` +
+        (violation.alreadyReturnedQty
+          ? `, already returned ${violation.alreadyReturnedQty}`
+          : '')
+      );
+    case 'refund-exceeds-price':
+      return (
+        `${violation.description} refunded $${violation.refunded}, paid $${violation.paid}` +
+        (violation.alreadyRefunded ? `, already refunded $${violation.alreadyRefunded}` : '')
+      );
+  }
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
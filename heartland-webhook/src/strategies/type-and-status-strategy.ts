@@ -0,0 +1,28 @@
+import {
+  HeartlandTransaction,
+  TransactionCompletionStrategy,
+} from '../model';
+
+/**
+ * Strategy:
+ * Use Heartland's explicit fields: type/status/completed?
+ */
+export class TypeAndStatusCompletionStrategy implements TransactionCompletionStrategy {
+  public readonly name = 'type-and-status';
+
+  supports(_tx: HeartlandTransaction): boolean {
+    return true;
+  }
+
+  async checkTx(tx: HeartlandTransaction): Promise<boolean> {
+    if (typeof tx['completed?'] === 'boolean') {
+      return tx['completed?'] === true;
+    }
+
+    if (typeof tx.status === 'string') {
+      return tx.status.toLowerCase() === 'complete';
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,194 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { ReturnValidationStrategy } from './strategies/return-validation-strategy';
+import { BelowCostSaleStrategy } from './strategies/below-cost-sale-strategy';
+import {
+  STRATEGY_REGISTRY,
+  StrategyParams,
+  validateStrategyParams,
+} from './strategies/registry';
+
+export interface StrategyConfigEntry {
+  name: string;
+  // Defaults to true; set false to turn a check off without removing its params
+  enabled?: boolean;
+  // Runs and records results without affecting `check` or production alerts
+  shadow?: boolean;
+  params?: StrategyParams;
+}
+
+/**
+ * Which transaction strategies run, in order, and with which parameters.
+ */
+export interface StrategyConfig {
+  strategies: StrategyConfigEntry[];
+}
+
+/**
+ * Bundled config, used when neither STRATEGY_CONFIG_S3_URI nor
+ * STRATEGY_CONFIG_SSM_PARAMETER is set. The checks that predate the config
+ * run live as before; `return-validation` and `below-cost-sale` run in
+ * shadow mode until a deployed config turns them live.
+ */
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  strategies: [
+    { name: 'type-and-status' },
+    { name: 'balance-based' },
+    { name: 'completed-timestamp' },
+    { name: 'price-adjusted-item', params: { alertChannel: 'notify' } },
+    {
+      name: 'high-discount-ticket',
+      params: { thresholdPercent: 5, minAlertDiscount: 5, alertChannel: 'notify' },
+    },
+    {
+      name: 'inventory-non-negative',
+      params: { alertChannel: 'notify' },
+    },
+    {
+      name: 'return-validation',
+      shadow: true,
+      params: {
+        maxUnlinkedReturnAmount: ReturnValidationStrategy.DEFAULT_MAX_UNLINKED_RETURN_AMOUNT,
+        alertChannel: 'notify',
+      },
+    },
+    {
+      name: 'below-cost-sale',
+      shadow: true,
+      params: {
+        minMarginPercent: BelowCostSaleStrategy.DEFAULT_MIN_MARGIN_PERCENT,
+        alertChannel: 'notify',
+      },
+    },
+  ],
+};
+
+/**
+ * Validate a parsed config document. Throws one error listing every problem
+ * so a bad config is fixed in one pass.
+ */
+export function parseStrategyConfig(raw: unknown, source: string): StrategyConfig {
+  const fail = (errors: string[]): never => {
+    throw new Error(`Invalid strategy config from ${source}: ${errors.join('; ')}`);
+  };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return fail(['config must be an object']);
+  }
+
+  const strategies = (raw as Record<string, unknown>).strategies;
+  if (!Array.isArray(strategies)) {
+    return fail(['"strategies" must be an array']);
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const entries: StrategyConfigEntry[] = [];
+
+  strategies.forEach((value: unknown, index) => {
+    const at = `strategies[${index}]`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    const entry = value as Record<string, unknown>;
+    if (typeof entry.name !== 'string' || !STRATEGY_REGISTRY[entry.name]) {
+      errors.push(
+        `${at}: unknown strategy "${String(entry.name)}" (known: ${Object.keys(STRATEGY_REGISTRY).join(', ')})`
+      );
+      return;
+    }
+    if (seen.has(entry.name)) {
+      errors.push(`${at}: strategy "${entry.name}" is listed more than once`);
+      return;
+    }
+    seen.add(entry.name);
+
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+      errors.push(`${at}: "enabled" must be a boolean`);
+    }
+    if (entry.shadow !== undefined && typeof entry.shadow !== 'boolean') {
+      errors.push(`${at}: "shadow" must be a boolean`);
+    }
+
+    let params: StrategyParams = {};
+    if (entry.params !== undefined) {
+      if (!entry.params || typeof entry.params !== 'object' || Array.isArray(entry.params)) {
+        errors.push(`${at}: "params" must be an object`);
+      } else {
+        params = entry.params as StrategyParams;
+        errors.push(
+          ...validateStrategyParams(entry.name, params).map((error) => `${at}: ${error}`)
+        );
+      }
+    }
+
+    entries.push({
+      name: entry.name,
+      enabled: entry.enabled !== false,
+      ...(entry.shadow === true ? { shadow: true } : {}),
+      params,
+    });
+  });
+
+  if (errors.length > 0) {
+    fail(errors);
+  }
+
+  return { strategies: entries };
+}
+
+/**
+ * Load the strategy config from S3 or SSM Parameter Store, or fall back to
+ * the bundled default. Load and validation failures are thrown.
+ */
+export async function loadStrategyConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  clients: { s3Client?: S3Client; ssmClient?: SSMClient } = {}
+): Promise<{ config: StrategyConfig; source: string }> {
+  const s3Uri = env.STRATEGY_CONFIG_S3_URI;
+  const ssmParameter = env.STRATEGY_CONFIG_SSM_PARAMETER;
+
+  if (s3Uri && ssmParameter) {
+    throw new Error(
+      'Set only one of STRATEGY_CONFIG_S3_URI and STRATEGY_CONFIG_SSM_PARAMETER'
+    );
+  }
+
+  if (s3Uri) {
+    const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(s3Uri.trim());
+    if (!match) {
+      throw new Error(`Invalid STRATEGY_CONFIG_S3_URI "${s3Uri}"`);
+    }
+    const s3Client = clients.s3Client ?? new S3Client({});
+    const response = await s3Client.send(
+      new GetObjectCommand({ Bucket: match[1], Key: match[2] })
+    );
+    const text = (await response.Body?.transformToString()) ?? '';
+    return { config: parseStrategyConfig(parseJson(text, s3Uri), s3Uri), source: s3Uri };
+  }
+
+  if (ssmParameter) {
+    const source = `ssm:${ssmParameter}`;
+    const ssmClient = clients.ssmClient ?? new SSMClient({});
+    const response = await ssmClient.send(
+      new GetParameterCommand({ Name: ssmParameter, WithDecryption: true })
+    );
+    const text = response.Parameter?.Value ?? '';
+    return { config: parseStrategyConfig(parseJson(text, source), source), source };
+  }
+
+  return {
+    config: parseStrategyConfig(DEFAULT_STRATEGY_CONFIG, 'bundled default'),
+    source: 'bundled default',
+  };
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (err) {
+    throw new Error(`Invalid strategy config from ${source}: not valid JSON (${String(err)})`);
+  }
+}
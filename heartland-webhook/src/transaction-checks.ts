@@ -0,0 +1,535 @@
+import {
+  HeartlandTransaction,
+  TransactionKind,
+  CheckResult,
+  CheckSummary,
+  RemediationAction,
+  WebhookResponseBody,
+  TransactionCompletionStrategy,
+} from './model';
+import {
+  DefaultGroupMeClient,
+  DefaultHeartlandApiClient,
+  HeartlandApiClient,
+} from './clients';
+import {
+  DEPRECATED_ALERT_CHANNEL,
+  STRATEGY_REGISTRY,
+  StrategyDependencies,
+} from './strategies/registry';
+import { loadStrategyConfig } from './strategy-config';
+import { TransactionContext } from './transaction-context';
+import {
+  LEGACY_EXCLUDED_ITEM_IDS,
+  createInventoryExclusionStore,
+  seedLegacyExclusions,
+} from './inventory-exclusions';
+import { createRepActivityStore } from './rep-activity';
+import { Remediator, createRemediationStore, isRemediationDryRun } from './remediation';
+import { Notifier, createNotifier } from './notifier';
+import { AlertTally, countAlerts, countingAlerts, wasAlerted } from './alert-tracking';
+import { Context } from 'aws-lambda';
+import {
+  SecretsManagerClient,
+  GetSecretValueCommand,
+} from '@aws-sdk/client-secrets-manager';
+
+export const TRANSACTION_EVENT_TYPE = 'sales_transaction_completed';
+
+const secretsClient = new SecretsManagerClient({});
+let cachedHeartlandToken: string | null = null;
+
+async function getHeartlandApiTokenFromSecret(): Promise<string> {
+  if (cachedHeartlandToken) {
+    return cachedHeartlandToken;
+  }
+
+  const secretArn = process.env.OPERATIONAL_SECRET_ARN;
+  if (!secretArn) {
+    throw new Error('OPERATIONAL_SECRET_ARN environment variable is not set');
+  }
+
+  const result = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretArn })
+  );
+
+  if (!result.SecretString) {
+    throw new Error('SecretString is empty in Secrets Manager response');
+  }
+
+  const parsed = JSON.parse(result.SecretString) as {
+    heartland?: { token?: string };
+  };
+
+  const token = parsed.heartland?.token;
+  if (!token) {
+    throw new Error('Operational secret JSON does not contain heartland.token');
+  }
+
+  cachedHeartlandToken = token;
+  return token;
+}
+
+
+/**
+ * Configured strategies plus the Heartland client used to build each
+ * transaction's shared TransactionContext (absent when no enabled strategy
+ * needs Heartland or its credentials are unavailable).
+ */
+export interface CompletionSetup {
+  strategies: TransactionCompletionStrategy[];
+  apiClient?: HeartlandApiClient;
+  // Names of the strategies running in shadow mode
+  shadowStrategies: ReadonlySet<string>;
+  // Applies remediations from failing checks; absent without Heartland
+  remediator?: Remediator;
+  // For links in messages about a transaction as a whole rather than one check
+  heartlandBaseUrl?: string;
+}
+
+/**
+ * Build the strategy list from the strategy config (S3, SSM or the bundled
+ * default).
+ *
+ * Strategies that need the Heartland API are skipped with a warning when the
+ * API base URL or token is unavailable. An invalid config throws.
+ */
+async function buildCompletionSetup(): Promise<CompletionSetup> {
+  const { config, source } = await loadStrategyConfig();
+  const enabled = config.strategies.filter((entry) => entry.enabled !== false);
+
+  console.log(
+    'Loaded strategy config',
+    JSON.stringify(
+      {
+        source,
+        enabled: enabled.map((entry) => entry.name),
+        shadow: enabled.filter((entry) => entry.shadow).map((entry) => entry.name),
+        disabled: config.strategies
+          .filter((entry) => entry.enabled === false)
+          .map((entry) => entry.name),
+      },
+      null,
+      2
+    )
+  );
+
+  const inventoryExclusionStore = createInventoryExclusionStore(
+    process.env.INVENTORY_EXCLUSIONS_TABLE_NAME
+  );
+  // The legacy exclusions stay in force until the table holds them
+  const legacyExclusionsSeeded =
+    inventoryExclusionStore !== undefined &&
+    enabled.some((entry) => entry.name === 'inventory-non-negative') &&
+    (await seedLegacyExclusions(inventoryExclusionStore));
+  const deps: StrategyDependencies = {
+    inventoryExclusionStore,
+    defaultExcludedItemIds: legacyExclusionsSeeded ? [] : LEGACY_EXCLUDED_ITEM_IDS,
+    repActivityStore: createRepActivityStore(process.env.REP_ACTIVITY_TABLE_NAME),
+  };
+  const needHeartland = enabled
+    .filter((entry) => STRATEGY_REGISTRY[entry.name].requiresHeartland)
+    .map((entry) => entry.name);
+  if (needHeartland.length > 0) {
+    const baseUrl = process.env.HEARTLAND_API_BASE_URL;
+    const secretArn = process.env.OPERATIONAL_SECRET_ARN;
+
+    if (!baseUrl || !secretArn) {
+      console.warn(
+        'Strategies not added: missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN',
+        JSON.stringify({ strategies: needHeartland }, null, 2)
+      );
+    } else {
+      try {
+        const token = await getHeartlandApiTokenFromSecret();
+        deps.heartland = {
+          apiClient: new DefaultHeartlandApiClient(baseUrl, token),
+          baseUrl,
+        };
+      } catch (err) {
+        console.error(
+          'Error creating Heartland API client; strategies not added',
+          JSON.stringify({ strategies: needHeartland, error: String(err) }, null, 2)
+        );
+      }
+    }
+  }
+
+  // Shadow strategies alert the admin channel, if one is configured, never the store's
+  const shadowBotId = process.env.SHADOW_GROUPME_BOT_ID;
+  const shadowGroupMeClient = shadowBotId ? new DefaultGroupMeClient(shadowBotId) : undefined;
+
+  const strategies: TransactionCompletionStrategy[] = [];
+  const shadowStrategies = new Set<string>();
+  const unrouted: string[] = [];
+  for (const entry of enabled) {
+    const definition = STRATEGY_REGISTRY[entry.name];
+    if (definition.requiresHeartland && !deps.heartland) {
+      continue;
+    }
+    if (entry.shadow) {
+      shadowStrategies.add(entry.name);
+      strategies.push(
+        definition.create(entry.params ?? {}, {
+          ...deps,
+          groupMeClient: shadowGroupMeClient && labelShadowAlerts(shadowGroupMeClient, entry.name),
+        })
+      );
+    } else {
+      // Each check alerts through the channels routed to its strategy name
+      const notifier = createNotifier(entry.name);
+      if (!notifier) {
+        unrouted.push(entry.name);
+      }
+      strategies.push(
+        definition.create(entry.params ?? {}, {
+          ...deps,
+          groupMeClient: notifier && countingAlerts(notifier),
+        })
+      );
+    }
+  }
+  if (unrouted.length > 0) {
+    console.warn(
+      'No notification channel for these strategies; their alerts will not be sent',
+      JSON.stringify({ strategies: unrouted }, null, 2)
+    );
+  }
+  const deprecatedChannel = enabled
+    .filter((entry) => entry.params?.alertChannel === DEPRECATED_ALERT_CHANNEL)
+    .map((entry) => entry.name);
+  if (deprecatedChannel.length > 0) {
+    console.warn(
+      'alertChannel "groupme" is deprecated; use "notify"',
+      JSON.stringify({ strategies: deprecatedChannel }, null, 2)
+    );
+  }
+
+  const remediator = deps.heartland
+    ? new Remediator(
+        deps.heartland.apiClient,
+        createRemediationStore(process.env.REMEDIATION_TABLE_NAME),
+        isRemediationDryRun()
+      )
+    : undefined;
+
+  return {
+    strategies,
+    apiClient: deps.heartland?.apiClient,
+    shadowStrategies,
+    remediator,
+    heartlandBaseUrl: deps.heartland?.baseUrl,
+  };
+}
+
+function labelShadowAlerts(client: Notifier, name: string): Notifier {
+  return {
+    sendMessage: (text) => client.sendMessage(`[shadow: ${name}] ${text}`),
+  };
+}
+
+let setupPromise: Promise<CompletionSetup> | null = null;
+
+/**
+ * Strategies are built once per cold start and reused for all invocations.
+ * A failed build is not cached, so a fixed config or a transient S3/SSM
+ * error recovers on the next invocation.
+ */
+export function getCompletionSetup(): Promise<CompletionSetup> {
+  if (!setupPromise) {
+    setupPromise = buildCompletionSetup().catch((err: unknown) => {
+      setupPromise = null;
+      throw err;
+    });
+  }
+  return setupPromise;
+}
+
+
+/**
+ * Normalise a strategy's return value. Boolean results carry no severity,
+ * reason or evidence, so their summaries keep the original shape.
+ */
+export function toCheckResult(result: boolean | CheckResult): CheckResult {
+  return typeof result === 'boolean' ? { passed: result } : result;
+}
+
+export const DEFAULT_STRATEGY_TIMEOUT_MS = 5000;
+
+// Time kept back from the Lambda deadline for the ledger write and response
+export const DEADLINE_MARGIN_MS = 1000;
+
+export interface EvaluateChecksOptions {
+  // Budget for each strategy; defaults to STRATEGY_TIMEOUT_MS or 5s
+  timeoutMs?: number;
+  // Epoch ms by which every strategy must have finished
+  deadline?: number;
+  // Shared Heartland data for the transaction, passed to every strategy
+  context?: TransactionContext;
+  // Strategies whose results are reported but left out of `check`
+  shadowStrategies?: ReadonlySet<string>;
+  // Runs the remediations of failed checks; without it they are ignored
+  remediator?: Remediator;
+}
+
+/**
+ * Overall strategy deadline for an invocation: the Lambda's remaining time
+ * minus DEADLINE_MARGIN_MS. Undefined outside Lambda (tests, CLI replay).
+ */
+export function deadlineFromContext(context?: Context): number | undefined {
+  if (!context || typeof context.getRemainingTimeInMillis !== 'function') {
+    return undefined;
+  }
+  return Date.now() + context.getRemainingTimeInMillis() - DEADLINE_MARGIN_MS;
+}
+
+function resolveStrategyTimeoutMs(options: EvaluateChecksOptions): number {
+  const configured =
+    options.timeoutMs ?? Number(process.env.STRATEGY_TIMEOUT_MS ?? DEFAULT_STRATEGY_TIMEOUT_MS);
+  const timeoutMs =
+    Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_STRATEGY_TIMEOUT_MS;
+
+  if (options.deadline === undefined) {
+    return timeoutMs;
+  }
+  return Math.max(0, Math.min(timeoutMs, options.deadline - Date.now()));
+}
+
+/**
+ * Run one strategy with a timeout. On timeout the strategy's AbortSignal is
+ * aborted and its result is ignored. Fetches through the shared context are
+ * cancelled by processTransaction once every strategy has finished.
+ */
+async function runStrategy(
+  strategy: TransactionCompletionStrategy,
+  tx: HeartlandTransaction,
+  timeoutMs: number,
+  context: TransactionContext | undefined
+): Promise<{ summary: CheckSummary; remediations: RemediationAction[] }> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const alerts: AlertTally = { sent: 0, suppressed: 0 };
+
+  const timedOut = new Promise<'timed-out'>((resolve) => {
+    timer = setTimeout(() => resolve('timed-out'), timeoutMs);
+  });
+
+  let result: CheckResult;
+  try {
+    const outcome = await Promise.race([
+      countAlerts(alerts, () => strategy.checkTx(tx, controller.signal, context)),
+      timedOut,
+    ]);
+
+    if (outcome === 'timed-out') {
+      controller.abort();
+      console.warn(
+        `[${strategy.name}] Timed out`,
+        JSON.stringify({ transactionId: tx.id, timeoutMs }, null, 2)
+      );
+      return {
+        summary: {
+          name: strategy.name,
+          executed: true,
+          passed: false,
+          timedOut: true,
+          severity: 'warning',
+          reason: `Check timed out after ${timeoutMs}ms`,
+        },
+        remediations: [],
+      };
+    }
+
+    result = toCheckResult(outcome);
+  } catch (err) {
+    console.error(
+      `[${strategy.name}] Error during checkTx`,
+      JSON.stringify({ error: String(err) }, null, 2)
+    );
+    result = {
+      passed: false,
+      severity: 'warning',
+      reason: `Check could not run: ${String(err)}`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return {
+    summary: {
+      name: strategy.name,
+      executed: true,
+      passed: result.passed,
+      ...(result.severity ? { severity: result.severity } : {}),
+      ...(result.reason ? { reason: result.reason } : {}),
+      ...(result.evidence ? { evidence: result.evidence } : {}),
+      ...(wasAlerted(alerts) ? { alerted: true } : {}),
+    },
+    // Only failing checks remediate
+    remediations: result.passed ? [] : result.remediations ?? [],
+  };
+}
+
+/**
+ * Evaluate the transaction against all strategies.
+ * - supported strategies run concurrently, each within its own timeout
+ *   (capped by `options.deadline`); `checks` keeps the strategy order.
+ * - overall `check` passes only if all executed checks pass. A timed-out
+ *   check counts as executed and failed.
+ * - checks of shadow strategies are marked `shadow: true` and ignored by
+ *   `check`.
+ * - remediations requested by failed checks are run through
+ *   `options.remediator` and their outcomes reported on the check; shadow
+ *   checks never remediate.
+ */
+export async function evaluateChecks(
+  tx: HeartlandTransaction,
+  strategies: TransactionCompletionStrategy[],
+  options: EvaluateChecksOptions = {}
+): Promise<{ check: boolean; checks: CheckSummary[] }> {
+  const timeoutMs = resolveStrategyTimeoutMs(options);
+
+  const shadow = options.shadowStrategies ?? new Set<string>();
+
+  const checks = await Promise.all(
+    strategies.map(async (strategy): Promise<CheckSummary> => {
+      if (!strategy.supports(tx)) {
+        const skipped = { name: strategy.name, executed: false, passed: false };
+        return shadow.has(strategy.name) ? { ...skipped, shadow: true } : skipped;
+      }
+
+      const { summary, remediations } = await runStrategy(
+        strategy,
+        tx,
+        timeoutMs,
+        options.context
+      );
+      if (shadow.has(strategy.name)) {
+        return { ...summary, shadow: true };
+      }
+      if (remediations.length > 0 && options.remediator) {
+        return remediate(options.remediator, tx, summary, remediations);
+      }
+      return summary;
+    })
+  );
+
+  const executed = checks.filter((c) => c.executed && !c.shadow);
+
+  return {
+    check: executed.length > 0 && executed.every((c) => c.passed),
+    checks,
+  };
+}
+
+/**
+ * A remediation store failure is logged and does not fail the check run.
+ */
+async function remediate(
+  remediator: Remediator,
+  tx: HeartlandTransaction,
+  summary: CheckSummary,
+  actions: RemediationAction[]
+): Promise<CheckSummary> {
+  try {
+    return { ...summary, remediations: await remediator.run(tx.id, summary.name, actions) };
+  } catch (err) {
+    console.error(
+      `[${summary.name}] Error running remediations`,
+      JSON.stringify({ transactionId: tx.id, actions, error: String(err) }, null, 2)
+    );
+    return summary;
+  }
+}
+
+/**
+ * Classify as sale / return / other
+ */
+export function classifyTransaction(tx: HeartlandTransaction): TransactionKind {
+  if (tx.type === 'Ticket') return 'sale';
+  if (tx.type === 'Return') return 'return';
+
+  if (typeof tx.total === 'number') {
+    if (tx.total > 0) return 'sale';
+    if (tx.total < 0) return 'return';
+  }
+
+  return 'other';
+}
+
+function logTransactionSummary(tx: HeartlandTransaction, kind: TransactionKind): void {
+  const summary = {
+    kind,
+    id: tx.id,
+    type: tx.type,
+    total: tx.total,
+    parent_transaction_id: tx.parent_transaction_id,
+    customer_id: tx.customer_id,
+    customer_name: tx.customer_name,
+    source_location_id: tx.source_location_id,
+    sales_rep: tx.sales_rep,
+    status: tx.status,
+    completed_flag: tx['completed?'],
+    balance: tx.balance,
+    completed_at: tx.completed_at,
+    local_completed_at: tx.local_completed_at,
+  };
+
+  console.log('Heartland transaction summary:', JSON.stringify(summary, null, 2));
+}
+
+/**
+ * Run every strategy against the transaction and build the response body.
+ * Shared by the synchronous webhook path and the SQS worker.
+ */
+export async function processTransaction(
+  tx: HeartlandTransaction,
+  options: EvaluateChecksOptions = {}
+): Promise<WebhookResponseBody> {
+  const kind = classifyTransaction(tx);
+  const { strategies, apiClient, shadowStrategies, remediator } = await getCompletionSetup();
+
+  // Cancels shared fetches still running for strategies that timed out
+  const contextController = new AbortController();
+  const context =
+    options.context ??
+    (apiClient && typeof tx.id === 'number'
+      ? new TransactionContext(tx, apiClient, contextController.signal)
+      : undefined);
+
+  let result: { check: boolean; checks: CheckSummary[] };
+  try {
+    result = await evaluateChecks(tx, strategies, {
+      shadowStrategies,
+      remediator,
+      ...options,
+      context,
+    });
+  } finally {
+    contextController.abort();
+  }
+  const { check, checks } = result;
+
+  logTransactionSummary(tx, kind);
+  console.log('Completion checks summary:', JSON.stringify(checks, null, 2));
+
+  // One line per shadowed result, for measuring a strategy before it goes live
+  for (const shadowCheck of checks.filter((c) => c.shadow && c.executed)) {
+    console.log(
+      'Shadow check result:',
+      JSON.stringify({ transactionId: tx.id, ...shadowCheck }, null, 2)
+    );
+  }
+
+  const firstPassing = checks.find((c) => c.executed && c.passed && !c.shadow)?.name;
+
+  return {
+    status: 'ok',
+    transactionKind: kind,
+    transactionId: tx.id,
+    transactionType: tx.type,
+    check,
+    completionStrategy: firstPassing,
+    checks,
+  };
+}
@@ -0,0 +1,178 @@
+import { HeartlandTransaction } from './model';
+import {
+  HeartlandApiClient,
+  HeartlandCustomer,
+  HeartlandTicket,
+  InventoryItem,
+  InventoryValuesResponse,
+  TicketLine,
+  TicketLinesResponse,
+} from './clients';
+
+/**
+ * Heartland data for one transaction, shared by every strategy that checks
+ * it. Each resource is fetched on first use and memoized, so ticket lines,
+ * the parent ticket's lines, inventory values, items and the customer are
+ * requested at most once per webhook however many strategies read them.
+ * The same goes for the customer's earlier tickets and their lines.
+ *
+ * A failed fetch is memoized too: every strategy sees the same error rather
+ * than retrying the call.
+ */
+export class TransactionContext {
+  private ticketLines?: Promise<TicketLinesResponse>;
+  private readonly inventoryValues = new Map<number, Promise<InventoryValuesResponse>>();
+  private readonly items = new Map<number, Promise<InventoryItem>>();
+  private customer?: Promise<HeartlandCustomer | undefined>;
+  private parentTicket?: Promise<HeartlandTicket | undefined>;
+  private parentTicketLines?: Promise<TicketLinesResponse | undefined>;
+  private readonly customerTickets = new Map<string, Promise<HeartlandTicket[] | undefined>>();
+  private earlierReturns?: Promise<HeartlandTicket[] | undefined>;
+  private readonly otherTicketLines = new Map<number, Promise<TicketLinesResponse>>();
+
+  constructor(
+    public readonly tx: HeartlandTransaction,
+    private readonly apiClient: HeartlandApiClient,
+    // Aborted once no strategy needs the data any more
+    private readonly signal?: AbortSignal
+  ) {}
+
+  getTicketLines(): Promise<TicketLinesResponse> {
+    if (!this.ticketLines) {
+      this.ticketLines = this.apiClient.getTicketLines(this.tx.id, this.signal);
+    }
+    return this.ticketLines;
+  }
+
+  /**
+   * `ItemLine` rows of the ticket; tax, discount and payment lines are dropped.
+   */
+  async getItemLines(): Promise<TicketLine[]> {
+    const lines = await this.getTicketLines();
+    return (lines.results ?? []).filter((line) => line.type === 'ItemLine');
+  }
+
+  /**
+   * The sale a return was made against (`parent_transaction_id`), e.g. for
+   * its `total_discounts`. Resolves undefined for transactions without a
+   * parent.
+   */
+  getParentTicket(): Promise<HeartlandTicket | undefined> {
+    if (!this.parentTicket) {
+      const parentId = this.tx.parent_transaction_id;
+      this.parentTicket =
+        typeof parentId === 'number'
+          ? this.apiClient.getTicket(parentId)
+          : Promise.resolve(undefined);
+    }
+    return this.parentTicket;
+  }
+
+  /**
+   * Lines of the sale a return was made against (`parent_transaction_id`).
+   * Resolves undefined for transactions without a parent.
+   */
+  getParentTicketLines(): Promise<TicketLinesResponse | undefined> {
+    if (!this.parentTicketLines) {
+      const parentId = this.tx.parent_transaction_id;
+      this.parentTicketLines =
+        typeof parentId === 'number'
+          ? this.apiClient.getTicketLines(parentId, this.signal)
+          : Promise.resolve(undefined);
+    }
+    return this.parentTicketLines;
+  }
+
+  getInventoryValues(itemId: number): Promise<InventoryValuesResponse> {
+    return memoize(this.inventoryValues, itemId, () =>
+      this.apiClient.getInventoryValues(itemId, this.signal)
+    );
+  }
+
+  getItem(itemId: number): Promise<InventoryItem> {
+    return memoize(this.items, itemId, () =>
+      this.apiClient.getInventoryItem(itemId, this.signal)
+    );
+  }
+
+  /**
+   * Resolves undefined for transactions without a customer.
+   */
+  getCustomer(): Promise<HeartlandCustomer | undefined> {
+    if (!this.customer) {
+      const customerId = this.tx.customer_id;
+      this.customer =
+        typeof customerId === 'number'
+          ? this.apiClient.getCustomer(customerId, this.signal)
+          : Promise.resolve(undefined);
+    }
+    return this.customer;
+  }
+
+  /**
+   * The customer's other completed tickets since `since` (ISO-8601), newest
+   * first. Resolves undefined for transactions without a customer.
+   */
+  getCustomerTickets(since: string): Promise<HeartlandTicket[] | undefined> {
+    let cached = this.customerTickets.get(since);
+    if (!cached) {
+      const customerId = this.tx.customer_id;
+      cached =
+        typeof customerId === 'number'
+          ? this.apiClient
+              .listCustomerTickets(customerId, since, this.signal)
+              .then((tickets) =>
+                (tickets.results ?? []).filter((ticket) => ticket.id !== this.tx.id)
+              )
+          : Promise.resolve(undefined);
+      this.customerTickets.set(since, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Other completed returns against the same sale made before this one
+   * (lower ticket id), so a re-evaluated return is not compared with later
+   * ones. Resolves undefined for transactions without a parent.
+   */
+  getEarlierReturns(): Promise<HeartlandTicket[] | undefined> {
+    if (!this.earlierReturns) {
+      const parentId = this.tx.parent_transaction_id;
+      this.earlierReturns =
+        typeof parentId === 'number'
+          ? this.apiClient
+              .listReturnsOfTicket(parentId, this.signal)
+              .then((tickets) =>
+                (tickets.results ?? []).filter((ticket) => ticket.id < this.tx.id)
+              )
+          : Promise.resolve(undefined);
+    }
+    return this.earlierReturns;
+  }
+
+  /**
+   * Lines of another ticket, e.g. one returned by getCustomerTickets or
+   * getEarlierReturns.
+   */
+  getOtherTicketLines(ticketId: number): Promise<TicketLinesResponse> {
+    if (ticketId === this.tx.id) {
+      return this.getTicketLines();
+    }
+    return memoize(this.otherTicketLines, ticketId, () =>
+      this.apiClient.getTicketLines(ticketId, this.signal)
+    );
+  }
+}
+
+function memoize<T>(
+  cache: Map<number, Promise<T>>,
+  key: number,
+  load: () => Promise<T>
+): Promise<T> {
+  let cached = cache.get(key);
+  if (!cached) {
+    cached = load();
+    cache.set(key, cached);
+  }
+  return cached;
+}
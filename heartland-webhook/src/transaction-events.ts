@@ -0,0 +1,250 @@
+import { createHash } from 'crypto';
+import { buildHeartlandUrl } from './clients';
+import {
+  CheckHistoryRecord,
+  CheckHistoryStatus,
+  CheckHistoryStore,
+  createCheckHistoryStore,
+} from './check-history';
+import { buildDeliveryKey } from './idempotency';
+import { CheckSummary, HeartlandTransaction, WebhookResponseBody } from './model';
+import { createNotifier, routeChannels } from './notifier';
+import {
+  EvaluateChecksOptions,
+  TRANSACTION_EVENT_TYPE,
+  classifyTransaction,
+  getCompletionSetup,
+  processTransaction,
+} from './transaction-checks';
+
+export const TRANSACTION_UPDATED_EVENT_TYPE = 'sales_transaction_updated';
+export const TRANSACTION_VOIDED_EVENT_TYPE = 'sales_transaction_voided';
+
+/**
+ * Transaction event types handled by the transaction handler, worker and
+ * replay.
+ */
+export const TRANSACTION_EVENT_TYPES = [
+  TRANSACTION_EVENT_TYPE,
+  TRANSACTION_UPDATED_EVENT_TYPE,
+  TRANSACTION_VOIDED_EVENT_TYPE,
+];
+
+export function isTransactionEventType(eventType: string | undefined): boolean {
+  return eventType !== undefined && TRANSACTION_EVENT_TYPES.includes(eventType);
+}
+
+/**
+ * Delivery ledger key for a transaction event. A ticket is completed and
+ * voided once, but may be edited many times, so updates are keyed by the
+ * ticket's `updated_at` (or, without one, a hash of the body) to let each
+ * edit through while still catching retries of the same delivery.
+ */
+export function buildTransactionDeliveryKey(
+  eventType: string,
+  tx: HeartlandTransaction,
+  rawBody: string
+): string {
+  if (eventType !== TRANSACTION_UPDATED_EVENT_TYPE) {
+    return buildDeliveryKey(eventType, tx.id);
+  }
+  const version =
+    typeof tx.updated_at === 'string' && tx.updated_at !== ''
+      ? tx.updated_at
+      : createHash('sha256').update(rawBody).digest('hex').slice(0, 16);
+  return buildDeliveryKey(eventType, `${tx.id}@${version}`);
+}
+
+const STATUS_BY_EVENT_TYPE: Record<string, CheckHistoryStatus> = {
+  [TRANSACTION_EVENT_TYPE]: 'completed',
+  [TRANSACTION_UPDATED_EVENT_TYPE]: 'updated',
+  [TRANSACTION_VOIDED_EVENT_TYPE]: 'voided',
+};
+
+let checkHistoryStore: CheckHistoryStore | undefined;
+
+function getCheckHistoryStore(): CheckHistoryStore {
+  if (!checkHistoryStore) {
+    checkHistoryStore = createCheckHistoryStore(process.env.CHECK_HISTORY_TABLE_NAME);
+  }
+  return checkHistoryStore;
+}
+
+/**
+ * Handle one transaction event and build the response body.
+ *
+ * - completed: run the checks and remember their results
+ * - updated: run the checks again against the edited ticket, then post a
+ *   resolved message for earlier alerts whose checks now pass
+ * - voided: run nothing and post a resolved message for every earlier alert,
+ *   listing the remediations it leaves applied
+ *
+ * Once a transaction is voided, later events for it are ignored. History
+ * store failures are logged and treated as "no earlier results".
+ */
+export async function processTransactionEvent(
+  eventType: string,
+  tx: HeartlandTransaction,
+  options: EvaluateChecksOptions = {},
+  store: CheckHistoryStore = getCheckHistoryStore()
+): Promise<WebhookResponseBody> {
+  const status = STATUS_BY_EVENT_TYPE[eventType];
+  if (!status) {
+    throw new Error(`Unsupported transaction event type ${eventType}`);
+  }
+
+  if (typeof tx.id !== 'number') {
+    return status === 'voided' ? voidedResponse(tx, []) : processTransaction(tx, options);
+  }
+
+  const previous = await readHistory(store, tx.id);
+  if (previous?.status === 'voided') {
+    console.warn(
+      'Ignoring event for voided transaction',
+      JSON.stringify({ transactionId: tx.id, eventType }, null, 2)
+    );
+    return voidedResponse(tx, []);
+  }
+
+  const alerted = previous ? alertedChecks(previous.checks) : [];
+
+  if (status === 'voided') {
+    await announceResolved(tx, 'voided', alerted);
+    await writeHistory(store, {
+      transactionId: tx.id,
+      status,
+      evaluatedAt: new Date().toISOString(),
+      check: false,
+      checks: previous?.checks ?? [],
+    });
+    return voidedResponse(tx, alerted.map((check) => check.name));
+  }
+
+  const response = await processTransaction(tx, options);
+
+  const resolved =
+    status === 'updated'
+      ? alerted.filter((check) => isResolved(check.name, response.checks))
+      : [];
+  await announceResolved(tx, 'updated', resolved);
+
+  await writeHistory(store, {
+    transactionId: tx.id,
+    status,
+    evaluatedAt: new Date().toISOString(),
+    check: response.check,
+    checks: response.checks,
+  });
+
+  return resolved.length > 0
+    ? { ...response, resolved: resolved.map((check) => check.name) }
+    : response;
+}
+
+/**
+ * Failed checks whose alert actually reached someone. Failures below a
+ * strategy's alert threshold, checks without a channel and repeats dropped
+ * by suppression sent nothing, so there is nothing to follow up.
+ */
+function alertedChecks(checks: CheckSummary[]): CheckSummary[] {
+  return checks.filter(
+    (check) => check.executed && !check.passed && !check.shadow && check.alerted === true
+  );
+}
+
+// Passing now, or no longer applicable to the edited ticket
+function isResolved(name: string, checks: CheckSummary[]): boolean {
+  const current = checks.find((check) => check.name === name);
+  return !current || !current.executed || current.passed;
+}
+
+async function announceResolved(
+  tx: HeartlandTransaction,
+  change: 'voided' | 'updated',
+  resolved: CheckSummary[]
+): Promise<void> {
+  if (resolved.length === 0) {
+    return;
+  }
+
+  const { heartlandBaseUrl } = await getCompletionSetup();
+  const ticketUrl = heartlandBaseUrl
+    ? ` ( ${buildHeartlandUrl(heartlandBaseUrl, `/#sales/tickets/edit/${tx.id}`)} )`
+    : '';
+
+  // Each resolved alert goes where the original went; checks sharing a
+  // route share one message
+  const byRoute = new Map<string, CheckSummary[]>();
+  for (const check of resolved) {
+    const route = routeChannels(check.name).join(',');
+    byRoute.set(route, [...(byRoute.get(route) ?? []), check]);
+  }
+
+  for (const checks of byRoute.values()) {
+    // Voids leave remediations in place: the tag or note may still be right
+    const applied =
+      change === 'voided'
+        ? checks.flatMap((check) =>
+            (check.remediations ?? []).filter((remediation) => remediation.status === 'applied')
+          )
+        : [];
+    const text =
+      `Resolved: ticket ${tx.id} was ${change}${ticketUrl}. Earlier alerts:\n` +
+      checks.map((check) => `- ${check.name}: ${check.reason}`).join('\n') +
+      (applied.length > 0
+        ? `\nRemediations were not reverted: ${applied.map((remediation) => remediation.id).join(', ')}. ` +
+          'Revert them through the remediations endpoint if needed.'
+        : '');
+
+    const notifier = createNotifier(checks[0].name);
+    if (!notifier) {
+      console.warn('No notification channel configured; resolved message not sent:', text);
+      continue;
+    }
+
+    try {
+      await notifier.sendMessage(text);
+    } catch (err) {
+      console.error('Error posting resolved message', err);
+    }
+  }
+}
+
+async function readHistory(
+  store: CheckHistoryStore,
+  transactionId: number
+): Promise<CheckHistoryRecord | undefined> {
+  try {
+    return await store.get(transactionId);
+  } catch (err) {
+    console.error(
+      'Error reading check history',
+      JSON.stringify({ transactionId, error: String(err) }, null, 2)
+    );
+    return undefined;
+  }
+}
+
+async function writeHistory(store: CheckHistoryStore, record: CheckHistoryRecord): Promise<void> {
+  try {
+    await store.put(record);
+  } catch (err) {
+    console.error(
+      'Error writing check history',
+      JSON.stringify({ transactionId: record.transactionId, error: String(err) }, null, 2)
+    );
+  }
+}
+
+function voidedResponse(tx: HeartlandTransaction, resolved: string[]): WebhookResponseBody {
+  return {
+    status: 'ok',
+    transactionKind: classifyTransaction(tx),
+    transactionId: tx.id,
+    transactionType: tx.type,
+    check: false,
+    checks: [],
+    voided: true,
+    ...(resolved.length > 0 ? { resolved } : {}),
+  };
+}
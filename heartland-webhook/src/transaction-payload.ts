@@ -0,0 +1,168 @@
+import { Notifier, PAYLOAD_DRIFT_ALERT, createNotifier } from './notifier';
+import { HeartlandTransaction, PayloadValidationError } from './model';
+import { isRecord } from './payload-fields';
+
+type FieldType = 'number' | 'string' | 'boolean';
+
+interface TransactionFieldSpec {
+  field: string;
+  type: FieldType;
+  // Must be present on every sales_transaction_completed payload
+  required?: boolean;
+  nullable?: boolean;
+}
+
+/**
+ * The transaction fields the completion strategies read. Required fields
+ * are expected on every payload; optional ones are only type-checked when
+ * present.
+ */
+const TRANSACTION_FIELDS: TransactionFieldSpec[] = [
+  { field: 'id', type: 'number', required: true },
+  { field: 'type', type: 'string', required: true },
+  { field: 'total', type: 'number', required: true },
+  { field: 'total_discounts', type: 'number', required: true },
+  { field: 'original_subtotal', type: 'number', required: true },
+  { field: 'source_location_id', type: 'number', required: true },
+  { field: 'completed?', type: 'boolean', required: true },
+  { field: 'balance', type: 'number' },
+  { field: 'status', type: 'string' },
+  { field: 'customer_id', type: 'number', nullable: true },
+  { field: 'customer_name', type: 'string', nullable: true },
+  { field: 'sales_rep', type: 'string', nullable: true },
+  { field: 'parent_transaction_id', type: 'number', nullable: true },
+  { field: 'completed_at', type: 'string', nullable: true },
+  { field: 'local_completed_at', type: 'string', nullable: true },
+];
+
+export type TransactionParseResult =
+  | {
+      ok: true;
+      value: HeartlandTransaction;
+      validationErrors: PayloadValidationError[];
+    }
+  | { ok: false; error: string };
+
+/**
+ * Parse a sales_transaction_completed body.
+ *
+ * Only unparseable bodies are rejected. Field problems are returned as
+ * `validationErrors` alongside the payload so the checks still run and the
+ * drift can be reported.
+ */
+export function parseTransactionBody(body: string): TransactionParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body) as unknown;
+  } catch (err) {
+    return { ok: false, error: `invalid JSON: ${String(err)}` };
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, error: 'payload is not an object' };
+  }
+
+  return {
+    ok: true,
+    value: raw as HeartlandTransaction,
+    validationErrors: validateTransactionFields(raw),
+  };
+}
+
+export function validateTransactionFields(
+  raw: Record<string, unknown>
+): PayloadValidationError[] {
+  const errors: PayloadValidationError[] = [];
+
+  for (const spec of TRANSACTION_FIELDS) {
+    const value = raw[spec.field];
+    const expected = spec.nullable ? `${spec.type} | null` : spec.type;
+
+    if (value === undefined) {
+      if (spec.required) {
+        errors.push({ field: spec.field, code: 'missing', expected, received: 'undefined' });
+      }
+      continue;
+    }
+
+    if (value === null && spec.nullable) {
+      continue;
+    }
+
+    if (typeof value !== spec.type) {
+      errors.push({
+        field: spec.field,
+        code: 'invalid_type',
+        expected,
+        received: describeType(value),
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Signatures already alerted on by this container, so a shape change
+// produces one alert rather than one per sale.
+const alertedSignatures = new Set<string>();
+
+/**
+ * Send an alert the first time a given set of validation errors is
+ * seen. Alert failures are logged, never thrown.
+ */
+export async function alertOnPayloadDrift(
+  tx: HeartlandTransaction,
+  validationErrors: PayloadValidationError[],
+  notifier?: Notifier
+): Promise<void> {
+  if (validationErrors.length === 0) {
+    return;
+  }
+
+  console.warn(
+    'Heartland transaction payload failed validation',
+    JSON.stringify({ transactionId: tx.id, validationErrors }, null, 2)
+  );
+
+  const signature = validationErrors
+    .map((error) => `${error.field}:${error.code}:${error.received}`)
+    .sort()
+    .join(',');
+  if (alertedSignatures.has(signature)) {
+    return;
+  }
+
+  const details = validationErrors
+    .map((error) =>
+      error.code === 'missing'
+        ? `${error.field} is missing`
+        : `${error.field} is ${error.received} (expected ${error.expected})`
+    )
+    .join('; ');
+  const message =
+    `Heartland transaction payload changed shape (transaction ${String(tx.id)}): ${details}. ` +
+    'Checks that rely on these fields may be skipped.';
+
+  try {
+    // Building the notifier throws on an invalid NOTIFICATION_ROUTES
+    const client = notifier ?? createNotifier(PAYLOAD_DRIFT_ALERT);
+    if (!client) {
+      console.warn('No notification channel for payload-drift; cannot send payload drift alert');
+      return;
+    }
+    await client.sendMessage(message);
+    alertedSignatures.add(signature);
+  } catch (err) {
+    console.error('Error posting payload drift alert', err);
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
@@ -0,0 +1,233 @@
+import * as crypto from 'crypto';
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from 'aws-lambda';
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from '@aws-sdk/client-secrets-manager';
+
+/**
+ * Header carrying the hex-encoded HMAC-SHA256 of `${timestamp}.${body}`.
+ */
+export const SIGNATURE_HEADER = 'x-heartland-signature';
+
+/**
+ * Header carrying the unix timestamp (seconds) the signature was created at.
+ */
+export const TIMESTAMP_HEADER = 'x-heartland-timestamp';
+
+/**
+ * Header carrying the raw shared secret, for senders that cannot sign bodies.
+ */
+export const SHARED_SECRET_HEADER = 'x-webhook-secret';
+
+export const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+export type WebhookAuthResult =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+export interface VerifyWebhookOptions {
+  nowMs?: number;
+  toleranceSeconds?: number;
+}
+
+const secretsClient = new SecretsManagerClient({});
+let cachedWebhookSecret: string | null = null;
+
+/**
+ * Compute the signature Heartland (or a replaying operator) must send in
+ * the `x-heartland-signature` header.
+ */
+export function computeWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Verify a Function URL request against the shared webhook secret.
+ *
+ * Accepts a signed request (signature + timestamp headers, with the
+ * timestamp inside the tolerance window to reject replays), the shared
+ * secret sent verbatim in `x-webhook-secret`, or the secret in the `token`
+ * query parameter. Heartland itself cannot sign or add headers, so the
+ * webhooks registered by the custom resource use the query parameter.
+ */
+export function verifyWebhookRequest(
+  event: APIGatewayProxyEventV2,
+  secret: string,
+  options: VerifyWebhookOptions = {}
+): WebhookAuthResult {
+  const headers = normalizeHeaders(event.headers);
+  const body = getRawBody(event);
+
+  const signature = headers[SIGNATURE_HEADER];
+  if (signature) {
+    const timestamp = headers[TIMESTAMP_HEADER];
+    if (!timestamp) {
+      return { ok: false, reason: `missing ${TIMESTAMP_HEADER} header` };
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!Number.isFinite(timestampSeconds)) {
+      return { ok: false, reason: `invalid ${TIMESTAMP_HEADER} header` };
+    }
+
+    const nowSeconds = (options.nowMs ?? Date.now()) / 1000;
+    const tolerance =
+      options.toleranceSeconds ?? DEFAULT_TIMESTAMP_TOLERANCE_SECONDS;
+    if (Math.abs(nowSeconds - timestampSeconds) > tolerance) {
+      return { ok: false, reason: 'timestamp outside tolerance window' };
+    }
+
+    const expected = computeWebhookSignature(secret, timestamp, body);
+    if (!safeEqual(signature.trim().toLowerCase(), expected)) {
+      return { ok: false, reason: 'signature mismatch' };
+    }
+
+    return { ok: true };
+  }
+
+  const sharedSecret = headers[SHARED_SECRET_HEADER];
+  if (sharedSecret) {
+    if (!safeEqual(sharedSecret, secret)) {
+      return { ok: false, reason: 'shared secret mismatch' };
+    }
+    return { ok: true };
+  }
+
+  if (event.queryStringParameters?.token) {
+    return verifyCallbackToken(event, secret);
+  }
+
+  return { ok: false, reason: 'missing signature, shared secret header or token' };
+}
+
+/**
+ * Verify a callback from a sender that can only be given a URL, such as a
+ * GroupMe bot: the secret token must be in the `token` query parameter.
+ */
+export function verifyCallbackToken(
+  event: APIGatewayProxyEventV2,
+  token: string
+): WebhookAuthResult {
+  const provided = event.queryStringParameters?.token;
+  if (!provided) {
+    return { ok: false, reason: 'missing token query parameter' };
+  }
+  if (!safeEqual(provided, token)) {
+    return { ok: false, reason: 'token mismatch' };
+  }
+  return { ok: true };
+}
+
+/**
+ * Authenticate a webhook request using `heartland.webhookSecret` from the
+ * operational secret.
+ *
+ * When WEBHOOK_AUTH_REQUIRED is not "true" and no secret is configured, the
+ * request is allowed with a warning so local runs keep working; the deployed
+ * stack always sets WEBHOOK_AUTH_REQUIRED.
+ */
+export async function authenticateWebhookEvent(
+  event: APIGatewayProxyEventV2
+): Promise<WebhookAuthResult> {
+  const required = process.env.WEBHOOK_AUTH_REQUIRED === 'true';
+  const secretArn = process.env.OPERATIONAL_SECRET_ARN;
+
+  let secret: string | null = null;
+  if (secretArn) {
+    try {
+      secret = await getWebhookSecretFromSecret(secretArn);
+    } catch (err) {
+      console.error('Error loading webhook secret:', err);
+    }
+  }
+
+  if (!secret) {
+    if (required) {
+      return { ok: false, reason: 'webhook secret is not configured' };
+    }
+    console.warn(
+      'Webhook authentication skipped: heartland.webhookSecret is not configured'
+    );
+    return { ok: true };
+  }
+
+  return verifyWebhookRequest(event, secret);
+}
+
+/**
+ * 401 response returned for requests that fail authentication.
+ */
+export function createUnauthorizedResponse(): APIGatewayProxyResultV2 {
+  return {
+    statusCode: 401,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'unauthorized' }),
+  };
+}
+
+async function getWebhookSecretFromSecret(secretArn: string): Promise<string | null> {
+  if (cachedWebhookSecret) {
+    return cachedWebhookSecret;
+  }
+
+  const result = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretArn })
+  );
+
+  if (!result.SecretString) {
+    throw new Error('SecretString is empty in Secrets Manager response');
+  }
+
+  const parsed = JSON.parse(result.SecretString) as {
+    heartland?: { webhookSecret?: string };
+  };
+
+  const webhookSecret = parsed.heartland?.webhookSecret;
+  if (!webhookSecret) {
+    return null;
+  }
+
+  cachedWebhookSecret = webhookSecret;
+  return webhookSecret;
+}
+
+function normalizeHeaders(
+  headers: APIGatewayProxyEventV2['headers'] | undefined
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (typeof value === 'string') {
+      normalized[key.toLowerCase()] = value;
+    }
+  }
+  return normalized;
+}
+
+function getRawBody(event: APIGatewayProxyEventV2): string {
+  if (!event.body) {
+    return '';
+  }
+  return event.isBase64Encoded
+    ? Buffer.from(event.body, 'base64').toString('utf8')
+    : event.body;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  if (left.length !== right.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(left, right);
+}
@@ -0,0 +1,81 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  Context,
+} from 'aws-lambda';
+
+/**
+ * Heartland posts every event type to the router URL; the event type is
+ * carried in the registered URL's query string (`?event=item_created`) or,
+ * for manual posts, in this header.
+ */
+export const EVENT_TYPE_QUERY_PARAM = 'event';
+export const EVENT_TYPE_HEADER = 'x-heartland-event';
+
+export type WebhookHandler = (
+  event: APIGatewayProxyEventV2,
+  context?: Context
+) => Promise<APIGatewayProxyResultV2>;
+
+/**
+ * Event type -> handler module name. The deployed router receives this map
+ * as WEBHOOK_ROUTES, generated from the registration table in the CDK stack.
+ */
+export type WebhookRoutes = Record<string, string>;
+
+export const DEFAULT_WEBHOOK_ROUTES: WebhookRoutes = {
+  sales_transaction_completed: 'transaction',
+  sales_transaction_updated: 'transaction',
+  sales_transaction_voided: 'transaction',
+  item_created: 'item',
+};
+
+export function resolveEventType(event: APIGatewayProxyEventV2): string | undefined {
+  const fromQuery = event.queryStringParameters?.[EVENT_TYPE_QUERY_PARAM];
+  if (fromQuery) {
+    return fromQuery;
+  }
+
+  for (const [name, value] of Object.entries(event.headers ?? {})) {
+    if (name.toLowerCase() === EVENT_TYPE_HEADER && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse WEBHOOK_ROUTES, falling back to the defaults when unset. Throws on a
+ * malformed map or an unknown module so a bad deploy fails at cold start
+ * instead of dropping events.
+ */
+export function parseWebhookRoutes(
+  raw: string | undefined,
+  knownModules: string[]
+): WebhookRoutes {
+  if (!raw) {
+    return DEFAULT_WEBHOOK_ROUTES;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (err) {
+    throw new Error(`WEBHOOK_ROUTES is not valid JSON: ${String(err)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('WEBHOOK_ROUTES must be an object of event type to handler module');
+  }
+
+  const routes: WebhookRoutes = {};
+  for (const [eventType, moduleName] of Object.entries(parsed)) {
+    if (typeof moduleName !== 'string' || !knownModules.includes(moduleName)) {
+      throw new Error(
+        `WEBHOOK_ROUTES maps ${eventType} to unknown handler module ${String(moduleName)}`
+      );
+    }
+    routes[eventType] = moduleName;
+  }
+  return routes;
+}
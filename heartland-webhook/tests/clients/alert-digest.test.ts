@@ -0,0 +1,173 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  AlertDigestEntry,
+  DigestNotifier,
+  DynamoDbAlertDigestStore,
+  InMemoryAlertDigestStore,
+  composeDigest,
+} from '../../src/alert-digest';
+
+const baseUrl = 'https://example.heartland.test';
+
+function entry(overrides: Partial<AlertDigestEntry>): AlertDigestEntry {
+  return {
+    alertType: 'price-adjusted-item',
+    entryId: '2026-03-01T12:00:00.000Z#00000000',
+    createdAt: '2026-03-01T12:00:00.000Z',
+    text: 'Item Batwing price was adjusted by -60 from 75 to 15 in ticket 117060',
+    fingerprint: 'ticket:117060:line:291127',
+    ...overrides,
+  };
+}
+
+describe('composeDigest', () => {
+  it('groups by alert type and subject, busiest first, with links and counts', () => {
+    const text = composeDigest(
+      [
+        entry({ createdAt: '2026-03-01T15:00:00.000Z' }),
+        entry({
+          text: 'Item Tower price was adjusted by -5 from 20 to 15 in ticket 117070',
+          fingerprint: 'ticket:117070:line:291200',
+        }),
+        entry({
+          text: 'Item Tower price was adjusted by -5 from 20 to 15 in ticket 117070',
+          fingerprint: 'ticket:117070:line:291200',
+        }),
+        entry({
+          alertType: 'image-failure',
+          createdAt: '2026-03-01T09:30:00.000Z',
+          text: 'Cannot set image for 109531 because BrickLink image not found',
+          fingerprint: undefined,
+        }),
+        entry({
+          alertType: 'rep-anomaly',
+          text: 'Sales rep Sam: 3 of 5 transactions had a discount',
+          fingerprint: 'rep:Sam:discount',
+        }),
+      ],
+      baseUrl
+    );
+
+    expect(text).toBe(
+      [
+        'Alert digest: 5 alert(s) since 2026-03-01T09:30:00.000Z',
+        '',
+        'price-adjusted-item: 3 alert(s)',
+        `• ticket 117070 ( ${baseUrl}/#sales/tickets/edit/117070 ): 2`,
+        '  - Item Tower price was adjusted by -5 from 20 to 15 in ticket 117070 (x2)',
+        `• ticket 117060 ( ${baseUrl}/#sales/tickets/edit/117060 ): 1`,
+        '  - Item Batwing price was adjusted by -60 from 75 to 15 in ticket 117060',
+        '',
+        'image-failure: 1 alert(s)',
+        '• other: 1',
+        '  - Cannot set image for 109531 because BrickLink image not found',
+        '',
+        'rep-anomaly: 1 alert(s)',
+        '• sales rep Sam: 1',
+        '  - Sales rep Sam: 3 of 5 transactions had a discount',
+      ].join('\n')
+    );
+  });
+
+  it('links items by id without the location', () => {
+    expect(
+      composeDigest(
+        [entry({ alertType: 'inventory-non-negative', fingerprint: 'item:2002@100005' })],
+        baseUrl
+      )
+    ).toContain(`• item 2002 ( ${baseUrl}/#items/edit/2002 ): 1`);
+  });
+
+  it('links each distinct image attached to an alert', () => {
+    const failure = {
+      alertType: 'image-failure',
+      text: 'Heartland rejected the image for 109531',
+      fingerprint: undefined,
+    };
+
+    expect(
+      composeDigest([
+        entry({ ...failure, imageUrl: 'https://img.bricklink.com/109531.png' }),
+        entry({ ...failure, imageUrl: 'https://img.bricklink.com/109531.png' }),
+        entry({ ...failure, imageUrl: 'https://toyhouse.test/109531.jpg' }),
+        entry({ ...failure }),
+      ])
+    ).toContain(
+      [
+        '  - Heartland rejected the image for 109531 (x4)',
+        '    Image: https://img.bricklink.com/109531.png',
+        '    Image: https://toyhouse.test/109531.jpg',
+      ].join('\n')
+    );
+  });
+});
+
+describe('InMemoryAlertDigestStore', () => {
+  it('buffers alerts per type through the digest notifier until removed', async () => {
+    const store = new InMemoryAlertDigestStore();
+    const notifier = new DigestNotifier(
+      'image-failure',
+      store,
+      () => new Date('2026-03-01T12:00:00.000Z')
+    );
+
+    await notifier.sendMessage('Cannot set image for 1');
+    await notifier.sendMessage('Cannot set image for 2', 'item:2');
+    await notifier.sendMessage('Rejected image for 3', undefined, {
+      imageUrl: 'https://img.bricklink.com/3.png',
+    });
+
+    const entries = await store.list('image-failure');
+    expect(entries).toEqual([
+      expect.objectContaining({ text: 'Cannot set image for 1', createdAt: '2026-03-01T12:00:00.000Z' }),
+      expect.objectContaining({ text: 'Cannot set image for 2', fingerprint: 'item:2' }),
+      expect.objectContaining({
+        text: 'Rejected image for 3',
+        imageUrl: 'https://img.bricklink.com/3.png',
+      }),
+    ]);
+    await expect(store.list('report')).resolves.toEqual([]);
+
+    await store.remove(entries.slice(0, 1));
+    await expect(store.list('image-failure')).resolves.toHaveLength(2);
+  });
+});
+
+describe('DynamoDbAlertDigestStore', () => {
+  it('stores entries under their alert type with a TTL and pages through them', async () => {
+    const stored = entry({});
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce({ Items: [{ entry: stored }], LastEvaluatedKey: { k: 1 } })
+      .mockResolvedValueOnce({ Items: [{ entry: stored }] })
+      .mockResolvedValueOnce({});
+    const store = new DynamoDbAlertDigestStore(
+      'AlertDigest',
+      { send } as unknown as DynamoDBDocumentClient,
+      3600
+    );
+
+    await store.add({
+      alertType: 'price-adjusted-item',
+      createdAt: '2026-03-01T12:00:00.000Z',
+      text: 'adjusted',
+    });
+    await expect(store.list('price-adjusted-item')).resolves.toEqual([stored, stored]);
+    await store.remove([stored]);
+
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      TableName: 'AlertDigest',
+      Item: {
+        alertType: 'price-adjusted-item',
+        entryId: expect.stringMatching(/^2026-03-01T12:00:00.000Z#[0-9a-f]{8}$/),
+        expiresAt: Date.parse('2026-03-01T12:00:00.000Z') / 1000 + 3600,
+      },
+    });
+    expect(send.mock.calls[2][0].input.ExclusiveStartKey).toEqual({ k: 1 });
+    expect(send.mock.calls[3][0].input).toEqual({
+      TableName: 'AlertDigest',
+      Key: { alertType: 'price-adjusted-item', entryId: stored.entryId },
+    });
+  });
+});
@@ -0,0 +1,457 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDbAlertSuppressionStore,
+  InMemoryAlertSuppressionStore,
+  SuppressingNotifier,
+  reportPendingRepeats,
+} from '../../src/alert-suppression';
+
+describe('InMemoryAlertSuppressionStore', () => {
+  it('suppresses within the window and reports the count when it ends', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+
+    await expect(store.claim('k', 600)).resolves.toEqual({ send: true, suppressedCount: 0 });
+    nowMs += 60_000;
+    await expect(store.claim('k', 600)).resolves.toEqual({ send: false });
+    await expect(store.claim('k', 600)).resolves.toEqual({ send: false });
+    await expect(store.claim('other', 600)).resolves.toEqual({ send: true, suppressedCount: 0 });
+
+    nowMs += 600_000;
+    await expect(store.claim('k', 600)).resolves.toEqual({
+      send: true,
+      suppressedCount: 2,
+      lastSentAt: '2026-03-01T12:00:00.000Z',
+    });
+  });
+
+  it('restores the previous send and count when a claim is released', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+
+    await store.claim('k', 600);
+    await store.claim('k', 600);
+    nowMs += 600_000;
+    const claim = await store.claim('k', 600);
+    if (!claim.send) {
+      throw new Error('expected a claim');
+    }
+    // A repeat arrives while the claimed send is failing
+    await store.claim('k', 600);
+    await store.release('k', claim);
+
+    await expect(store.claim('k', 600)).resolves.toEqual({
+      send: true,
+      suppressedCount: 2,
+      lastSentAt: '2026-03-01T12:00:00.000Z',
+    });
+  });
+
+  it('lists closed windows with unreported repeats and their latest repeat', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+    const repeat = (text: string) => ({ alertType: 'report', text });
+
+    await store.claim('k', 600, repeat('first'));
+    await store.claim('k', 600, repeat('second'));
+    await store.claim('k', 600, repeat('third'));
+    await store.claim('quiet', 600, repeat('once'));
+    await expect(store.listPending()).resolves.toEqual([]);
+
+    nowMs += 600_000;
+    await expect(store.listPending()).resolves.toEqual([
+      {
+        fingerprint: 'k',
+        suppressedCount: 2,
+        lastSentAt: '2026-03-01T12:00:00.000Z',
+        lastRepeat: repeat('third'),
+      },
+    ]);
+    await expect(store.claimPending('quiet', 600)).resolves.toEqual({ send: false });
+    await expect(store.claimPending('k', 600)).resolves.toEqual({
+      send: true,
+      suppressedCount: 2,
+      lastSentAt: '2026-03-01T12:00:00.000Z',
+    });
+    await expect(store.listPending()).resolves.toEqual([]);
+  });
+});
+
+describe('DynamoDbAlertSuppressionStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('claims with a conditional put and returns the previous suppressed count', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    const nowSeconds = Date.parse('2026-03-01T12:00:00.000Z') / 1000;
+    const send = jest.fn().mockResolvedValue({
+      Attributes: { sentAt: '2026-03-01T10:00:00.000Z', suppressedCount: 4 },
+    });
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient,
+      3600
+    );
+
+    await expect(store.claim('inventory-non-negative#item:2002@100005', 600)).resolves.toEqual({
+      send: true,
+      suppressedCount: 4,
+      lastSentAt: '2026-03-01T10:00:00.000Z',
+    });
+    expect(send.mock.calls[0][0].input).toEqual({
+      TableName: 'AlertSuppression',
+      Item: {
+        fingerprint: 'inventory-non-negative#item:2002@100005',
+        sentAt: '2026-03-01T12:00:00.000Z',
+        windowEndsAt: nowSeconds + 600,
+        suppressedCount: 0,
+        expiresAt: nowSeconds + 600 + 3600,
+      },
+      ConditionExpression: 'attribute_not_exists(fingerprint) OR windowEndsAt <= :now',
+      ExpressionAttributeValues: { ':now': nowSeconds },
+      ReturnValues: 'ALL_OLD',
+    });
+  });
+
+  it('counts a repeat when the window is still open', async () => {
+    const conditionalError = Object.assign(new Error('open'), {
+      name: 'ConditionalCheckFailedException',
+    });
+    const send = jest.fn().mockRejectedValueOnce(conditionalError).mockResolvedValueOnce({});
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+
+    await expect(store.claim('k', 600)).resolves.toEqual({ send: false });
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'AlertSuppression',
+      Key: { fingerprint: 'k' },
+      UpdateExpression: 'ADD suppressedCount :one',
+      ExpressionAttributeValues: { ':one': 1 },
+    });
+  });
+
+  it('keeps the latest repeat with the count', async () => {
+    const conditionalError = Object.assign(new Error('open'), {
+      name: 'ConditionalCheckFailedException',
+    });
+    const send = jest.fn().mockRejectedValueOnce(conditionalError).mockResolvedValueOnce({});
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+
+    await store.claim('report#daily', 600, { alertType: 'report', text: 'Report ready' });
+
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'AlertSuppression',
+      Key: { fingerprint: 'report#daily' },
+      UpdateExpression: 'ADD suppressedCount :one SET lastRepeat = :repeat',
+      ExpressionAttributeValues: {
+        ':one': 1,
+        ':repeat': { alertType: 'report', text: 'Report ready' },
+      },
+    });
+  });
+
+  it('scans for closed windows with unreported repeats, page by page', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    const row = (fingerprint: string) => ({
+      fingerprint,
+      sentAt: '2026-03-01T10:00:00.000Z',
+      windowEndsAt: 0,
+      suppressedCount: 3,
+      lastRepeat: { alertType: 'report', text: fingerprint },
+    });
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({ Items: [row('a')], LastEvaluatedKey: { fingerprint: 'a' } })
+      .mockResolvedValueOnce({ Items: [row('b')] });
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+
+    await expect(store.listPending()).resolves.toEqual(
+      ['a', 'b'].map((fingerprint) => ({
+        fingerprint,
+        suppressedCount: 3,
+        lastSentAt: '2026-03-01T10:00:00.000Z',
+        lastRepeat: { alertType: 'report', text: fingerprint },
+      }))
+    );
+    expect(send.mock.calls[0][0].input).toEqual({
+      TableName: 'AlertSuppression',
+      FilterExpression:
+        'windowEndsAt <= :now AND suppressedCount > :zero AND attribute_exists(lastRepeat)',
+      ExpressionAttributeValues: {
+        ':now': Date.parse('2026-03-01T12:00:00.000Z') / 1000,
+        ':zero': 0,
+      },
+    });
+    expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ fingerprint: 'a' });
+  });
+
+  it('claims a pending fingerprint without counting a repeat when it was alerted again', async () => {
+    const conditionalError = Object.assign(new Error('claimed'), {
+      name: 'ConditionalCheckFailedException',
+    });
+    const send = jest.fn().mockRejectedValueOnce(conditionalError);
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+
+    await expect(store.claimPending('k', 600)).resolves.toEqual({ send: false });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      ConditionExpression: 'windowEndsAt <= :now AND suppressedCount > :zero',
+      ExpressionAttributeValues: { ':zero': 0 },
+    });
+  });
+
+  it('reverts a released claim to the previous send and count', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+    const send = jest.fn().mockResolvedValue({});
+    const store = new DynamoDbAlertSuppressionStore(
+      'AlertSuppression',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+
+    await store.release('k', {
+      send: true,
+      suppressedCount: 4,
+      lastSentAt: '2026-03-01T10:00:00.000Z',
+    });
+    await store.release('new', { send: true, suppressedCount: 0 });
+
+    expect(send.mock.calls.map(([command]) => command.input)).toEqual([
+      {
+        TableName: 'AlertSuppression',
+        Key: { fingerprint: 'k' },
+        UpdateExpression: 'SET sentAt = :sentAt, windowEndsAt = :now ADD suppressedCount :count',
+        ExpressionAttributeValues: {
+          ':sentAt': '2026-03-01T10:00:00.000Z',
+          ':now': Date.parse('2026-03-01T12:00:00.000Z') / 1000,
+          ':count': 4,
+        },
+      },
+      { TableName: 'AlertSuppression', Key: { fingerprint: 'new' } },
+    ]);
+  });
+});
+
+describe('SuppressingNotifier', () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it('sends the first alert per fingerprint and folds repeats into the next one', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const inner = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const notifier = new SuppressingNotifier(
+      inner,
+      'inventory-non-negative',
+      new InMemoryAlertSuppressionStore(() => nowMs),
+      3600
+    );
+
+    await notifier.sendMessage('Batwing has negative inventory balance', 'item:2002@100005');
+    await notifier.sendMessage('Batwing has negative inventory balance', 'item:2002@100005');
+    await notifier.sendMessage('Batwing has negative inventory balance', 'item:2002@100005');
+    await notifier.sendMessage('Tower has negative inventory balance', 'item:2003@100005');
+    nowMs += 3_600_000;
+    await notifier.sendMessage('Batwing has negative inventory balance', 'item:2002@100005');
+
+    expect(inner.sendMessage.mock.calls).toEqual([
+      ['Batwing has negative inventory balance', 'item:2002@100005', undefined],
+      ['Tower has negative inventory balance', 'item:2003@100005', undefined],
+      [
+        'Batwing has negative inventory balance\n' +
+          '(2 more occurrence(s) since 2026-03-01T12:00:00.000Z)',
+        'item:2002@100005',
+        undefined,
+      ],
+    ]);
+  });
+
+  it('fingerprints by text when none is given', async () => {
+    const inner = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const notifier = new SuppressingNotifier(
+      inner,
+      'image-failure',
+      new InMemoryAlertSuppressionStore(),
+      3600
+    );
+
+    await notifier.sendMessage('Cannot set image for 1');
+    await notifier.sendMessage('Cannot set image for 1');
+    await notifier.sendMessage('Cannot set image for 2');
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases the claim when the send fails so the next repeat goes out', async () => {
+    const inner = {
+      sendMessage: jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValue(undefined),
+    };
+    const notifier = new SuppressingNotifier(
+      inner,
+      'report',
+      new InMemoryAlertSuppressionStore(),
+      3600
+    );
+
+    await expect(notifier.sendMessage('Report ready', 'daily')).rejects.toThrow('down');
+    await notifier.sendMessage('Report ready', 'daily');
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(2);
+    expect(inner.sendMessage).toHaveBeenLastCalledWith('Report ready', 'daily', undefined);
+  });
+
+  it('sends anyway when the suppression state cannot be read', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const inner = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const store = {
+      claim: jest.fn().mockRejectedValue(new Error('throttled')),
+      release: jest.fn(),
+      listPending: jest.fn(),
+      claimPending: jest.fn(),
+    };
+    const notifier = new SuppressingNotifier(inner, 'report', store, 3600);
+
+    await notifier.sendMessage('Report ready');
+
+    expect(inner.sendMessage).toHaveBeenCalledWith('Report ready');
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error reading alert suppression state; sending alert',
+      expect.any(String)
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe('reportPendingRepeats', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('reports a burst no later alert reported, once its window has closed', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+    const inner = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const notifier = new SuppressingNotifier(inner, 'inventory-non-negative', store, 3600);
+    const channels = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const routeFor = jest.fn(() => ({ notifier: channels, windowSeconds: 3600 }));
+
+    await notifier.sendMessage('Batwing is at -1', 'item:2002@100005');
+    await notifier.sendMessage('Batwing is at -2', 'item:2002@100005');
+    await notifier.sendMessage('Batwing is at -3', 'item:2002@100005');
+    await expect(reportPendingRepeats(store, routeFor)).resolves.toEqual({
+      reported: 0,
+      failedFingerprints: [],
+    });
+
+    nowMs += 3_600_000;
+    await expect(reportPendingRepeats(store, routeFor)).resolves.toEqual({
+      reported: 1,
+      failedFingerprints: [],
+    });
+    await reportPendingRepeats(store, routeFor);
+
+    expect(routeFor).toHaveBeenCalledWith('inventory-non-negative');
+    expect(channels.sendMessage.mock.calls).toEqual([
+      ['Batwing is at -3\n(repeated 2 time(s) since 2026-03-01T12:00:00.000Z)'],
+    ]);
+
+    // The report opened a new window
+    await notifier.sendMessage('Batwing is at -4', 'item:2002@100005');
+    expect(inner.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a fingerprint alerted again after it was listed', async () => {
+    const store = {
+      claim: jest.fn(),
+      release: jest.fn(),
+      listPending: jest.fn().mockResolvedValue([
+        {
+          fingerprint: 'report#daily',
+          suppressedCount: 2,
+          lastSentAt: '2026-03-01T12:00:00.000Z',
+          lastRepeat: { alertType: 'report', text: 'Report ready' },
+        },
+      ]),
+      claimPending: jest.fn().mockResolvedValue({ send: false }),
+    };
+    const channels = { sendMessage: jest.fn() };
+
+    await expect(
+      reportPendingRepeats(store, () => ({ notifier: channels, windowSeconds: 600 }))
+    ).resolves.toEqual({ reported: 0, failedFingerprints: [] });
+    expect(store.claimPending).toHaveBeenCalledWith('report#daily', 600);
+    expect(channels.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('keeps the repeats pending when the report cannot be sent', async () => {
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+    const notifier = new SuppressingNotifier(
+      { sendMessage: jest.fn().mockResolvedValue(undefined) },
+      'report',
+      store,
+      600
+    );
+    const channels = {
+      sendMessage: jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValue(undefined),
+    };
+    const routeFor = () => ({ notifier: channels, windowSeconds: 600 });
+
+    await notifier.sendMessage('Report ready', 'daily');
+    await notifier.sendMessage('Report ready', 'daily');
+    nowMs += 600_000;
+
+    await expect(reportPendingRepeats(store, routeFor)).resolves.toEqual({
+      reported: 0,
+      failedFingerprints: ['report#daily'],
+    });
+    await expect(reportPendingRepeats(store, routeFor)).resolves.toEqual({
+      reported: 1,
+      failedFingerprints: [],
+    });
+    expect(channels.sendMessage).toHaveBeenLastCalledWith(
+      'Report ready\n(repeated 1 time(s) since 2026-03-01T12:00:00.000Z)'
+    );
+  });
+
+  it('leaves the repeats of an alert type routed nowhere', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let nowMs = Date.parse('2026-03-01T12:00:00.000Z');
+    const store = new InMemoryAlertSuppressionStore(() => nowMs);
+    await store.claim('report#daily', 600);
+    await store.claim('report#daily', 600, { alertType: 'report', text: 'Report ready' });
+    nowMs += 600_000;
+
+    await expect(
+      reportPendingRepeats(store, () => ({ notifier: undefined, windowSeconds: 600 }))
+    ).resolves.toEqual({ reported: 0, failedFingerprints: [] });
+    await expect(store.listPending()).resolves.toHaveLength(1);
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  GroupMeCallback,
+  answerChatMessage,
+  loadCommandAllowlist,
+  parseChatCommand,
+  parseGroupMeCallback,
+} from '../../src/chat-commands';
+import { ChatCommand } from '../../src/model';
+
+describe('parseGroupMeCallback', () => {
+  it('accepts GroupMe callbacks and rejects anything else', () => {
+    const callback = {
+      group_id: '1234',
+      user_id: '11',
+      name: 'Sam',
+      sender_type: 'user',
+      text: '!stock 60240',
+    };
+
+    expect(parseGroupMeCallback(JSON.stringify(callback))).toEqual({ ok: true, value: callback });
+    expect(parseGroupMeCallback('[]')).toEqual({ ok: false, error: 'callback must be a JSON object' });
+    expect(parseGroupMeCallback('{"user_id":"11"}')).toEqual({
+      ok: false,
+      error: '"name" must be a string',
+    });
+    expect(parseGroupMeCallback('{').ok).toBe(false);
+  });
+});
+
+describe('parseChatCommand', () => {
+  it('splits the command name and arguments', () => {
+    expect(parseChatCommand('  !Stale used   90 ')).toEqual({ name: 'stale', args: ['used', '90'] });
+    expect(parseChatCommand('!help')).toEqual({ name: 'help', args: [] });
+    expect(parseChatCommand('is !stock working?')).toBeUndefined();
+    expect(parseChatCommand('!!!')).toBeUndefined();
+  });
+});
+
+describe('loadCommandAllowlist', () => {
+  it('reads comma-separated user ids', () => {
+    expect(loadCommandAllowlist({ GROUPME_COMMAND_USER_IDS: '11, 22,,' })).toEqual(
+      new Set(['11', '22'])
+    );
+    expect(loadCommandAllowlist({})).toEqual(new Set());
+  });
+});
+
+describe('answerChatMessage', () => {
+  const stock: ChatCommand = {
+    name: 'stock',
+    usage: '!stock <set number or item id>',
+    description: 'quantity on hand per location',
+    run: jest.fn().mockResolvedValue('60240-1 Kayak Adventure: 3 on hand'),
+  };
+  const allowed = new Set(['11']);
+  const message = (text: string, overrides: Partial<GroupMeCallback> = {}): GroupMeCallback => ({
+    user_id: '11',
+    name: 'Sam',
+    sender_type: 'user',
+    text,
+    ...overrides,
+  });
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('runs a command for an allowlisted user', async () => {
+    const loadCommands = jest.fn().mockResolvedValue([stock]);
+
+    await expect(answerChatMessage(message('!stock 60240'), loadCommands, allowed)).resolves.toBe(
+      '60240-1 Kayak Adventure: 3 on hand'
+    );
+    expect(stock.run).toHaveBeenCalledWith(['60240']);
+  });
+
+  it('ignores chat, bot posts and other users without loading the commands', async () => {
+    const loadCommands = jest.fn().mockResolvedValue([stock]);
+
+    await expect(answerChatMessage(message('see you at 5'), loadCommands, allowed)).resolves.toBeUndefined();
+    await expect(
+      answerChatMessage(message('!stock 1', { sender_type: 'bot' }), loadCommands, allowed)
+    ).resolves.toBeUndefined();
+    await expect(
+      answerChatMessage(message('!stock 1', { user_id: '99', name: 'Alex' }), loadCommands, allowed)
+    ).resolves.toBe('Sorry Alex, you are not allowed to run commands.');
+    expect(loadCommands).not.toHaveBeenCalled();
+  });
+
+  it('lists the commands, points unknown ones at !help and reports failures', async () => {
+    const failing: ChatCommand = {
+      ...stock,
+      name: 'ticket',
+      usage: '!ticket <ticket id>',
+      description: 'ticket summary',
+      run: jest.fn().mockRejectedValue(new Error('HTTP 500 from Heartland API')),
+    };
+    const loadCommands = jest.fn().mockResolvedValue([stock, failing]);
+
+    await expect(answerChatMessage(message('!help'), loadCommands, allowed)).resolves.toBe(
+      [
+        'Commands:',
+        '!stock <set number or item id> - quantity on hand per location',
+        '!ticket <ticket id> - ticket summary',
+        '!help - this list',
+      ].join('\n')
+    );
+    await expect(answerChatMessage(message('!refund 5'), loadCommands, allowed)).resolves.toBe(
+      'Unknown command !refund. Try !help'
+    );
+    await expect(answerChatMessage(message('!ticket 5'), loadCommands, allowed)).resolves.toBe(
+      'Sorry, !ticket failed: Error: HTTP 500 from Heartland API'
+    );
+    await expect(
+      answerChatMessage(message('!ticket 5'), () => Promise.reject(new Error('no token')), allowed)
+    ).resolves.toBe('Sorry, commands are unavailable right now.');
+  });
+});
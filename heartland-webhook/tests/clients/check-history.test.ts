@@ -0,0 +1,53 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDbCheckHistoryStore,
+  InMemoryCheckHistoryStore,
+} from '../../src/check-history';
+
+const record = {
+  transactionId: 117060,
+  status: 'completed' as const,
+  evaluatedAt: '2026-03-01T12:00:00.000Z',
+  check: false,
+  checks: [{ name: 'price-adjusted-item', executed: true, passed: false, reason: 'adjusted' }],
+};
+
+describe('InMemoryCheckHistoryStore', () => {
+  it('keeps the latest record per transaction', async () => {
+    const store = new InMemoryCheckHistoryStore();
+
+    await store.put(record);
+    await store.put({ ...record, status: 'voided' });
+
+    await expect(store.get(117060)).resolves.toMatchObject({ status: 'voided' });
+    await expect(store.get(1)).resolves.toBeUndefined();
+  });
+});
+
+describe('DynamoDbCheckHistoryStore', () => {
+  it('keys records by transaction id with a TTL', async () => {
+    const send = jest.fn().mockResolvedValueOnce({}).mockResolvedValueOnce({ Item: { record } });
+    const store = new DynamoDbCheckHistoryStore(
+      'CheckHistory',
+      { send } as unknown as DynamoDBDocumentClient,
+      3600
+    );
+
+    await store.put(record);
+    await expect(store.get(117060)).resolves.toEqual(record);
+
+    expect(send.mock.calls[0][0].input).toEqual({
+      TableName: 'CheckHistory',
+      Item: {
+        transactionId: 117060,
+        record,
+        expiresAt: Date.parse('2026-03-01T12:00:00.000Z') / 1000 + 3600,
+      },
+    });
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'CheckHistory',
+      Key: { transactionId: 117060 },
+      ConsistentRead: true,
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
 import * as https from 'https';
 import { Readable } from 'stream';
@@ -436,6 +437,68 @@ describe('clients', () => {
     );
   });
 
+  it('DefaultHeartlandApiClient builds customer URL and forwards the abort signal', async () => {
+    const { res, emitBody } = makeMockResponse(200, JSON.stringify({ id: 42 }));
+    mockedHttps.get.mockImplementation(
+      (
+        _url: string,
+        _options: Record<string, unknown>,
+        callback: (res: EventEmitter) => void
+      ) => {
+        callback(res);
+        process.nextTick(emitBody);
+        return { on: jest.fn() } as unknown;
+      }
+    );
+
+    const client = new DefaultHeartlandApiClient(
+      'https://heartland.example',
+      'token-abc'
+    );
+    const controller = new AbortController();
+
+    await expect(client.getCustomer(42, controller.signal)).resolves.toEqual({ id: 42 });
+
+    expect(mockedHttps.get.mock.calls[0][0]).toBe(
+      'https://heartland.example/api/customers/42'
+    );
+    expect(mockedHttps.get.mock.calls[0][1]).toMatchObject({
+      signal: controller.signal,
+    });
+  });
+
+  it('DefaultHeartlandApiClient builds the customer tickets URL', async () => {
+    const { res, emitBody } = makeMockResponse(
+      200,
+      JSON.stringify({ total: 0, pages: 1, results: [] })
+    );
+    mockedHttps.get.mockImplementation(
+      (
+        _url: string,
+        _options: Record<string, unknown>,
+        callback: (res: EventEmitter) => void
+      ) => {
+        callback(res);
+        process.nextTick(emitBody);
+        return { on: jest.fn() } as unknown;
+      }
+    );
+
+    const client = new DefaultHeartlandApiClient(
+      'https://heartland.example',
+      'token-abc'
+    );
+
+    await client.listCustomerTickets(42, '2026-01-01T00:00:00.000Z');
+
+    expect(mockedHttps.get.mock.calls[0][0]).toBe(
+      'https://heartland.example/api/sales/tickets' +
+        '?_filter[customer_id]=42&_filter[status]=complete' +
+        '&_filter[completed_at][$gte]=2026-01-01T00%3A00%3A00.000Z' +
+        '&sort[]=completed_at,desc&per_page=100'
+    );
+  });
+
   it('DefaultHeartlandApiClient builds inventory values URL', async () => {
     const { res, emitBody } = makeMockResponse(
       200,
@@ -466,6 +529,32 @@ describe('clients', () => {
     );
   });
 
+  it('DefaultHeartlandApiClient filters items by public id', async () => {
+    const { res, emitBody } = makeMockResponse(
+      200,
+      JSON.stringify({ total: 0, pages: 1, results: [] })
+    );
+    mockedHttps.get.mockImplementation(
+      (
+        _url: string,
+        _options: Record<string, unknown>,
+        callback: (res: EventEmitter) => void
+      ) => {
+        callback(res);
+        process.nextTick(emitBody);
+        return { on: jest.fn() } as unknown;
+      }
+    );
+
+    const client = new DefaultHeartlandApiClient('https://heartland.example', 'token-abc');
+
+    await client.findItemsByPublicId('75192-1');
+
+    expect(mockedHttps.get.mock.calls[0][0]).toBe(
+      'https://heartland.example/api/items?_filter[public_id]=75192-1&per_page=10'
+    );
+  });
+
   it('DefaultHeartlandApiClient runReport builds reporting URL with query params', async () => {
     const { res, emitBody } = makeMockResponse(
       200,
@@ -601,6 +690,195 @@ describe('clients', () => {
     );
   });
 
+  describe('DefaultGroupMeClient delivery', () => {
+    type Reply = { statusCode: number; body: string | Buffer; headers?: Record<string, string> };
+
+    // Answers each https.request with the next reply and records what was sent
+    function replyInOrder(replies: Reply[]): { url: string; body: Buffer }[] {
+      const sent: { url: string; body: Buffer }[] = [];
+      mockedHttps.request.mockImplementation(
+        (url: string, _options: unknown, callback: (res: EventEmitter) => void) => {
+          const reply = replies.shift() ?? { statusCode: 202, body: '' };
+          const res = Object.assign(new EventEmitter(), {
+            statusCode: reply.statusCode,
+            headers: reply.headers ?? {},
+          });
+          const chunks: Buffer[] = [];
+          return {
+            on: jest.fn(),
+            write: (payload: string | Buffer) => chunks.push(Buffer.from(payload)),
+            end: () => {
+              sent.push({ url, body: Buffer.concat(chunks) });
+              callback(res);
+              process.nextTick(() => {
+                res.emit('data', reply.body);
+                res.emit('end');
+              });
+            },
+          } as unknown;
+        }
+      );
+      return sent;
+    }
+
+    const posted = (sent: { url: string; body: Buffer }[]) =>
+      sent
+        .filter((request) => request.url === 'https://api.groupme.com/v3/bots/post')
+        .map((request) => JSON.parse(request.body.toString()));
+
+    it('splits long text at line breaks into numbered messages', async () => {
+      const sent = replyInOrder([]);
+      const lines = Array.from({ length: 40 }, (_, i) => `${i}: ${'x'.repeat(60)}`);
+
+      await new DefaultGroupMeClient('bot-123').sendMessage(lines.join('\n'));
+
+      const texts = posted(sent).map((payload) => payload.text as string);
+      expect(texts).toHaveLength(3);
+      expect(texts.every((text) => text.length <= 1000)).toBe(true);
+      expect(texts[0].startsWith('(1/3) 0: ')).toBe(true);
+      expect(texts[2].startsWith('(3/3) ')).toBe(true);
+      expect(texts.map((text) => text.replace(/^\(\d\/3\) /, '')).join('\n')).toBe(
+        lines.join('\n')
+      );
+    });
+
+    it('logs a failed later part instead of throwing once the first part is posted', async () => {
+      const sent = replyInOrder([
+        { statusCode: 202, body: '' },
+        { statusCode: 400, body: 'bad part' },
+        { statusCode: 202, body: '' },
+      ]);
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const lines = Array.from({ length: 40 }, (_, i) => `${i}: ${'x'.repeat(60)}`);
+
+      await new DefaultGroupMeClient('bot-123').sendMessage(lines.join('\n'));
+
+      expect(posted(sent)).toHaveLength(3);
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Error posting part of a GroupMe message; not retrying the message',
+        expect.stringContaining('bad part')
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('throws when the first part fails, so nothing was delivered', async () => {
+      const sent = replyInOrder([{ statusCode: 400, body: 'bad part' }]);
+      const lines = Array.from({ length: 40 }, (_, i) => `${i}: ${'x'.repeat(60)}`);
+
+      await expect(
+        new DefaultGroupMeClient('bot-123').sendMessage(lines.join('\n'))
+      ).rejects.toThrow('GroupMe HTTP 400: bad part');
+      expect(posted(sent)).toHaveLength(1);
+    });
+
+    it('retries 429 and 5xx responses, honouring Retry-After', async () => {
+      const sent = replyInOrder([
+        { statusCode: 429, body: 'slow down', headers: { 'retry-after': '2' } },
+        { statusCode: 502, body: 'bad gateway' },
+        { statusCode: 202, body: '' },
+      ]);
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await new DefaultGroupMeClient('bot-123', { sleep }).sendMessage('Hello team');
+
+      expect(sent).toHaveLength(3);
+      expect(sleep.mock.calls).toEqual([[2000], [2000]]);
+      warnSpy.mockRestore();
+    });
+
+    it('gives up after the last attempt', async () => {
+      replyInOrder([
+        { statusCode: 503, body: 'down' },
+        { statusCode: 503, body: 'still down' },
+      ]);
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        new DefaultGroupMeClient('bot-123', {
+          maxAttempts: 2,
+          sleep: () => Promise.resolve(),
+        }).sendMessage('Hello team')
+      ).rejects.toThrow('GroupMe HTTP 503: still down');
+      warnSpy.mockRestore();
+    });
+
+    it('mentions channel and message mentions, adding the missing ones to the text', async () => {
+      const sent = replyInOrder([]);
+
+      await new DefaultGroupMeClient('bot-123', {
+        mentions: [{ userId: '11', nickname: 'Sam' }],
+      }).sendMessage('Batwing is at -1, @Alex please count', undefined, {
+        mentions: [
+          { userId: '22', nickname: 'Alex' },
+          { userId: '11', nickname: 'Sam' },
+        ],
+      });
+
+      expect(posted(sent)).toEqual([
+        {
+          bot_id: 'bot-123',
+          text: '@Sam Batwing is at -1, @Alex please count',
+          attachments: [{ type: 'mentions', user_ids: ['11', '22'], loci: [[0, 4], [23, 5]] }],
+        },
+      ]);
+    });
+
+    it('uploads the image to the GroupMe image service and attaches it', async () => {
+      const sent = replyInOrder([
+        { statusCode: 200, body: Buffer.from('jpeg-bytes'), headers: { 'content-type': 'image/png' } },
+        {
+          statusCode: 200,
+          body: JSON.stringify({ payload: { url: 'https://i.groupme.com/1.png' } }),
+        },
+      ]);
+
+      await new DefaultGroupMeClient('bot-123', { accessToken: 'token-1' }).sendMessage(
+        'Cannot set image for 1',
+        undefined,
+        { imageUrl: 'https://img.example/1.png' }
+      );
+
+      expect(sent.map((request) => request.url)).toEqual([
+        'https://img.example/1.png',
+        'https://image.groupme.com/pictures',
+        'https://api.groupme.com/v3/bots/post',
+      ]);
+      expect(mockedHttps.request.mock.calls[1][1]).toMatchObject({
+        method: 'POST',
+        headers: { 'X-Access-Token': 'token-1', 'Content-Type': 'image/png' },
+      });
+      expect(sent[1].body.toString()).toBe('jpeg-bytes');
+      expect(posted(sent)).toEqual([
+        {
+          bot_id: 'bot-123',
+          text: 'Cannot set image for 1',
+          attachments: [{ type: 'image', url: 'https://i.groupme.com/1.png' }],
+        },
+      ]);
+    });
+
+    it('links the image when it cannot be uploaded', async () => {
+      const sent = replyInOrder([{ statusCode: 404, body: 'not found' }]);
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await new DefaultGroupMeClient('bot-123', { accessToken: 'token-1' }).sendMessage(
+        'Cannot set image for 1',
+        undefined,
+        { imageUrl: 'https://img.example/1.png' }
+      );
+      await new DefaultGroupMeClient('bot-123').sendMessage('Cannot set image for 2', undefined, {
+        imageUrl: 'https://img.example/2.png',
+      });
+
+      expect(posted(sent)).toEqual([
+        { bot_id: 'bot-123', text: 'Cannot set image for 1\nImage: https://img.example/1.png' },
+        { bot_id: 'bot-123', text: 'Cannot set image for 2\nImage: https://img.example/2.png' },
+      ]);
+      errorSpy.mockRestore();
+    });
+  });
+
   it('DefaultHeartlandApiClient updateInventoryItemImage posts image payload', async () => {
     const { res, emitBody } = makeMockResponse(
       200,
@@ -704,6 +982,57 @@ describe('clients', () => {
     expect(options.headers?.Authorization).toContain('oauth_signature=');
   });
 
+  it('DefaultBrickLinkClient getPriceGuide signs the query parameters', async () => {
+    const guide = { new_or_used: 'N', currency_code: 'USD', avg_price: '780.5', unit_quantity: 12 };
+    const { res, emitBody } = makeMockResponse(
+      200,
+      JSON.stringify({ meta: { code: 200 }, data: guide })
+    );
+    mockedHttps.get.mockImplementation(
+      (
+        _url: string,
+        _options: Record<string, unknown>,
+        callback: (res: EventEmitter) => void
+      ) => {
+        callback(res);
+        process.nextTick(emitBody);
+        return { on: jest.fn() } as unknown;
+      }
+    );
+
+    const client = new DefaultBrickLinkClient('ck-123', 'cs-456', 'tv-789', 'ts-abc');
+
+    await expect(
+      client.getPriceGuide('SET', '75192-1', { guideType: 'sold', newOrUsed: 'N' })
+    ).resolves.toEqual(guide);
+    expect(mockedHttps.get.mock.calls[0][0]).toBe(
+      'https://api.bricklink.com/api/store/v1/items/SET/75192-1/price?guide_type=sold&new_or_used=N'
+    );
+
+    const header = (mockedHttps.get.mock.calls[0][1] as { headers: Record<string, string> })
+      .headers.Authorization;
+    const oauth = Object.fromEntries(
+      [...header.matchAll(/(\w+)="([^"]*)"/g)].map(([, key, value]) => [
+        key,
+        decodeURIComponent(value),
+      ])
+    );
+    const { oauth_signature: signature, ...signed } = oauth;
+    const params = { ...signed, guide_type: 'sold', new_or_used: 'N' } as Record<string, string>;
+    const paramString = Object.keys(params)
+      .sort()
+      .map((key) => `${key}=${encodeURIComponent(params[key])}`)
+      .join('&');
+    const baseString = [
+      'GET',
+      encodeURIComponent('https://api.bricklink.com/api/store/v1/items/SET/75192-1/price'),
+      encodeURIComponent(paramString),
+    ].join('&');
+    expect(signature).toBe(
+      crypto.createHmac('sha1', 'cs-456&ts-abc').update(baseString).digest('base64')
+    );
+    expect(header).not.toContain('guide_type');
+  });
   it('DefaultBrickLinkClient getItem rejects when meta.code is not 200', async () => {
     const body = JSON.stringify({
       meta: { code: 401, message: 'Unauthorized' },
@@ -1068,6 +1397,37 @@ describe('clients', () => {
     expect(result).toEqual({ id: 99, status: 'accepted' });
   });
 
+  it('DefaultHeartlandApiClient updateTicket PUTs the ticket updates', async () => {
+    const { res, emitBody } = makeMockResponse(
+      200,
+      JSON.stringify({ id: 117060, custom: { price_audit: 'adjusted' } })
+    );
+    let writtenPayload = '';
+    mockedHttps.request.mockImplementation(
+      (
+        _url: string,
+        _options: Record<string, unknown>,
+        callback: (res: EventEmitter) => void
+      ) => {
+        callback(res);
+        return {
+          on: jest.fn(),
+          write: (payload: string) => { writtenPayload += payload; },
+          end: () => { process.nextTick(emitBody); },
+        } as unknown;
+      }
+    );
+
+    const client = new DefaultHeartlandApiClient('https://heartland.example', 'token-abc');
+    await client.updateTicket(117060, { custom: { price_audit: 'adjusted' } });
+
+    expect(mockedHttps.request.mock.calls[0][0]).toBe(
+      'https://heartland.example/api/sales/tickets/117060'
+    );
+    expect(mockedHttps.request.mock.calls[0][1]).toMatchObject({ method: 'PUT' });
+    expect(JSON.parse(writtenPayload)).toEqual({ custom: { price_audit: 'adjusted' } });
+  });
+
   it('DefaultHeartlandApiClient listPurchaseOrders builds correct URL with status and page', async () => {
     const { res, emitBody } = makeMockResponse(
       200,
@@ -0,0 +1,175 @@
+import {
+  DiscountPolicy,
+  evaluateDiscountPolicy,
+  policyNeeds,
+  validateDiscountPolicy,
+} from '../../src/discount-policy';
+import { TicketLine } from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+
+describe('discount policy', () => {
+  const tx: HeartlandTransaction = {
+    id: 117060,
+    type: 'Ticket',
+    total: 90,
+    original_subtotal: 100,
+    total_discounts: 10,
+    sales_rep: 'Sam',
+    // A Saturday
+    local_completed_at: '2025-06-14T11:00:00-05:00',
+  };
+
+  const line = (overrides: Partial<TicketLine>): TicketLine => ({
+    id: 1,
+    type: 'ItemLine',
+    item_id: 2001,
+    qty: 1,
+    original_unit_price: 100,
+    unit_price: 100,
+    ...overrides,
+  });
+
+  it('uses the default 5% ticket and 25% line thresholds', () => {
+    const evaluation = evaluateDiscountPolicy({}, { tx, lines: [line({ unit_price: 90 })] });
+
+    expect(evaluation.ticket).toEqual({
+      originalSubtotal: 100,
+      discount: 10,
+      discountPercent: 10,
+      thresholdPercent: 5,
+      rule: undefined,
+    });
+    expect(evaluation.ticketViolated).toBe(true);
+    expect(evaluation.lineViolations).toEqual([]);
+    expect(evaluation.offendingDiscount).toBe(10);
+  });
+
+  it('derives line discounts from adjusted prices, price adjustments and unit prices', () => {
+    const evaluation = evaluateDiscountPolicy(
+      { lineThresholdPercent: 10 },
+      {
+        tx: { ...tx, original_subtotal: undefined, total_discounts: undefined },
+        lines: [
+          line({ id: 1, item_id: 1, adjusted_unit_price: 80 }),
+          line({ id: 2, item_id: 2, price_adjustments: [{ delta_price: -15 }], unit_price: 85 }),
+          line({ id: 3, item_id: 3, qty: 2, unit_price: 50 }),
+          line({ id: 4, item_id: 4, unit_price: 95 }),
+        ],
+      }
+    );
+
+    expect(evaluation.lineViolations.map((v) => [v.itemId, v.discount, v.discountPercent])).toEqual([
+      [1, 20, 20],
+      [2, 15, 15],
+      [3, 100, 50],
+    ]);
+    // Ticket totals are summed from the lines when the payload has none
+    expect(evaluation.ticket).toMatchObject({ originalSubtotal: 500, discount: 140 });
+  });
+
+  it('picks the first matching rule by sales rep, day of week and date window', () => {
+    const policy: DiscountPolicy = {
+      rules: [
+        { name: 'weekday-promo', match: { daysOfWeek: ['mon', 'tue'] }, thresholdPercent: 50 },
+        { name: 'june-sale', match: { from: '2025-06-01', to: '2025-06-14' }, thresholdPercent: 15 },
+        { name: 'sam', match: { salesReps: ['sam'] }, thresholdPercent: 1 },
+      ],
+    };
+
+    expect(evaluateDiscountPolicy(policy, { tx }).ticket).toMatchObject({
+      rule: 'june-sale',
+      thresholdPercent: 15,
+    });
+    expect(
+      evaluateDiscountPolicy(policy, {
+        tx: { ...tx, local_completed_at: '2025-06-15T11:00:00-05:00' },
+      }).ticket
+    ).toMatchObject({ rule: 'sam', thresholdPercent: 1 });
+    expect(
+      evaluateDiscountPolicy(policy, {
+        tx: { ...tx, local_completed_at: '2025-06-16T11:00:00-05:00' },
+      }).ticket
+    ).toMatchObject({ rule: 'weekday-promo', thresholdPercent: 50 });
+  });
+
+  it('exempts the whole ticket for an exempt customer group', () => {
+    const evaluation = evaluateDiscountPolicy(
+      { rules: [{ name: 'staff', match: { customerGroups: ['Employee'] }, exempt: true }] },
+      { tx: { ...tx, total_discounts: 50 }, customerGroup: 'employee' }
+    );
+
+    expect(evaluation).toMatchObject({
+      exemptRule: 'staff',
+      ticketViolated: false,
+      lineViolations: [],
+    });
+  });
+
+  it('judges department rule lines on their own and leaves them out of the ticket total', () => {
+    const evaluation = evaluateDiscountPolicy(
+      {
+        rules: [
+          { name: 'clearance', match: { departments: ['Clearance'] }, lineThresholdPercent: 60 },
+          { name: 'gift-cards', match: { departments: ['Gift Cards'] }, exempt: true },
+        ],
+      },
+      {
+        tx: { ...tx, original_subtotal: 300, total_discounts: 122 },
+        lines: [
+          line({ id: 1, item_id: 1, unit_price: 50 }),
+          line({ id: 2, item_id: 2, unit_price: 30 }),
+          line({ id: 3, item_id: 3, unit_price: 98 }),
+        ],
+        departmentsByItemId: new Map([
+          [1, 'clearance'],
+          [2, 'Gift Cards'],
+          [3, 'Sets'],
+        ]),
+      }
+    );
+
+    expect(evaluation.lineViolations).toEqual([]);
+    expect(evaluation.ticket).toMatchObject({ originalSubtotal: 100, discount: 2 });
+    expect(evaluation.ticketViolated).toBe(false);
+  });
+
+  it('reports which lookups the rules need', () => {
+    expect(policyNeeds({})).toEqual({ departments: false, customerGroup: false });
+    expect(
+      policyNeeds({
+        rules: [
+          { name: 'a', match: { departments: ['Sets'] } },
+          { name: 'b', match: { customerGroups: ['VIP'] } },
+        ],
+      })
+    ).toEqual({ departments: true, customerGroup: true });
+  });
+
+  it('validates policies from the strategy config', () => {
+    expect(
+      validateDiscountPolicy({
+        thresholdPercent: 10,
+        rules: [{ name: 'promo', match: { daysOfWeek: ['sat'], from: '2025-06-01' } }],
+      })
+    ).toEqual([]);
+
+    expect(
+      validateDiscountPolicy({
+        lineThresholdPercent: -1,
+        rules: [
+          { match: { daysOfWeek: ['someday'], to: 'June', region: 'north' } },
+          { name: 'x', match: { departments: 'Sets' }, exempt: 'yes' },
+        ],
+      })
+    ).toEqual([
+      '"lineThresholdPercent" must be a non-negative number',
+      'rules[0]: "name" must be a non-empty string',
+      'rules[0]: "match.daysOfWeek" must only contain sun, mon, tue, wed, thu, fri, sat',
+      'rules[0]: "match.to" must be a YYYY-MM-DD date',
+      'rules[0]: unknown match criterion "region"',
+      'rules[1]: "exempt" must be a boolean',
+      'rules[1]: "match.departments" must be an array of strings',
+    ]);
+    expect(validateDiscountPolicy([])).toEqual(['must be an object']);
+  });
+});
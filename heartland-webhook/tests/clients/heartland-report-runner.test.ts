@@ -9,6 +9,12 @@ function makeMockClient(runReportResponse: unknown): HeartlandApiClient {
     getTicketLines: jest.fn(),
     getInventoryValues: jest.fn(),
     getInventoryItem: jest.fn(),
+    findItemsByPublicId: jest.fn(),
+    getCustomer: jest.fn(),
+    listCustomerTickets: jest.fn(),
+    listReturnsOfTicket: jest.fn(),
+    getTicket: jest.fn(),
+    updateTicket: jest.fn(),
     updateInventoryItem: jest.fn(),
     updateInventoryItemImage: jest.fn(),
     runReport: jest.fn().mockResolvedValue(runReportResponse),
@@ -0,0 +1,193 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDbIdempotencyStore,
+  InMemoryIdempotencyStore,
+  buildDeliveryKey,
+  processOnce,
+} from '../../src/idempotency';
+
+describe('buildDeliveryKey', () => {
+  it('joins event type and id', () => {
+    expect(buildDeliveryKey('item_created', 109531)).toBe('item_created#109531');
+  });
+});
+
+describe('InMemoryIdempotencyStore', () => {
+  it('claims a key once and returns the completed record afterwards', async () => {
+    const store = new InMemoryIdempotencyStore();
+
+    await expect(store.claim('k')).resolves.toEqual({ claimed: true });
+    await store.complete('k', '{"status":"ok"}');
+
+    const second = await store.claim('k');
+    expect(second).toMatchObject({
+      claimed: false,
+      record: { status: 'completed', responseBody: '{"status":"ok"}' },
+    });
+  });
+
+  it('lets a stale in-progress claim be taken over', async () => {
+    let now = 0;
+    const store = new InMemoryIdempotencyStore(120, () => now);
+
+    await store.claim('k');
+    now = 60_000;
+    await expect(store.claim('k')).resolves.toMatchObject({
+      claimed: false,
+      record: { status: 'in_progress' },
+    });
+
+    now = 121_000;
+    await expect(store.claim('k')).resolves.toEqual({ claimed: true });
+  });
+
+  it('releases a claim so it can be retried', async () => {
+    const store = new InMemoryIdempotencyStore();
+
+    await store.claim('k');
+    await store.release('k');
+
+    await expect(store.claim('k')).resolves.toEqual({ claimed: true });
+  });
+});
+
+describe('DynamoDbIdempotencyStore', () => {
+  function makeStore(send: jest.Mock) {
+    return new DynamoDbIdempotencyStore(
+      'DeliveryLedger',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+  }
+
+  it('claims with a conditional put', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const store = makeStore(send);
+
+    await expect(store.claim('k')).resolves.toEqual({ claimed: true });
+
+    const put = send.mock.calls[0][0];
+    expect(put.input).toMatchObject({
+      TableName: 'DeliveryLedger',
+      Item: { deliveryKey: 'k', status: 'in_progress' },
+    });
+    expect(put.input.ConditionExpression).toContain('attribute_not_exists(deliveryKey)');
+  });
+
+  it('reads the existing record when the condition fails', async () => {
+    const conditionalError = Object.assign(new Error('exists'), {
+      name: 'ConditionalCheckFailedException',
+    });
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(conditionalError)
+      .mockResolvedValueOnce({
+        Item: {
+          deliveryKey: 'k',
+          status: 'completed',
+          responseBody: '{"status":"ok"}',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      });
+    const store = makeStore(send);
+
+    await expect(store.claim('k')).resolves.toEqual({
+      claimed: false,
+      record: {
+        deliveryKey: 'k',
+        status: 'completed',
+        responseBody: '{"status":"ok"}',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      },
+    });
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      Key: { deliveryKey: 'k' },
+      ConsistentRead: true,
+    });
+  });
+
+  it('rethrows unexpected DynamoDB errors', async () => {
+    const send = jest.fn().mockRejectedValue(new Error('throttled'));
+    const store = makeStore(send);
+
+    await expect(store.claim('k')).rejects.toThrow('throttled');
+  });
+
+  it('stores the response body on complete and deletes on release', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const store = makeStore(send);
+
+    await store.complete('k', '{"status":"ok"}');
+    await store.release('k');
+
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      Key: { deliveryKey: 'k' },
+      ExpressionAttributeValues: expect.objectContaining({
+        ':completed': 'completed',
+        ':responseBody': '{"status":"ok"}',
+      }),
+    });
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'DeliveryLedger',
+      Key: { deliveryKey: 'k' },
+    });
+  });
+});
+
+describe('processOnce', () => {
+  it('runs work once and returns the cached body for duplicates', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const store = new InMemoryIdempotencyStore();
+    const work = jest.fn().mockResolvedValue('{"n":1}');
+
+    await expect(processOnce(store, 'k', work)).resolves.toEqual({
+      kind: 'processed',
+      responseBody: '{"n":1}',
+    });
+    await expect(processOnce(store, 'k', work)).resolves.toEqual({
+      kind: 'duplicate',
+      responseBody: '{"n":1}',
+    });
+    expect(work).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+  });
+
+  it('reports in-progress deliveries without running work', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new InMemoryIdempotencyStore();
+    await store.claim('k');
+    const work = jest.fn();
+
+    await expect(processOnce(store, 'k', work)).resolves.toEqual({
+      kind: 'in_progress',
+    });
+    expect(work).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  it('releases the claim when work throws', async () => {
+    const store = new InMemoryIdempotencyStore();
+
+    await expect(
+      processOnce(store, 'k', () => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+    await expect(store.claim('k')).resolves.toEqual({ claimed: true });
+  });
+
+  it('processes without deduplication when the ledger is unavailable', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = {
+      claim: jest.fn().mockRejectedValue(new Error('down')),
+      complete: jest.fn().mockRejectedValue(new Error('down')),
+      release: jest.fn(),
+    };
+
+    await expect(
+      processOnce(store, 'k', () => Promise.resolve('{}'))
+    ).resolves.toEqual({ kind: 'processed', responseBody: '{}' });
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,281 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDbInventoryExclusionStore,
+  InMemoryInventoryExclusionStore,
+  InventoryExclusion,
+  LEGACY_EXCLUDED_ITEM_IDS,
+  exclusionMatches,
+  isExclusionActive,
+  parseNewExclusion,
+  seedLegacyExclusions,
+} from '../../src/inventory-exclusions';
+
+describe('parseNewExclusion', () => {
+  const now = Date.parse('2026-01-01T00:00:00.000Z');
+
+  it('parses item, custom field and tag exclusions', () => {
+    expect(parseNewExclusion({ itemId: 101996, reason: 'gift card' }, now)).toEqual({
+      ok: true,
+      value: { rule: { kind: 'item', itemId: 101996 }, reason: 'gift card' },
+    });
+    expect(parseNewExclusion({ field: 'track_inventory', value: false }, now)).toEqual({
+      ok: true,
+      value: { rule: { kind: 'custom-field', field: 'track_inventory', value: 'false' } },
+    });
+    expect(
+      parseNewExclusion({ tag: ' consignment ', expiresAt: '2026-02-01' }, now)
+    ).toEqual({
+      ok: true,
+      value: {
+        rule: { kind: 'tag', tag: 'consignment' },
+        expiresAt: '2026-02-01T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('rejects ambiguous, malformed and already expired exclusions', () => {
+    expect(parseNewExclusion([], now)).toEqual({
+      ok: false,
+      error: 'request body must be a JSON object',
+    });
+    expect(parseNewExclusion({ itemId: 1, tag: 'x' }, now)).toMatchObject({ ok: false });
+    expect(parseNewExclusion({}, now)).toMatchObject({ ok: false });
+    expect(parseNewExclusion({ itemId: '1' }, now)).toEqual({
+      ok: false,
+      error: '"itemId" must be an integer',
+    });
+    expect(parseNewExclusion({ field: 'department' }, now)).toEqual({
+      ok: false,
+      error: '"value" must be a string, number or boolean',
+    });
+    expect(parseNewExclusion({ tag: 'x', expiresAt: 'soon' }, now)).toEqual({
+      ok: false,
+      error: '"expiresAt" must be an ISO-8601 date',
+    });
+    expect(parseNewExclusion({ tag: 'x', expiresAt: '2025-12-31' }, now)).toEqual({
+      ok: false,
+      error: '"expiresAt" must be in the future',
+    });
+  });
+});
+
+describe('exclusionMatches', () => {
+  const item = {
+    id: 2001,
+    track_inventory: false,
+    custom: { department: 'Gift Cards', tags: 'add, Consignment, Sets' },
+  };
+
+  it('matches item ids without loading the item', () => {
+    expect(exclusionMatches({ kind: 'item', itemId: 2001 }, 2001)).toBe(true);
+    expect(exclusionMatches({ kind: 'item', itemId: 2001 }, 2002)).toBe(false);
+  });
+
+  it('matches custom fields, top-level fields and tags case-insensitively', () => {
+    expect(
+      exclusionMatches({ kind: 'custom-field', field: 'department', value: 'gift cards' }, 2001, item)
+    ).toBe(true);
+    expect(
+      exclusionMatches({ kind: 'custom-field', field: 'track_inventory', value: 'false' }, 2001, item)
+    ).toBe(true);
+    expect(
+      exclusionMatches(
+        { kind: 'custom-field', field: 'track_inventory', value: 'false' },
+        2001,
+        { id: 2001, 'track_inventory?': false }
+      )
+    ).toBe(true);
+    expect(exclusionMatches({ kind: 'tag', tag: 'consignment' }, 2001, item)).toBe(true);
+    expect(exclusionMatches({ kind: 'tag', tag: 'sign' }, 2001, item)).toBe(false);
+    expect(exclusionMatches({ kind: 'tag', tag: 'consignment' }, 2001)).toBe(false);
+  });
+});
+
+describe('isExclusionActive', () => {
+  const exclusion: InventoryExclusion = {
+    id: 'x',
+    rule: { kind: 'item', itemId: 1 },
+    createdBy: 'arn:aws:iam::1:user/pat',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('treats exclusions without an expiry as permanent', () => {
+    expect(isExclusionActive(exclusion, Date.parse('2030-01-01'))).toBe(true);
+  });
+
+  it('stops applying after expiresAt', () => {
+    const expiring = { ...exclusion, expiresAt: '2026-02-01T00:00:00.000Z' };
+    expect(isExclusionActive(expiring, Date.parse('2026-01-31'))).toBe(true);
+    expect(isExclusionActive(expiring, Date.parse('2026-02-02'))).toBe(false);
+  });
+});
+
+describe('InMemoryInventoryExclusionStore', () => {
+  it('records who added and removed each exclusion', async () => {
+    let now = Date.parse('2026-01-01T00:00:00.000Z');
+    const store = new InMemoryInventoryExclusionStore(() => now);
+
+    const added = await store.add({ rule: { kind: 'tag', tag: 'consignment' } }, 'pat');
+    now += 1000;
+    await store.remove(added.id, 'sam');
+
+    await expect(store.list()).resolves.toEqual([]);
+    await expect(store.remove(added.id, 'sam')).resolves.toBeUndefined();
+    await expect(store.listAudit()).resolves.toEqual([
+      {
+        action: 'removed',
+        exclusionId: added.id,
+        actor: 'sam',
+        at: '2026-01-01T00:00:01.000Z',
+        exclusion: added,
+      },
+      {
+        action: 'added',
+        exclusionId: added.id,
+        actor: 'pat',
+        at: '2026-01-01T00:00:00.000Z',
+        exclusion: added,
+      },
+    ]);
+  });
+});
+
+describe('seedLegacyExclusions', () => {
+  it('seeds the legacy ids once, skipping ones already excluded', async () => {
+    const now = Date.parse('2026-01-01T00:00:00.000Z');
+    const store = new InMemoryInventoryExclusionStore(() => now);
+    await store.add({ rule: { kind: 'item', itemId: 101996 } }, 'pat');
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(seedLegacyExclusions(store, now)).resolves.toBe(true);
+    const seeded = (await store.list()).filter((exclusion) => exclusion.createdBy === 'seed');
+    expect(seeded.map((exclusion) => exclusion.rule)).toEqual(
+      LEGACY_EXCLUDED_ITEM_IDS.filter((itemId) => itemId !== 101996).map((itemId) => ({
+        kind: 'item',
+        itemId,
+      }))
+    );
+
+    // A removed seeded exclusion is not added back
+    await store.remove(seeded[0].id, 'pat');
+    await expect(seedLegacyExclusions(store, now)).resolves.toBe(true);
+    await expect(store.list()).resolves.toHaveLength(LEGACY_EXCLUDED_ITEM_IDS.length - 1);
+    logSpy.mockRestore();
+  });
+
+  it('reports failure so the caller keeps excluding the legacy ids', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new InMemoryInventoryExclusionStore();
+    jest.spyOn(store, 'isSeeded').mockRejectedValue(new Error('throttled'));
+
+    await expect(seedLegacyExclusions(store)).resolves.toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error seeding legacy inventory exclusions; excluding them from config instead',
+      expect.stringContaining('throttled')
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe('DynamoDbInventoryExclusionStore', () => {
+  function makeStore(send: jest.Mock) {
+    return new DynamoDbInventoryExclusionStore(
+      'InventoryExclusions',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+  }
+
+  it('writes the exclusion and its audit entry in one transaction', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const store = makeStore(send);
+
+    const exclusion = await store.add(
+      { rule: { kind: 'item', itemId: 101996 }, reason: 'gift card' },
+      'arn:aws:iam::1:user/pat'
+    );
+
+    expect(exclusion).toMatchObject({
+      rule: { kind: 'item', itemId: 101996 },
+      reason: 'gift card',
+      createdBy: 'arn:aws:iam::1:user/pat',
+    });
+    const [put, audit] = send.mock.calls[0][0].input.TransactItems;
+    expect(put.Put).toMatchObject({
+      TableName: 'InventoryExclusions',
+      Item: { pk: 'exclusion', sk: exclusion.id, exclusion },
+    });
+    expect(audit.Put.Item).toMatchObject({
+      pk: 'audit',
+      sk: `${exclusion.createdAt}#${exclusion.id}#added`,
+      entry: { action: 'added', actor: 'arn:aws:iam::1:user/pat', exclusion },
+    });
+  });
+
+  it('writes a seed with its marker in one transaction, once', async () => {
+    const cancelled = Object.assign(new Error('cancelled'), {
+      name: 'TransactionCanceledException',
+    });
+    const send = jest.fn().mockResolvedValueOnce({}).mockRejectedValueOnce(cancelled);
+    const store = makeStore(send);
+    const inputs = [{ rule: { kind: 'item' as const, itemId: 101996 } }];
+
+    const [exclusion] = await store.seed('legacy', inputs, 'seed');
+    await expect(store.seed('legacy', inputs, 'seed')).resolves.toEqual([]);
+
+    const [marker, put, audit] = send.mock.calls[0][0].input.TransactItems;
+    expect(marker.Put).toMatchObject({
+      Item: { pk: 'seed', sk: 'legacy' },
+      ConditionExpression: 'attribute_not_exists(sk)',
+    });
+    expect(put.Put.Item).toEqual({ pk: 'exclusion', sk: exclusion.id, exclusion });
+    expect(audit.Put.Item).toMatchObject({ pk: 'audit', entry: { action: 'added', actor: 'seed' } });
+  });
+
+  it('pages through every exclusion', async () => {
+    const first = { id: 'a', rule: { kind: 'item', itemId: 1 } };
+    const second = { id: 'b', rule: { kind: 'tag', tag: 'x' } };
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({ Items: [{ exclusion: first }], LastEvaluatedKey: { sk: 'a' } })
+      .mockResolvedValueOnce({ Items: [{ exclusion: second }] });
+    const store = makeStore(send);
+
+    await expect(store.list()).resolves.toEqual([first, second]);
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      KeyConditionExpression: 'pk = :pk',
+      ExpressionAttributeValues: { ':pk': 'exclusion' },
+      ExclusiveStartKey: { sk: 'a' },
+    });
+  });
+
+  it('reads the audit trail newest first', async () => {
+    const send = jest.fn().mockResolvedValue({ Items: [] });
+    const store = makeStore(send);
+
+    await store.listAudit(10);
+
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      ExpressionAttributeValues: { ':pk': 'audit' },
+      ScanIndexForward: false,
+      Limit: 10,
+    });
+  });
+
+  it('deletes with an audit entry and reports unknown ids', async () => {
+    const exclusion = { id: 'a', rule: { kind: 'item', itemId: 1 } };
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({ Item: { exclusion } })
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce({});
+    const store = makeStore(send);
+
+    await expect(store.remove('a', 'sam')).resolves.toEqual(exclusion);
+    const [del, audit] = send.mock.calls[1][0].input.TransactItems;
+    expect(del.Delete.Key).toEqual({ pk: 'exclusion', sk: 'a' });
+    expect(audit.Put.Item.entry).toMatchObject({ action: 'removed', actor: 'sam' });
+
+    await expect(store.remove('missing', 'sam')).resolves.toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,262 @@
+import { EventEmitter } from 'events';
+import * as https from 'https';
+import {
+  FanOutNotifier,
+  SesEmailNotifier,
+  SlackWebhookNotifier,
+  SnsNotifier,
+  createChannelsNotifier,
+  createNotifier,
+  loadNotificationConfig,
+  routeChannels,
+} from '../../src/notifier';
+import { DefaultGroupMeClient } from '../../src/clients';
+import { SuppressingNotifier } from '../../src/alert-suppression';
+import { DigestNotifier } from '../../src/alert-digest';
+
+jest.mock('https');
+
+const mockSesSend = jest.fn();
+const mockSnsSend = jest.fn();
+
+jest.mock('@aws-sdk/client-ses', () => ({
+  SESClient: jest.fn(() => ({ send: mockSesSend })),
+  SendEmailCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-sns', () => ({
+  SNSClient: jest.fn(() => ({ send: mockSnsSend })),
+  PublishCommand: jest.fn((input) => input),
+}));
+
+const mockedHttps = https as unknown as { request: jest.Mock };
+
+const routes = {
+  channels: {
+    store: { type: 'groupme', botId: 'store-bot' },
+    buyers: { type: 'slack', webhookUrl: 'https://hooks.slack.test/T000/B000/xyz' },
+    owner: { type: 'email', from: 'alerts@toyhouse.test', to: ['owner@toyhouse.test'] },
+    oncall: { type: 'sns', topicArn: 'arn:aws:sns:us-east-2:445473841172:oncall' },
+  },
+  routes: {
+    'inventory-non-negative': ['store', 'oncall'],
+    'high-discount-ticket': ['owner'],
+    report: ['buyers'],
+  },
+  defaultChannels: ['store'],
+};
+
+describe('loadNotificationConfig', () => {
+  it('sends everything to GROUPME_BOT_ID when no routes are configured', () => {
+    const config = loadNotificationConfig({ GROUPME_BOT_ID: 'bot-1' });
+
+    expect(config.channels).toEqual({ groupme: { type: 'groupme', botId: 'bot-1' } });
+    expect(routeChannels('image-failure', config)).toEqual(['groupme']);
+    expect(routeChannels('inventory-non-negative', config)).toEqual(['groupme']);
+    expect(routeChannels('report', loadNotificationConfig({}))).toEqual([]);
+  });
+
+  it('routes alert types to their channels and the rest to the defaults', () => {
+    const config = loadNotificationConfig({ NOTIFICATION_ROUTES: JSON.stringify(routes) });
+
+    expect(routeChannels('inventory-non-negative', config)).toEqual(['store', 'oncall']);
+    expect(routeChannels('report', config)).toEqual(['buyers']);
+    expect(routeChannels('purchase-order-receive', config)).toEqual(['store']);
+  });
+
+  it('lists every problem in an invalid config', () => {
+    const invalid = {
+      channels: {
+        store: { type: 'groupme' },
+        chat: { type: 'teams' },
+        admins: { type: 'groupme', botId: 'admin-bot', mentions: [{ userId: '42' }] },
+        buyers: { type: 'slack', webhookUrl: 'http://hooks.slack.test' },
+      },
+      routes: { 'negative-inventory': ['store'], report: ['nowhere'] },
+      defaultChannels: 'store',
+      suppressionWindowMinutes: { report: -5 },
+      delivery: { report: 'weekly' },
+    };
+
+    expect(() =>
+      loadNotificationConfig({ NOTIFICATION_ROUTES: JSON.stringify(invalid) })
+    ).toThrow(
+      new RegExp(
+        [
+          'channel "store" needs a "botId"',
+          'channel "chat" has unknown type "teams"',
+          'channel "admins" needs "mentions" to be an array of \\{ userId, nickname \\}',
+          'channel "buyers" needs an https "webhookUrl"',
+          'unknown alert type "negative-inventory"',
+          'route "report" uses unknown channel "nowhere"',
+          '"defaultChannels" must be an array of channel names',
+          'suppression window for "report" must be a non-negative number',
+          'delivery for "report" must be one of immediate, digest, both',
+        ].join('.*')
+      )
+    );
+    expect(() => loadNotificationConfig({ NOTIFICATION_ROUTES: '{' })).toThrow(
+      'NOTIFICATION_ROUTES is not valid JSON'
+    );
+  });
+});
+
+describe('createNotifier', () => {
+  const env = {
+    NOTIFICATION_ROUTES: JSON.stringify(routes),
+    ALERT_SUPPRESSION_WINDOW_MINUTES: '0',
+  };
+
+  it('builds the channel notifier for a single-channel route', () => {
+    expect(createNotifier('high-discount-ticket', env)).toBeInstanceOf(SesEmailNotifier);
+    expect(createNotifier('report', env)).toBeInstanceOf(SlackWebhookNotifier);
+    expect(createNotifier('image-failure', env)).toBeInstanceOf(DefaultGroupMeClient);
+  });
+
+  it('fans out multi-channel routes', () => {
+    expect(createNotifier('inventory-non-negative', env)).toBeInstanceOf(FanOutNotifier);
+  });
+
+  it('returns undefined when nothing is configured', () => {
+    expect(createNotifier('report', {})).toBeUndefined();
+  });
+
+  it('buffers digest alert types, sending them immediately as well for "both"', () => {
+    const withDelivery = {
+      ...env,
+      NOTIFICATION_ROUTES: JSON.stringify({
+        ...routes,
+        delivery: { 'image-failure': 'digest', report: 'both' },
+      }),
+    };
+
+    expect(createNotifier('image-failure', withDelivery)).toBeInstanceOf(DigestNotifier);
+    expect(createNotifier('report', withDelivery)).toBeInstanceOf(FanOutNotifier);
+    expect(createChannelsNotifier('image-failure', withDelivery)).toBeInstanceOf(
+      DefaultGroupMeClient
+    );
+  });
+
+  it('suppresses repeats unless the alert type opts out', () => {
+    const withWindows = {
+      NOTIFICATION_ROUTES: JSON.stringify({ ...routes, suppressionWindowMinutes: { report: 0 } }),
+    };
+
+    expect(createNotifier('inventory-non-negative', withWindows)).toBeInstanceOf(
+      SuppressingNotifier
+    );
+    expect(createNotifier('report', withWindows)).toBeInstanceOf(SlackWebhookNotifier);
+  });
+});
+
+describe('notifiers', () => {
+  beforeEach(() => {
+    mockedHttps.request.mockReset();
+    mockSesSend.mockReset().mockResolvedValue({});
+    mockSnsSend.mockReset().mockResolvedValue({});
+  });
+
+  function respondWith(statusCode: number, body: string, written: string[]): void {
+    mockedHttps.request.mockImplementation(
+      (_url: string, _options: unknown, callback: (res: EventEmitter) => void) => {
+        const res = new EventEmitter() as EventEmitter & { statusCode?: number };
+        res.statusCode = statusCode;
+        callback(res);
+        return {
+          on: jest.fn(),
+          write: (payload: string) => written.push(payload),
+          end: () =>
+            process.nextTick(() => {
+              res.emit('data', body);
+              res.emit('end');
+            }),
+        };
+      }
+    );
+  }
+
+  it('posts text to a Slack webhook', async () => {
+    const written: string[] = [];
+    respondWith(200, 'ok', written);
+
+    await new SlackWebhookNotifier('https://hooks.slack.test/T000/B000/xyz').sendMessage('Hi');
+
+    expect(mockedHttps.request.mock.calls[0][0]).toBe('https://hooks.slack.test/T000/B000/xyz');
+    expect(mockedHttps.request.mock.calls[0][1]).toMatchObject({ method: 'POST' });
+    expect(written.map((payload) => JSON.parse(payload))).toEqual([{ text: 'Hi' }]);
+  });
+
+  it('rejects on Slack errors', async () => {
+    respondWith(404, 'no_service', []);
+
+    await expect(
+      new SlackWebhookNotifier('https://hooks.slack.test/gone').sendMessage('Hi')
+    ).rejects.toThrow('Slack HTTP 404: no_service');
+  });
+
+  it('emails through SES and publishes to SNS with the alert type as subject', async () => {
+    await createNotifier('high-discount-ticket', {
+      NOTIFICATION_ROUTES: JSON.stringify(routes),
+      ALERT_SUPPRESSION_WINDOW_MINUTES: '0',
+    })!.sendMessage('Ticket 5 discounted 60%');
+    await new SnsNotifier(
+      { send: mockSnsSend } as never,
+      'arn:aws:sns:us-east-2:445473841172:oncall',
+      'Heartland alert: inventory-non-negative'
+    ).sendMessage('Batwing is at -1');
+
+    expect(mockSesSend).toHaveBeenCalledWith({
+      Source: 'alerts@toyhouse.test',
+      Destination: { ToAddresses: ['owner@toyhouse.test'] },
+      Message: {
+        Subject: { Data: 'Heartland alert: high-discount-ticket' },
+        Body: { Text: { Data: 'Ticket 5 discounted 60%' } },
+      },
+    });
+    expect(mockSnsSend).toHaveBeenCalledWith({
+      TopicArn: 'arn:aws:sns:us-east-2:445473841172:oncall',
+      Subject: 'Heartland alert: inventory-non-negative',
+      Message: 'Batwing is at -1',
+    });
+  });
+
+  it('sends to every channel and reports the ones that failed', async () => {
+    const ok = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const down = { sendMessage: jest.fn().mockRejectedValue(new Error('timeout')) };
+
+    await expect(
+      new FanOutNotifier([
+        { name: 'oncall', notifier: down },
+        { name: 'store', notifier: ok },
+      ]).sendMessage('Batwing is at -1', 'item:2002@100005', {
+        imageUrl: 'https://img.test/2002.jpg',
+      })
+    ).rejects.toThrow('Notification failed on oncall: Error: timeout');
+    expect(ok.sendMessage).toHaveBeenCalledWith('Batwing is at -1', 'item:2002@100005', {
+      imageUrl: 'https://img.test/2002.jpg',
+    });
+  });
+
+  it('links the image on channels that cannot attach one', async () => {
+    const written: string[] = [];
+    respondWith(200, 'ok', written);
+
+    await new SlackWebhookNotifier('https://hooks.slack.test/T000/B000/xyz').sendMessage(
+      'Cannot set image for 1',
+      undefined,
+      { imageUrl: 'https://img.test/1.jpg' }
+    );
+    await new SnsNotifier(
+      { send: mockSnsSend } as never,
+      'arn:aws:sns:us-east-2:445473841172:oncall',
+      'Heartland alert: image-failure'
+    ).sendMessage('Cannot set image for 1', undefined, { imageUrl: 'https://img.test/1.jpg' });
+
+    expect(JSON.parse(written[0])).toEqual({
+      text: 'Cannot set image for 1\nImage: https://img.test/1.jpg',
+    });
+    expect(mockSnsSend).toHaveBeenCalledWith(
+      expect.objectContaining({ Message: 'Cannot set image for 1\nImage: https://img.test/1.jpg' })
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  S3PayloadArchive,
+  archivePayload,
+  buildIndexKey,
+  buildPayloadKey,
+} from '../../src/payload-archive';
+
+function makeArchive(send: jest.Mock) {
+  return new S3PayloadArchive('webhook-archive', { send } as unknown as S3Client);
+}
+
+function objectBody(text: string) {
+  return { Body: { transformToString: () => Promise.resolve(text) } };
+}
+
+describe('payload archive keys', () => {
+  it('lays payloads out by date, event type and id', () => {
+    expect(
+      buildPayloadKey('item_created', 109531, new Date('2026-03-04T23:59:59Z'))
+    ).toBe('payloads/2026-03-04/item_created/109531.json');
+    expect(buildIndexKey('sales_transaction_completed', 117060)).toBe(
+      'index/sales_transaction_completed/117060.json'
+    );
+  });
+});
+
+describe('S3PayloadArchive', () => {
+  it('stores the raw body and an index pointer', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const archive = makeArchive(send);
+    const receivedAt = new Date('2026-01-02T03:04:05Z');
+
+    await expect(
+      archive.store('sales_transaction_completed', 117060, '{"id":117060}', receivedAt)
+    ).resolves.toBe('payloads/2026-01-02/sales_transaction_completed/117060.json');
+
+    expect(send.mock.calls[0][0].input).toMatchObject({
+      Bucket: 'webhook-archive',
+      Key: 'payloads/2026-01-02/sales_transaction_completed/117060.json',
+      Body: '{"id":117060}',
+      Metadata: {
+        'event-type': 'sales_transaction_completed',
+        'received-at': '2026-01-02T03:04:05.000Z',
+      },
+    });
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      Key: 'index/sales_transaction_completed/117060.json',
+      Body: JSON.stringify({
+        key: 'payloads/2026-01-02/sales_transaction_completed/117060.json',
+        receivedAt: '2026-01-02T03:04:05.000Z',
+      }),
+    });
+  });
+
+  it('follows the index pointer to fetch a payload by id', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(
+        objectBody(
+          JSON.stringify({
+            key: 'payloads/2026-01-02/item_created/5.json',
+            receivedAt: '2026-01-02T03:04:05.000Z',
+          })
+        )
+      )
+      .mockResolvedValueOnce(objectBody('{"id":5}'));
+    const archive = makeArchive(send);
+
+    await expect(archive.fetch('item_created', 5)).resolves.toEqual({
+      id: '5',
+      eventType: 'item_created',
+      body: '{"id":5}',
+      receivedAt: '2026-01-02T03:04:05.000Z',
+      key: 'payloads/2026-01-02/item_created/5.json',
+    });
+    expect(send.mock.calls[1][0].input).toEqual({
+      Bucket: 'webhook-archive',
+      Key: 'payloads/2026-01-02/item_created/5.json',
+    });
+  });
+
+  it('returns undefined for ids that were never archived or have expired', async () => {
+    const noSuchKey = Object.assign(new Error('missing'), { name: 'NoSuchKey' });
+    const send = jest.fn().mockRejectedValue(noSuchKey);
+
+    await expect(makeArchive(send).fetch('item_created', 5)).resolves.toBeUndefined();
+  });
+
+  it('rethrows unexpected S3 errors on fetch', async () => {
+    const send = jest.fn().mockRejectedValue(new Error('AccessDenied'));
+
+    await expect(makeArchive(send).fetch('item_created', 5)).rejects.toThrow(
+      'AccessDenied'
+    );
+  });
+
+  it('lists the payloads of a date and event type, page by page', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({
+        Contents: [
+          {
+            Key: 'payloads/2026-01-02/item_created/5.json',
+            LastModified: new Date('2026-01-02T03:04:05Z'),
+          },
+        ],
+        NextContinuationToken: 'page-2',
+      })
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'payloads/2026-01-02/item_created/6.json' }],
+      });
+
+    await expect(makeArchive(send).list('2026-01-02', 'item_created')).resolves.toEqual([
+      {
+        key: 'payloads/2026-01-02/item_created/5.json',
+        lastModified: new Date('2026-01-02T03:04:05Z'),
+      },
+      { key: 'payloads/2026-01-02/item_created/6.json', lastModified: undefined },
+    ]);
+    expect(send.mock.calls.map(([command]) => command.input)).toEqual([
+      { Bucket: 'webhook-archive', Prefix: 'payloads/2026-01-02/item_created/' },
+      {
+        Bucket: 'webhook-archive',
+        Prefix: 'payloads/2026-01-02/item_created/',
+        ContinuationToken: 'page-2',
+      },
+    ]);
+  });
+
+  it('fetches a payload by key with its receipt time', async () => {
+    const send = jest.fn().mockResolvedValue({
+      ...objectBody('{"id":5}'),
+      Metadata: { 'event-type': 'item_created', 'received-at': '2026-01-02T03:04:05.000Z' },
+    });
+
+    await expect(
+      makeArchive(send).fetchKey('payloads/2026-01-02/item_created/5.json')
+    ).resolves.toEqual({
+      id: '5',
+      eventType: 'item_created',
+      body: '{"id":5}',
+      receivedAt: '2026-01-02T03:04:05.000Z',
+      key: 'payloads/2026-01-02/item_created/5.json',
+    });
+    await expect(makeArchive(send).fetchKey('index/item_created/5.json')).resolves.toBeUndefined();
+  });
+});
+
+describe('archivePayload', () => {
+  it('does nothing without an archive', async () => {
+    await expect(archivePayload(undefined, 'item_created', 1, '{}')).resolves.toBeUndefined();
+  });
+
+  it('logs and swallows archive failures', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const archive = {
+      store: jest.fn().mockRejectedValue(new Error('AccessDenied')),
+      fetch: jest.fn(),
+      list: jest.fn(),
+      fetchKey: jest.fn(),
+    };
+
+    await expect(archivePayload(archive, 'item_created', 1, '{}')).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Failed to archive webhook payload',
+      expect.stringContaining('AccessDenied')
+    );
+
+    errorSpy.mockRestore();
+  });
+});
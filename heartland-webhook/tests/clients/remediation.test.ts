@@ -0,0 +1,262 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { HeartlandApiClient, InventoryItem } from '../../src/clients';
+import {
+  DynamoDbRemediationStore,
+  InMemoryRemediationStore,
+  Remediator,
+  isRemediationDryRun,
+  remediationId,
+} from '../../src/remediation';
+
+describe('Remediator', () => {
+  const now = () => Date.parse('2026-03-01T12:00:00.000Z');
+
+  const makeMockClient = (
+    item: InventoryItem = { id: 2001 },
+    ticketCustom: Record<string, unknown> = {}
+  ): HeartlandApiClient => {
+    return {
+      getTicketLines: jest.fn(),
+      getInventoryValues: jest.fn(),
+      getInventoryItem: jest.fn().mockResolvedValue(item),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn().mockResolvedValue({ id: 117060, custom: ticketCustom }),
+      updateTicket: jest.fn().mockResolvedValue(undefined),
+      updateInventoryItem: jest.fn().mockResolvedValue(undefined),
+      updateInventoryItemImage: jest.fn(),
+      runReport: jest.fn(),
+      listPurchaseOrders: jest.fn(),
+      getPurchaseOrderLines: jest.fn(),
+      createReceipt: jest.fn(),
+      addReceiptLine: jest.fn(),
+      createReceiptFromPurchaseOrder: jest.fn(),
+      getReceiptByOrderId: jest.fn(),
+      completeReceipt: jest.fn(),
+    };
+  };
+
+  const tagAction = { kind: 'add-item-tag' as const, itemId: 2001, tag: 'Recount' };
+  const noteAction = {
+    kind: 'annotate-ticket' as const,
+    ticketId: 117060,
+    field: 'audit_note',
+    note: 'Price adjusted by 40%',
+  };
+
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('records actions without touching Heartland in dry-run mode', async () => {
+    const client = makeMockClient();
+    const store = new InMemoryRemediationStore();
+    const remediator = new Remediator(client, store, true, now);
+
+    const outcomes = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+
+    expect(outcomes).toEqual([
+      {
+        id: 'inventory-non-negative:add-item-tag:2001:recount',
+        kind: 'add-item-tag',
+        status: 'dry-run',
+      },
+    ]);
+    expect(client.getInventoryItem).not.toHaveBeenCalled();
+    expect(client.updateInventoryItem).not.toHaveBeenCalled();
+    await expect(store.listForTransaction(117060)).resolves.toEqual([
+      expect.objectContaining({ status: 'dry-run', createdAt: '2026-03-01T12:00:00.000Z' }),
+    ]);
+  });
+
+  it('adds a tag once and leaves an already tagged item unchanged', async () => {
+    const client = makeMockClient({ id: 2001, custom: { tags: 'Clearance' } });
+    const store = new InMemoryRemediationStore();
+    const remediator = new Remediator(client, store, false, now);
+
+    const outcomes = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+    expect(outcomes[0].status).toBe('applied');
+    expect(client.updateInventoryItem).toHaveBeenCalledWith(2001, {
+      custom: { tags: 'Clearance, Recount' },
+    });
+
+    // A redelivery of the same transaction does not apply it again
+    await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+    expect(client.updateInventoryItem).toHaveBeenCalledTimes(1);
+
+    const tagged = makeMockClient({ id: 2001, custom: { tags: 'recount' } });
+    const unchanged = await new Remediator(tagged, store, false, now).run(
+      117061,
+      'inventory-non-negative',
+      [tagAction]
+    );
+    expect(unchanged[0].status).toBe('unchanged');
+    expect(tagged.updateInventoryItem).not.toHaveBeenCalled();
+  });
+
+  it('annotates a ticket and restores the previous value on revert', async () => {
+    const client = makeMockClient(undefined, { audit_note: 'Checked by Pat' });
+    const store = new InMemoryRemediationStore();
+    const remediator = new Remediator(client, store, false, now);
+
+    const [outcome] = await remediator.run(117060, 'price-adjusted-item', [noteAction]);
+    expect(outcome).toEqual({
+      id: 'price-adjusted-item:annotate-ticket:117060:audit_note',
+      kind: 'annotate-ticket',
+      status: 'applied',
+    });
+    expect(client.updateTicket).toHaveBeenCalledWith(117060, {
+      custom: { audit_note: 'Price adjusted by 40%' },
+    });
+
+    const result = await remediator.revert(117060, outcome.id, 'arn:aws:iam::123:user/sam');
+
+    expect(result).toMatchObject({
+      ok: true,
+      value: { status: 'reverted', revertedBy: 'arn:aws:iam::123:user/sam' },
+    });
+    expect(client.updateTicket).toHaveBeenLastCalledWith(117060, {
+      custom: { audit_note: 'Checked by Pat' },
+    });
+
+    // Reverted actions stay reverted when the transaction is redelivered
+    await remediator.run(117060, 'price-adjusted-item', [noteAction]);
+    expect(client.updateTicket).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes only the added tag on revert', async () => {
+    const client = makeMockClient({ id: 2001, custom: { tags: 'Clearance' } });
+    const store = new InMemoryRemediationStore();
+    const remediator = new Remediator(client, store, false, now);
+    const [outcome] = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+
+    (client.getInventoryItem as jest.Mock).mockResolvedValue({
+      id: 2001,
+      custom: { tags: 'Clearance, Recount, Damaged' },
+    });
+    await remediator.revert(117060, outcome.id, 'admin');
+
+    expect(client.updateInventoryItem).toHaveBeenLastCalledWith(2001, {
+      custom: { tags: 'Clearance, Damaged' },
+    });
+  });
+
+  it('refuses to revert missing or unapplied remediations', async () => {
+    const store = new InMemoryRemediationStore();
+    const remediator = new Remediator(makeMockClient(), store, true, now);
+    const [outcome] = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+
+    await expect(remediator.revert(117060, 'nope', 'admin')).resolves.toEqual({
+      ok: false,
+      error: 'no remediation "nope" for transaction 117060',
+      notFound: true,
+    });
+    await expect(remediator.revert(117060, outcome.id, 'admin')).resolves.toEqual({
+      ok: false,
+      error: `remediation "${outcome.id}" is dry-run, not applied`,
+    });
+  });
+
+  it('records a failed action and retries it on redelivery', async () => {
+    const client = makeMockClient();
+    (client.updateInventoryItem as jest.Mock)
+      .mockRejectedValueOnce(new Error('HTTP 500'))
+      .mockResolvedValueOnce(undefined);
+    const remediator = new Remediator(client, new InMemoryRemediationStore(), false, now);
+
+    const first = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+    expect(first[0]).toMatchObject({ status: 'failed', error: 'Error: HTTP 500' });
+
+    const second = await remediator.run(117060, 'inventory-non-negative', [tagAction]);
+    expect(second[0].status).toBe('applied');
+  });
+});
+
+describe('remediationId', () => {
+  it('is stable per strategy, action kind and target', () => {
+    expect(
+      remediationId('inventory-non-negative', { kind: 'add-item-tag', itemId: 1, tag: 'ReCount' })
+    ).toBe('inventory-non-negative:add-item-tag:1:recount');
+    expect(
+      remediationId('price-adjusted-item', {
+        kind: 'annotate-ticket',
+        ticketId: 2,
+        field: 'note',
+        note: 'anything',
+      })
+    ).toBe('price-adjusted-item:annotate-ticket:2:note');
+  });
+});
+
+describe('isRemediationDryRun', () => {
+  it('is on unless explicitly turned off', () => {
+    expect(isRemediationDryRun({})).toBe(true);
+    expect(isRemediationDryRun({ REMEDIATION_DRY_RUN: 'true' })).toBe(true);
+    expect(isRemediationDryRun({ REMEDIATION_DRY_RUN: ' False ' })).toBe(false);
+  });
+});
+
+describe('DynamoDbRemediationStore', () => {
+  const record = {
+    id: 'inventory-non-negative:add-item-tag:2001:recount',
+    transactionId: 117060,
+    strategy: 'inventory-non-negative',
+    action: { kind: 'add-item-tag' as const, itemId: 2001, tag: 'Recount' },
+    status: 'applied' as const,
+    createdAt: '2026-03-01T12:00:00.000Z',
+    updatedAt: '2026-03-01T12:00:00.000Z',
+  };
+
+  function makeStore(send: jest.Mock) {
+    return new DynamoDbRemediationStore(
+      'Remediations',
+      { send } as unknown as DynamoDBDocumentClient
+    );
+  }
+
+  it('keys records by transaction and remediation id', async () => {
+    const send = jest.fn().mockResolvedValueOnce({}).mockResolvedValueOnce({ Item: { record } });
+    const store = makeStore(send);
+
+    await store.put(record);
+    await expect(store.get(117060, record.id)).resolves.toEqual(record);
+
+    expect(send.mock.calls[0][0].input).toEqual({
+      TableName: 'Remediations',
+      Item: { transactionId: 117060, id: record.id, record },
+    });
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'Remediations',
+      Key: { transactionId: 117060, id: record.id },
+      ConsistentRead: true,
+    });
+  });
+
+  it('pages through a transaction’s records', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({ Items: [{ record }], LastEvaluatedKey: { id: 'x' } })
+      .mockResolvedValueOnce({ Items: [{ record: { ...record, id: 'other' } }] });
+    const store = makeStore(send);
+
+    const records = await store.listForTransaction(117060);
+
+    expect(records.map((item) => item.id)).toEqual([record.id, 'other']);
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      KeyConditionExpression: 'transactionId = :transactionId',
+      ExpressionAttributeValues: { ':transactionId': 117060 },
+      ExclusiveStartKey: { id: 'x' },
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDbRepActivityStore,
+  InMemoryRepActivityStore,
+} from '../../src/rep-activity';
+
+describe('InMemoryRepActivityStore', () => {
+  it('counts a rep’s transactions and activity since a point in time', async () => {
+    const store = new InMemoryRepActivityStore();
+
+    await store.record({
+      salesRep: 'Sam',
+      transactionId: 1,
+      at: '2026-01-01T10:00:00.000Z',
+      kinds: ['discount'],
+    });
+    await store.record({
+      salesRep: 'sam ',
+      transactionId: 2,
+      at: '2026-01-02T10:00:00.000Z',
+      kinds: ['discount', 'no-customer'],
+    });
+    await store.record({
+      salesRep: 'Pat',
+      transactionId: 3,
+      at: '2026-01-02T10:00:00.000Z',
+      kinds: ['return'],
+    });
+
+    await expect(store.summarize('SAM', '2026-01-01T00:00:00.000Z')).resolves.toEqual({
+      transactions: 2,
+      counts: { discount: 2, 'price-adjustment': 0, return: 0, 'no-customer': 1 },
+    });
+    await expect(store.summarize('Sam', '2026-01-02T00:00:00.000Z')).resolves.toMatchObject({
+      transactions: 1,
+    });
+  });
+
+  it('replaces a transaction recorded twice and keeps its first time', async () => {
+    const store = new InMemoryRepActivityStore();
+    const activity = {
+      salesRep: 'Sam',
+      transactionId: 1,
+      at: '2026-01-01T10:00:00.000Z',
+      kinds: ['discount' as const],
+    };
+
+    await expect(store.record(activity)).resolves.toBe(true);
+    await expect(
+      store.record({ ...activity, at: '2026-01-02T10:00:00.000Z', kinds: ['return'] })
+    ).resolves.toBe(false);
+
+    await expect(store.summarize('Sam', '2026-01-01T00:00:00.000Z')).resolves.toMatchObject({
+      transactions: 1,
+      counts: { discount: 0, return: 1 },
+    });
+    await expect(store.summarize('Sam', '2026-01-02T00:00:00.000Z')).resolves.toMatchObject({
+      transactions: 0,
+    });
+  });
+});
+
+describe('DynamoDbRepActivityStore', () => {
+  function makeStore(send: jest.Mock) {
+    return new DynamoDbRepActivityStore(
+      'RepActivity',
+      { send } as unknown as DynamoDBDocumentClient,
+      3600
+    );
+  }
+
+  it('writes the activity under its completion time with a marker per transaction', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const store = makeStore(send);
+
+    await expect(
+      store.record({
+        salesRep: ' Sam ',
+        transactionId: 117060,
+        at: '2026-01-01T10:00:00.000Z',
+        kinds: ['price-adjustment'],
+      })
+    ).resolves.toBe(true);
+
+    const expiresAt = Date.parse('2026-01-01T10:00:00.000Z') / 1000 + 3600;
+    expect(send.mock.calls[0][0].input).toEqual({
+      TransactItems: [
+        {
+          Put: {
+            TableName: 'RepActivity',
+            Item: { salesRep: 'sam', sk: '#117060', at: '2026-01-01T10:00:00.000Z', expiresAt },
+            ConditionExpression: 'attribute_not_exists(sk)',
+          },
+        },
+        {
+          Put: {
+            TableName: 'RepActivity',
+            Item: {
+              salesRep: 'sam',
+              sk: '2026-01-01T10:00:00.000Z#117060',
+              transactionId: 117060,
+              at: '2026-01-01T10:00:00.000Z',
+              kinds: ['price-adjustment'],
+              expiresAt,
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it('updates the kinds under the first completion time when recorded again', async () => {
+    const cancelled = Object.assign(new Error('cancelled'), {
+      name: 'TransactionCanceledException',
+    });
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(cancelled)
+      .mockResolvedValueOnce({ Item: { at: '2026-01-01T10:00:00.000Z' } })
+      .mockResolvedValueOnce({});
+    const store = makeStore(send);
+
+    await expect(
+      store.record({
+        salesRep: 'Sam',
+        transactionId: 117060,
+        at: '2026-01-02T10:00:00.000Z',
+        kinds: ['return'],
+      })
+    ).resolves.toBe(false);
+
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'RepActivity',
+      Key: { salesRep: 'sam', sk: '#117060' },
+      ConsistentRead: true,
+    });
+    expect(send.mock.calls[2][0].input).toEqual({
+      TableName: 'RepActivity',
+      Key: { salesRep: 'sam', sk: '2026-01-01T10:00:00.000Z#117060' },
+      UpdateExpression: 'SET kinds = :kinds',
+      ExpressionAttributeValues: { ':kinds': ['return'] },
+    });
+  });
+
+  it('rethrows a cancelled write when no marker exists', async () => {
+    const cancelled = Object.assign(new Error('conflict'), {
+      name: 'TransactionCanceledException',
+    });
+    const send = jest.fn().mockRejectedValueOnce(cancelled).mockResolvedValueOnce({});
+
+    await expect(
+      makeStore(send).record({
+        salesRep: 'Sam',
+        transactionId: 117060,
+        at: '2026-01-01T10:00:00.000Z',
+        kinds: [],
+      })
+    ).rejects.toThrow('conflict');
+  });
+
+  it('queries the window as a key range, page by page, and counts each kind', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({
+        Items: [{ kinds: ['discount'] }, { kinds: [] }],
+        LastEvaluatedKey: { sk: 'x' },
+      })
+      .mockResolvedValueOnce({ Items: [{ kinds: ['discount', 'return'] }] });
+    const store = makeStore(send);
+
+    await expect(store.summarize('Sam', '2026-01-01T00:00:00.000Z')).resolves.toEqual({
+      transactions: 3,
+      counts: { discount: 2, 'price-adjustment': 0, return: 1, 'no-customer': 0 },
+    });
+    expect(send.mock.calls[1][0].input).toEqual({
+      TableName: 'RepActivity',
+      KeyConditionExpression: 'salesRep = :rep AND sk >= :since',
+      ExpressionAttributeValues: { ':rep': 'sam', ':since': '2026-01-01T00:00:00.000Z' },
+      ProjectionExpression: 'kinds',
+      ExclusiveStartKey: { sk: 'x' },
+    });
+  });
+});
@@ -0,0 +1,437 @@
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { InMemoryIdempotencyStore } from '../../src/idempotency';
+import {
+  DeadLetterQueueEventSource,
+  PayloadArchiveEventSource,
+  ReplayEvent,
+  createDefaultReplayProcessors,
+  parseReplayRequest,
+  replayEvents,
+  runReplay,
+} from '../../src/replay';
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: jest.fn() })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+const txEvent = (id: number, extra: Partial<ReplayEvent> = {}): ReplayEvent => ({
+  id: `tx-${id}`,
+  eventType: 'sales_transaction_completed',
+  body: JSON.stringify({ id, type: 'Ticket', total: 10, balance: 0, 'completed?': true }),
+  ...extra,
+});
+
+describe('replayEvents', () => {
+  it('records an outcome per event and keeps going after failures', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const processors = {
+      ok: jest.fn().mockResolvedValue({ detail: 'done' }),
+      dup: jest.fn().mockResolvedValue({ detail: 'seen', duplicate: true }),
+      bad: jest.fn().mockRejectedValue(new Error('Heartland down')),
+    };
+    const source = {
+      receiveEvents: jest.fn(),
+      acknowledge: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const outcomes = await replayEvents(
+      [
+        { id: '1', eventType: 'bad', body: '{}' },
+        { id: '2', eventType: 'ok', body: '{}' },
+        { id: '3', eventType: 'dup', body: '{}' },
+        { id: '4', eventType: 'customer_created', body: '{}' },
+      ],
+      processors,
+      source
+    );
+
+    expect(outcomes).toEqual([
+      { id: '1', eventType: 'bad', status: 'failed', detail: 'Error: Heartland down' },
+      { id: '2', eventType: 'ok', status: 'succeeded', detail: 'done' },
+      { id: '3', eventType: 'dup', status: 'duplicate', detail: 'seen' },
+      {
+        id: '4',
+        eventType: 'customer_created',
+        status: 'skipped',
+        detail: 'no replay processor for event type customer_created',
+      },
+    ]);
+    expect(source.acknowledge).toHaveBeenCalledTimes(2);
+
+    errorSpy.mockRestore();
+  });
+});
+
+describe('createDefaultReplayProcessors', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('re-runs transaction checks once unless forced', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const processors = createDefaultReplayProcessors({ idempotencyStore: store });
+    const forced = createDefaultReplayProcessors({ idempotencyStore: store, force: true });
+    const event = txEvent(501);
+
+    await expect(processors[event.eventType](event.body)).resolves.toEqual({
+      detail: 'transaction 501 check=true',
+      duplicate: false,
+    });
+    await expect(processors[event.eventType](event.body)).resolves.toEqual({
+      detail: 'transaction 501 check=true',
+      duplicate: true,
+    });
+    await expect(forced[event.eventType](event.body)).resolves.toEqual({
+      detail: 'transaction 501 check=true',
+      duplicate: false,
+    });
+  });
+
+  it('replays voided transactions', async () => {
+    const processors = createDefaultReplayProcessors({
+      idempotencyStore: new InMemoryIdempotencyStore(),
+    });
+
+    await expect(
+      processors.sales_transaction_voided(JSON.stringify({ id: 502 }))
+    ).resolves.toEqual({ detail: 'transaction 502 voided', duplicate: false });
+  });
+
+  it('rejects item payloads that do not parse', async () => {
+    const processors = createDefaultReplayProcessors({
+      idempotencyStore: new InMemoryIdempotencyStore(),
+    });
+
+    await expect(processors.item_created('{"custom":{}}')).rejects.toThrow(
+      'invalid item_created payload: payload is missing a numeric id'
+    );
+  });
+});
+
+describe('runReplay', () => {
+  it('filters inline events by the time window and max count', async () => {
+    const processor = jest.fn().mockResolvedValue({ detail: 'ok' });
+
+    const outcomes = await runReplay(
+      {
+        events: [
+          txEvent(1, { receivedAt: '2026-01-01T10:00:00Z' }),
+          txEvent(2, { receivedAt: '2026-01-03T10:00:00Z' }),
+          txEvent(3),
+          txEvent(4),
+        ],
+        window: { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-01-02T00:00:00Z') },
+        maxEvents: 2,
+      },
+      { processors: { sales_transaction_completed: processor } }
+    );
+
+    expect(outcomes.map((outcome) => outcome.id)).toEqual(['tx-1', 'tx-3']);
+  });
+
+  it('requires a configured source', async () => {
+    await expect(
+      runReplay({ source: 'dead-letter-queue' }, { processors: {} })
+    ).rejects.toThrow('Replay source dead-letter-queue is not configured');
+  });
+});
+
+describe('DeadLetterQueueEventSource', () => {
+  it('returns in-window messages, releases the rest, and deletes acknowledged ones', async () => {
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce({
+        Messages: [
+          {
+            MessageId: 'm-1',
+            ReceiptHandle: 'r-1',
+            Body: JSON.stringify({
+              eventType: 'sales_transaction_completed',
+              body: '{"id":1}',
+              receivedAt: '2026-01-01T12:00:00.000Z',
+            }),
+            Attributes: { SentTimestamp: String(Date.parse('2026-01-01T12:00:00Z')) },
+          },
+          {
+            MessageId: 'm-2',
+            ReceiptHandle: 'r-2',
+            Body: '{}',
+            Attributes: { SentTimestamp: String(Date.parse('2025-12-01T12:00:00Z')) },
+          },
+        ],
+      })
+      .mockResolvedValue({ Messages: [] });
+    const source = new DeadLetterQueueEventSource(
+      'https://sqs.test/dlq',
+      { send } as unknown as SQSClient
+    );
+
+    const events = await source.receiveEvents(
+      { from: new Date('2026-01-01T00:00:00Z') },
+      10
+    );
+
+    expect(events).toEqual([
+      {
+        id: 'm-1',
+        eventType: 'sales_transaction_completed',
+        body: '{"id":1}',
+        receivedAt: '2026-01-01T12:00:00.000Z',
+      },
+    ]);
+    // Released once the scan is over
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls[2][0].input).toEqual({
+      QueueUrl: 'https://sqs.test/dlq',
+      ReceiptHandle: 'r-2',
+      VisibilityTimeout: 0,
+    });
+
+    await source.acknowledge(events[0]);
+    expect(send.mock.calls[send.mock.calls.length - 1][0].input).toEqual({
+      QueueUrl: 'https://sqs.test/dlq',
+      ReceiptHandle: 'r-1',
+    });
+  });
+
+  it('stops scanning when out-of-window messages come back', async () => {
+    // SQS hands the same message out again whenever it becomes visible
+    const send = jest.fn().mockImplementation((command) =>
+      Promise.resolve(
+        command.input.MaxNumberOfMessages
+          ? {
+              Messages: [
+                {
+                  MessageId: 'm-old',
+                  ReceiptHandle: `r-old-${send.mock.calls.length}`,
+                  Body: '{}',
+                  Attributes: { SentTimestamp: String(Date.parse('2025-12-01T12:00:00Z')) },
+                },
+              ],
+            }
+          : {}
+      )
+    );
+    const source = new DeadLetterQueueEventSource(
+      'https://sqs.test/dlq',
+      { send } as unknown as SQSClient
+    );
+
+    const events = await source.receiveEvents(
+      { from: new Date('2026-01-01T00:00:00Z') },
+      10
+    );
+
+    expect(events).toEqual([]);
+    const commands = send.mock.calls.map(([command]) => command.input);
+    expect(commands.filter((input) => input.MaxNumberOfMessages)).toHaveLength(2);
+    expect(commands.filter((input) => input.VisibilityTimeout === 0)).toEqual([
+      { QueueUrl: 'https://sqs.test/dlq', ReceiptHandle: 'r-old-1', VisibilityTimeout: 0 },
+    ]);
+  });
+});
+
+describe('PayloadArchiveEventSource', () => {
+  const key = (date: string, eventType: string, id: number) =>
+    `payloads/${date}/${eventType}/${id}.json`;
+
+  function makeArchive(listed: Record<string, { key: string; lastModified?: Date }[]>) {
+    return {
+      store: jest.fn(),
+      fetch: jest.fn(),
+      list: jest.fn((date: string, eventType: string) =>
+        Promise.resolve(listed[`${date}/${eventType}`] ?? [])
+      ),
+      fetchKey: jest.fn((payloadKey: string) => {
+        const [, , eventType, file] = payloadKey.split('/');
+        const entry = Object.values(listed)
+          .flat()
+          .find((candidate) => candidate.key === payloadKey);
+        return Promise.resolve({
+          id: file.replace('.json', ''),
+          eventType,
+          body: `{"id":${file.replace('.json', '')}}`,
+          receivedAt: entry?.lastModified?.toISOString() ?? '',
+          key: payloadKey,
+        });
+      }),
+    };
+  }
+
+  it('reads each day and event type in the window, oldest first', async () => {
+    const listed = (date: string, eventType: string, id: number, at: string) => ({
+      key: key(date, eventType, id),
+      lastModified: new Date(at),
+    });
+    const archive = makeArchive({
+      '2026-01-01/sales_transaction_completed': [
+        listed('2026-01-01', 'sales_transaction_completed', 1, '2026-01-01T08:00:00Z'),
+        listed('2026-01-01', 'sales_transaction_completed', 2, '2026-01-01T23:00:00Z'),
+      ],
+      '2026-01-01/sales_transaction_voided': [
+        listed('2026-01-01', 'sales_transaction_voided', 1, '2026-01-01T22:00:00Z'),
+      ],
+      '2026-01-02/sales_transaction_completed': [
+        listed('2026-01-02', 'sales_transaction_completed', 3, '2026-01-02T01:00:00Z'),
+        listed('2026-01-02', 'sales_transaction_completed', 4, '2026-01-02T12:00:00Z'),
+      ],
+    });
+    const source = new PayloadArchiveEventSource(archive, [
+      'sales_transaction_completed',
+      'sales_transaction_voided',
+    ]);
+
+    const events = await source.receiveEvents(
+      { from: new Date('2026-01-01T12:00:00Z'), to: new Date('2026-01-02T06:00:00Z') },
+      10
+    );
+
+    expect(events.map((event) => event.id)).toEqual([
+      key('2026-01-01', 'sales_transaction_voided', 1),
+      key('2026-01-01', 'sales_transaction_completed', 2),
+      key('2026-01-02', 'sales_transaction_completed', 3),
+    ]);
+    expect(events[0]).toMatchObject({
+      eventType: 'sales_transaction_voided',
+      body: '{"id":1}',
+      receivedAt: '2026-01-01T22:00:00.000Z',
+    });
+    expect(archive.list.mock.calls).toEqual([
+      ['2026-01-01', 'sales_transaction_completed'],
+      ['2026-01-01', 'sales_transaction_voided'],
+      ['2026-01-02', 'sales_transaction_completed'],
+      ['2026-01-02', 'sales_transaction_voided'],
+    ]);
+    // Bodies outside the window are never fetched
+    expect(archive.fetchKey).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops at the max event count and reads up to now without a to time', async () => {
+    const archive = makeArchive({
+      '2026-01-01/item_created': [5, 6, 7].map((id) => ({
+        key: key('2026-01-01', 'item_created', id),
+        lastModified: new Date(`2026-01-01T0${id}:00:00Z`),
+      })),
+    });
+    const source = new PayloadArchiveEventSource(
+      archive,
+      ['item_created'],
+      () => new Date('2026-01-01T23:00:00Z')
+    );
+
+    const events = await source.receiveEvents({ from: new Date('2026-01-01T00:00:00Z') }, 2);
+
+    expect(events.map((event) => event.body)).toEqual(['{"id":5}', '{"id":6}']);
+    expect(archive.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays through runReplay without removing anything from the archive', async () => {
+    const archive = makeArchive({
+      '2026-01-01/item_created': [
+        {
+          key: key('2026-01-01', 'item_created', 5),
+          lastModified: new Date('2026-01-01T05:00:00Z'),
+        },
+      ],
+    });
+    const processor = jest.fn().mockResolvedValue({ detail: 'item 5 enriched' });
+
+    const outcomes = await runReplay(
+      {
+        source: 'payload-archive',
+        window: { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-01-01T23:59:59Z') },
+      },
+      {
+        processors: { item_created: processor },
+        sources: { 'payload-archive': new PayloadArchiveEventSource(archive, ['item_created']) },
+      }
+    );
+
+    expect(outcomes).toEqual([
+      {
+        id: key('2026-01-01', 'item_created', 5),
+        eventType: 'item_created',
+        status: 'succeeded',
+        detail: 'item 5 enriched',
+      },
+    ]);
+    expect(processor).toHaveBeenCalledWith('{"id":5}');
+    expect(archive.store).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseReplayRequest', () => {
+  it('accepts events with object bodies and a window', () => {
+    const result = parseReplayRequest({
+      events: [{ eventType: 'item_created', body: { id: 5 } }],
+      from: '2026-01-01T00:00:00Z',
+      force: true,
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        events: [
+          { id: 'event-0', eventType: 'item_created', body: '{"id":5}', receivedAt: undefined },
+        ],
+        window: { from: new Date('2026-01-01T00:00:00Z') },
+        force: true,
+      },
+    });
+  });
+
+  it('rejects requests without events or a source', () => {
+    expect(parseReplayRequest({})).toEqual({
+      ok: false,
+      error: 'request must include events or a source',
+    });
+    expect(parseReplayRequest({ source: 'archive' })).toEqual({
+      ok: false,
+      error: 'unsupported source archive',
+    });
+    expect(parseReplayRequest({ source: 'dead-letter-queue', to: 'yesterday' })).toEqual({
+      ok: false,
+      error: 'to must be an ISO-8601 timestamp',
+    });
+  });
+
+  it('accepts archive replays with event types and a from time', () => {
+    expect(
+      parseReplayRequest({
+        source: 'payload-archive',
+        eventTypes: ['item_created'],
+        from: '2026-01-01T00:00:00Z',
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        source: 'payload-archive',
+        eventTypes: ['item_created'],
+        window: { from: new Date('2026-01-01T00:00:00Z') },
+        force: false,
+      },
+    });
+    expect(parseReplayRequest({ source: 'payload-archive' })).toEqual({
+      ok: false,
+      error: 'source payload-archive needs a from time',
+    });
+    expect(
+      parseReplayRequest({ source: 'dead-letter-queue', eventTypes: ['item_created'] })
+    ).toEqual({ ok: false, error: 'eventTypes is only supported with source payload-archive' });
+    expect(
+      parseReplayRequest({ source: 'payload-archive', eventTypes: [], from: '2026-01-01T00:00:00Z' })
+    ).toEqual({ ok: false, error: 'eventTypes must be a non-empty array of event types' });
+  });
+});
@@ -0,0 +1,153 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { SSMClient } from '@aws-sdk/client-ssm';
+import {
+  DEFAULT_STRATEGY_CONFIG,
+  loadStrategyConfig,
+  parseStrategyConfig,
+} from '../../src/strategy-config';
+
+describe('parseStrategyConfig', () => {
+  it('accepts the bundled default', () => {
+    const config = parseStrategyConfig(DEFAULT_STRATEGY_CONFIG, 'bundled default');
+
+    expect(config.strategies.map((entry) => entry.name)).toEqual([
+      'type-and-status',
+      'balance-based',
+      'completed-timestamp',
+      'price-adjusted-item',
+      'high-discount-ticket',
+      'inventory-non-negative',
+      'return-validation',
+      'below-cost-sale',
+    ]);
+    expect(config.strategies.every((entry) => entry.enabled)).toBe(true);
+    // Newer strategies start in shadow mode
+    expect(
+      config.strategies.filter((entry) => entry.shadow).map((entry) => entry.name)
+    ).toEqual(['return-validation', 'below-cost-sale']);
+  });
+
+  it('keeps disabled entries and normalises missing params', () => {
+    expect(
+      parseStrategyConfig(
+        { strategies: [{ name: 'balance-based', enabled: false }] },
+        'test'
+      )
+    ).toEqual({ strategies: [{ name: 'balance-based', enabled: false, params: {} }] });
+  });
+
+  it('keeps the shadow flag only on shadowed entries', () => {
+    expect(
+      parseStrategyConfig(
+        {
+          strategies: [
+            { name: 'type-and-status', shadow: false },
+            { name: 'below-cost-sale', shadow: true },
+          ],
+        },
+        'test'
+      ).strategies
+    ).toEqual([
+      { name: 'type-and-status', enabled: true, params: {} },
+      { name: 'below-cost-sale', enabled: true, shadow: true, params: {} },
+    ]);
+    expect(() =>
+      parseStrategyConfig({ strategies: [{ name: 'below-cost-sale', shadow: 'yes' }] }, 'test')
+    ).toThrow('strategies[0]: "shadow" must be a boolean');
+  });
+
+  it('lists every problem in one error', () => {
+    expect(() =>
+      parseStrategyConfig(
+        {
+          strategies: [
+            { name: 'type-and-status' },
+            { name: 'type-and-status' },
+            { name: 'huge-discount' },
+            { name: 'high-discount-ticket', enabled: 'yes', params: { thresholdPercent: 'high' } },
+          ],
+        },
+        's3://config/strategies.json'
+      )
+    ).toThrow(
+      'Invalid strategy config from s3://config/strategies.json: ' +
+        'strategies[1]: strategy "type-and-status" is listed more than once; ' +
+        'strategies[2]: unknown strategy "huge-discount" (known: type-and-status, balance-based, completed-timestamp, price-adjusted-item, high-discount-ticket, inventory-non-negative, return-validation, below-cost-sale, rep-anomaly, quantity-limit); ' +
+        'strategies[3]: "enabled" must be a boolean; ' +
+        'strategies[3]: "thresholdPercent" for strategy "high-discount-ticket" must be a non-negative number'
+    );
+  });
+
+  it('rejects documents without a strategies array', () => {
+    expect(() => parseStrategyConfig([], 'test')).toThrow('config must be an object');
+    expect(() => parseStrategyConfig({}, 'test')).toThrow('"strategies" must be an array');
+  });
+});
+
+describe('loadStrategyConfig', () => {
+  const config = { strategies: [{ name: 'type-and-status' }] };
+
+  it('falls back to the bundled default', async () => {
+    const result = await loadStrategyConfig({});
+
+    expect(result.source).toBe('bundled default');
+    expect(result.config.strategies).toHaveLength(8);
+  });
+
+  it('reads the config from S3', async () => {
+    const send = jest.fn().mockResolvedValue({
+      Body: { transformToString: () => Promise.resolve(JSON.stringify(config)) },
+    });
+
+    const result = await loadStrategyConfig(
+      { STRATEGY_CONFIG_S3_URI: 's3://ops-config/strategies/transaction.json' },
+      { s3Client: { send } as unknown as S3Client }
+    );
+
+    expect(send.mock.calls[0][0].input).toEqual({
+      Bucket: 'ops-config',
+      Key: 'strategies/transaction.json',
+    });
+    expect(result).toEqual({
+      config: { strategies: [{ name: 'type-and-status', enabled: true, params: {} }] },
+      source: 's3://ops-config/strategies/transaction.json',
+    });
+  });
+
+  it('reads the config from SSM', async () => {
+    const send = jest.fn().mockResolvedValue({
+      Parameter: { Value: JSON.stringify(config) },
+    });
+
+    const result = await loadStrategyConfig(
+      { STRATEGY_CONFIG_SSM_PARAMETER: '/operational-hooks/strategies' },
+      { ssmClient: { send } as unknown as SSMClient }
+    );
+
+    expect(send.mock.calls[0][0].input).toEqual({
+      Name: '/operational-hooks/strategies',
+      WithDecryption: true,
+    });
+    expect(result.source).toBe('ssm:/operational-hooks/strategies');
+  });
+
+  it('fails on invalid JSON, bad URIs and conflicting sources', async () => {
+    const send = jest.fn().mockResolvedValue({ Parameter: { Value: 'strategies:' } });
+
+    await expect(
+      loadStrategyConfig(
+        { STRATEGY_CONFIG_SSM_PARAMETER: '/p' },
+        { ssmClient: { send } as unknown as SSMClient }
+      )
+    ).rejects.toThrow('Invalid strategy config from ssm:/p: not valid JSON');
+    await expect(
+      loadStrategyConfig({ STRATEGY_CONFIG_S3_URI: 'ops-config/strategies.json' })
+    ).rejects.toThrow('Invalid STRATEGY_CONFIG_S3_URI "ops-config/strategies.json"');
+    await expect(
+      loadStrategyConfig({
+        STRATEGY_CONFIG_S3_URI: 's3://a/b.json',
+        STRATEGY_CONFIG_SSM_PARAMETER: '/p',
+      })
+    ).rejects.toThrow('Set only one of STRATEGY_CONFIG_S3_URI and STRATEGY_CONFIG_SSM_PARAMETER');
+  });
+});
@@ -0,0 +1,265 @@
+import { Context } from 'aws-lambda';
+import {
+  DEADLINE_MARGIN_MS,
+  deadlineFromContext,
+  evaluateChecks,
+  toCheckResult,
+} from '../../src/transaction-checks';
+import { HeartlandTransaction, TransactionCompletionStrategy } from '../../src/model';
+import { Remediator } from '../../src/remediation';
+import { countingAlerts } from '../../src/alert-tracking';
+import { InMemoryAlertSuppressionStore, SuppressingNotifier } from '../../src/alert-suppression';
+
+describe('evaluateChecks', () => {
+  const tx: HeartlandTransaction = { id: 117060, type: 'Ticket', total: 10 };
+
+  const makeStrategy = (
+    name: string,
+    checkTx: TransactionCompletionStrategy['checkTx']
+  ): TransactionCompletionStrategy => ({
+    name,
+    supports: () => true,
+    checkTx,
+  });
+
+  it('keeps the original summary shape for boolean results', async () => {
+    const result = await evaluateChecks(tx, [
+      makeStrategy('boolean-pass', async () => true),
+    ]);
+
+    expect(result).toEqual({
+      check: true,
+      checks: [{ name: 'boolean-pass', executed: true, passed: true }],
+    });
+  });
+
+  it('copies severity, reason and evidence from structured results', async () => {
+    const result = await evaluateChecks(tx, [
+      makeStrategy('boolean-pass', async () => true),
+      makeStrategy('structured-fail', async () => ({
+        passed: false,
+        severity: 'critical',
+        reason: '1 item(s) have negative inventory at location 100005: Widget',
+        evidence: { itemIds: [2002] },
+      })),
+    ]);
+
+    expect(result.check).toBe(false);
+    expect(result.checks[1]).toEqual({
+      name: 'structured-fail',
+      executed: true,
+      passed: false,
+      severity: 'critical',
+      reason: '1 item(s) have negative inventory at location 100005: Widget',
+      evidence: { itemIds: [2002] },
+    });
+  });
+
+  it('reports a throwing strategy as a failed warning with the error as reason', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await evaluateChecks(tx, [
+      makeStrategy('throws', async () => {
+        throw new Error('heartland down');
+      }),
+    ]);
+
+    expect(result.checks).toEqual([
+      {
+        name: 'throws',
+        executed: true,
+        passed: false,
+        severity: 'warning',
+        reason: 'Check could not run: Error: heartland down',
+      },
+    ]);
+
+    errorSpy.mockRestore();
+  });
+
+  it('normalises boolean and structured results', () => {
+    expect(toCheckResult(false)).toEqual({ passed: false });
+    expect(toCheckResult({ passed: true, reason: 'ok' })).toEqual({
+      passed: true,
+      reason: 'ok',
+    });
+  });
+
+  it('marks shadow checks and leaves them out of the overall check', async () => {
+    const result = await evaluateChecks(
+      tx,
+      [
+        makeStrategy('live', async () => true),
+        makeStrategy('candidate', async () => ({ passed: false, reason: 'too many units' })),
+      ],
+      { shadowStrategies: new Set(['candidate']) }
+    );
+
+    expect(result).toEqual({
+      check: true,
+      checks: [
+        { name: 'live', executed: true, passed: true },
+        {
+          name: 'candidate',
+          executed: true,
+          passed: false,
+          reason: 'too many units',
+          shadow: true,
+        },
+      ],
+    });
+  });
+
+  it('runs remediations of failed live checks and reports their outcomes', async () => {
+    const outcome = { id: 'live:add-item-tag:2001:recount', kind: 'add-item-tag', status: 'applied' };
+    const remediator = { run: jest.fn().mockResolvedValue([outcome]) } as unknown as Remediator;
+    const action = { kind: 'add-item-tag' as const, itemId: 2001, tag: 'Recount' };
+
+    const result = await evaluateChecks(
+      tx,
+      [
+        makeStrategy('passing', async () => ({ passed: true, remediations: [action] })),
+        makeStrategy('live', async () => ({ passed: false, remediations: [action] })),
+        makeStrategy('candidate', async () => ({ passed: false, remediations: [action] })),
+      ],
+      { shadowStrategies: new Set(['candidate']), remediator }
+    );
+
+    expect(remediator.run).toHaveBeenCalledTimes(1);
+    expect(remediator.run).toHaveBeenCalledWith(117060, 'live', [action]);
+    expect(result.checks.map((check) => check.remediations)).toEqual([
+      undefined,
+      [outcome],
+      undefined,
+    ]);
+  });
+
+  it('keeps the check result when remediations cannot be recorded', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const remediator = {
+      run: jest.fn().mockRejectedValue(new Error('table missing')),
+    } as unknown as Remediator;
+
+    const result = await evaluateChecks(
+      tx,
+      [
+        makeStrategy('live', async () => ({
+          passed: false,
+          reason: 'negative inventory',
+          remediations: [{ kind: 'add-item-tag', itemId: 2001, tag: 'Recount' }],
+        })),
+      ],
+      { remediator }
+    );
+
+    expect(result.checks).toEqual([
+      { name: 'live', executed: true, passed: false, reason: 'negative inventory' },
+    ]);
+
+    errorSpy.mockRestore();
+  });
+
+  it('marks checks whose alert was sent and not dropped as a repeat', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const channel = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const notifier = countingAlerts(
+      new SuppressingNotifier(channel, 'structured-fail', new InMemoryAlertSuppressionStore(), 3600)
+    );
+    const failing = (alert: boolean) =>
+      makeStrategy('structured-fail', async () => {
+        if (alert) {
+          await notifier.sendMessage('Ticket discount 60% exceeds 5%', 'ticket:117060');
+        }
+        return { passed: false, reason: 'Ticket discount 60% exceeds 5%' };
+      });
+
+    const first = await evaluateChecks(tx, [failing(true), makeStrategy('quiet', async () => false)]);
+    const repeat = await evaluateChecks(tx, [failing(true)]);
+    const belowThreshold = await evaluateChecks(tx, [failing(false)]);
+
+    expect(first.checks.map((check) => check.alerted)).toEqual([true, undefined]);
+    expect(repeat.checks[0].alerted).toBeUndefined();
+    expect(belowThreshold.checks[0].alerted).toBeUndefined();
+    expect(channel.sendMessage).toHaveBeenCalledTimes(1);
+    logSpy.mockRestore();
+  });
+
+  it('runs strategies concurrently and keeps their order in the summary', async () => {
+    const finished: string[] = [];
+    const slow = (name: string, ms: number) =>
+      makeStrategy(name, async () => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        finished.push(name);
+        return true;
+      });
+
+    const result = await evaluateChecks(tx, [slow('first', 40), slow('second', 10)]);
+
+    // Run one after the other, 'first' would finish first
+    expect(finished).toEqual(['second', 'first']);
+    expect(result.checks.map((c) => c.name)).toEqual(['first', 'second']);
+    expect(result.check).toBe(true);
+  });
+
+  it('marks a slow strategy as timed out and aborts its signal', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let received: AbortSignal | undefined;
+
+    const result = await evaluateChecks(
+      tx,
+      [
+        makeStrategy('hangs', (_tx, signal) => {
+          received = signal;
+          return new Promise<boolean>(() => {});
+        }),
+        makeStrategy('fast', async () => true),
+      ],
+      { timeoutMs: 20 }
+    );
+
+    expect(received?.aborted).toBe(true);
+    expect(result.check).toBe(false);
+    expect(result.checks).toEqual([
+      {
+        name: 'hangs',
+        executed: true,
+        passed: false,
+        timedOut: true,
+        severity: 'warning',
+        reason: 'Check timed out after 20ms',
+      },
+      { name: 'fast', executed: true, passed: true },
+    ]);
+
+    warnSpy.mockRestore();
+  });
+
+  it('caps the per-strategy timeout at the overall deadline', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await evaluateChecks(
+      tx,
+      [makeStrategy('hangs', () => new Promise<boolean>(() => {}))],
+      { timeoutMs: 60_000, deadline: Date.now() - 1 }
+    );
+
+    expect(result.checks[0]).toMatchObject({
+      timedOut: true,
+      reason: 'Check timed out after 0ms',
+    });
+
+    warnSpy.mockRestore();
+  });
+
+  it('derives the deadline from the Lambda context', () => {
+    const now = 1_700_000_000_000;
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    expect(
+      deadlineFromContext({ getRemainingTimeInMillis: () => 8000 } as unknown as Context)
+    ).toBe(now + 8000 - DEADLINE_MARGIN_MS);
+    expect(deadlineFromContext(undefined)).toBeUndefined();
+
+    nowSpy.mockRestore();
+  });
+});
@@ -0,0 +1,172 @@
+import { HeartlandApiClient, TicketLinesResponse } from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+import { TransactionContext } from '../../src/transaction-context';
+import { evaluateChecks } from '../../src/transaction-checks';
+import { InventoryNonNegativeStrategy } from '../../src/strategies/inventory-non-negative-strategy';
+import { PriceAdjustedItemStrategy } from '../../src/strategies/price-adjusted-item-strategy';
+
+describe('TransactionContext', () => {
+  const tx: HeartlandTransaction = {
+    id: 117060,
+    type: 'Ticket',
+    total: 15,
+    source_location_id: 100005,
+    customer_id: 42,
+  };
+
+  const lines: TicketLinesResponse = {
+    total: 2,
+    pages: 1,
+    results: [
+      { id: 1, type: 'ItemLine', item_id: 2001, item_description: 'Batwing' },
+      { id: 2, type: 'TaxLine' },
+    ],
+  };
+
+  const makeMockClient = () => ({
+    getTicketLines: jest.fn().mockResolvedValue(lines),
+    getInventoryValues: jest.fn().mockResolvedValue({
+      total: 1,
+      pages: 1,
+      results: [{ item_id: 2001, location_id: 100005, qty_available: 3 }],
+    }),
+    getInventoryItem: jest.fn().mockResolvedValue({ id: 2001, cost: 10 }),
+    getCustomer: jest.fn().mockResolvedValue({ id: 42, first_name: 'Pat' }),
+    listCustomerTickets: jest.fn().mockResolvedValue({
+      total: 2,
+      pages: 1,
+      results: [{ id: 117060 }, { id: 116900 }],
+    }),
+  });
+
+  const asClient = (mock: ReturnType<typeof makeMockClient>) =>
+    mock as unknown as HeartlandApiClient;
+
+  it('fetches each resource once and shares the result', async () => {
+    const client = makeMockClient();
+    const context = new TransactionContext(tx, asClient(client));
+
+    await Promise.all([context.getTicketLines(), context.getTicketLines()]);
+    await context.getInventoryValues(2001);
+    await context.getInventoryValues(2001);
+    await context.getItem(2001);
+    await context.getItem(2001);
+    await context.getCustomer();
+    await context.getCustomer();
+
+    expect(client.getTicketLines).toHaveBeenCalledTimes(1);
+    expect(client.getTicketLines).toHaveBeenCalledWith(117060, undefined);
+    expect(client.getInventoryValues).toHaveBeenCalledTimes(1);
+    expect(client.getInventoryItem).toHaveBeenCalledTimes(1);
+    expect(client.getCustomer).toHaveBeenCalledTimes(1);
+    expect(client.getCustomer).toHaveBeenCalledWith(42, undefined);
+  });
+
+  it('keys inventory values and items by item id', async () => {
+    const client = makeMockClient();
+    const context = new TransactionContext(tx, asClient(client));
+
+    await context.getInventoryValues(2001);
+    await context.getInventoryValues(2002);
+
+    expect(client.getInventoryValues).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns only item lines', async () => {
+    const context = new TransactionContext(tx, asClient(makeMockClient()));
+
+    await expect(context.getItemLines()).resolves.toEqual([lines.results[0]]);
+  });
+
+  it('resolves no customer without calling the API when the ticket has none', async () => {
+    const client = makeMockClient();
+    const context = new TransactionContext({ ...tx, customer_id: null }, asClient(client));
+
+    await expect(context.getCustomer()).resolves.toBeUndefined();
+    expect(client.getCustomer).not.toHaveBeenCalled();
+  });
+
+  it('loads the parent ticket lines of a return once', async () => {
+    const client = makeMockClient();
+    const context = new TransactionContext(
+      { ...tx, type: 'Return', parent_transaction_id: 117000 },
+      asClient(client)
+    );
+
+    await context.getParentTicketLines();
+    await context.getParentTicketLines();
+
+    expect(client.getTicketLines).toHaveBeenCalledTimes(1);
+    expect(client.getTicketLines).toHaveBeenCalledWith(117000, undefined);
+    await expect(
+      new TransactionContext(tx, asClient(client)).getParentTicketLines()
+    ).resolves.toBeUndefined();
+  });
+
+  it('loads the customer’s other tickets and their lines once', async () => {
+    const client = makeMockClient();
+    const context = new TransactionContext(tx, asClient(client));
+
+    await expect(context.getCustomerTickets('2026-01-01T00:00:00.000Z')).resolves.toEqual([
+      { id: 116900 },
+    ]);
+    await context.getCustomerTickets('2026-01-01T00:00:00.000Z');
+    await context.getOtherTicketLines(116900);
+    await context.getOtherTicketLines(116900);
+    await context.getOtherTicketLines(117060);
+    await context.getTicketLines();
+
+    expect(client.listCustomerTickets).toHaveBeenCalledTimes(1);
+    expect(client.listCustomerTickets).toHaveBeenCalledWith(
+      42,
+      '2026-01-01T00:00:00.000Z',
+      undefined
+    );
+    expect(client.getTicketLines).toHaveBeenCalledTimes(2);
+    await expect(
+      new TransactionContext({ ...tx, customer_id: null }, asClient(client)).getCustomerTickets(
+        '2026-01-01T00:00:00.000Z'
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('shares a failed fetch instead of retrying it', async () => {
+    const client = makeMockClient();
+    client.getTicketLines.mockRejectedValue(new Error('boom'));
+    const context = new TransactionContext(tx, asClient(client));
+
+    await expect(context.getTicketLines()).rejects.toThrow('boom');
+    await expect(context.getTicketLines()).rejects.toThrow('boom');
+    expect(client.getTicketLines).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes its signal to the API client', async () => {
+    const client = makeMockClient();
+    const controller = new AbortController();
+    const context = new TransactionContext(tx, asClient(client), controller.signal);
+
+    await context.getTicketLines();
+
+    expect(client.getTicketLines).toHaveBeenCalledWith(117060, controller.signal);
+  });
+
+  it('lets price and inventory strategies share one ticket lines call', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const client = makeMockClient();
+    const context = new TransactionContext(tx, asClient(client));
+
+    const result = await evaluateChecks(
+      tx,
+      [
+        new PriceAdjustedItemStrategy(asClient(client), 'https://example.heartland.test'),
+        new InventoryNonNegativeStrategy(asClient(client), 'https://example.heartland.test'),
+      ],
+      { context }
+    );
+
+    expect(result.check).toBe(true);
+    expect(client.getTicketLines).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+  });
+});
@@ -0,0 +1,258 @@
+import { InMemoryCheckHistoryStore } from '../../src/check-history';
+import { CheckSummary, HeartlandTransaction, WebhookResponseBody } from '../../src/model';
+import {
+  buildTransactionDeliveryKey,
+  processTransactionEvent,
+} from '../../src/transaction-events';
+
+const mockProcessTransaction = jest.fn();
+const mockSendMessage = jest.fn();
+const mockCreateNotifier = jest.fn();
+
+jest.mock('../../src/transaction-checks', () => {
+  const actual = jest.requireActual('../../src/transaction-checks');
+  return {
+    ...actual,
+    processTransaction: (...args: unknown[]) => mockProcessTransaction(...args),
+    getCompletionSetup: () =>
+      Promise.resolve({
+        strategies: [],
+        shadowStrategies: new Set(),
+        heartlandBaseUrl: 'https://example.heartland.test',
+      }),
+  };
+});
+
+jest.mock('../../src/notifier', () => ({
+  createNotifier: (alertType: string) => mockCreateNotifier(alertType),
+  routeChannels: (alertType: string) =>
+    alertType === 'inventory-non-negative' ? ['warehouse'] : ['store'],
+}));
+
+describe('processTransactionEvent', () => {
+  const tx: HeartlandTransaction = { id: 117060, type: 'Ticket', total: 40 };
+
+  const discountFailure: CheckSummary = {
+    name: 'high-discount-ticket',
+    executed: true,
+    passed: false,
+    severity: 'warning',
+    reason: 'Ticket discount 60% exceeds 5%',
+    alerted: true,
+  };
+  const inventoryFailure: CheckSummary = {
+    name: 'inventory-non-negative',
+    executed: true,
+    passed: false,
+    severity: 'critical',
+    reason: '1 item(s) have negative inventory at location 100005: Batwing',
+    alerted: true,
+  };
+
+  const respond = (checks: CheckSummary[]): WebhookResponseBody => ({
+    status: 'ok',
+    transactionKind: 'sale',
+    transactionId: tx.id,
+    transactionType: tx.type,
+    check: false,
+    checks,
+  });
+
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockProcessTransaction.mockReset();
+    mockSendMessage.mockReset().mockResolvedValue(undefined);
+    mockCreateNotifier.mockReset().mockReturnValue({ sendMessage: mockSendMessage });
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  it('remembers the results of a completed transaction without announcing anything', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValue(respond([discountFailure]));
+
+    const response = await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    expect(response.resolved).toBeUndefined();
+    expect(mockSendMessage).not.toHaveBeenCalled();
+    await expect(store.get(117060)).resolves.toMatchObject({
+      status: 'completed',
+      checks: [discountFailure],
+    });
+  });
+
+  it('announces earlier alerts an edit resolved and re-checks the rest', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValueOnce(respond([discountFailure, inventoryFailure]));
+    await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    mockProcessTransaction.mockResolvedValueOnce(
+      respond([{ ...discountFailure, passed: true, reason: undefined }, inventoryFailure])
+    );
+    const response = await processTransactionEvent('sales_transaction_updated', tx, {}, store);
+
+    expect(mockProcessTransaction).toHaveBeenCalledTimes(2);
+    expect(response.resolved).toEqual(['high-discount-ticket']);
+    expect(mockSendMessage).toHaveBeenCalledWith(
+      'Resolved: ticket 117060 was updated ' +
+        '( https://example.heartland.test/#sales/tickets/edit/117060 ). Earlier alerts:\n' +
+        '- high-discount-ticket: Ticket discount 60% exceeds 5%'
+    );
+    await expect(store.get(117060)).resolves.toMatchObject({ status: 'updated' });
+  });
+
+  it('resolves every earlier alert on a void and ignores later events', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValueOnce(
+      respond([
+        { name: 'type-and-status', executed: true, passed: false },
+        discountFailure,
+        { ...inventoryFailure, shadow: true },
+      ])
+    );
+    await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    const voided = await processTransactionEvent(
+      'sales_transaction_voided',
+      { id: 117060 } as HeartlandTransaction,
+      {},
+      store
+    );
+
+    expect(voided).toMatchObject({ voided: true, checks: [], resolved: ['high-discount-ticket'] });
+    expect(mockSendMessage).toHaveBeenCalledTimes(1);
+    expect(mockSendMessage.mock.calls[0][0]).toContain('Resolved: ticket 117060 was voided');
+
+    const later = await processTransactionEvent('sales_transaction_updated', tx, {}, store);
+    expect(later.voided).toBe(true);
+    expect(mockProcessTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends resolved messages to the channels each check alerted', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValueOnce(respond([discountFailure, inventoryFailure]));
+    await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    await processTransactionEvent(
+      'sales_transaction_voided',
+      { id: 117060 } as HeartlandTransaction,
+      {},
+      store
+    );
+
+    expect(mockCreateNotifier.mock.calls).toEqual([
+      ['high-discount-ticket'],
+      ['inventory-non-negative'],
+    ]);
+    expect(mockSendMessage).toHaveBeenCalledTimes(2);
+    expect(mockSendMessage.mock.calls[0][0]).toContain('- high-discount-ticket:');
+    expect(mockSendMessage.mock.calls[0][0]).not.toContain('inventory-non-negative');
+    expect(mockSendMessage.mock.calls[1][0]).toContain('- inventory-non-negative:');
+  });
+
+  it('does not follow up failures that never alerted', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValueOnce(
+      respond([
+        // Below the alert threshold, dropped as a repeat, or without a channel
+        { ...discountFailure, alerted: undefined },
+        {
+          name: 'quantity-limit',
+          executed: true,
+          passed: false,
+          severity: 'warning',
+          reason: 'Check could not run: Error: Heartland down',
+        },
+      ])
+    );
+    await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    const voided = await processTransactionEvent(
+      'sales_transaction_voided',
+      { id: 117060 } as HeartlandTransaction,
+      {},
+      store
+    );
+
+    expect(voided.resolved).toBeUndefined();
+    expect(mockSendMessage).not.toHaveBeenCalled();
+  });
+
+  it('lists the remediations a void leaves applied', async () => {
+    const store = new InMemoryCheckHistoryStore();
+    mockProcessTransaction.mockResolvedValueOnce(
+      respond([
+        {
+          ...inventoryFailure,
+          remediations: [
+            { id: 'inventory-non-negative:add-item-tag:501', kind: 'add-item-tag', status: 'applied' },
+            { id: 'inventory-non-negative:add-item-tag:502', kind: 'add-item-tag', status: 'dry-run' },
+          ],
+        },
+      ])
+    );
+    await processTransactionEvent('sales_transaction_completed', tx, {}, store);
+
+    await processTransactionEvent(
+      'sales_transaction_voided',
+      { id: 117060 } as HeartlandTransaction,
+      {},
+      store
+    );
+
+    expect(mockSendMessage.mock.calls[0][0]).toContain(
+      'Remediations were not reverted: inventory-non-negative:add-item-tag:501. ' +
+        'Revert them through the remediations endpoint if needed.'
+    );
+  });
+
+  it('runs the checks when the history store fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('throttled')),
+      put: jest.fn().mockRejectedValue(new Error('throttled')),
+    };
+    mockProcessTransaction.mockResolvedValue(respond([discountFailure]));
+
+    const response = await processTransactionEvent('sales_transaction_updated', tx, {}, store);
+
+    expect(response.checks).toEqual([discountFailure]);
+    expect(errorSpy).toHaveBeenCalledWith('Error writing check history', expect.any(String));
+    errorSpy.mockRestore();
+  });
+
+  it('rejects event types it does not handle', async () => {
+    await expect(
+      processTransactionEvent('item_created', tx, {}, new InMemoryCheckHistoryStore())
+    ).rejects.toThrow('Unsupported transaction event type item_created');
+  });
+});
+
+describe('buildTransactionDeliveryKey', () => {
+  const tx: HeartlandTransaction = { id: 117060, type: 'Ticket', total: 40 };
+
+  it('keys completions and voids by id and each edit by its version', () => {
+    expect(buildTransactionDeliveryKey('sales_transaction_completed', tx, '{}')).toBe(
+      'sales_transaction_completed#117060'
+    );
+    expect(buildTransactionDeliveryKey('sales_transaction_voided', tx, '{}')).toBe(
+      'sales_transaction_voided#117060'
+    );
+    expect(
+      buildTransactionDeliveryKey(
+        'sales_transaction_updated',
+        { ...tx, updated_at: '2026-03-01T12:00:00Z' },
+        '{}'
+      )
+    ).toBe('sales_transaction_updated#117060@2026-03-01T12:00:00Z');
+
+    const first = buildTransactionDeliveryKey('sales_transaction_updated', tx, '{"total":40}');
+    const second = buildTransactionDeliveryKey('sales_transaction_updated', tx, '{"total":35}');
+    expect(first).toMatch(/^sales_transaction_updated#117060@[0-9a-f]{16}$/);
+    expect(second).not.toBe(first);
+  });
+});
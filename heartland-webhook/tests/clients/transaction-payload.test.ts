@@ -0,0 +1,167 @@
+import {
+  alertOnPayloadDrift,
+  parseTransactionBody,
+  validateTransactionFields,
+} from '../../src/transaction-payload';
+
+const completeTicket = {
+  id: 117060,
+  type: 'Ticket',
+  total: 42.5,
+  total_discounts: 2.5,
+  original_subtotal: 45,
+  source_location_id: 100001,
+  'completed?': true,
+  balance: 0,
+  status: 'complete',
+  customer_id: null,
+  parent_transaction_id: null,
+  completed_at: '2026-01-01T12:00:00Z',
+};
+
+describe('parseTransactionBody', () => {
+  it('accepts a complete ticket without validation errors', () => {
+    expect(parseTransactionBody(JSON.stringify(completeTicket))).toEqual({
+      ok: true,
+      value: completeTicket,
+      validationErrors: [],
+    });
+  });
+
+  it('rejects bodies that are not JSON objects', () => {
+    expect(parseTransactionBody('{nope')).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('invalid JSON'),
+    });
+    expect(parseTransactionBody('[1,2]')).toEqual({
+      ok: false,
+      error: 'payload is not an object',
+    });
+  });
+
+  it('returns the payload together with field errors', () => {
+    const result = parseTransactionBody(
+      JSON.stringify({ ...completeTicket, id: '117060', 'completed?': undefined })
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      value: { id: '117060' },
+      validationErrors: [
+        { field: 'id', code: 'invalid_type', expected: 'number', received: 'string' },
+        { field: 'completed?', code: 'missing', expected: 'boolean', received: 'undefined' },
+      ],
+    });
+  });
+});
+
+describe('validateTransactionFields', () => {
+  it('only type-checks optional fields when present and allows nulls where expected', () => {
+    expect(
+      validateTransactionFields({
+        id: 1,
+        type: 'Return',
+        total: -5,
+        total_discounts: 0,
+        original_subtotal: -5,
+        source_location_id: 100001,
+        'completed?': true,
+      })
+    ).toEqual([]);
+    expect(
+      validateTransactionFields({ ...completeTicket, balance: null, sales_rep: ['a'] })
+    ).toEqual([
+      { field: 'balance', code: 'invalid_type', expected: 'number', received: 'null' },
+      {
+        field: 'sales_rep',
+        code: 'invalid_type',
+        expected: 'string | null',
+        received: 'array',
+      },
+    ]);
+  });
+});
+
+describe('alertOnPayloadDrift', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  it('alerts once per distinct set of errors', async () => {
+    const groupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const missingSubtotal = validateTransactionFields({
+      ...completeTicket,
+      original_subtotal: undefined,
+    });
+    const stringTotal = validateTransactionFields({ ...completeTicket, total: '42.50' });
+
+    await alertOnPayloadDrift({ ...completeTicket, id: 1 }, missingSubtotal, groupMeClient);
+    await alertOnPayloadDrift({ ...completeTicket, id: 2 }, missingSubtotal, groupMeClient);
+    await alertOnPayloadDrift({ ...completeTicket, id: 3 }, stringTotal, groupMeClient);
+
+    expect(groupMeClient.sendMessage).toHaveBeenCalledTimes(2);
+    expect(groupMeClient.sendMessage).toHaveBeenNthCalledWith(
+      1,
+      'Heartland transaction payload changed shape (transaction 1): original_subtotal is missing. ' +
+        'Checks that rely on these fields may be skipped.'
+    );
+    expect(groupMeClient.sendMessage).toHaveBeenNthCalledWith(
+      2,
+      'Heartland transaction payload changed shape (transaction 3): total is string (expected number). ' +
+        'Checks that rely on these fields may be skipped.'
+    );
+  });
+
+  it('does nothing for valid payloads and retries after a failed alert', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const groupMeClient = {
+      sendMessage: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('GroupMe HTTP 500'))
+        .mockResolvedValue(undefined),
+    };
+    const errors = validateTransactionFields({ ...completeTicket, type: 7 });
+
+    await alertOnPayloadDrift(completeTicket, [], groupMeClient);
+    await alertOnPayloadDrift(completeTicket, errors, groupMeClient);
+    await alertOnPayloadDrift(completeTicket, errors, groupMeClient);
+
+    expect(groupMeClient.sendMessage).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error posting payload drift alert',
+      expect.any(Error)
+    );
+
+    errorSpy.mockRestore();
+  });
+
+  it('logs instead of throwing when the notification routes are invalid', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const previousRoutes = process.env.NOTIFICATION_ROUTES;
+    process.env.NOTIFICATION_ROUTES = '{not json';
+
+    await expect(
+      alertOnPayloadDrift(
+        completeTicket,
+        validateTransactionFields({ ...completeTicket, balance: 'none' })
+      )
+    ).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error posting payload drift alert',
+      expect.objectContaining({ message: expect.stringContaining('NOTIFICATION_ROUTES') })
+    );
+
+    if (previousRoutes === undefined) {
+      delete process.env.NOTIFICATION_ROUTES;
+    } else {
+      process.env.NOTIFICATION_ROUTES = previousRoutes;
+    }
+    errorSpy.mockRestore();
+  });
+});
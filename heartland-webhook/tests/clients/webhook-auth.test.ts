@@ -0,0 +1,219 @@
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+
+const mockSecretsSend = jest.fn();
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: mockSecretsSend })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+const SECRET = 'shh-webhook-secret';
+const NOW_MS = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+function makeEvent(
+  headers: Record<string, string>,
+  body = '{"id":1}'
+): APIGatewayProxyEventV2 {
+  return { headers, body } as unknown as APIGatewayProxyEventV2;
+}
+
+async function loadModule() {
+  jest.resetModules();
+  return import('../../src/webhook-auth');
+}
+
+describe('webhook-auth', () => {
+  beforeEach(() => {
+    mockSecretsSend.mockReset();
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
+  });
+
+  describe('verifyWebhookRequest', () => {
+    it('accepts a valid signature inside the tolerance window', async () => {
+      const { computeWebhookSignature, verifyWebhookRequest } = await loadModule();
+      const timestamp = String(NOW_MS / 1000 - 30);
+      const signature = computeWebhookSignature(SECRET, timestamp, '{"id":1}');
+
+      const result = verifyWebhookRequest(
+        makeEvent({
+          'X-Heartland-Signature': signature,
+          'X-Heartland-Timestamp': timestamp,
+        }),
+        SECRET,
+        { nowMs: NOW_MS }
+      );
+
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('verifies base64-encoded bodies against the decoded payload', async () => {
+      const { computeWebhookSignature, verifyWebhookRequest } = await loadModule();
+      const timestamp = String(NOW_MS / 1000);
+      const signature = computeWebhookSignature(SECRET, timestamp, '{"id":1}');
+      const event = {
+        ...makeEvent(
+          {
+            'x-heartland-signature': signature,
+            'x-heartland-timestamp': timestamp,
+          },
+          Buffer.from('{"id":1}').toString('base64')
+        ),
+        isBase64Encoded: true,
+      };
+
+      expect(verifyWebhookRequest(event, SECRET, { nowMs: NOW_MS })).toEqual({
+        ok: true,
+      });
+    });
+
+    it('rejects a signature computed over a different body', async () => {
+      const { computeWebhookSignature, verifyWebhookRequest } = await loadModule();
+      const timestamp = String(NOW_MS / 1000);
+      const signature = computeWebhookSignature(SECRET, timestamp, '{"id":2}');
+
+      const result = verifyWebhookRequest(
+        makeEvent({
+          'x-heartland-signature': signature,
+          'x-heartland-timestamp': timestamp,
+        }),
+        SECRET,
+        { nowMs: NOW_MS }
+      );
+
+      expect(result).toEqual({ ok: false, reason: 'signature mismatch' });
+    });
+
+    it('rejects replays outside the tolerance window', async () => {
+      const { computeWebhookSignature, verifyWebhookRequest } = await loadModule();
+      const timestamp = String(NOW_MS / 1000 - 301);
+      const signature = computeWebhookSignature(SECRET, timestamp, '{"id":1}');
+
+      const result = verifyWebhookRequest(
+        makeEvent({
+          'x-heartland-signature': signature,
+          'x-heartland-timestamp': timestamp,
+        }),
+        SECRET,
+        { nowMs: NOW_MS }
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        reason: 'timestamp outside tolerance window',
+      });
+    });
+
+    it('rejects signed requests without a timestamp', async () => {
+      const { verifyWebhookRequest } = await loadModule();
+
+      const result = verifyWebhookRequest(
+        makeEvent({ 'x-heartland-signature': 'abc' }),
+        SECRET,
+        { nowMs: NOW_MS }
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        reason: 'missing x-heartland-timestamp header',
+      });
+    });
+
+    it('accepts and rejects shared-secret headers', async () => {
+      const { verifyWebhookRequest } = await loadModule();
+
+      expect(
+        verifyWebhookRequest(makeEvent({ 'x-webhook-secret': SECRET }), SECRET)
+      ).toEqual({ ok: true });
+      expect(
+        verifyWebhookRequest(makeEvent({ 'x-webhook-secret': 'nope' }), SECRET)
+      ).toEqual({ ok: false, reason: 'shared secret mismatch' });
+    });
+
+    it('rejects requests without credentials', async () => {
+      const { verifyWebhookRequest } = await loadModule();
+
+      expect(verifyWebhookRequest(makeEvent({}), SECRET)).toEqual({
+        ok: false,
+        reason: 'missing signature, shared secret header or token',
+      });
+    });
+
+    it('accepts the token query parameter', async () => {
+      const { verifyWebhookRequest } = await loadModule();
+      // Function URLs pass the decoded query string as queryStringParameters
+      const delivery = (token: string) =>
+        ({
+          ...makeEvent({}),
+          queryStringParameters: { event: 'sales_transaction_completed', token },
+        }) as unknown as APIGatewayProxyEventV2;
+
+      expect(verifyWebhookRequest(delivery(SECRET), SECRET)).toEqual({ ok: true });
+      expect(verifyWebhookRequest(delivery(SECRET), 'rotated-secret')).toEqual({
+        ok: false,
+        reason: 'token mismatch',
+      });
+    });
+
+    it('accepts tokens with characters that were escaped in the URL', async () => {
+      const { verifyWebhookRequest } = await loadModule();
+      const secret = 'a+b/c=d&e f';
+      const url = new URL('https://abc.lambda-url.us-east-1.on.aws/?event=item_created');
+      url.searchParams.set('token', secret);
+
+      expect(
+        verifyWebhookRequest(
+          {
+            ...makeEvent({}),
+            queryStringParameters: Object.fromEntries(url.searchParams),
+          } as APIGatewayProxyEventV2,
+          secret
+        )
+      ).toEqual({ ok: true });
+    });
+  });
+
+  describe('authenticateWebhookEvent', () => {
+    it('allows requests when no secret is configured and auth is optional', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { authenticateWebhookEvent } = await loadModule();
+
+      await expect(authenticateWebhookEvent(makeEvent({}))).resolves.toEqual({
+        ok: true,
+      });
+      expect(mockSecretsSend).not.toHaveBeenCalled();
+
+      warnSpy.mockRestore();
+    });
+
+    it('rejects requests when auth is required but no secret is configured', async () => {
+      process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+      process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+      mockSecretsSend.mockResolvedValue({
+        SecretString: JSON.stringify({ heartland: { token: 't' } }),
+      });
+      const { authenticateWebhookEvent } = await loadModule();
+
+      await expect(authenticateWebhookEvent(makeEvent({}))).resolves.toEqual({
+        ok: false,
+        reason: 'webhook secret is not configured',
+      });
+    });
+
+    it('verifies against heartland.webhookSecret and caches it', async () => {
+      process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+      mockSecretsSend.mockResolvedValue({
+        SecretString: JSON.stringify({ heartland: { webhookSecret: SECRET } }),
+      });
+      const { authenticateWebhookEvent } = await loadModule();
+
+      await expect(
+        authenticateWebhookEvent(makeEvent({ 'x-webhook-secret': SECRET }))
+      ).resolves.toEqual({ ok: true });
+      await expect(
+        authenticateWebhookEvent(makeEvent({ 'x-webhook-secret': 'wrong' }))
+      ).resolves.toEqual({ ok: false, reason: 'shared secret mismatch' });
+      expect(mockSecretsSend).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+import {
+  DEFAULT_WEBHOOK_ROUTES,
+  parseWebhookRoutes,
+  resolveEventType,
+} from '../../src/webhook-routes';
+
+function makeEvent(
+  query?: Record<string, string>,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEventV2 {
+  return { queryStringParameters: query, headers } as unknown as APIGatewayProxyEventV2;
+}
+
+describe('resolveEventType', () => {
+  it('prefers the event query parameter', () => {
+    expect(
+      resolveEventType(
+        makeEvent({ event: 'item_created' }, { 'x-heartland-event': 'item_updated' })
+      )
+    ).toBe('item_created');
+  });
+
+  it('falls back to the x-heartland-event header in any case', () => {
+    expect(
+      resolveEventType(makeEvent(undefined, { 'X-Heartland-Event': 'customer_created' }))
+    ).toBe('customer_created');
+    expect(resolveEventType(makeEvent())).toBeUndefined();
+  });
+});
+
+describe('parseWebhookRoutes', () => {
+  const modules = ['transaction', 'item', 'log'];
+
+  it('uses the default routes when unset', () => {
+    expect(parseWebhookRoutes(undefined, modules)).toBe(DEFAULT_WEBHOOK_ROUTES);
+  });
+
+  it('parses a route map', () => {
+    expect(
+      parseWebhookRoutes(
+        JSON.stringify({ item_created: 'item', customer_created: 'log' }),
+        modules
+      )
+    ).toEqual({ item_created: 'item', customer_created: 'log' });
+  });
+
+  it('throws on malformed maps and unknown modules', () => {
+    expect(() => parseWebhookRoutes('{', modules)).toThrow('WEBHOOK_ROUTES is not valid JSON');
+    expect(() => parseWebhookRoutes('["item"]', modules)).toThrow(
+      'WEBHOOK_ROUTES must be an object'
+    );
+    expect(() =>
+      parseWebhookRoutes(JSON.stringify({ item_updated: 'items' }), modules)
+    ).toThrow('WEBHOOK_ROUTES maps item_updated to unknown handler module items');
+  });
+});
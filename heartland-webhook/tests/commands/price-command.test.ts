@@ -0,0 +1,81 @@
+import { BrickLinkClient, HeartlandApiClient } from '../../src/clients';
+import { PriceCommand } from '../../src/commands/price-command';
+
+describe('PriceCommand', () => {
+  const guide = (newOrUsed: 'N' | 'U', avg: string, quantity: number) => ({
+    new_or_used: newOrUsed,
+    currency_code: 'USD',
+    min_price: '0',
+    max_price: '0',
+    avg_price: avg,
+    qty_avg_price: avg,
+    unit_quantity: quantity,
+    total_quantity: quantity,
+  });
+
+  it('shows our price next to the BrickLink sold averages', async () => {
+    const apiClient = {
+      findItemsByPublicId: jest.fn().mockResolvedValue({
+        total: 1,
+        pages: 1,
+        results: [{ id: 109600, public_id: '75192-1', description: 'Millennium Falcon', price: 849.99 }],
+      }),
+    };
+    const bricklinkClient = {
+      getItem: jest.fn().mockResolvedValue({ item: { no: '75192-1', type: 'SET' } }),
+      getPriceGuide: jest
+        .fn()
+        .mockImplementation((_type: string, _no: string, options: { newOrUsed: 'N' | 'U' }) =>
+          Promise.resolve(
+            options.newOrUsed === 'N' ? guide('N', '780.5', 12) : guide('U', '0', 0)
+          )
+        ),
+    };
+    const command = new PriceCommand(
+      apiClient as unknown as HeartlandApiClient,
+      bricklinkClient as unknown as BrickLinkClient
+    );
+
+    await expect(command.run(['75192-1'])).resolves.toBe(
+      [
+        '75192-1 Millennium Falcon',
+        'Our price: $849.99 (item 109600)',
+        'BrickLink sold, last 6 months: new avg 780.50 USD (12 sold), used no sales',
+      ].join('\n')
+    );
+    expect(bricklinkClient.getPriceGuide).toHaveBeenCalledWith('SET', '75192-1', {
+      guideType: 'sold',
+      newOrUsed: 'N',
+    });
+  });
+
+  it('still answers with the BrickLink name when the set is not in Heartland', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const apiClient = {
+      findItemsByPublicId: jest.fn().mockResolvedValue({ total: 0, pages: 0, results: [] }),
+      getInventoryItem: jest.fn().mockRejectedValue(new Error('HTTP 404 from Heartland API: ')),
+    };
+    const bricklinkClient = {
+      getItem: jest.fn().mockResolvedValue({ name: 'Kayak Adventure', item: { no: '60240-1', type: 'SET' } }),
+      getPriceGuide: jest.fn().mockResolvedValue(guide('N', '12', 3)),
+    };
+    const command = new PriceCommand(
+      apiClient as unknown as HeartlandApiClient,
+      bricklinkClient as unknown as BrickLinkClient
+    );
+
+    await expect(command.run(['60240'])).resolves.toBe(
+      [
+        '60240-1 Kayak Adventure',
+        'Our price: not in Heartland',
+        'BrickLink sold, last 6 months: new avg 12.00 USD (3 sold), used avg 12.00 USD (3 sold)',
+      ].join('\n')
+    );
+
+    bricklinkClient.getPriceGuide.mockRejectedValue(new Error('BrickLink API error: meta.code=404'));
+    await expect(command.run(['60240'])).resolves.toContain(
+      'BrickLink: lookup failed (Error: BrickLink API error: meta.code=404)'
+    );
+    errorSpy.mockRestore();
+  });
+});
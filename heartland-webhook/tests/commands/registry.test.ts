@@ -0,0 +1,16 @@
+import { BrickLinkClient, HeartlandApiClient } from '../../src/clients';
+import { HeartlandReportRunner } from '../../src/heartland-report-runner';
+import { COMMAND_REGISTRY, buildChatCommands } from '../../src/commands/registry';
+
+describe('command registry', () => {
+  it('builds each registered command under its own name', () => {
+    const commands = buildChatCommands({
+      heartland: { apiClient: {} as HeartlandApiClient, baseUrl: 'https://example.heartland.test' },
+      bricklinkClient: {} as BrickLinkClient,
+      reportRunner: {} as HeartlandReportRunner,
+    });
+
+    expect(commands.map((command) => command.name)).toEqual(Object.keys(COMMAND_REGISTRY));
+    expect(commands.every((command) => command.usage.startsWith(`!${command.name}`))).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { HeartlandReportRunner } from '../../src/heartland-report-runner';
+import { StaleInventoryCommand } from '../../src/commands/stale-inventory-command';
+
+describe('StaleInventoryCommand', () => {
+  const row = (publicId: string, daysSinceLastSold: number | null, lastSold: string | null) => ({
+    'location.name': 'Bricks & Minifigs Herndon',
+    'item.public_id': publicId,
+    'item.description': `${publicId} set`,
+    'current_inventory.last_sold_date': lastSold,
+    'current_inventory.days_since_last_sold': daysSinceLastSold,
+    'current_inventory.last_received_date': null,
+    'current_inventory.days_since_last_received': null,
+    'ending_inventory.qty_owned': 1,
+  });
+
+  it('lists the department longest unsold first, never sold on top', async () => {
+    const reportRunner = {
+      findItemsNotSold: jest.fn().mockResolvedValue({
+        total: 3,
+        pages: 1,
+        results: [
+          row('11006-1', 503, '2024-09-29'),
+          row('31119-1', null, null),
+          row('60240-1', 90, '2025-12-01'),
+        ],
+      }),
+    };
+    const command = new StaleInventoryCommand(reportRunner as unknown as HeartlandReportRunner);
+
+    await expect(command.run(['Used', '90'])).resolves.toBe(
+      [
+        'Used Sets not sold in 90 days: 3 item(s)',
+        '• 31119-1 set (31119-1) at Bricks & Minifigs Herndon: 1 owned, never sold',
+        '• 11006-1 set (11006-1) at Bricks & Minifigs Herndon: 1 owned, last sold 2024-09-29',
+        '• 60240-1 set (60240-1) at Bricks & Minifigs Herndon: 1 owned, last sold 2025-12-01',
+      ].join('\n')
+    );
+    expect(reportRunner.findItemsNotSold).toHaveBeenCalledWith('Used Sets', 90);
+  });
+
+  it('defaults to 60 days and rejects unknown departments', async () => {
+    const reportRunner = {
+      findItemsNotSold: jest.fn().mockResolvedValue({ total: 0, pages: 1, results: [] }),
+    };
+    const command = new StaleInventoryCommand(reportRunner as unknown as HeartlandReportRunner);
+
+    await expect(command.run(['new'])).resolves.toBe('New Sets not sold in 60 days: 0 item(s)');
+    await expect(command.run(['minifigs'])).resolves.toBe('Usage: !stale <used|new> [days]');
+    await expect(command.run(['used', '-3'])).resolves.toBe('Usage: !stale <used|new> [days]');
+    expect(reportRunner.findItemsNotSold).toHaveBeenCalledTimes(1);
+  });
+});
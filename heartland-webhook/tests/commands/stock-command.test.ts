@@ -0,0 +1,67 @@
+import { HeartlandApiClient } from '../../src/clients';
+import { StockCommand } from '../../src/commands/stock-command';
+
+describe('StockCommand', () => {
+  const baseUrl = 'https://example.heartland.test';
+
+  function makeApiClient(overrides: Partial<Record<keyof HeartlandApiClient, jest.Mock>> = {}) {
+    return {
+      findItemsByPublicId: jest.fn().mockResolvedValue({ total: 0, pages: 0, results: [] }),
+      getInventoryItem: jest.fn(),
+      getInventoryValues: jest.fn().mockResolvedValue({ total: 0, pages: 0, results: [] }),
+      ...overrides,
+    };
+  }
+
+  it('finds a set number by its BrickLink public id and lists stock per location', async () => {
+    const apiClient = makeApiClient({
+      findItemsByPublicId: jest
+        .fn()
+        .mockResolvedValueOnce({ total: 0, pages: 0, results: [] })
+        .mockResolvedValueOnce({
+          total: 1,
+          pages: 1,
+          results: [{ id: 109531, public_id: '60240-1', description: 'Kayak Adventure' }],
+        }),
+      getInventoryValues: jest.fn().mockResolvedValue({
+        total: 2,
+        pages: 1,
+        results: [
+          { item_id: 109531, location_id: 100005, qty_on_hand: 2, qty_available: 1 },
+          { item_id: 109531, location_id: 100006, qty_on_hand: 1, qty_available: 1 },
+        ],
+      }),
+    });
+    const command = new StockCommand(apiClient as unknown as HeartlandApiClient, baseUrl);
+
+    await expect(command.run(['60240'])).resolves.toBe(
+      [
+        '60240-1 Kayak Adventure: 3 on hand',
+        '• location 100005: 2 on hand, 1 available',
+        '• location 100006: 1 on hand, 1 available',
+        `${baseUrl}/#items/edit/109531`,
+      ].join('\n')
+    );
+    expect(apiClient.findItemsByPublicId.mock.calls).toEqual([['60240'], ['60240-1']]);
+    expect(apiClient.getInventoryValues).toHaveBeenCalledWith(109531);
+  });
+
+  it('falls back to the Heartland item id', async () => {
+    const apiClient = makeApiClient({
+      getInventoryItem: jest.fn().mockResolvedValue({ id: 2002, description: 'Batwing' }),
+    });
+    const command = new StockCommand(apiClient as unknown as HeartlandApiClient, baseUrl);
+
+    await expect(command.run(['2002'])).resolves.toMatch(/^Batwing: 0 on hand\n/);
+  });
+
+  it('says when nothing matches and shows the usage without an argument', async () => {
+    const apiClient = makeApiClient({
+      getInventoryItem: jest.fn().mockRejectedValue(new Error('HTTP 404 from Heartland API: ')),
+    });
+    const command = new StockCommand(apiClient as unknown as HeartlandApiClient, baseUrl);
+
+    await expect(command.run(['99999'])).resolves.toBe('No item found for 99999');
+    await expect(command.run([])).resolves.toBe('Usage: !stock <set number or item id>');
+  });
+});
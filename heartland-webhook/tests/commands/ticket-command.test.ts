@@ -0,0 +1,50 @@
+import { HeartlandApiClient } from '../../src/clients';
+import { TicketCommand } from '../../src/commands/ticket-command';
+
+describe('TicketCommand', () => {
+  const baseUrl = 'https://example.heartland.test';
+
+  it('summarizes the ticket and its item lines', async () => {
+    const apiClient = {
+      getTicket: jest.fn().mockResolvedValue({
+        id: 117060,
+        type: 'Ticket',
+        status: 'complete',
+        total: 42.5,
+        completed_at: '2026-03-01T12:00:00Z',
+      }),
+      getTicketLines: jest.fn().mockResolvedValue({
+        total: 3,
+        pages: 1,
+        results: [
+          { id: 1, type: 'ItemLine', item_id: 2002, item_description: 'Batwing', qty: 1, unit_price: 75, adjusted_unit_price: 15 },
+          { id: 2, type: 'ItemLine', item_id: 2003, description: 'Tower', qty: 2, unit_price: 13.75 },
+          { id: 3, type: 'TaxLine' },
+        ],
+      }),
+    };
+    const command = new TicketCommand(apiClient as unknown as HeartlandApiClient, baseUrl);
+
+    await expect(command.run(['117060'])).resolves.toBe(
+      [
+        'Ticket 117060 (Ticket): complete, total 42.50, completed 2026-03-01T12:00:00Z',
+        '2 item line(s)',
+        '• Batwing x1 @ 15.00',
+        '• Tower x2 @ 13.75',
+        `${baseUrl}/#sales/tickets/edit/117060`,
+      ].join('\n')
+    );
+  });
+
+  it('answers unknown tickets and bad ids without calling the lines', async () => {
+    const apiClient = {
+      getTicket: jest.fn().mockRejectedValue(new Error('HTTP 404 from Heartland API: ')),
+      getTicketLines: jest.fn(),
+    };
+    const command = new TicketCommand(apiClient as unknown as HeartlandApiClient, baseUrl);
+
+    await expect(command.run(['5'])).resolves.toBe('No ticket 5');
+    await expect(command.run(['abc'])).resolves.toBe('Usage: !ticket <ticket id>');
+    expect(apiClient.getTicketLines).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { ScheduledEvent } from 'aws-lambda';
+
+const mockDynamoSend = jest.fn();
+const mockGroupMeSendMessage = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: jest.fn(() => ({ send: mockDynamoSend })) },
+  };
+});
+
+jest.mock('../../src/clients', () => ({
+  ...jest.requireActual('../../src/clients'),
+  DefaultGroupMeClient: jest.fn((botId: string) => ({
+    sendMessage: (text: string) => mockGroupMeSendMessage(botId, text),
+  })),
+}));
+
+const baseEvent = {
+  id: 'evt-123',
+  time: '2026-03-02T02:00:00Z',
+  source: 'aws.events',
+} as ScheduledEvent;
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/alert-digest')).handler;
+}
+
+describe('alert digest handler', () => {
+  const stored = (alertType: string, text: string, fingerprint?: string) => ({
+    entry: {
+      alertType,
+      entryId: `2026-03-01T12:00:00.000Z#${text.length}`,
+      createdAt: '2026-03-01T12:00:00.000Z',
+      text,
+      fingerprint,
+    },
+  });
+
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockDynamoSend.mockReset();
+    mockGroupMeSendMessage.mockReset().mockResolvedValue(undefined);
+    process.env.ALERT_DIGEST_TABLE_NAME = 'AlertDigest';
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.NOTIFICATION_ROUTES = JSON.stringify({
+      channels: {
+        store: { type: 'groupme', botId: 'store-bot' },
+        buyers: { type: 'groupme', botId: 'buyers-bot' },
+      },
+      routes: { 'image-failure': ['buyers'] },
+      defaultChannels: ['store'],
+      delivery: {
+        'price-adjusted-item': 'digest',
+        'high-discount-ticket': 'both',
+        'image-failure': 'digest',
+        'inventory-non-negative': 'immediate',
+      },
+    });
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    delete process.env.ALERT_DIGEST_TABLE_NAME;
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.NOTIFICATION_ROUTES;
+  });
+
+  function queueEntries(byType: Record<string, ReturnType<typeof stored>[]>): void {
+    mockDynamoSend.mockImplementation((command: { input: Record<string, unknown> }) => {
+      const values = command.input.ExpressionAttributeValues as
+        | Record<string, string>
+        | undefined;
+      const alertType = values?.[':alertType'];
+      return Promise.resolve(alertType ? { Items: byType[alertType] ?? [] } : {});
+    });
+  }
+
+  it('posts one digest per set of channels and drops the posted alerts', async () => {
+    queueEntries({
+      'price-adjusted-item': [stored('price-adjusted-item', 'Batwing adjusted', 'ticket:117060:line:1')],
+      'high-discount-ticket': [stored('high-discount-ticket', 'Ticket 117070 discounted', 'ticket:117070')],
+      'image-failure': [stored('image-failure', 'Cannot set image for 109531')],
+    });
+    const handler = await loadHandler();
+
+    const result = await handler(baseEvent);
+
+    expect(result).toEqual({ sent: 2, alerts: 3, failedRoutes: [] });
+    expect(mockGroupMeSendMessage).toHaveBeenCalledTimes(2);
+    const [storeDigest, buyersDigest] = mockGroupMeSendMessage.mock.calls;
+    expect(storeDigest[0]).toBe('store-bot');
+    expect(storeDigest[1]).toContain('Alert digest: 2 alert(s)');
+    expect(storeDigest[1]).toContain('price-adjusted-item: 1 alert(s)');
+    expect(storeDigest[1]).toContain(
+      '• ticket 117070 ( https://example.heartland.test/#sales/tickets/edit/117070 ): 1'
+    );
+    expect(buyersDigest[0]).toBe('buyers-bot');
+    expect(buyersDigest[1]).toContain('image-failure: 1 alert(s)');
+
+    const queried = mockDynamoSend.mock.calls
+      .map(([command]) => command.input.ExpressionAttributeValues?.[':alertType'])
+      .filter(Boolean);
+    expect(queried).toEqual(['price-adjusted-item', 'high-discount-ticket', 'image-failure']);
+    const deleted = mockDynamoSend.mock.calls
+      .map(([command]) => command.input)
+      .filter((input) => input.Key);
+    expect(deleted).toHaveLength(3);
+  });
+
+  it('keeps the alerts of a digest that could not be posted and fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    queueEntries({
+      'price-adjusted-item': [stored('price-adjusted-item', 'Batwing adjusted')],
+      'image-failure': [stored('image-failure', 'Cannot set image for 109531')],
+    });
+    mockGroupMeSendMessage.mockImplementation((botId: string) =>
+      botId === 'store-bot' ? Promise.reject(new Error('GroupMe HTTP 500')) : Promise.resolve()
+    );
+    const handler = await loadHandler();
+
+    await expect(handler(baseEvent)).rejects.toThrow('Alert digest failed for channels store');
+
+    const deleted = mockDynamoSend.mock.calls
+      .map(([command]) => command.input)
+      .filter((input) => input.Key);
+    expect(deleted).toEqual([
+      { TableName: 'AlertDigest', Key: { alertType: 'image-failure', entryId: expect.any(String) } },
+    ]);
+    errorSpy.mockRestore();
+  });
+
+  it('posts nothing when no alerts were buffered', async () => {
+    queueEntries({});
+    const handler = await loadHandler();
+
+    await expect(handler(baseEvent)).resolves.toEqual({ sent: 0, alerts: 0, failedRoutes: [] });
+    expect(mockGroupMeSendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { ScheduledEvent } from 'aws-lambda';
+
+const mockDynamoSend = jest.fn();
+const mockGroupMeSendMessage = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: jest.fn(() => ({ send: mockDynamoSend })) },
+  };
+});
+
+jest.mock('../../src/clients', () => ({
+  ...jest.requireActual('../../src/clients'),
+  DefaultGroupMeClient: jest.fn((botId: string) => ({
+    sendMessage: (text: string) => mockGroupMeSendMessage(botId, text),
+  })),
+}));
+
+const baseEvent = {
+  id: 'evt-123',
+  time: '2026-03-02T02:00:00Z',
+  source: 'aws.events',
+} as ScheduledEvent;
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/alert-suppression-sweep')).handler;
+}
+
+describe('alert suppression sweep handler', () => {
+  const pendingRow = (alertType: string, key: string, text: string) => ({
+    fingerprint: `${alertType}#${key}`,
+    sentAt: '2026-03-02T00:00:00.000Z',
+    windowEndsAt: 0,
+    suppressedCount: 3,
+    lastRepeat: { alertType, text },
+  });
+
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockDynamoSend.mockReset();
+    mockGroupMeSendMessage.mockReset().mockResolvedValue(undefined);
+    process.env.ALERT_SUPPRESSION_TABLE_NAME = 'AlertSuppression';
+    process.env.NOTIFICATION_ROUTES = JSON.stringify({
+      channels: {
+        store: { type: 'groupme', botId: 'store-bot' },
+        buyers: { type: 'groupme', botId: 'buyers-bot' },
+      },
+      routes: { 'image-failure': ['buyers'] },
+      defaultChannels: ['store'],
+      suppressionWindowMinutes: { 'image-failure': 10 },
+    });
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    delete process.env.ALERT_SUPPRESSION_TABLE_NAME;
+    delete process.env.NOTIFICATION_ROUTES;
+  });
+
+  function queueRows(rows: ReturnType<typeof pendingRow>[]): void {
+    mockDynamoSend.mockImplementation((command: { input: Record<string, unknown> }) => {
+      if (command.input.FilterExpression) {
+        return Promise.resolve({ Items: rows });
+      }
+      if (command.input.Item) {
+        const fingerprint = (command.input.Item as { fingerprint: string }).fingerprint;
+        const row = rows.find((candidate) => candidate.fingerprint === fingerprint);
+        return Promise.resolve({ Attributes: row });
+      }
+      return Promise.resolve({});
+    });
+  }
+
+  it('reports pending repeats on the channels and window of their alert type', async () => {
+    queueRows([
+      pendingRow('inventory-non-negative', 'item:2002@100005', 'Batwing is at -3'),
+      pendingRow('image-failure', 'abc', 'Cannot set image for 109531'),
+    ]);
+    const handler = await loadHandler();
+
+    await expect(handler(baseEvent)).resolves.toEqual({ reported: 2, failedFingerprints: [] });
+
+    expect(mockGroupMeSendMessage.mock.calls).toEqual([
+      ['store-bot', 'Batwing is at -3\n(repeated 3 time(s) since 2026-03-02T00:00:00.000Z)'],
+      [
+        'buyers-bot',
+        'Cannot set image for 109531\n(repeated 3 time(s) since 2026-03-02T00:00:00.000Z)',
+      ],
+    ]);
+    const windows = mockDynamoSend.mock.calls
+      .map(([command]) => command.input.Item)
+      .filter(Boolean)
+      .map((item) => item.windowEndsAt - Math.floor(Date.parse(item.sentAt) / 1000));
+    expect(windows).toEqual([3600, 600]);
+  });
+
+  it('fails when a report cannot be sent', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    queueRows([pendingRow('inventory-non-negative', 'item:2002@100005', 'Batwing is at -3')]);
+    mockGroupMeSendMessage.mockRejectedValue(new Error('GroupMe HTTP 500'));
+    const handler = await loadHandler();
+
+    await expect(handler(baseEvent)).rejects.toThrow(
+      'Reporting suppressed repeats failed for inventory-non-negative#item:2002@100005'
+    );
+    const released = mockDynamoSend.mock.calls
+      .map(([command]) => command.input)
+      .filter((input) => input.UpdateExpression);
+    expect(released).toHaveLength(1);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockSecretsSend = jest.fn();
+const mockGroupMeSendMessage = jest.fn();
+const mockFindItemsByPublicId = jest.fn();
+const mockGetInventoryValues = jest.fn();
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: mockSecretsSend })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+jest.mock('../../src/clients', () => ({
+  ...jest.requireActual('../../src/clients'),
+  DefaultHeartlandApiClient: jest.fn(() => ({
+    findItemsByPublicId: (...args: unknown[]) => mockFindItemsByPublicId(...args),
+    getInventoryValues: (...args: unknown[]) => mockGetInventoryValues(...args),
+  })),
+  DefaultBrickLinkClient: jest.fn(() => ({})),
+  DefaultGroupMeClient: jest.fn((botId: string) => ({
+    sendMessage: (text: string) => mockGroupMeSendMessage(botId, text),
+  })),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+function makeEvent(text: string, options: { token?: string; userId?: string } = {}) {
+  return {
+    requestContext: { http: { method: 'POST' } },
+    queryStringParameters: { token: options.token ?? 'callback-token' },
+    body: JSON.stringify({
+      group_id: '1234',
+      user_id: options.userId ?? '11',
+      name: 'Sam',
+      sender_type: 'user',
+      text,
+    }),
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/group-commands')).handler;
+}
+
+describe('group commands handler', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockSecretsSend.mockReset().mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'heartland-token' },
+        bricklink: { consumerKey: 'ck', consumerSecret: 'cs', tokenValue: 'tv', tokenSecret: 'ts' },
+        groupme: { callbackToken: 'callback-token' },
+      }),
+    });
+    mockGroupMeSendMessage.mockReset().mockResolvedValue(undefined);
+    mockFindItemsByPublicId.mockReset();
+    mockGetInventoryValues.mockReset();
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.GROUPME_COMMAND_BOT_ID = 'command-bot';
+    process.env.GROUPME_COMMAND_USER_IDS = '11';
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.GROUPME_COMMAND_BOT_ID;
+    delete process.env.GROUPME_COMMAND_USER_IDS;
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
+  });
+
+  it('answers a command in the group through the command bot', async () => {
+    mockFindItemsByPublicId.mockResolvedValue({
+      total: 1,
+      pages: 1,
+      results: [{ id: 109531, public_id: '60240-1', description: 'Kayak Adventure' }],
+    });
+    mockGetInventoryValues.mockResolvedValue({
+      total: 1,
+      pages: 1,
+      results: [{ item_id: 109531, location_id: 100005, qty_on_hand: 2, qty_available: 2 }],
+    });
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('!stock 60240-1')));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string)).toEqual({ status: 'ok', replied: true });
+    expect(mockGroupMeSendMessage).toHaveBeenCalledWith(
+      'command-bot',
+      expect.stringMatching(/^60240-1 Kayak Adventure: 2 on hand\n/)
+    );
+  });
+
+  it('does not reply to ordinary chat', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('lunch?')));
+
+    expect(JSON.parse(result.body as string)).toEqual({ status: 'ok', replied: false });
+    expect(mockGroupMeSendMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects callbacks without the callback token', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('!stock 1', { token: 'guess' })));
+
+    expect(result.statusCode).toBe(401);
+    expect(mockFindItemsByPublicId).not.toHaveBeenCalled();
+    expect(mockGroupMeSendMessage).not.toHaveBeenCalled();
+  });
+
+  it('requires the callback token when webhook auth is required', async () => {
+    process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({ heartland: { token: 'heartland-token' } }),
+    });
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('!help')));
+
+    expect(result.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockDynamoSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: jest.fn(() => ({ send: mockDynamoSend })) },
+  };
+});
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+function makeEvent(
+  method: string,
+  options: { query?: Record<string, string>; body?: unknown } = {}
+): APIGatewayProxyEventV2 {
+  return {
+    requestContext: {
+      http: { method },
+      authorizer: { iam: { userArn: 'arn:aws:iam::445473841172:user/pat' } },
+    },
+    queryStringParameters: options.query,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/inventory-exclusions')).handler;
+}
+
+describe('inventory exclusions handler', () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockDynamoSend.mockReset();
+    process.env.INVENTORY_EXCLUSIONS_TABLE_NAME = 'InventoryExclusions';
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    delete process.env.INVENTORY_EXCLUSIONS_TABLE_NAME;
+  });
+
+  it('adds an exclusion attributed to the IAM caller', async () => {
+    mockDynamoSend.mockResolvedValue({});
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(
+        makeEvent('POST', {
+          body: { field: 'department', value: 'Gift Cards', reason: 'not stocked' },
+        })
+      )
+    );
+
+    expect(result.statusCode).toBe(201);
+    expect(JSON.parse(result.body as string).exclusion).toMatchObject({
+      rule: { kind: 'custom-field', field: 'department', value: 'Gift Cards' },
+      reason: 'not stocked',
+      createdBy: 'arn:aws:iam::445473841172:user/pat',
+    });
+  });
+
+  it('rejects an invalid exclusion without writing', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(makeEvent('POST', { body: { itemId: 'abc' } }))
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body as string).error).toBe('"itemId" must be an integer');
+    expect(mockDynamoSend).not.toHaveBeenCalled();
+  });
+
+  it('lists only active exclusions unless expired ones are requested', async () => {
+    const active = { id: 'a', rule: { kind: 'item', itemId: 1 } };
+    const expired = {
+      id: 'b',
+      rule: { kind: 'tag', tag: 'x' },
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    };
+    mockDynamoSend.mockResolvedValue({ Items: [{ exclusion: active }, { exclusion: expired }] });
+    const handler = await loadHandler();
+
+    const current = asStructuredResult(await handler(makeEvent('GET')));
+    const all = asStructuredResult(
+      await handler(makeEvent('GET', { query: { includeExpired: 'true' } }))
+    );
+
+    expect(JSON.parse(current.body as string).exclusions).toEqual([active]);
+    expect(JSON.parse(all.body as string).exclusions).toEqual([active, expired]);
+  });
+
+  it('returns the audit trail', async () => {
+    const entry = { action: 'added', exclusionId: 'a', actor: 'pat' };
+    mockDynamoSend.mockResolvedValue({ Items: [{ entry }] });
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(makeEvent('GET', { query: { audit: 'true', limit: '5' } }))
+    );
+
+    expect(JSON.parse(result.body as string).audit).toEqual([entry]);
+    expect(mockDynamoSend.mock.calls[0][0].input).toMatchObject({ Limit: 5 });
+  });
+
+  it('returns 404 when deleting an unknown exclusion', async () => {
+    mockDynamoSend.mockResolvedValue({});
+    const handler = await loadHandler();
+
+    const missingId = asStructuredResult(await handler(makeEvent('DELETE')));
+    const unknown = asStructuredResult(
+      await handler(makeEvent('DELETE', { query: { id: 'nope' } }))
+    );
+
+    expect(missingId.statusCode).toBe(400);
+    expect(unknown.statusCode).toBe(404);
+  });
+
+  it('fails when no table is configured', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    delete process.env.INVENTORY_EXCLUSIONS_TABLE_NAME;
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('GET')));
+
+    expect(result.statusCode).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
@@ -78,6 +78,7 @@ describe('item_created handler', () => {
     delete process.env.OPERATIONAL_SECRET_ARN;
     delete process.env.GROUPME_BOT_ID;
     delete process.env.TOYHOUSE_MASTER_DATA_S3_PATH;
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
   });
 
   it('returns ok when body is missing', async () => {
@@ -487,6 +488,51 @@ describe('item_created handler', () => {
     );
   });
 
+  it('attaches the candidate image when Heartland rejects it', async () => {
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.GROUPME_BOT_ID = 'bot-1';
+    const handler = await loadHandler();
+
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'heartland-token' },
+        bricklink: {
+          consumerKey: 'ck',
+          consumerSecret: 'cs',
+          tokenValue: 'tv',
+          tokenSecret: 'ts',
+        },
+      }),
+    });
+    mockBricklinkClient.getItem.mockResolvedValue({
+      item: { no: '31119-1', type: 'SET' },
+      image_url: 'https://img.example/31119.jpg',
+    });
+    mockHeartlandClient.updateInventoryItemImage.mockRejectedValue(
+      new Error('HTTP 422 from Heartland API')
+    );
+
+    const body = JSON.stringify({
+      id: 109531,
+      custom: { bricklink_id: '31119-1' },
+    });
+
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body,
+      })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
+      'Cannot set image for 109531 (https://example.heartland.test/#items/edit/109531 ) because Heartland image update failed: Error: HTTP 422 from Heartland API',
+      undefined,
+      { imageUrl: 'https://img.example/31119.jpg' }
+    );
+  });
+
   it('logs errors when secrets are missing fields', async () => {
     const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
     process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
@@ -517,4 +563,75 @@ describe('item_created handler', () => {
 
     errorSpy.mockRestore();
   });
+
+  it('returns 401 without touching Heartland when the secret header is wrong', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+    const handler = await loadHandler();
+
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'heartland-token', webhookSecret: 'expected' },
+      }),
+    });
+
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        headers: { 'x-webhook-secret': 'guessed' },
+        body: JSON.stringify({ id: 109531, custom: { bricklink_id: '31119-1' } }),
+      })
+    );
+
+    expect(result.statusCode).toBe(401);
+    expect(JSON.parse(result.body as string)).toEqual({ status: 'unauthorized' });
+    expect(mockHeartlandClient.updateInventoryItemImage).not.toHaveBeenCalled();
+    expect(mockHeartlandClient.updateInventoryItem).not.toHaveBeenCalled();
+    expect(mockGroupMeClient.sendMessage).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  it('does not re-upload the image for a retried item_created delivery', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    const handler = await loadHandler();
+
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'heartland-token' },
+        bricklink: {
+          consumerKey: 'ck',
+          consumerSecret: 'cs',
+          tokenValue: 'tv',
+          tokenSecret: 'ts',
+        },
+      }),
+    });
+    mockBricklinkClient.getItem.mockResolvedValue({
+      item: { no: '31119-1', type: 'SET' },
+      image_url: 'https://img.example/31119.jpg',
+    });
+
+    const body = JSON.stringify({
+      id: 109531,
+      custom: { bricklink_id: '31119-1' },
+    });
+
+    await handler({ ...(baseEvent as APIGatewayProxyEventV2), body });
+    const retry = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+
+    expect(retry.statusCode).toBe(200);
+    expect(JSON.parse(retry.body as string)).toEqual({ status: 'ok' });
+    expect(mockHeartlandClient.updateInventoryItemImage).toHaveBeenCalledTimes(1);
+    expect(mockHeartlandClient.updateInventoryItem).toHaveBeenCalledTimes(1);
+
+    logSpy.mockRestore();
+  });
 });
+
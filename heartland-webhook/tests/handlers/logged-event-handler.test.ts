@@ -0,0 +1,87 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockS3Send = jest.fn();
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: jest.fn() })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  S3Client: jest.fn(() => ({ send: mockS3Send })),
+  GetObjectCommand: jest.fn((input) => input),
+  PutObjectCommand: jest.fn((input) => input),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/logged-event')).handler;
+}
+
+describe('logged event handler', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockS3Send.mockReset().mockResolvedValue({});
+    process.env.WEBHOOK_ARCHIVE_BUCKET = 'webhook-archive';
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ARCHIVE_BUCKET;
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('archives and logs the payload under its event type', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler({
+        headers: {},
+        queryStringParameters: { event: 'customer_created' },
+        body: '{"id":77,"name":"Pat"}',
+      } as unknown as APIGatewayProxyEventV2)
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(mockS3Send.mock.calls[0][0]).toMatchObject({
+      Key: expect.stringMatching(/\/customer_created\/77\.json$/),
+      Body: '{"id":77,"name":"Pat"}',
+    });
+    expect(logSpy).toHaveBeenCalledWith(
+      'Received Heartland customer_created webhook:',
+      expect.stringContaining('"Pat"')
+    );
+  });
+
+  it('acknowledges unparseable bodies without archiving', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler({ headers: {}, body: '{nope' } as unknown as APIGatewayProxyEventV2)
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(mockS3Send).not.toHaveBeenCalled();
+
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockS3Send = jest.fn();
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  S3Client: jest.fn(() => ({ send: mockS3Send })),
+  GetObjectCommand: jest.fn((input) => input),
+  PutObjectCommand: jest.fn((input) => input),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+function makeEvent(query?: Record<string, string>): APIGatewayProxyEventV2 {
+  return { queryStringParameters: query } as unknown as APIGatewayProxyEventV2;
+}
+
+function objectBody(text: string) {
+  return { Body: { transformToString: () => Promise.resolve(text) } };
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/payload-lookup')).handler;
+}
+
+describe('payload lookup handler', () => {
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockS3Send.mockReset();
+    process.env.WEBHOOK_ARCHIVE_BUCKET = 'webhook-archive';
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    delete process.env.WEBHOOK_ARCHIVE_BUCKET;
+  });
+
+  it('returns the archived transaction payload for a ticket id', async () => {
+    mockS3Send
+      .mockResolvedValueOnce(
+        objectBody(
+          JSON.stringify({
+            key: 'payloads/2026-01-02/sales_transaction_completed/117060.json',
+            receivedAt: '2026-01-02T03:04:05.000Z',
+          })
+        )
+      )
+      .mockResolvedValueOnce(objectBody('{"id":117060}'));
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent({ ticketId: '117060' })));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string)).toEqual({
+      status: 'ok',
+      payload: {
+        id: '117060',
+        eventType: 'sales_transaction_completed',
+        body: '{"id":117060}',
+        receivedAt: '2026-01-02T03:04:05.000Z',
+        key: 'payloads/2026-01-02/sales_transaction_completed/117060.json',
+      },
+    });
+    expect(mockS3Send.mock.calls[0][0]).toEqual({
+      Bucket: 'webhook-archive',
+      Key: 'index/sales_transaction_completed/117060.json',
+    });
+  });
+
+  it('returns 404 when nothing is archived for the id', async () => {
+    mockS3Send.mockRejectedValue(Object.assign(new Error('missing'), { name: 'NoSuchKey' }));
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent({ itemId: '42' })));
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body as string)).toEqual({
+      status: 'not_found',
+      eventType: 'item_created',
+      id: '42',
+    });
+  });
+
+  it('returns 400 without an id and 500 without a bucket', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = await loadHandler();
+
+    expect(asStructuredResult(await handler(makeEvent())).statusCode).toBe(400);
+
+    delete process.env.WEBHOOK_ARCHIVE_BUCKET;
+    const unconfigured = await loadHandler();
+    expect(
+      asStructuredResult(
+        await unconfigured(makeEvent({ eventType: 'item_created', id: '1' }))
+      ).statusCode
+    ).toBe(500);
+
+    errorSpy.mockRestore();
+  });
+});
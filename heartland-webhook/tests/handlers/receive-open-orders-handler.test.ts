@@ -217,7 +217,7 @@ describe('receive-open-orders handler', () => {
 
     expect(mockGroupMeSendMessage).not.toHaveBeenCalled();
     expect(warnSpy).toHaveBeenCalledWith(
-      'GROUPME_BOT_ID not set; skipping GroupMe alert'
+      'No notification channel for purchase-order-receive; skipping alert'
     );
     warnSpy.mockRestore();
     errorSpy.mockRestore();
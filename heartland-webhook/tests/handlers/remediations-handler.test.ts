@@ -0,0 +1,184 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockDynamoSend = jest.fn();
+const mockSecretsSend = jest.fn();
+const mockGetTicket = jest.fn();
+const mockUpdateTicket = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => {
+  const actual = jest.requireActual('@aws-sdk/lib-dynamodb');
+  return {
+    ...actual,
+    DynamoDBDocumentClient: { from: jest.fn(() => ({ send: mockDynamoSend })) },
+  };
+});
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: mockSecretsSend })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+jest.mock('../../src/clients', () => ({
+  DefaultHeartlandApiClient: jest.fn(() => ({
+    getTicket: (...args: unknown[]) => mockGetTicket(...args),
+    updateTicket: (...args: unknown[]) => mockUpdateTicket(...args),
+  })),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+function makeEvent(
+  method: string,
+  options: { query?: Record<string, string>; body?: unknown } = {}
+): APIGatewayProxyEventV2 {
+  return {
+    requestContext: {
+      http: { method },
+      authorizer: { iam: { userArn: 'arn:aws:iam::445473841172:user/pat' } },
+    },
+    queryStringParameters: options.query,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/remediations')).handler;
+}
+
+describe('remediations handler', () => {
+  const applied = {
+    id: 'price-adjusted-item:annotate-ticket:117060:price_audit',
+    transactionId: 117060,
+    strategy: 'price-adjusted-item',
+    action: { kind: 'annotate-ticket', ticketId: 117060, field: 'price_audit', note: 'adjusted' },
+    status: 'applied',
+    createdAt: '2026-03-01T12:00:00.000Z',
+    updatedAt: '2026-03-01T12:00:00.000Z',
+    previousValue: null,
+  };
+
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockDynamoSend.mockReset();
+    mockSecretsSend.mockReset();
+    mockGetTicket.mockReset();
+    mockUpdateTicket.mockReset();
+    process.env.REMEDIATION_TABLE_NAME = 'Remediations';
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'OperationalSecrets';
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({ heartland: { token: 'token-abc' } }),
+    });
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    delete process.env.REMEDIATION_TABLE_NAME;
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.OPERATIONAL_SECRET_ARN;
+  });
+
+  it('lists the remediations recorded for a transaction', async () => {
+    mockDynamoSend.mockResolvedValue({ Items: [{ record: applied }] });
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(makeEvent('GET', { query: { transactionId: '117060' } }))
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string).remediations).toEqual([applied]);
+    expect(mockDynamoSend.mock.calls[0][0].input).toMatchObject({
+      TableName: 'Remediations',
+      ExpressionAttributeValues: { ':transactionId': 117060 },
+    });
+  });
+
+  it('requires a transaction id to list', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('GET')));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockDynamoSend).not.toHaveBeenCalled();
+  });
+
+  it('reverts an applied remediation attributed to the IAM caller', async () => {
+    mockDynamoSend.mockResolvedValueOnce({ Item: { record: applied } }).mockResolvedValue({});
+    mockUpdateTicket.mockResolvedValue(undefined);
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(makeEvent('POST', { body: { transactionId: 117060, id: applied.id } }))
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string).remediation).toMatchObject({
+      status: 'reverted',
+      revertedBy: 'arn:aws:iam::445473841172:user/pat',
+    });
+    expect(mockUpdateTicket).toHaveBeenCalledWith(117060, { custom: { price_audit: null } });
+    expect(mockDynamoSend.mock.calls[1][0].input.Item.record.status).toBe('reverted');
+  });
+
+  it('reports unknown and unapplied remediations', async () => {
+    mockDynamoSend
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce({ Item: { record: { ...applied, status: 'dry-run' } } });
+    const handler = await loadHandler();
+
+    const missing = asStructuredResult(
+      await handler(makeEvent('POST', { body: { transactionId: 117060, id: 'nope' } }))
+    );
+    const dryRun = asStructuredResult(
+      await handler(makeEvent('POST', { body: { transactionId: 117060, id: applied.id } }))
+    );
+
+    expect(missing.statusCode).toBe(404);
+    expect(dryRun.statusCode).toBe(409);
+    expect(mockUpdateTicket).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad bodies and other methods', async () => {
+    const handler = await loadHandler();
+
+    const badJson = asStructuredResult(
+      await handler({ ...makeEvent('POST'), body: '{' } as APIGatewayProxyEventV2)
+    );
+    const badBody = asStructuredResult(
+      await handler(makeEvent('POST', { body: { transactionId: '117060', id: 'x' } }))
+    );
+    const deleted = asStructuredResult(await handler(makeEvent('DELETE')));
+
+    expect(badJson.statusCode).toBe(400);
+    expect(badBody.statusCode).toBe(400);
+    expect(deleted.statusCode).toBe(405);
+  });
+
+  it('fails when the table is not configured', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    delete process.env.REMEDIATION_TABLE_NAME;
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler(makeEvent('GET', { query: { transactionId: '1' } }))
+    );
+
+    expect(result.statusCode).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+const mockSqsSend = jest.fn();
+const mockS3Send = jest.fn();
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: jest.fn() })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-sqs', () => ({
+  SQSClient: jest.fn(() => ({ send: mockSqsSend })),
+  ReceiveMessageCommand: jest.fn((input) => ({ input })),
+  DeleteMessageCommand: jest.fn((input) => ({ input })),
+  ChangeMessageVisibilityCommand: jest.fn((input) => ({ input })),
+}));
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  S3Client: jest.fn(() => ({ send: mockS3Send })),
+  ListObjectsV2Command: jest.fn((input) => ({ input })),
+  GetObjectCommand: jest.fn((input) => ({ input })),
+  PutObjectCommand: jest.fn((input) => ({ input })),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/replay')).handler;
+}
+
+describe('replay handler', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockSqsSend.mockReset();
+    mockS3Send.mockReset();
+    delete process.env.TRANSACTION_DLQ_URL;
+    delete process.env.WEBHOOK_ARCHIVE_BUCKET;
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('replays inline events and reports per-event outcomes', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler({
+        body: JSON.stringify({
+          events: [
+            {
+              id: 'a',
+              eventType: 'sales_transaction_completed',
+              body: { id: 42, type: 'Ticket', total: 1, balance: 0, 'completed?': true },
+            },
+            { id: 'b', eventType: 'customer_created', body: '{}' },
+          ],
+        }),
+      } as APIGatewayProxyEventV2)
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string)).toEqual({
+      status: 'ok',
+      outcomes: [
+        {
+          id: 'a',
+          eventType: 'sales_transaction_completed',
+          status: 'succeeded',
+          detail: 'transaction 42 check=true',
+        },
+        {
+          id: 'b',
+          eventType: 'customer_created',
+          status: 'skipped',
+          detail: 'no replay processor for event type customer_created',
+        },
+      ],
+    });
+  });
+
+  it('drains the dead-letter queue when requested', async () => {
+    process.env.TRANSACTION_DLQ_URL = 'https://sqs.test/dlq';
+    mockSqsSend
+      .mockResolvedValueOnce({
+        Messages: [
+          {
+            MessageId: 'm-1',
+            ReceiptHandle: 'r-1',
+            Body: JSON.stringify({
+              eventType: 'sales_transaction_completed',
+              body: JSON.stringify({ id: 43, type: 'Ticket', total: 1, balance: 0 }),
+              receivedAt: '2026-01-01T00:00:00.000Z',
+            }),
+            Attributes: { SentTimestamp: String(Date.now()) },
+          },
+        ],
+      })
+      .mockResolvedValue({});
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler({
+        body: JSON.stringify({ source: 'dead-letter-queue' }),
+      } as APIGatewayProxyEventV2)
+    );
+
+    const parsed = JSON.parse(result.body as string);
+    expect(parsed.outcomes).toEqual([
+      expect.objectContaining({ id: 'm-1', status: 'succeeded' }),
+    ]);
+    expect(mockSqsSend).toHaveBeenCalledWith({
+      input: { QueueUrl: 'https://sqs.test/dlq', ReceiptHandle: 'r-1' },
+    });
+  });
+
+  it('replays archived payloads received within the window', async () => {
+    process.env.WEBHOOK_ARCHIVE_BUCKET = 'webhook-archive';
+    const payloadKey = 'payloads/2026-01-01/sales_transaction_completed/44.json';
+    mockS3Send.mockImplementation((command: { input: { Prefix?: string; Key?: string } }) => {
+      if (command.input.Prefix === 'payloads/2026-01-01/sales_transaction_completed/') {
+        return Promise.resolve({
+          Contents: [{ Key: payloadKey, LastModified: new Date('2026-01-01T10:00:00Z') }],
+        });
+      }
+      if (command.input.Key === payloadKey) {
+        return Promise.resolve({
+          Body: {
+            transformToString: () =>
+              Promise.resolve(JSON.stringify({ id: 44, type: 'Ticket', total: 1, balance: 0 })),
+          },
+          Metadata: { 'received-at': '2026-01-01T10:00:00.000Z' },
+        });
+      }
+      return Promise.resolve({});
+    });
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(
+      await handler({
+        body: JSON.stringify({
+          source: 'payload-archive',
+          eventTypes: ['sales_transaction_completed'],
+          from: '2026-01-01T00:00:00Z',
+          to: '2026-01-01T23:59:59Z',
+        }),
+      } as APIGatewayProxyEventV2)
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string).outcomes).toEqual([
+      expect.objectContaining({ id: payloadKey, status: 'succeeded' }),
+    ]);
+  });
+
+  it('returns 400 for invalid requests', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = await loadHandler();
+
+    const badJson = asStructuredResult(
+      await handler({ body: '{nope' } as APIGatewayProxyEventV2)
+    );
+    const noSource = asStructuredResult(
+      await handler({
+        body: JSON.stringify({ source: 'dead-letter-queue' }),
+      } as APIGatewayProxyEventV2)
+    );
+
+    expect(badJson.statusCode).toBe(400);
+    expect(noSource.statusCode).toBe(400);
+    expect(JSON.parse(noSource.body as string)).toEqual({
+      status: 'error',
+      error: 'Error: Replay source dead-letter-queue is not configured',
+    });
+
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+  Context,
+} from 'aws-lambda';
+
+const mockTransactionHandler = jest.fn();
+const mockItemHandler = jest.fn();
+const mockLoggedEventHandler = jest.fn();
+
+jest.mock('../../src/handlers/transaction', () => ({
+  handler: mockTransactionHandler,
+}));
+
+jest.mock('../../src/handlers/item', () => ({
+  handler: mockItemHandler,
+}));
+
+jest.mock('../../src/handlers/logged-event', () => ({
+  handler: mockLoggedEventHandler,
+}));
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: jest.fn() })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+function asStructuredResult(
+  result: APIGatewayProxyResultV2
+): APIGatewayProxyStructuredResultV2 {
+  if (typeof result === 'string') {
+    throw new Error('Expected structured result, received string');
+  }
+  return result;
+}
+
+function makeEvent(eventType?: string): APIGatewayProxyEventV2 {
+  return {
+    headers: {},
+    queryStringParameters: eventType ? { event: eventType } : undefined,
+    body: '{"id":1}',
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/router')).handler;
+}
+
+describe('router handler', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockTransactionHandler.mockReset().mockResolvedValue({ statusCode: 200, body: 'tx' });
+    mockItemHandler.mockReset().mockResolvedValue({ statusCode: 200, body: 'item' });
+    mockLoggedEventHandler.mockReset().mockResolvedValue({ statusCode: 200, body: 'log' });
+    delete process.env.WEBHOOK_ROUTES;
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('dispatches the default event types to their handler modules', async () => {
+    const handler = await loadHandler();
+
+    const txEvent = makeEvent('sales_transaction_completed');
+    const context = { getRemainingTimeInMillis: () => 9000 } as unknown as Context;
+    await expect(handler(txEvent, context)).resolves.toEqual({
+      statusCode: 200,
+      body: 'tx',
+    });
+    await expect(handler(makeEvent('item_created'))).resolves.toEqual({
+      statusCode: 200,
+      body: 'item',
+    });
+    expect(mockTransactionHandler).toHaveBeenCalledWith(txEvent, context);
+  });
+
+  it('uses the WEBHOOK_ROUTES map from the stack', async () => {
+    process.env.WEBHOOK_ROUTES = JSON.stringify({
+      item_created: 'item',
+      customer_created: 'log',
+    });
+    const handler = await loadHandler();
+
+    await handler(makeEvent('customer_created'));
+    const unrouted = asStructuredResult(
+      await handler(makeEvent('sales_transaction_completed'))
+    );
+
+    expect(mockLoggedEventHandler).toHaveBeenCalledTimes(1);
+    expect(mockTransactionHandler).not.toHaveBeenCalled();
+    expect(unrouted.statusCode).toBe(200);
+    expect(JSON.parse(unrouted.body as string)).toEqual({
+      status: 'ignored',
+      eventType: 'sales_transaction_completed',
+    });
+  });
+
+  it('rejects events without a type', async () => {
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent()));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('authenticates unrouted events', async () => {
+    process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+    const handler = await loadHandler();
+
+    const result = asStructuredResult(await handler(makeEvent('item_updated')));
+
+    expect(result.statusCode).toBe(401);
+  });
+
+  it('fails at load time when a route names an unknown module', async () => {
+    process.env.WEBHOOK_ROUTES = JSON.stringify({ item_updated: 'nope' });
+
+    await expect(loadHandler()).rejects.toThrow(
+      'WEBHOOK_ROUTES maps item_updated to unknown handler module nope'
+    );
+  });
+});
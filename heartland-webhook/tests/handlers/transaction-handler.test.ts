@@ -6,11 +6,33 @@ import {
 
 const mockSecretsSend = jest.fn();
 
+const mockSqsSend = jest.fn();
+
+const mockS3Send = jest.fn();
+
+const mockSsmSend = jest.fn();
+
 jest.mock('@aws-sdk/client-secrets-manager', () => ({
   SecretsManagerClient: jest.fn(() => ({ send: mockSecretsSend })),
   GetSecretValueCommand: jest.fn((input) => input),
 }));
 
+jest.mock('@aws-sdk/client-sqs', () => ({
+  SQSClient: jest.fn(() => ({ send: mockSqsSend })),
+  SendMessageCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-ssm', () => ({
+  SSMClient: jest.fn(() => ({ send: mockSsmSend })),
+  GetParameterCommand: jest.fn((input) => input),
+}));
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  S3Client: jest.fn(() => ({ send: mockS3Send })),
+  GetObjectCommand: jest.fn((input) => input),
+  PutObjectCommand: jest.fn((input) => input),
+}));
+
 const baseEvent: Partial<APIGatewayProxyEventV2> = {
   headers: {},
   requestContext: {
@@ -43,9 +65,17 @@ async function loadHandler() {
 describe('transaction webhook handler', () => {
   beforeEach(() => {
     mockSecretsSend.mockReset();
+    mockSqsSend.mockReset();
+    mockS3Send.mockReset();
+    mockSsmSend.mockReset();
     delete process.env.HEARTLAND_API_BASE_URL;
     delete process.env.OPERATIONAL_SECRET_ARN;
     delete process.env.GROUPME_BOT_ID;
+    delete process.env.WEBHOOK_AUTH_REQUIRED;
+    delete process.env.TRANSACTION_QUEUE_URL;
+    delete process.env.WEBHOOK_ARCHIVE_BUCKET;
+    delete process.env.STRATEGY_CONFIG_SSM_PARAMETER;
+    delete process.env.SHADOW_GROUPME_BOT_ID;
   });
 
   it('returns ok with check false when body is missing', async () => {
@@ -178,7 +208,8 @@ describe('transaction webhook handler', () => {
     const parsed = JSON.parse(result.body as string);
     expect(parsed.checks).toHaveLength(3);
     expect(warnSpy).toHaveBeenCalledWith(
-      '[inventory-non-negative] Not added: missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN'
+      'Strategies not added: missing HEARTLAND_API_BASE_URL or OPERATIONAL_SECRET_ARN',
+      expect.stringContaining('inventory-non-negative')
     );
 
     warnSpy.mockRestore();
@@ -213,7 +244,8 @@ describe('transaction webhook handler', () => {
     expect(result.statusCode).toBe(200);
     expect(parsed.checks.length).toBeGreaterThan(3);
     expect(warnSpy).toHaveBeenCalledWith(
-      '[inventory-non-negative] GROUPME_BOT_ID not set; inventory strategy will not send GroupMe alerts'
+      'No notification channel for these strategies; their alerts will not be sent',
+      expect.stringContaining('inventory-non-negative')
     );
 
     warnSpy.mockRestore();
@@ -282,4 +314,507 @@ describe('transaction webhook handler', () => {
 
     errorSpy.mockRestore();
   });
+
+  it('returns 401 and skips strategies when the webhook is unsigned', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'token-123', webhookSecret: 'expected' },
+      }),
+    });
+
+    const handler = await loadHandler();
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body: JSON.stringify({ id: 6001, type: 'Ticket', total: 10 }),
+      })
+    );
+
+    expect(result.statusCode).toBe(401);
+    expect(JSON.parse(result.body as string)).toEqual({ status: 'unauthorized' });
+    expect(logSpy).not.toHaveBeenCalledWith(
+      'Completion checks summary:',
+      expect.anything()
+    );
+
+    warnSpy.mockRestore();
+    logSpy.mockRestore();
+  });
+
+  it('processes signed webhooks when auth is required', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.WEBHOOK_AUTH_REQUIRED = 'true';
+
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({
+        heartland: { token: 'token-123', webhookSecret: 'expected' },
+      }),
+    });
+
+    const handler = await loadHandler();
+    const { computeWebhookSignature } = await import('../../src/webhook-auth');
+    const body = JSON.stringify({
+      id: 6002,
+      type: 'Ticket',
+      total: 10,
+      balance: 0,
+      'completed?': true,
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        headers: {
+          'x-heartland-timestamp': timestamp,
+          'x-heartland-signature': computeWebhookSignature('expected', timestamp, body),
+        },
+        body,
+      })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string)).toMatchObject({
+      transactionId: 6002,
+      check: true,
+    });
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('returns the cached response without re-running strategies for a retried delivery', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const handler = await loadHandler();
+    const body = JSON.stringify({
+      id: 7001,
+      type: 'Ticket',
+      total: 10,
+      balance: 0,
+      'completed?': true,
+    });
+
+    const first = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+    const second = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+
+    expect(second.statusCode).toBe(200);
+    expect(JSON.parse(second.body as string)).toEqual(
+      JSON.parse(first.body as string)
+    );
+    const summaryLogs = logSpy.mock.calls.filter(
+      (call) => call[0] === 'Completion checks summary:'
+    );
+    expect(summaryLogs).toHaveLength(1);
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('queues the raw payload and acknowledges without running strategies', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.TRANSACTION_QUEUE_URL = 'https://sqs.test/transactions';
+    mockSqsSend.mockResolvedValue({});
+
+    const handler = await loadHandler();
+    const body = JSON.stringify({
+      id: 8001,
+      type: 'Ticket',
+      total: 10,
+      total_discounts: 0,
+      original_subtotal: 10,
+      source_location_id: 1,
+      'completed?': true,
+    });
+
+    const result = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string)).toEqual({
+      status: 'ok',
+      transactionKind: 'sale',
+      transactionId: 8001,
+      transactionType: 'Ticket',
+      check: false,
+      checks: [],
+      queued: true,
+    });
+    expect(mockSqsSend).toHaveBeenCalledTimes(1);
+    const sent = mockSqsSend.mock.calls[0][0];
+    expect(sent.QueueUrl).toBe('https://sqs.test/transactions');
+    expect(JSON.parse(sent.MessageBody)).toMatchObject({
+      eventType: 'sales_transaction_completed',
+      body,
+    });
+    expect(logSpy).not.toHaveBeenCalledWith(
+      'Completion checks summary:',
+      expect.anything()
+    );
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('queues voided tickets under their event type without checking their shape', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.TRANSACTION_QUEUE_URL = 'https://sqs.test/transactions';
+    mockSqsSend.mockResolvedValue({});
+
+    const handler = await loadHandler();
+    const body = JSON.stringify({ id: 8003 });
+
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        queryStringParameters: { event: 'sales_transaction_voided' },
+        body,
+      })
+    );
+
+    expect(JSON.parse(result.body as string)).toMatchObject({ transactionId: 8003, queued: true });
+    expect(JSON.parse(result.body as string).validationErrors).toBeUndefined();
+    expect(JSON.parse(mockSqsSend.mock.calls[0][0].MessageBody)).toMatchObject({
+      eventType: 'sales_transaction_voided',
+      body,
+    });
+
+    logSpy.mockRestore();
+  });
+
+  it('archives the raw body before queueing and still queues when S3 fails', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.TRANSACTION_QUEUE_URL = 'https://sqs.test/transactions';
+    process.env.WEBHOOK_ARCHIVE_BUCKET = 'webhook-archive';
+    mockSqsSend.mockResolvedValue({});
+    mockS3Send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+    const handler = await loadHandler();
+    const body = JSON.stringify({ id: 8002, type: 'Ticket', total: 10 });
+
+    await handler({ ...(baseEvent as APIGatewayProxyEventV2), body });
+
+    expect(mockS3Send.mock.calls[0][0]).toMatchObject({
+      Bucket: 'webhook-archive',
+      Key: expect.stringMatching(
+        /^payloads\/\d{4}-\d{2}-\d{2}\/sales_transaction_completed\/8002\.json$/
+      ),
+      Body: body,
+    });
+    expect(mockS3Send.mock.calls[1][0]).toMatchObject({
+      Key: 'index/sales_transaction_completed/8002.json',
+    });
+
+    mockS3Send.mockRejectedValue(new Error('AccessDenied'));
+    const result = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(mockSqsSend).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Failed to archive webhook payload',
+      expect.stringContaining('AccessDenied')
+    );
+
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('reports validation errors when the payload shape changes', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.TRANSACTION_QUEUE_URL = 'https://sqs.test/transactions';
+    mockSqsSend.mockResolvedValue({});
+
+    const handler = await loadHandler();
+    const body = JSON.stringify({
+      id: 8003,
+      type: 'Ticket',
+      total: 10,
+      total_discounts: '0.00',
+      source_location_id: 1,
+      'completed?': true,
+    });
+
+    const result = asStructuredResult(
+      await handler({ ...(baseEvent as APIGatewayProxyEventV2), body })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body as string).validationErrors).toEqual([
+      {
+        field: 'total_discounts',
+        code: 'invalid_type',
+        expected: 'number',
+        received: 'string',
+      },
+      {
+        field: 'original_subtotal',
+        code: 'missing',
+        expected: 'number',
+        received: 'undefined',
+      },
+    ]);
+    expect(mockSqsSend).toHaveBeenCalledTimes(1);
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Heartland transaction payload failed validation',
+      expect.stringContaining('original_subtotal')
+    );
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('runs only the strategies enabled in the SSM strategy config', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.STRATEGY_CONFIG_SSM_PARAMETER = '/operational-hooks/strategies';
+    mockSsmSend.mockResolvedValue({
+      Parameter: {
+        Value: JSON.stringify({
+          strategies: [
+            { name: 'type-and-status' },
+            { name: 'balance-based', enabled: false },
+          ],
+        }),
+      },
+    });
+
+    const handler = await loadHandler();
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body: JSON.stringify({ id: 9001, type: 'Ticket', total: 10, 'completed?': true }),
+      })
+    );
+
+    expect(JSON.parse(result.body as string).checks).toEqual([
+      { name: 'type-and-status', executed: true, passed: true },
+    ]);
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('warns about strategies using the deprecated groupme alert channel', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.STRATEGY_CONFIG_SSM_PARAMETER = '/operational-hooks/strategies';
+    mockSsmSend.mockResolvedValue({
+      Parameter: {
+        Value: JSON.stringify({
+          strategies: [
+            { name: 'type-and-status' },
+            { name: 'high-discount-ticket', params: { alertChannel: 'groupme' } },
+          ],
+        }),
+      },
+    });
+
+    const handler = await loadHandler();
+    await handler({
+      ...(baseEvent as APIGatewayProxyEventV2),
+      body: JSON.stringify({ id: 9004, type: 'Ticket', total: 10, 'completed?': true }),
+    });
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      'alertChannel "groupme" is deprecated; use "notify"',
+      expect.stringContaining('high-discount-ticket')
+    );
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('fails the delivery with a clear error when the strategy config is invalid', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.STRATEGY_CONFIG_SSM_PARAMETER = '/operational-hooks/strategies';
+    mockSsmSend.mockResolvedValue({
+      Parameter: { Value: JSON.stringify({ strategies: [{ name: 'big-discount' }] }) },
+    });
+
+    const handler = await loadHandler();
+
+    await expect(
+      handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body: JSON.stringify({ id: 9002, type: 'Ticket', total: 10 }),
+      })
+    ).rejects.toThrow(
+      'Invalid strategy config from ssm:/operational-hooks/strategies: strategies[0]: unknown strategy "big-discount"'
+    );
+
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('returns the reason and evidence for a failed high-discount check', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.STRATEGY_CONFIG_SSM_PARAMETER = '/operational-hooks/strategies';
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({ heartland: { token: 'token-123' } }),
+    });
+    mockSsmSend.mockResolvedValue({
+      Parameter: {
+        Value: JSON.stringify({
+          strategies: [{ name: 'high-discount-ticket', params: { alertChannel: 'none' } }],
+        }),
+      },
+    });
+    // Ticket lines come back empty so only the ticket totals are checked
+    jest.doMock('https', () => ({
+      get: jest.fn((_url: string, _options: unknown, callback: (res: unknown) => void) => {
+        const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+        const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+        callback(res);
+        process.nextTick(() => {
+          res.emit('data', JSON.stringify({ total: 0, pages: 1, results: [] }));
+          res.emit('end');
+        });
+        return { on: jest.fn() };
+      }),
+    }));
+
+    const handler = await loadHandler();
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body: JSON.stringify({
+          id: 9003,
+          type: 'Ticket',
+          total: 80,
+          total_discounts: 20,
+          original_subtotal: 100,
+        }),
+      })
+    );
+
+    expect(JSON.parse(result.body as string).checks).toEqual([
+      {
+        name: 'high-discount-ticket',
+        executed: true,
+        passed: false,
+        severity: 'warning',
+        reason: 'Ticket was discounted by 20.00% ($20 of $100), above the 5% threshold',
+        evidence: {
+          totalDiscounts: 20,
+          originalSubtotal: 100,
+          discountPercent: 20,
+          thresholdPercent: 5,
+        },
+      },
+    ]);
+
+    jest.dontMock('https');
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('reports shadow checks without failing the transaction and alerts only the admin bot', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.HEARTLAND_API_BASE_URL = 'https://example.heartland.test';
+    process.env.OPERATIONAL_SECRET_ARN = 'arn:test:operational';
+    process.env.STRATEGY_CONFIG_SSM_PARAMETER = '/operational-hooks/strategies';
+    process.env.GROUPME_BOT_ID = 'store-bot';
+    process.env.SHADOW_GROUPME_BOT_ID = 'admin-bot';
+    mockSecretsSend.mockResolvedValue({
+      SecretString: JSON.stringify({ heartland: { token: 'token-123' } }),
+    });
+    mockSsmSend.mockResolvedValue({
+      Parameter: {
+        Value: JSON.stringify({
+          strategies: [
+            { name: 'type-and-status' },
+            { name: 'high-discount-ticket', shadow: true },
+          ],
+        }),
+      },
+    });
+    const groupMePosts: string[] = [];
+    jest.doMock('https', () => {
+      const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+      const respond = (callback: (res: unknown) => void, body: string) => {
+        const res = Object.assign(new EventEmitter(), { statusCode: 200 });
+        callback(res);
+        process.nextTick(() => {
+          res.emit('data', body);
+          res.emit('end');
+        });
+      };
+      return {
+        get: jest.fn((_url: string, _options: unknown, callback: (res: unknown) => void) => {
+          respond(callback, JSON.stringify({ total: 0, pages: 1, results: [] }));
+          return { on: jest.fn() };
+        }),
+        request: jest.fn((_url: string, _options: unknown, callback: (res: unknown) => void) => ({
+          on: jest.fn(),
+          write: (payload: string) => groupMePosts.push(payload),
+          end: () => respond(callback, ''),
+        })),
+      };
+    });
+
+    const handler = await loadHandler();
+    const result = asStructuredResult(
+      await handler({
+        ...(baseEvent as APIGatewayProxyEventV2),
+        body: JSON.stringify({
+          id: 9004,
+          type: 'Ticket',
+          total: 80,
+          total_discounts: 20,
+          original_subtotal: 100,
+          source_location_id: 100005,
+          'completed?': true,
+        }),
+      })
+    );
+
+    const body = JSON.parse(result.body as string);
+    expect(body.check).toBe(true);
+    expect(body.completionStrategy).toBe('type-and-status');
+    expect(body.checks[1]).toMatchObject({
+      name: 'high-discount-ticket',
+      executed: true,
+      passed: false,
+      shadow: true,
+    });
+    expect(groupMePosts.map((payload) => JSON.parse(payload))).toEqual([
+      {
+        bot_id: 'admin-bot',
+        text: expect.stringMatching(/^\[shadow: high-discount-ticket\] /),
+      },
+    ]);
+    expect(logSpy).toHaveBeenCalledWith(
+      'Shadow check result:',
+      expect.stringContaining('"transactionId": 9004')
+    );
+
+    jest.dontMock('https');
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
 });
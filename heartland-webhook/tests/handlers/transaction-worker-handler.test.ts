@@ -0,0 +1,147 @@
+import { SQSEvent, SQSRecord } from 'aws-lambda';
+
+const mockSecretsSend = jest.fn();
+
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: jest.fn(() => ({ send: mockSecretsSend })),
+  GetSecretValueCommand: jest.fn((input) => input),
+}));
+
+function makeRecord(messageId: string, body: string): SQSRecord {
+  return {
+    messageId,
+    body,
+    attributes: { ApproximateReceiveCount: '1' },
+  } as unknown as SQSRecord;
+}
+
+function queued(
+  tx: Record<string, unknown>,
+  eventType = 'sales_transaction_completed'
+): string {
+  return JSON.stringify({
+    eventType,
+    body: JSON.stringify(tx),
+    receivedAt: '2026-01-01T00:00:00.000Z',
+  });
+}
+
+async function loadHandler() {
+  jest.resetModules();
+  return (await import('../../src/handlers/transaction-worker')).handler;
+}
+
+describe('transaction worker handler', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockSecretsSend.mockReset();
+    delete process.env.HEARTLAND_API_BASE_URL;
+    delete process.env.OPERATIONAL_SECRET_ARN;
+    delete process.env.GROUPME_BOT_ID;
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('evaluates queued transactions and reports no failures', async () => {
+    const handler = await loadHandler();
+
+    const result = await handler({
+      Records: [
+        makeRecord(
+          'm-1',
+          queued({ id: 9001, type: 'Ticket', total: 10, balance: 0, 'completed?': true })
+        ),
+      ],
+    } as SQSEvent);
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    const summary = logSpy.mock.calls.find(
+      (call) => call[0] === 'Completion checks summary:'
+    );
+    expect(JSON.parse(summary?.[1] as string)).toHaveLength(3);
+  });
+
+  it('skips a transaction that was already evaluated', async () => {
+    const handler = await loadHandler();
+    const body = queued({ id: 9002, type: 'Ticket', total: 10, balance: 0 });
+
+    await handler({ Records: [makeRecord('m-1', body)] } as SQSEvent);
+    const result = await handler({ Records: [makeRecord('m-2', body)] } as SQSEvent);
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    const summaries = logSpy.mock.calls.filter(
+      (call) => call[0] === 'Completion checks summary:'
+    );
+    expect(summaries).toHaveLength(1);
+  });
+
+  it('re-evaluates each edit of a ticket and ignores events after a void', async () => {
+    const handler = await loadHandler();
+    const tx = { id: 9004, type: 'Ticket', total: 10, balance: 0 };
+
+    await handler({
+      Records: [
+        makeRecord('m-1', queued(tx)),
+        makeRecord('m-2', queued({ ...tx, updated_at: 'a' }, 'sales_transaction_updated')),
+        makeRecord('m-3', queued({ ...tx, updated_at: 'a' }, 'sales_transaction_updated')),
+        makeRecord('m-4', queued({ ...tx, updated_at: 'b' }, 'sales_transaction_updated')),
+        makeRecord('m-5', queued({ id: 9004 }, 'sales_transaction_voided')),
+        makeRecord('m-6', queued({ ...tx, updated_at: 'c' }, 'sales_transaction_updated')),
+      ],
+    } as SQSEvent);
+
+    // The completed ticket and two distinct edits; the retried edit is a duplicate
+    const summaries = logSpy.mock.calls.filter(
+      (call) => call[0] === 'Completion checks summary:'
+    );
+    expect(summaries).toHaveLength(3);
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Ignoring event for voided transaction',
+      expect.stringContaining('sales_transaction_updated')
+    );
+  });
+
+  it('drops messages with invalid payloads instead of retrying them', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = await loadHandler();
+
+    const result = await handler({
+      Records: [
+        makeRecord(
+          'm-1',
+          JSON.stringify({ eventType: 'sales_transaction_completed', body: '{bad' })
+        ),
+        makeRecord('m-2', JSON.stringify({ eventType: 'item_created', body: '{}' })),
+      ],
+    } as SQSEvent);
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    errorSpy.mockRestore();
+  });
+
+  it('reports records that fail to evaluate so SQS retries them', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = await loadHandler();
+
+    const result = await handler({
+      Records: [
+        makeRecord('m-bad', 'not-json'),
+        makeRecord('m-ok', queued({ id: 9003, type: 'Ticket', total: 1, balance: 0 })),
+      ],
+    } as SQSEvent);
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: 'm-bad' }] });
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Error evaluating queued transaction',
+      expect.stringContaining('m-bad')
+    );
+    errorSpy.mockRestore();
+  });
+});
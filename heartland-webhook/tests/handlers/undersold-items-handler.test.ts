@@ -144,7 +144,7 @@ describe('undersold-items handler', () => {
 
     expect(mockGroupMeSendMessage).not.toHaveBeenCalled();
     expect(warnSpy).toHaveBeenCalledWith(
-      'GROUPME_BOT_ID not set; skipping GroupMe notification'
+      'No notification channel for report; skipping report notification'
     );
     warnSpy.mockRestore();
   });
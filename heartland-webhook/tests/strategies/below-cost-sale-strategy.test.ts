@@ -0,0 +1,264 @@
+import { BelowCostSaleStrategy } from '../../src/strategies/below-cost-sale-strategy';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  InventoryItem,
+  InventoryValuesResponse,
+  TicketLinesResponse,
+} from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+
+describe('BelowCostSaleStrategy', () => {
+  const baseTx: HeartlandTransaction = {
+    id: 117060,
+    type: 'Ticket',
+    total: 60,
+    source_location_id: 100005,
+  };
+
+  const heartlandBaseUrl = 'https://bamherndon.retail.heartland.us';
+
+  const makeMockClient = (options: {
+    lines: TicketLinesResponse;
+    items?: Record<number, InventoryItem>;
+    inventoryByItem?: Record<number, InventoryValuesResponse>;
+  }): HeartlandApiClient => {
+    return {
+      getTicketLines: jest.fn().mockResolvedValue(options.lines),
+      getInventoryValues: jest
+        .fn()
+        .mockImplementation((itemId: number) =>
+          Promise.resolve(options.inventoryByItem?.[itemId] ?? { total: 0, pages: 1, results: [] })
+        ),
+      getInventoryItem: jest
+        .fn()
+        .mockImplementation((itemId: number) =>
+          options.items?.[itemId]
+            ? Promise.resolve(options.items[itemId])
+            : Promise.reject(new Error(`item ${itemId} not found`))
+        ),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
+      updateInventoryItem: jest.fn(),
+      updateInventoryItemImage: jest.fn(),
+      runReport: jest.fn(),
+      listPurchaseOrders: jest.fn(),
+      getPurchaseOrderLines: jest.fn(),
+      createReceipt: jest.fn(),
+      addReceiptLine: jest.fn(),
+      createReceiptFromPurchaseOrder: jest.fn(),
+      getReceiptByOrderId: jest.fn(),
+      completeReceipt: jest.fn(),
+    };
+  };
+
+  const lines: TicketLinesResponse = {
+    total: 3,
+    pages: 1,
+    results: [
+      { id: 1, type: 'ItemLine', item_id: 2001, item_description: 'Used Castle', qty: 1, unit_price: 40 },
+      {
+        id: 2,
+        type: 'ItemLine',
+        item_id: 2002,
+        item_description: 'Batwing',
+        qty: 1,
+        unit_price: 30,
+        adjusted_unit_price: 20,
+      },
+      { id: 3, type: 'TaxLine' },
+    ],
+  };
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('supports only Ticket transactions with ids', () => {
+    const strategy = new BelowCostSaleStrategy(makeMockClient({ lines }), heartlandBaseUrl);
+
+    const missingId = { ...baseTx, id: undefined } as unknown as HeartlandTransaction;
+    expect(strategy.supports(missingId)).toBe(false);
+    expect(strategy.supports({ ...baseTx, type: 'Return' })).toBe(false);
+    expect(strategy.supports(baseTx)).toBe(true);
+  });
+
+  it('passes when every line sells at or above cost', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines,
+        items: { 2001: { id: 2001, cost: 25 }, 2002: { id: 2002, cost: 12 } },
+      }),
+      heartlandBaseUrl
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toEqual({ passed: true, evidence: { linesChecked: 2 } });
+  });
+
+  it('fails as critical and alerts when an adjusted price is below cost', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines,
+        items: { 2001: { id: 2001, cost: 25 }, 2002: { id: 2002, cost: 25 } },
+      }),
+      heartlandBaseUrl,
+      groupMe
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'critical',
+      reason: '1 line(s) below their margin floor: Batwing sold at $20 against cost $25 (-25% margin)',
+      evidence: {
+        linesChecked: 2,
+        itemIds: [2002],
+        lines: [
+          expect.objectContaining({ itemId: 2002, netUnitPrice: 20, unitCost: 25, marginPercent: -25 }),
+        ],
+      },
+    });
+    expect(groupMe.sendMessage).toHaveBeenCalledWith(
+      'Batwing sold at $20 against cost $25 (-25% margin) (floor 0%) in ticket 117060' +
+        ' ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )',
+      'ticket:117060'
+    );
+  });
+
+  it('spreads ticket-level discounts over the lines by their amount', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines,
+        items: { 2001: { id: 2001, cost: 38 }, 2002: { id: 2002, cost: 15 } },
+      }),
+      heartlandBaseUrl
+    );
+
+    // $10 of the $16 is Batwing's own adjustment; the other $6 is ticket-level
+    const result = await strategy.checkTx({ ...baseTx, total_discounts: 16 });
+
+    // Used Castle: 40 - 6 * 40/60 = 36; Batwing: 20 - 6 * 20/60 = 18
+    expect(result).toMatchObject({
+      passed: false,
+      evidence: {
+        ticketDiscount: 6,
+        itemIds: [2001],
+        lines: [expect.objectContaining({ itemId: 2001, netUnitPrice: 36, unitCost: 38 })],
+      },
+    });
+  });
+
+  it('reads price adjustments on lines without an adjusted unit price', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines: {
+          total: 1,
+          pages: 1,
+          results: [
+            {
+              id: 1,
+              type: 'ItemLine',
+              item_id: 2001,
+              item_description: 'Used Castle',
+              qty: 2,
+              original_unit_price: 30,
+              unit_price: 30,
+              price_adjustments: [{ delta_price: -8 }, { delta_price: -4 }],
+            },
+          ],
+        },
+        items: { 2001: { id: 2001, cost: 20 } },
+      }),
+      heartlandBaseUrl
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result.evidence).toMatchObject({
+      itemIds: [2001],
+      lines: [expect.objectContaining({ netUnitPrice: 18, unitCost: 20, qty: 2 })],
+    });
+  });
+
+  it('applies department floors case-insensitively', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines,
+        items: {
+          2001: { id: 2001, cost: 30, custom: { department: 'used sets' } },
+          2002: { id: 2002, cost: 12, custom: { department: 'Sets' } },
+        },
+      }),
+      heartlandBaseUrl,
+      undefined,
+      { minMarginPercent: 10, departmentMinMarginPercent: { 'Used Sets': 30 } }
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    // Used Castle: 25% margin against a 30% floor; Batwing: 40% against 10%
+    expect(result).toMatchObject({ passed: false, severity: 'warning' });
+    expect(result.evidence).toMatchObject({
+      itemIds: [2001],
+      lines: [expect.objectContaining({ department: 'used sets', minMarginPercent: 30 })],
+    });
+  });
+
+  it('falls back to the inventory unit cost at the ticket location', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({
+        lines,
+        items: { 2001: { id: 2001, cost: null }, 2002: { id: 2002, cost: 5 } },
+        inventoryByItem: {
+          2001: {
+            total: 2,
+            pages: 1,
+            results: [
+              { item_id: 2001, location_id: 100001, unit_cost: 10 },
+              { item_id: 2001, location_id: 100005, unit_cost: 45 },
+            ],
+          },
+        },
+      }),
+      heartlandBaseUrl
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result.evidence).toMatchObject({
+      itemIds: [2001],
+      lines: [expect.objectContaining({ unitCost: 45, costSource: 'inventory' })],
+    });
+  });
+
+  it('skips lines whose cost is unknown', async () => {
+    const strategy = new BelowCostSaleStrategy(
+      makeMockClient({ lines, items: { 2002: { id: 2002, cost: 5 } } }),
+      heartlandBaseUrl
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toEqual({
+      passed: true,
+      evidence: { linesChecked: 1, unknownCostItemIds: [2001] },
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { HighDiscountTicketStrategy } from '../../src/strategies/high-discount-ticket-strategy';
 import { HeartlandTransaction } from '../../src/model';
+import { HeartlandApiClient, TicketLine } from '../../src/clients';
 
 describe('HighDiscountTicketStrategy', () => {
   const baseTx: HeartlandTransaction = {
@@ -8,9 +9,22 @@ describe('HighDiscountTicketStrategy', () => {
     total: 133.98,
   };
 
+  const heartlandBaseUrl = 'https://bamherndon.retail.heartland.us';
+
+  const makeMockClient = (
+    lines: TicketLine[] = [],
+    extra: Partial<Record<'getInventoryItem' | 'getCustomer', jest.Mock>> = {}
+  ) =>
+    ({
+      getTicketLines: jest.fn().mockResolvedValue({ total: lines.length, pages: 1, results: lines }),
+      getInventoryItem: jest.fn(),
+      getCustomer: jest.fn(),
+      ...extra,
+    }) as unknown as HeartlandApiClient;
+
   it('supports only Ticket transactions with ids', () => {
     const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-    const strategy = new HighDiscountTicketStrategy();
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl);
 
     const missingId = { ...baseTx, id: undefined } as unknown as HeartlandTransaction;
     expect(strategy.supports(missingId)).toBe(false);
@@ -22,16 +36,16 @@ describe('HighDiscountTicketStrategy', () => {
 
   it('passes when discount data is missing', async () => {
     const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-    const strategy = new HighDiscountTicketStrategy();
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl);
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
 
     warnSpy.mockRestore();
   });
 
   it('passes when discounts are within 5%', async () => {
-    const strategy = new HighDiscountTicketStrategy();
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl);
     const tx = {
       ...baseTx,
       original_subtotal: 200,
@@ -39,14 +53,14 @@ describe('HighDiscountTicketStrategy', () => {
     } as HeartlandTransaction;
 
     const result = await strategy.checkTx(tx);
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
   });
 
   it('fails and sends GroupMe message when discounts exceed 5%', async () => {
     const mockGroupMeClient = {
       sendMessage: jest.fn().mockResolvedValue(undefined),
     };
-    const strategy = new HighDiscountTicketStrategy(mockGroupMeClient);
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, mockGroupMeClient);
     const tx = {
       ...baseTx,
       original_subtotal: 200,
@@ -55,10 +69,22 @@ describe('HighDiscountTicketStrategy', () => {
 
     const result = await strategy.checkTx(tx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
-      'Ticket 117060 (  https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060  )  -  200 was discounted by 10.00%'
+      'Ticket 117060 (  https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060  )  -  200 was discounted by 10.00% ($20 off, threshold 5%)',
+      'ticket:117060'
     );
+    expect(result).toEqual({
+      passed: false,
+      severity: 'warning',
+      reason: 'Ticket was discounted by 10.00% ($20 of $200), above the 5% threshold',
+      evidence: {
+        totalDiscounts: 20,
+        originalSubtotal: 200,
+        discountPercent: 10,
+        thresholdPercent: 5,
+      },
+    });
   });
 
   it('skips GroupMe when discount is $5 or less', async () => {
@@ -66,7 +92,7 @@ describe('HighDiscountTicketStrategy', () => {
     const mockGroupMeClient = {
       sendMessage: jest.fn().mockResolvedValue(undefined),
     };
-    const strategy = new HighDiscountTicketStrategy(mockGroupMeClient);
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, mockGroupMeClient);
     const tx = {
       ...baseTx,
       original_subtotal: 50,
@@ -75,7 +101,8 @@ describe('HighDiscountTicketStrategy', () => {
 
     const result = await strategy.checkTx(tx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.severity).toBe('info');
     expect(mockGroupMeClient.sendMessage).not.toHaveBeenCalled();
 
     warnSpy.mockRestore();
@@ -86,7 +113,7 @@ describe('HighDiscountTicketStrategy', () => {
     const mockGroupMeClient = {
       sendMessage: jest.fn().mockRejectedValue(new Error('groupme down')),
     };
-    const strategy = new HighDiscountTicketStrategy(mockGroupMeClient);
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, mockGroupMeClient);
     const tx = {
       ...baseTx,
       original_subtotal: 100,
@@ -95,8 +122,158 @@ describe('HighDiscountTicketStrategy', () => {
 
     const result = await strategy.checkTx(tx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
 
     errorSpy.mockRestore();
   });
+
+  it('uses configured threshold and alert minimum', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const mockGroupMeClient = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+    };
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, mockGroupMeClient, {
+      thresholdPercent: 15,
+      minAlertDiscount: 50,
+    });
+
+    const withinThreshold = await strategy.checkTx({
+      ...baseTx,
+      original_subtotal: 200,
+      total_discounts: 20,
+    } as HeartlandTransaction);
+    const overThreshold = await strategy.checkTx({
+      ...baseTx,
+      original_subtotal: 200,
+      total_discounts: 40,
+    } as HeartlandTransaction);
+
+    expect(withinThreshold.passed).toBe(true);
+    expect(overThreshold.passed).toBe(false);
+    expect(mockGroupMeClient.sendMessage).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  it('fails on a heavily discounted line even when the ticket total is within threshold', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const mockGroupMeClient = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+    };
+    const lines: TicketLine[] = [
+      { id: 1, type: 'ItemLine', item_id: 2001, item_description: 'Batwing', qty: 1, original_unit_price: 40, adjusted_unit_price: 20 },
+      { id: 2, type: 'ItemLine', item_id: 2002, item_description: 'Castle', qty: 1, original_unit_price: 400, unit_price: 400 },
+    ];
+    const strategy = new HighDiscountTicketStrategy(
+      makeMockClient(lines),
+      heartlandBaseUrl,
+      mockGroupMeClient
+    );
+
+    const result = await strategy.checkTx({
+      ...baseTx,
+      original_subtotal: 440,
+      total_discounts: 20,
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.reason).toBe('1 line(s) above their discount threshold: Batwing (50.00%)');
+    expect(result.evidence).toMatchObject({ discountPercent: 4.55, itemIds: [2001] });
+    expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
+      'Batwing was discounted by 50.00% ($20 off $40, threshold 25%) in ticket 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )',
+      'ticket:117060'
+    );
+
+    warnSpy.mockRestore();
+  });
+
+  it('raises the ticket threshold inside a promotional window', async () => {
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, undefined, {
+      policy: {
+        rules: [
+          { name: 'spring-sale', match: { from: '2025-03-01', to: '2025-03-31' }, thresholdPercent: 20 },
+        ],
+      },
+    });
+    const tx = { ...baseTx, original_subtotal: 200, total_discounts: 30 };
+
+    const inWindow = await strategy.checkTx({ ...tx, local_completed_at: '2025-03-15T14:00:00-05:00' });
+    const afterWindow = await strategy.checkTx({ ...tx, local_completed_at: '2025-04-01T10:00:00-05:00' });
+
+    expect(inWindow).toMatchObject({ passed: true, evidence: { rule: 'spring-sale', thresholdPercent: 20 } });
+    expect(afterWindow.passed).toBe(false);
+  });
+
+  it('exempts tickets rung up by an exempt sales rep', async () => {
+    const mockGroupMeClient = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+    };
+    const strategy = new HighDiscountTicketStrategy(makeMockClient(), heartlandBaseUrl, mockGroupMeClient, {
+      policy: { rules: [{ name: 'owner', match: { salesReps: ['Pat Owner'] }, exempt: true }] },
+    });
+
+    const result = await strategy.checkTx({
+      ...baseTx,
+      sales_rep: 'pat owner',
+      original_subtotal: 100,
+      total_discounts: 50,
+    });
+
+    expect(result).toEqual({
+      passed: true,
+      severity: 'info',
+      reason: 'Discounts exempt under policy rule "owner"',
+    });
+    expect(mockGroupMeClient.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('applies department and customer group rules from Heartland item and customer data', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const getInventoryItem = jest.fn().mockResolvedValue({ id: 2001, custom: { department: 'Clearance' } });
+    const getCustomer = jest.fn().mockResolvedValue({ id: 42, customer_type: 'Employee' });
+    const lines: TicketLine[] = [
+      { id: 1, type: 'ItemLine', item_id: 2001, qty: 2, original_unit_price: 50, unit_price: 20 },
+    ];
+    const client = makeMockClient(lines, { getInventoryItem, getCustomer });
+    const policy = {
+      rules: [
+        { name: 'clearance', match: { departments: ['clearance'] }, lineThresholdPercent: 70 },
+      ],
+    };
+
+    const clearance = await new HighDiscountTicketStrategy(client, heartlandBaseUrl, undefined, {
+      policy,
+    }).checkTx({ ...baseTx, original_subtotal: 100, total_discounts: 60 });
+
+    // Clearance lines are judged at line level only, so the ticket passes
+    expect(clearance).toEqual({ passed: true, evidence: { linesChecked: 1 } });
+    expect(getInventoryItem).toHaveBeenCalledWith(2001, undefined);
+
+    const employee = await new HighDiscountTicketStrategy(client, heartlandBaseUrl, undefined, {
+      policy: { rules: [{ name: 'staff', match: { customerGroups: ['employee'] }, exempt: true }] },
+    }).checkTx({ ...baseTx, customer_id: 42, original_subtotal: 100, total_discounts: 60 });
+
+    expect(employee.passed).toBe(true);
+    expect(getCustomer).toHaveBeenCalledWith(42, undefined);
+
+    warnSpy.mockRestore();
+  });
+
+  it('falls back to the ticket totals when lines cannot be retrieved', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = {
+      getTicketLines: jest.fn().mockRejectedValue(new Error('boom')),
+    } as unknown as HeartlandApiClient;
+    const strategy = new HighDiscountTicketStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx({ ...baseTx, original_subtotal: 100, total_discounts: 20 });
+
+    expect(result.passed).toBe(false);
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[high-discount-ticket] Could not retrieve ticket lines; checking ticket totals only',
+      expect.any(String)
+    );
+
+    warnSpy.mockRestore();
+  });
 });
@@ -6,6 +6,7 @@ import {
   InventoryValuesResponse,
 } from '../../src/clients';
 import { HeartlandTransaction } from '../../src/model';
+import { InMemoryInventoryExclusionStore } from '../../src/inventory-exclusions';
 
 describe('InventoryNonNegativeStrategy', () => {
   const baseTx: HeartlandTransaction = {
@@ -35,6 +36,12 @@ describe('InventoryNonNegativeStrategy', () => {
           return Promise.resolve(resp);
         }),
       getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
       updateInventoryItem: jest.fn(),
       updateInventoryItemImage: jest.fn(),
       runReport: jest.fn(),
@@ -90,7 +97,7 @@ describe('InventoryNonNegativeStrategy', () => {
 
     expect(strategy.supports(baseTx)).toBe(true);
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
   });
 
   it('fails when any inventory quantity is negative for the ticket location', async () => {
@@ -152,10 +159,14 @@ describe('InventoryNonNegativeStrategy', () => {
     const result = await strategy.checkTx(baseTx);
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledTimes(1);
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
-      expect.stringContaining('Item 2002') // or the description you set
+      expect.stringContaining('Item 2002'), // or the description you set
+      'item:2002@100005'
     );
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.severity).toBe('critical');
+    expect(result.reason).toBe('1 item(s) have negative inventory at location 100005: Item 2002');
+    expect(result.evidence).toMatchObject({ locationId: 100005, itemIds: [2002] });
   });
 
   it('treats non-matching locations as irrelevant', async () => {
@@ -205,7 +216,7 @@ describe('InventoryNonNegativeStrategy', () => {
     expect(strategy.supports(baseTx)).toBe(true);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
   });
 
   it('returns false when transaction id is missing', () => {
@@ -276,7 +287,7 @@ describe('InventoryNonNegativeStrategy', () => {
     );
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
     expect(mockClient.getInventoryValues).not.toHaveBeenCalled();
   });
 
@@ -286,6 +297,12 @@ describe('InventoryNonNegativeStrategy', () => {
       getTicketLines: jest.fn().mockRejectedValue(new Error('boom')),
       getInventoryValues: jest.fn(),
       getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
       updateInventoryItem: jest.fn(),
       updateInventoryItemImage: jest.fn(),
       runReport: jest.fn(),
@@ -304,7 +321,7 @@ describe('InventoryNonNegativeStrategy', () => {
     );
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
 
     errorSpy.mockRestore();
   });
@@ -323,6 +340,12 @@ describe('InventoryNonNegativeStrategy', () => {
       getTicketLines: jest.fn().mockResolvedValue(lines),
       getInventoryValues: jest.fn().mockRejectedValue(new Error('boom')),
       getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
       updateInventoryItem: jest.fn(),
       updateInventoryItemImage: jest.fn(),
       runReport: jest.fn(),
@@ -341,7 +364,7 @@ describe('InventoryNonNegativeStrategy', () => {
     );
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
 
     errorSpy.mockRestore();
   });
@@ -381,7 +404,49 @@ describe('InventoryNonNegativeStrategy', () => {
     );
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
+
+    warnSpy.mockRestore();
+  });
+
+  it('asks for negative items to be tagged when a recount tag is configured', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const mockClient = makeMockClient({
+      lines: {
+        total: 2,
+        pages: 1,
+        results: [
+          { id: 1, type: 'ItemLine', item_id: 2001 },
+          { id: 2, type: 'ItemLine', item_id: 2002 },
+        ],
+      },
+      inventoryByItem: {
+        2001: {
+          total: 1,
+          pages: 1,
+          results: [{ item_id: 2001, location_id: 100005, qty_on_hand: -2 }],
+        },
+        2002: {
+          total: 1,
+          pages: 1,
+          results: [{ item_id: 2002, location_id: 100005, qty_on_hand: 3 }],
+        },
+      },
+    });
+
+    const strategy = new InventoryNonNegativeStrategy(
+      mockClient,
+      'https://example.heartland.test',
+      undefined,
+      undefined,
+      undefined,
+      'Recount'
+    );
+
+    const result = await strategy.checkTx(baseTx);
+    expect(result.remediations).toEqual([
+      { kind: 'add-item-tag', itemId: 2001, tag: 'Recount' },
+    ]);
 
     warnSpy.mockRestore();
   });
@@ -431,7 +496,8 @@ describe('InventoryNonNegativeStrategy', () => {
 
     await strategy.checkTx(baseTx);
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
-      expect.stringContaining('Fancy widget')
+      expect.stringContaining('Fancy widget'),
+      'item:2001@100005'
     );
   });
 
@@ -475,7 +541,7 @@ describe('InventoryNonNegativeStrategy', () => {
     );
 
     const result = await strategy.checkTx(baseTx);
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
 
     errorSpy.mockRestore();
   });
@@ -524,13 +590,192 @@ describe('InventoryNonNegativeStrategy', () => {
 
     const strategy = new InventoryNonNegativeStrategy(
       mockClient,
-      'https://example.heartland.test'
+      'https://example.heartland.test',
+      undefined,
+      [101996]
     );
 
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
     expect(mockClient.getInventoryValues).toHaveBeenCalledTimes(1);
-    expect(mockClient.getInventoryValues).toHaveBeenCalledWith(2001);
+    expect(mockClient.getInventoryValues).toHaveBeenCalledWith(2001, undefined);
+  });
+
+  it('excludes no items by default', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const lines: TicketLinesResponse = {
+      total: 2,
+      pages: 1,
+      results: [
+        { id: 1, type: 'ItemLine', item_id: 101996 },
+        { id: 2, type: 'ItemLine', item_id: 2001 },
+      ],
+    };
+
+    const mockClient = makeMockClient({
+      lines,
+      inventoryByItem: {
+        101996: {
+          total: 1,
+          pages: 1,
+          results: [{ item_id: 101996, location_id: 100005, qty_on_hand: -1 }],
+        },
+      },
+    });
+
+    const strategy = new InventoryNonNegativeStrategy(
+      mockClient,
+      'https://example.heartland.test'
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result.passed).toBe(false);
+    expect(mockClient.getInventoryValues).toHaveBeenCalledTimes(2);
+    expect(mockClient.getInventoryValues).toHaveBeenCalledWith(101996, undefined);
+
+    warnSpy.mockRestore();
+    logSpy.mockRestore();
+  });
+
+  describe('managed exclusions', () => {
+    const lines: TicketLinesResponse = {
+      total: 2,
+      pages: 1,
+      results: [
+        { id: 1, type: 'ItemLine', item_id: 2001, item_description: 'Gift card' },
+        { id: 2, type: 'ItemLine', item_id: 2002, item_description: 'Batwing' },
+      ],
+    };
+
+    const negativeInventory: Record<number, InventoryValuesResponse> = {
+      2001: {
+        total: 1,
+        pages: 1,
+        results: [{ item_id: 2001, location_id: 100005, qty_on_hand: -1 }],
+      },
+      2002: {
+        total: 1,
+        pages: 1,
+        results: [{ item_id: 2002, location_id: 100005, qty_on_hand: -2 }],
+      },
+    };
+
+    let warnSpy: jest.SpyInstance;
+    let logSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+      logSpy.mockRestore();
+    });
+
+    it('skips item ids from the store along with the configured ones', async () => {
+      const store = new InMemoryInventoryExclusionStore();
+      await store.add({ rule: { kind: 'item', itemId: 2001 } }, 'pat');
+      const mockClient = makeMockClient({ lines, inventoryByItem: negativeInventory });
+
+      const strategy = new InventoryNonNegativeStrategy(
+        mockClient,
+        'https://example.heartland.test',
+        undefined,
+        undefined,
+        store
+      );
+
+      const result = await strategy.checkTx(baseTx);
+
+      expect(result.passed).toBe(false);
+      expect(result.evidence).toMatchObject({ itemIds: [2002] });
+      expect(mockClient.getInventoryValues).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops negatives whose item matches a custom field or tag exclusion', async () => {
+      const store = new InMemoryInventoryExclusionStore();
+      const giftCards = await store.add(
+        { rule: { kind: 'custom-field', field: 'department', value: 'Gift Cards' } },
+        'pat'
+      );
+      await store.add({ rule: { kind: 'tag', tag: 'consignment' } }, 'pat');
+      const mockClient = makeMockClient({ lines, inventoryByItem: negativeInventory });
+      (mockClient.getInventoryItem as jest.Mock).mockImplementation((itemId: number) =>
+        Promise.resolve(
+          itemId === 2001
+            ? { id: 2001, custom: { department: 'gift cards' } }
+            : { id: 2002, custom: { department: 'Sets', tags: 'add' } }
+        )
+      );
+
+      const strategy = new InventoryNonNegativeStrategy(
+        mockClient,
+        'https://example.heartland.test',
+        undefined,
+        undefined,
+        store
+      );
+
+      const result = await strategy.checkTx(baseTx);
+
+      expect(result.passed).toBe(false);
+      expect(result.evidence).toMatchObject({
+        itemIds: [2002],
+        excluded: [{ itemId: 2001, exclusionId: giftCards.id }],
+      });
+    });
+
+    it('ignores expired exclusions', async () => {
+      let now = Date.parse('2026-01-01T00:00:00.000Z');
+      const nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const store = new InMemoryInventoryExclusionStore(() => now);
+      await store.add(
+        { rule: { kind: 'item', itemId: 2001 }, expiresAt: '2026-01-02T00:00:00.000Z' },
+        'pat'
+      );
+      now = Date.parse('2026-01-03T00:00:00.000Z');
+      const mockClient = makeMockClient({ lines, inventoryByItem: negativeInventory });
+
+      const strategy = new InventoryNonNegativeStrategy(
+        mockClient,
+        'https://example.heartland.test',
+        undefined,
+        undefined,
+        store
+      );
+
+      const result = await strategy.checkTx(baseTx);
+
+      expect(result.evidence).toMatchObject({ itemIds: [2001, 2002] });
+      nowSpy.mockRestore();
+    });
+
+    it('checks with the configured ids only when the store is unavailable', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const store = new InMemoryInventoryExclusionStore();
+      jest.spyOn(store, 'list').mockRejectedValue(new Error('throttled'));
+      const mockClient = makeMockClient({ lines, inventoryByItem: negativeInventory });
+
+      const strategy = new InventoryNonNegativeStrategy(
+        mockClient,
+        'https://example.heartland.test',
+        undefined,
+        undefined,
+        store
+      );
+
+      const result = await strategy.checkTx(baseTx);
+
+      expect(result.evidence).toMatchObject({ itemIds: [2001, 2002] });
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[inventory-non-negative] Error loading inventory exclusions; using configured item ids only',
+        expect.any(String)
+      );
+      errorSpy.mockRestore();
+    });
   });
 });
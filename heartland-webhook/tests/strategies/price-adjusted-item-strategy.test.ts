@@ -9,11 +9,19 @@ describe('PriceAdjustedItemStrategy', () => {
     total: 15,
   };
 
+  const heartlandBaseUrl = 'https://bamherndon.retail.heartland.us';
+
   const makeMockClient = (lines: TicketLinesResponse): HeartlandApiClient => {
     return {
       getTicketLines: jest.fn().mockResolvedValue(lines),
       getInventoryValues: jest.fn(),
       getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
       updateInventoryItem: jest.fn(),
       updateInventoryItemImage: jest.fn(),
       runReport: jest.fn(),
@@ -30,7 +38,8 @@ describe('PriceAdjustedItemStrategy', () => {
   it('supports only Ticket transactions with ids', () => {
     const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
     const strategy = new PriceAdjustedItemStrategy(
-      makeMockClient({ total: 0, pages: 1, results: [] })
+      makeMockClient({ total: 0, pages: 1, results: [] }),
+      heartlandBaseUrl
     );
 
     const missingId = { ...baseTx, id: undefined } as unknown as HeartlandTransaction;
@@ -50,10 +59,10 @@ describe('PriceAdjustedItemStrategy', () => {
       ],
     };
 
-    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines));
+    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines), heartlandBaseUrl);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
   });
 
   it('passes when no price adjustments are present', async () => {
@@ -71,10 +80,10 @@ describe('PriceAdjustedItemStrategy', () => {
       ],
     };
 
-    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines));
+    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines), heartlandBaseUrl);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(true);
+    expect(result.passed).toBe(true);
   });
 
   it('fails when adjusted_unit_price is present', async () => {
@@ -92,10 +101,10 @@ describe('PriceAdjustedItemStrategy', () => {
       ],
     };
 
-    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines));
+    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines), heartlandBaseUrl);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
   });
 
   it('fails when price_adjustments are present', async () => {
@@ -115,10 +124,16 @@ describe('PriceAdjustedItemStrategy', () => {
       ],
     };
 
-    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines));
+    const strategy = new PriceAdjustedItemStrategy(makeMockClient(lines), heartlandBaseUrl);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.severity).toBe('warning');
+    expect(result.reason).toBe('1 item(s) had their price adjusted: Item 105398 (-60)');
+    expect(result.evidence).toMatchObject({
+      itemIds: [105398],
+      items: [expect.objectContaining({ line_id: 291127, delta_price: -60 })],
+    });
   });
 
   it('sends GroupMe message when price is adjusted', async () => {
@@ -146,13 +161,49 @@ describe('PriceAdjustedItemStrategy', () => {
 
     const strategy = new PriceAdjustedItemStrategy(
       makeMockClient(lines),
+      heartlandBaseUrl,
       mockGroupMeClient
     );
     await strategy.checkTx(baseTx);
 
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
-      'Item Batwing price was adjusted by -60 from 75 to 15 in ticket 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )'
+      'Item Batwing price was adjusted by -60 from 75 to 15 in ticket 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )',
+      'ticket:117060:line:291127'
+    );
+  });
+
+  it('asks for a ticket note when a note field is configured', async () => {
+    const lines: TicketLinesResponse = {
+      total: 1,
+      pages: 1,
+      results: [
+        {
+          id: 291127,
+          type: 'ItemLine',
+          item_id: 105398,
+          item_description: 'Batwing',
+          adjusted_unit_price: 15,
+          original_unit_price: 75,
+        },
+      ],
+    };
+
+    const strategy = new PriceAdjustedItemStrategy(
+      makeMockClient(lines),
+      heartlandBaseUrl,
+      undefined,
+      'price_audit'
     );
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result.remediations).toEqual([
+      {
+        kind: 'annotate-ticket',
+        ticketId: 117060,
+        field: 'price_audit',
+        note: result.reason,
+      },
+    ]);
   });
 
   it('uses unknown values when prices are missing', async () => {
@@ -176,13 +227,15 @@ describe('PriceAdjustedItemStrategy', () => {
 
     const strategy = new PriceAdjustedItemStrategy(
       makeMockClient(lines),
+      heartlandBaseUrl,
       mockGroupMeClient
     );
     await strategy.checkTx(baseTx);
 
     expect(mockGroupMeClient.sendMessage).toHaveBeenCalledWith(
-      'Item Batwing price was adjusted by unknown from unknown to 15 in ticket 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )'
-     );
+      'Item Batwing price was adjusted by unknown from unknown to 15 in ticket 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )',
+      'ticket:117060:line:291127'
+    );
   });
 
   it('fails when ticket lines cannot be retrieved', async () => {
@@ -191,6 +244,12 @@ describe('PriceAdjustedItemStrategy', () => {
       getTicketLines: jest.fn().mockRejectedValue(new Error('boom')),
       getInventoryValues: jest.fn(),
       getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
       updateInventoryItem: jest.fn(),
       updateInventoryItemImage: jest.fn(),
       runReport: jest.fn(),
@@ -203,10 +262,10 @@ describe('PriceAdjustedItemStrategy', () => {
       completeReceipt: jest.fn(),
     };
 
-    const strategy = new PriceAdjustedItemStrategy(mockClient);
+    const strategy = new PriceAdjustedItemStrategy(mockClient, heartlandBaseUrl);
     const result = await strategy.checkTx(baseTx);
 
-    expect(result).toBe(false);
+    expect(result.passed).toBe(false);
 
     errorSpy.mockRestore();
   });
@@ -0,0 +1,236 @@
+import { QuantityLimitStrategy } from '../../src/strategies/quantity-limit-strategy';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  HeartlandTicket,
+  InventoryItem,
+  TicketLine,
+} from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+
+describe('QuantityLimitStrategy', () => {
+  const baseTx: HeartlandTransaction = {
+    id: 117060,
+    type: 'Ticket',
+    total: 300,
+    customer_id: 42,
+  };
+
+  const heartlandBaseUrl = 'https://bamherndon.retail.heartland.us';
+
+  const itemLine = (id: number, itemId: number, qty: number, description?: string): TicketLine => ({
+    id,
+    type: 'ItemLine',
+    item_id: itemId,
+    qty,
+    ...(description ? { item_description: description } : {}),
+  });
+
+  const makeMockClient = (options: {
+    linesByTicket: Record<number, TicketLine[]>;
+    items?: Record<number, InventoryItem>;
+    customerTickets?: HeartlandTicket[];
+  }): HeartlandApiClient => {
+    return {
+      getTicketLines: jest.fn().mockImplementation((ticketId: number) => {
+        const results = options.linesByTicket[ticketId] ?? [];
+        return Promise.resolve({ total: results.length, pages: 1, results });
+      }),
+      getInventoryValues: jest.fn(),
+      getInventoryItem: jest
+        .fn()
+        .mockImplementation((itemId: number) =>
+          Promise.resolve(options.items?.[itemId] ?? { id: itemId })
+        ),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn().mockResolvedValue({
+        total: options.customerTickets?.length ?? 0,
+        pages: 1,
+        results: options.customerTickets ?? [],
+      }),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
+      updateInventoryItem: jest.fn(),
+      updateInventoryItemImage: jest.fn(),
+      runReport: jest.fn(),
+      listPurchaseOrders: jest.fn(),
+      getPurchaseOrderLines: jest.fn(),
+      createReceipt: jest.fn(),
+      addReceiptLine: jest.fn(),
+      createReceiptFromPurchaseOrder: jest.fn(),
+      getReceiptByOrderId: jest.fn(),
+      completeReceipt: jest.fn(),
+    };
+  };
+
+  let nowSpy: jest.SpyInstance;
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-03-01T12:00:00.000Z'));
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('supports only Ticket transactions with ids', () => {
+    const strategy = new QuantityLimitStrategy(
+      makeMockClient({ linesByTicket: {} }),
+      heartlandBaseUrl
+    );
+
+    const missingId = { ...baseTx, id: undefined } as unknown as HeartlandTransaction;
+    expect(strategy.supports(missingId)).toBe(false);
+    expect(strategy.supports({ ...baseTx, type: 'Return' })).toBe(false);
+    expect(strategy.supports(baseTx)).toBe(true);
+  });
+
+  it('passes a walk-in ticket within the limits without looking up history', async () => {
+    const client = makeMockClient({
+      linesByTicket: { 117060: [itemLine(1, 2001, 5), itemLine(2, 2002, -1)] },
+    });
+    const strategy = new QuantityLimitStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx({ ...baseTx, customer_id: null });
+
+    expect(result).toEqual({ passed: true, evidence: { itemsChecked: 1 } });
+    expect(client.listCustomerTickets).not.toHaveBeenCalled();
+  });
+
+  it('counts the customer’s earlier tickets in the lookback window', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const client = makeMockClient({
+      linesByTicket: {
+        117060: [itemLine(1, 2001, 2, 'Batwing')],
+        116900: [itemLine(1, 2001, 3), { id: 2, type: 'TaxLine' }],
+        116950: [itemLine(1, 2001, 1), itemLine(2, 2005, 4)],
+      },
+      customerTickets: [{ id: 117060 }, { id: 116950 }, { id: 116900 }],
+    });
+    const strategy = new QuantityLimitStrategy(client, heartlandBaseUrl, groupMe, {
+      maxQuantity: { item: 5 },
+      lookbackDays: 14,
+    });
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(client.listCustomerTickets).toHaveBeenCalledWith(
+      42,
+      '2026-02-15T12:00:00.000Z',
+      undefined
+    );
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'warning',
+      reason:
+        '1 quantity limit(s) exceeded: Batwing: 6 bought (2 on this ticket, 4 in the last 14 days), limit 5',
+      evidence: {
+        customerId: 42,
+        lookbackDays: 14,
+        ticketsChecked: 2,
+        itemIds: [2001],
+        violations: [
+          expect.objectContaining({
+            group: 'item',
+            key: '2001',
+            quantity: 2,
+            priorQuantity: 4,
+            limit: 5,
+            ticketIds: [116950, 116900],
+          }),
+        ],
+      },
+    });
+    expect(groupMe.sendMessage).toHaveBeenCalledWith(
+      'Quantity limit exceeded in ticket 117060 (customer 42)' +
+        ' ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 ):\n' +
+        'Batwing: 6 bought (2 on this ticket, 4 in the last 14 days), limit 5',
+      'ticket:117060'
+    );
+  });
+
+  it('applies the retired limits to retired and retiring items', async () => {
+    const strategy = new QuantityLimitStrategy(
+      makeMockClient({
+        linesByTicket: {
+          117060: [
+            itemLine(1, 2001, 3, 'Ecto-1'),
+            itemLine(2, 2002, 3, 'Hogwarts Castle'),
+            itemLine(3, 2003, 3, 'Millennium Falcon'),
+          ],
+        },
+        items: {
+          2001: { id: 2001, custom: { retired: 'Yes' } },
+          2002: { id: 2002, custom: { retirementDate: '2026-04-15' } },
+          2003: { id: 2003, custom: { retirementDate: '2027-12-31' } },
+        },
+      }),
+      heartlandBaseUrl,
+      undefined,
+      { maxQuantity: { item: 5 }, retiredMaxQuantity: { item: 2 }, lookbackDays: 0 }
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result.reason).toBe(
+      '2 quantity limit(s) exceeded: Ecto-1: 3 bought, limit 2 for retired items; ' +
+        'Hogwarts Castle: 3 bought, limit 2 for retiring items'
+    );
+    expect(result.evidence).toMatchObject({ itemIds: [2001, 2002] });
+  });
+
+  it('groups different items that share a BrickLink id', async () => {
+    const strategy = new QuantityLimitStrategy(
+      makeMockClient({
+        linesByTicket: {
+          117060: [itemLine(1, 2001, 1, 'Batwing (new)')],
+          116900: [itemLine(1, 3001, 2)],
+        },
+        items: {
+          2001: { id: 2001, custom: { bricklinkId: '76265-1' } },
+          3001: { id: 3001, custom: { bricklinkId: '76265-1' } },
+        },
+        customerTickets: [{ id: 116900 }],
+      }),
+      heartlandBaseUrl,
+      undefined,
+      { maxQuantity: { bricklinkId: 2 }, retiredMaxQuantity: {} }
+    );
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toMatchObject({
+      passed: false,
+      reason:
+        '1 quantity limit(s) exceeded: BrickLink 76265-1: 3 bought (1 on this ticket, 2 in the last 30 days), limit 2',
+      evidence: { itemIds: [2001, 3001] },
+    });
+  });
+
+  it('checks this ticket alone when the customer’s history cannot be loaded', async () => {
+    const client = makeMockClient({ linesByTicket: { 117060: [itemLine(1, 2001, 1)] } });
+    (client.listCustomerTickets as jest.Mock).mockRejectedValue(new Error('HTTP 500'));
+    const strategy = new QuantityLimitStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toEqual({
+      passed: true,
+      evidence: {
+        itemsChecked: 1,
+        customerId: 42,
+        lookbackDays: 30,
+        ticketsChecked: 0,
+        historyUnavailable: true,
+      },
+    });
+  });
+});
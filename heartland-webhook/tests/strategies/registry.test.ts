@@ -0,0 +1,148 @@
+import { HeartlandApiClient } from '../../src/clients';
+import { HighDiscountTicketStrategy } from '../../src/strategies/high-discount-ticket-strategy';
+import { InventoryNonNegativeStrategy } from '../../src/strategies/inventory-non-negative-strategy';
+import {
+  STRATEGY_REGISTRY,
+  validateStrategyParams,
+} from '../../src/strategies/registry';
+
+describe('strategy registry', () => {
+  const deps = {
+    heartland: {
+      apiClient: {} as HeartlandApiClient,
+      baseUrl: 'https://example.heartland.test',
+    },
+    groupMeClient: { sendMessage: jest.fn() },
+  };
+
+  it('builds each registered strategy under its own name', () => {
+    for (const [name, definition] of Object.entries(STRATEGY_REGISTRY)) {
+      expect(definition.create({}, deps).name).toBe(name);
+    }
+  });
+
+  it('passes params to the strategy and honours alertChannel none', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const strategy = STRATEGY_REGISTRY['high-discount-ticket'].create(
+      { thresholdPercent: 50, alertChannel: 'none' },
+      deps
+    );
+
+    expect(strategy).toBeInstanceOf(HighDiscountTicketStrategy);
+    await expect(
+      strategy.checkTx({ id: 1, type: 'Ticket', total: 60, original_subtotal: 100, total_discounts: 40 })
+    ).resolves.toMatchObject({ passed: true });
+    await expect(
+      strategy.checkTx({ id: 1, type: 'Ticket', total: 40, original_subtotal: 100, total_discounts: 60 })
+    ).resolves.toMatchObject({ passed: false });
+    expect(deps.groupMeClient.sendMessage).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  it('requires the Heartland client for API-backed strategies', () => {
+    expect(STRATEGY_REGISTRY['inventory-non-negative'].requiresHeartland).toBe(true);
+    expect(() => STRATEGY_REGISTRY['inventory-non-negative'].create({}, {})).toThrow(
+      'Strategy "inventory-non-negative" requires the Heartland API client'
+    );
+    expect(
+      STRATEGY_REGISTRY['inventory-non-negative'].create({ excludedItemIds: [1] }, deps)
+    ).toBeInstanceOf(InventoryNonNegativeStrategy);
+  });
+
+  it('falls back to the default excluded item ids when the config lists none', async () => {
+    const apiClient = {
+      getTicketLines: jest.fn().mockResolvedValue({
+        total: 1,
+        pages: 1,
+        results: [{ id: 1, type: 'ItemLine', item_id: 101996 }],
+      }),
+      getInventoryValues: jest.fn(),
+    } as unknown as HeartlandApiClient;
+    const strategy = STRATEGY_REGISTRY['inventory-non-negative'].create(
+      {},
+      { ...deps, heartland: { ...deps.heartland, apiClient }, defaultExcludedItemIds: [101996] }
+    );
+
+    await expect(
+      strategy.checkTx({ id: 1, type: 'Ticket', total: 20, source_location_id: 100005 })
+    ).resolves.toMatchObject({ passed: true });
+    expect(apiClient.getInventoryValues).not.toHaveBeenCalled();
+  });
+
+  describe('validateStrategyParams', () => {
+    it('accepts known params with valid values', () => {
+      expect(
+        validateStrategyParams('inventory-non-negative', {
+          excludedItemIds: [101996],
+          alertChannel: 'notify',
+        })
+      ).toEqual([]);
+    });
+
+    it('still accepts the deprecated groupme alert channel', () => {
+      expect(
+        validateStrategyParams('high-discount-ticket', { alertChannel: 'groupme' })
+      ).toEqual([]);
+    });
+
+    it('reports unknown strategies, unknown params and bad values', () => {
+      expect(validateStrategyParams('nope', {})).toEqual(['unknown strategy "nope"']);
+      expect(
+        validateStrategyParams('high-discount-ticket', {
+          thresholdPercent: '5',
+          minAlertDiscount: -1,
+          alertChannel: 'slack',
+          threshold: 5,
+        })
+      ).toEqual([
+        '"thresholdPercent" for strategy "high-discount-ticket" must be a non-negative number',
+        '"minAlertDiscount" for strategy "high-discount-ticket" must be a non-negative number',
+        '"alertChannel" for strategy "high-discount-ticket" must be one of notify, none',
+        'unknown param "threshold" for strategy "high-discount-ticket"',
+      ]);
+      expect(
+        validateStrategyParams('inventory-non-negative', { excludedItemIds: [1.5] })
+      ).toEqual([
+        '"excludedItemIds" for strategy "inventory-non-negative" must be an array of integers',
+      ]);
+      expect(
+        validateStrategyParams('price-adjusted-item', { ticketNoteField: ' ' })
+      ).toEqual([
+        '"ticketNoteField" for strategy "price-adjusted-item" must be a non-empty string',
+      ]);
+      expect(
+        validateStrategyParams('below-cost-sale', {
+          departmentMinMarginPercent: { 'Used Sets': '10' },
+        })
+      ).toEqual([
+        '"departmentMinMarginPercent" for strategy "below-cost-sale" must be an object of numbers',
+      ]);
+      expect(
+        validateStrategyParams('quantity-limit', {
+          maxQuantity: { item: 2.5, set: 1 },
+          retiredMaxQuantity: [],
+        })
+      ).toEqual([
+        '"maxQuantity" for strategy "quantity-limit" "item" must be a non-negative integer',
+        '"maxQuantity" for strategy "quantity-limit" has unknown group "set" (known: item, bricklinkId, theme)',
+        '"retiredMaxQuantity" for strategy "quantity-limit" must be an object',
+      ]);
+      expect(
+        validateStrategyParams('rep-anomaly', {
+          maxRatePercent: { discount: 150, voids: 5 },
+        })
+      ).toEqual([
+        '"maxRatePercent" for strategy "rep-anomaly" "discount" must be a percentage between 0 and 100',
+        '"maxRatePercent" for strategy "rep-anomaly" has unknown activity "voids" (known: discount, price-adjustment, return, no-customer)',
+      ]);
+      expect(
+        validateStrategyParams('high-discount-ticket', {
+          policy: { rules: [{ name: 'promo', match: { daysOfWeek: ['someday'] } }] },
+        })
+      ).toEqual([
+        '"policy" for strategy "high-discount-ticket": rules[0]: "match.daysOfWeek" must only contain sun, mon, tue, wed, thu, fri, sat',
+      ]);
+    });
+  });
+});
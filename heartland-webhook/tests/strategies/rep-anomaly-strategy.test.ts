@@ -0,0 +1,178 @@
+import { RepAnomalyStrategy } from '../../src/strategies/rep-anomaly-strategy';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  TicketLinesResponse,
+} from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+import { InMemoryRepActivityStore } from '../../src/rep-activity';
+
+describe('RepAnomalyStrategy', () => {
+  const baseTx: HeartlandTransaction = {
+    id: 117060,
+    type: 'Ticket',
+    total: 20,
+    sales_rep: 'Sam',
+    customer_id: 42,
+    total_discounts: 0,
+    completed_at: '2026-01-05T15:00:00.000Z',
+  };
+
+  const plainLines: TicketLinesResponse = {
+    total: 1,
+    pages: 1,
+    results: [{ id: 1, type: 'ItemLine', item_id: 2001, unit_price: 20 }],
+  };
+
+  const makeMockClient = (lines: TicketLinesResponse = plainLines): HeartlandApiClient => {
+    return {
+      getTicketLines: jest.fn().mockResolvedValue(lines),
+      getInventoryValues: jest.fn(),
+      getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn(),
+      getTicket: jest.fn(),
+      updateTicket: jest.fn(),
+      updateInventoryItem: jest.fn(),
+      updateInventoryItemImage: jest.fn(),
+      runReport: jest.fn(),
+      listPurchaseOrders: jest.fn(),
+      getPurchaseOrderLines: jest.fn(),
+      createReceipt: jest.fn(),
+      addReceiptLine: jest.fn(),
+      createReceiptFromPurchaseOrder: jest.fn(),
+      getReceiptByOrderId: jest.fn(),
+      completeReceipt: jest.fn(),
+    };
+  };
+
+  let nowSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-01-05T16:00:00.000Z'));
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('supports tickets and returns with a sales rep', () => {
+    const strategy = new RepAnomalyStrategy(makeMockClient(), new InMemoryRepActivityStore());
+
+    expect(strategy.supports(baseTx)).toBe(true);
+    expect(strategy.supports({ ...baseTx, type: 'Return' })).toBe(true);
+    expect(strategy.supports({ ...baseTx, sales_rep: ' ' })).toBe(false);
+    expect(strategy.supports({ ...baseTx, type: 'Layaway' })).toBe(false);
+  });
+
+  it('records discounts, price adjustments, returns and missing customers', async () => {
+    const store = new InMemoryRepActivityStore();
+    const adjusted: TicketLinesResponse = {
+      total: 1,
+      pages: 1,
+      results: [{ id: 1, type: 'ItemLine', item_id: 2001, adjusted_unit_price: 15 }],
+    };
+    const strategy = new RepAnomalyStrategy(makeMockClient(adjusted), store);
+
+    const result = await strategy.checkTx({
+      ...baseTx,
+      total_discounts: 5,
+      customer_id: null,
+    });
+
+    expect(result).toMatchObject({
+      passed: true,
+      evidence: {
+        salesRep: 'Sam',
+        transactions: 1,
+        kinds: ['discount', 'price-adjustment', 'no-customer'],
+      },
+    });
+
+    const returnResult = await new RepAnomalyStrategy(makeMockClient(), store).checkTx({
+      ...baseTx,
+      id: 117061,
+      type: 'Return',
+    });
+    expect(returnResult.evidence).toMatchObject({ kinds: ['return'], transactions: 2 });
+  });
+
+  it('alerts once when a rate crosses its limit and keeps failing while above it', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const store = new InMemoryRepActivityStore();
+    const strategy = new RepAnomalyStrategy(makeMockClient(), store, groupMe, {
+      windowHours: 24,
+      minTransactions: 4,
+      maxRatePercent: { discount: 50 },
+    });
+
+    const results = [];
+    const discounts = [0, 5, 0, 5, 5, 5];
+    for (const [index, discount] of discounts.entries()) {
+      results.push(
+        await strategy.checkTx({ ...baseTx, id: 1000 + index, total_discounts: discount })
+      );
+    }
+
+    // 2 of 4 is at the limit; 3 of 5 crosses it; 4 of 6 stays above it
+    expect(results.map((result) => result.passed)).toEqual([true, true, true, true, false, false]);
+    expect(groupMe.sendMessage).toHaveBeenCalledTimes(1);
+    expect(groupMe.sendMessage).toHaveBeenCalledWith(
+      'Sales rep Sam: 3 of 5 transactions in the last 24h had a discount (60%, limit 50%)',
+      'rep:Sam:discount'
+    );
+    expect(results[5]).toMatchObject({
+      severity: 'warning',
+      reason: 'Sales rep Sam: 4 of 6 transactions in the last 24h had a discount (66.67%, limit 50%)',
+      evidence: {
+        breaches: [
+          { kind: 'discount', count: 4, transactions: 6, ratePercent: 66.67, maxRatePercent: 50 },
+        ],
+      },
+    });
+  });
+
+  it('does not count or alert again when a transaction is checked again', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const store = new InMemoryRepActivityStore();
+    const strategy = new RepAnomalyStrategy(makeMockClient(), store, groupMe, {
+      windowHours: 24,
+      minTransactions: 2,
+      maxRatePercent: { discount: 40 },
+    });
+    await strategy.checkTx({ ...baseTx, id: 1000 });
+
+    // No completed_at, so the time recorded falls back to now; retries come later
+    const crossing = { ...baseTx, id: 1001, total_discounts: 5, completed_at: undefined };
+    const first = await strategy.checkTx(crossing);
+    nowSpy.mockReturnValue(Date.parse('2026-01-05T16:05:00.000Z'));
+    const retry = await strategy.checkTx(crossing);
+
+    expect(first).toMatchObject({ passed: false, evidence: { transactions: 2 } });
+    expect(retry).toMatchObject({ passed: false, evidence: { transactions: 2 } });
+    expect(groupMe.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('only counts transactions inside the rolling window', async () => {
+    const store = new InMemoryRepActivityStore();
+    await store.record({
+      salesRep: 'Sam',
+      transactionId: 1,
+      at: '2026-01-01T00:00:00.000Z',
+      kinds: ['discount'],
+    });
+    const strategy = new RepAnomalyStrategy(makeMockClient(), store, undefined, {
+      windowHours: 24,
+      minTransactions: 1,
+    });
+
+    const result = await strategy.checkTx(baseTx);
+
+    expect(result).toMatchObject({ passed: true, evidence: { transactions: 1 } });
+  });
+});
@@ -0,0 +1,308 @@
+import { ReturnValidationStrategy } from '../../src/strategies/return-validation-strategy';
+import {
+  GroupMeClient,
+  HeartlandApiClient,
+  TicketLinesResponse,
+} from '../../src/clients';
+import { HeartlandTransaction } from '../../src/model';
+
+describe('ReturnValidationStrategy', () => {
+  const returnTx: HeartlandTransaction = {
+    id: 117100,
+    type: 'Return',
+    total: -40,
+    parent_transaction_id: 117060,
+  };
+
+  const heartlandBaseUrl = 'https://bamherndon.retail.heartland.us';
+
+  const saleLines: TicketLinesResponse = {
+    total: 3,
+    pages: 1,
+    results: [
+      { id: 1, type: 'ItemLine', item_id: 2001, item_description: 'Batwing', qty: 2, unit_price: 20 },
+      {
+        id: 2,
+        type: 'ItemLine',
+        item_id: 2002,
+        item_description: 'Castle',
+        qty: 1,
+        unit_price: 100,
+        adjusted_unit_price: 80,
+      },
+      { id: 3, type: 'TaxLine' },
+    ],
+  };
+
+  const makeMockClient = (
+    linesByTicket: Record<number, TicketLinesResponse>,
+    // Ids of the sale's completed returns, including the one being checked
+    returnIds: number[] = [],
+    saleTotalDiscounts = 20
+  ): HeartlandApiClient => {
+    return {
+      getTicketLines: jest
+        .fn()
+        .mockImplementation((ticketId: number) =>
+          linesByTicket[ticketId]
+            ? Promise.resolve(linesByTicket[ticketId])
+            : Promise.reject(new Error(`ticket ${ticketId} not found`))
+        ),
+      getInventoryValues: jest.fn(),
+      getInventoryItem: jest.fn(),
+      findItemsByPublicId: jest.fn(),
+      getCustomer: jest.fn(),
+      listCustomerTickets: jest.fn(),
+      listReturnsOfTicket: jest.fn().mockResolvedValue({
+        total: returnIds.length,
+        pages: 1,
+        results: returnIds.map((id) => ({ id, type: 'Return' })),
+      }),
+      getTicket: jest
+        .fn()
+        .mockResolvedValue({ id: 117060, type: 'Ticket', total_discounts: saleTotalDiscounts }),
+      updateTicket: jest.fn(),
+      updateInventoryItem: jest.fn(),
+      updateInventoryItemImage: jest.fn(),
+      runReport: jest.fn(),
+      listPurchaseOrders: jest.fn(),
+      getPurchaseOrderLines: jest.fn(),
+      createReceipt: jest.fn(),
+      addReceiptLine: jest.fn(),
+      createReceiptFromPurchaseOrder: jest.fn(),
+      getReceiptByOrderId: jest.fn(),
+      completeReceipt: jest.fn(),
+    };
+  };
+
+  const returnOf = (results: TicketLinesResponse['results']): TicketLinesResponse => ({
+    total: results.length,
+    pages: 1,
+    results,
+  });
+
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('supports only Return transactions with ids', () => {
+    const strategy = new ReturnValidationStrategy(makeMockClient({}), heartlandBaseUrl);
+
+    const missingId = { ...returnTx, id: undefined } as unknown as HeartlandTransaction;
+    expect(strategy.supports(missingId)).toBe(false);
+    expect(strategy.supports({ ...returnTx, type: 'Ticket' })).toBe(false);
+    expect(strategy.supports(returnTx)).toBe(true);
+  });
+
+  it('passes when returned items, quantities and refunds match the sale', async () => {
+    const client = makeMockClient({
+      117060: saleLines,
+      117100: returnOf([
+        { id: 10, type: 'ItemLine', item_id: 2001, qty: -2, unit_price: 20 },
+        { id: 11, type: 'ItemLine', item_id: 2002, qty: -1, unit_price: 80 },
+      ]),
+    });
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(result).toEqual({
+      passed: true,
+      evidence: { parentId: 117060, itemIds: [2001, 2002] },
+    });
+    expect(client.getTicketLines).toHaveBeenCalledWith(117060, undefined);
+  });
+
+  it('counts the ticket-level discount on the sale in what was paid', async () => {
+    const client = makeMockClient(
+      {
+        117060: saleLines,
+        117100: returnOf([
+          { id: 10, type: 'ItemLine', item_id: 2001, item_description: 'Batwing', qty: -2, unit_price: 20 },
+        ]),
+      },
+      [],
+      // $20 off the Castle line plus $12 off the ticket, a third of it on the Batwings
+      32
+    );
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(client.getTicket).toHaveBeenCalledWith(117060);
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'critical',
+      reason: '1 problem(s) with return against ticket 117060: Batwing refunded $40, paid $36',
+    });
+  });
+
+  it('flags items that were not on the sale and quantities above what was sold', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const client = makeMockClient({
+      117060: saleLines,
+      117100: returnOf([
+        { id: 10, type: 'ItemLine', item_id: 2001, item_description: 'Batwing', qty: -3, unit_price: 10 },
+        { id: 11, type: 'ItemLine', item_id: 3001, item_description: 'Tower', qty: -1, unit_price: 5 },
+      ]),
+    });
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl, groupMe);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'warning',
+      reason:
+        '2 problem(s) with return against ticket 117060: Batwing returned 3, sold 2; Tower was not on the original sale',
+    });
+    expect(result.evidence?.violations).toEqual([
+      {
+        kind: 'quantity-exceeds-sale',
+        itemId: 2001,
+        description: 'Batwing',
+        returnedQty: 3,
+        refunded: 30,
+        soldQty: 2,
+        paid: 40,
+      },
+      {
+        kind: 'not-on-parent',
+        itemId: 3001,
+        description: 'Tower',
+        returnedQty: 1,
+        refunded: 5,
+      },
+    ]);
+    expect(groupMe.sendMessage).toHaveBeenCalledTimes(1);
+    expect(groupMe.sendMessage).toHaveBeenCalledWith(
+      'Return 117100 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117100 ): Batwing returned 3, sold 2' +
+        ' on sale 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )\n' +
+        'Return 117100 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117100 ): Tower was not on the original sale' +
+        ' on sale 117060 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117060 )',
+      'ticket:117100'
+    );
+  });
+
+  it('nets out earlier returns against the same sale', async () => {
+    const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    const castleReturn = (id: number) =>
+      returnOf([
+        { id, type: 'ItemLine', item_id: 2002, item_description: 'Castle', qty: -1, unit_price: 80 },
+      ]);
+    const client = makeMockClient(
+      { 117060: saleLines, 117090: castleReturn(20), 117100: castleReturn(21), 117120: castleReturn(22) },
+      [117090, 117100, 117120]
+    );
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl, groupMe);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(client.listReturnsOfTicket).toHaveBeenCalledWith(117060, undefined);
+    // 117120 came later and is left out
+    expect(client.getTicketLines).not.toHaveBeenCalledWith(117120, undefined);
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'critical',
+      reason:
+        '2 problem(s) with return against ticket 117060: ' +
+        'Castle returned 1, sold 1, already returned 1; ' +
+        'Castle refunded $80, paid $80, already refunded $80',
+      evidence: { parentId: 117060, earlierReturnIds: [117090], itemIds: [2002] },
+    });
+    expect(groupMe.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes a partial return that stays within what earlier returns left', async () => {
+    const client = makeMockClient(
+      {
+        117060: saleLines,
+        117090: returnOf([{ id: 20, type: 'ItemLine', item_id: 2001, qty: -1, unit_price: 20 }]),
+        117100: returnOf([{ id: 21, type: 'ItemLine', item_id: 2001, qty: -1, unit_price: 20 }]),
+      },
+      [117090, 117100]
+    );
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(result).toEqual({
+      passed: true,
+      evidence: { parentId: 117060, earlierReturnIds: [117090], itemIds: [2001] },
+    });
+  });
+
+  it('treats a refund above the price paid as critical', async () => {
+    const client = makeMockClient({
+      117060: saleLines,
+      117100: returnOf([{ id: 11, type: 'ItemLine', item_id: 2002, qty: -1, unit_price: 100 }]),
+    });
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(result).toMatchObject({ passed: false, severity: 'critical' });
+    expect(result.evidence?.violations).toEqual([
+      expect.objectContaining({ kind: 'refund-exceeds-price', refunded: 100, paid: 80 }),
+    ]);
+  });
+
+  it('fails when the parent ticket lines cannot be loaded', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const client = makeMockClient({ 117100: returnOf([]) });
+    const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl);
+
+    const result = await strategy.checkTx(returnTx);
+
+    expect(result).toMatchObject({
+      passed: false,
+      severity: 'warning',
+      reason: 'Could not retrieve return or parent ticket lines: Error: ticket 117060 not found',
+    });
+    errorSpy.mockRestore();
+  });
+
+  describe('returns without a parent ticket', () => {
+    const unlinked = { ...returnTx, parent_transaction_id: null };
+
+    it('passes up to the configured amount', async () => {
+      const client = makeMockClient({});
+      const strategy = new ReturnValidationStrategy(client, heartlandBaseUrl, undefined, {
+        maxUnlinkedReturnAmount: 50,
+      });
+
+      const result = await strategy.checkTx(unlinked);
+
+      expect(result).toMatchObject({ passed: true, severity: 'info' });
+      expect(client.getTicketLines).not.toHaveBeenCalled();
+    });
+
+    it('fails and alerts above the default amount', async () => {
+      const groupMe: GroupMeClient = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+      const strategy = new ReturnValidationStrategy(makeMockClient({}), heartlandBaseUrl, groupMe);
+
+      const result = await strategy.checkTx(unlinked);
+
+      expect(result).toEqual({
+        passed: false,
+        severity: 'warning',
+        reason: 'Return has no parent ticket and refunded $40, above the $25 limit',
+        evidence: { refunded: 40, maxUnlinkedReturnAmount: 25 },
+      });
+      expect(groupMe.sendMessage).toHaveBeenCalledWith(
+        'Return 117100 ( https://bamherndon.retail.heartland.us/#sales/tickets/edit/117100 )' +
+          ' refunded $40 without a parent ticket (limit $25)',
+        'ticket:117100'
+      );
+    });
+  });
+});
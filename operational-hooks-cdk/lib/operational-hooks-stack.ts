@@ -7,6 +7,11 @@ import * as path from 'path';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as ssm from 'aws-cdk-lib/aws-ssm';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 
@@ -42,9 +47,244 @@ export class OperationalHooksStack extends cdk.Stack {
       description: 'S3 bucket containing toyhouse_master_data.csv',
     });
 
+    /**
+     * 1a) Raw webhook payload archive.
+     *     Every inbound transaction/item body is written under
+     *     payloads/<date>/<event type>/<id>.json, with an index/ pointer per id.
+     */
+    const webhookArchiveRetentionDays = Number(
+      this.node.tryGetContext('webhookArchiveRetentionDays') ?? 90
+    );
+
+    const webhookArchiveBucket = new s3.Bucket(this, 'WebhookPayloadArchiveBucket', {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      lifecycleRules: [
+        {
+          id: 'ExpireArchivedWebhookPayloads',
+          expiration: cdk.Duration.days(webhookArchiveRetentionDays),
+        },
+      ],
+    });
+
+    new cdk.CfnOutput(this, 'WebhookPayloadArchiveBucketName', {
+      value: webhookArchiveBucket.bucketName,
+      description: 'S3 bucket containing raw Heartland webhook payloads',
+    });
+
+    /**
+     * 1c) Webhook delivery ledger.
+     *     Heartland retries deliveries; handlers record each event type + id here
+     *     and return the cached response instead of re-running side effects.
+     */
+    const deliveryLedgerTable = new dynamodb.Table(this, 'WebhookDeliveryLedgerTable', {
+      partitionKey: { name: 'deliveryKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    /**
+     * 1i) Inventory exclusions.
+     *     Items the inventory-non-negative check skips (by item id, custom
+     *     field or tag), plus the audit trail of who changed them. Managed
+     *     through the inventory exclusions Function URL (section 1j).
+     */
+    const inventoryExclusionsTable = new dynamodb.Table(this, 'InventoryExclusionsTable', {
+      partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    /**
+     * 1k) Sales-rep activity.
+     *     Each rep's transactions keyed by completion time, read back over a
+     *     rolling window by the rep-anomaly check, plus a marker per
+     *     transaction id. Rows expire after 35 days.
+     */
+    const repActivityTable = new dynamodb.Table(this, 'RepActivityTable', {
+      partitionKey: { name: 'salesRep', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    /**
+     * 1l) Remediations.
+     *     Changes made in Heartland by failing checks (item tags, ticket
+     *     notes), keyed by transaction, with what they replaced so they can
+     *     be reverted through the remediations Function URL (section 1m).
+     */
+    const remediationTable = new dynamodb.Table(this, 'RemediationTable', {
+      partitionKey: { name: 'transactionId', type: dynamodb.AttributeType.NUMBER },
+      sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    /**
+     * 1n) Check history.
+     *     The latest check results per transaction, compared when the ticket
+     *     is later updated or voided. Rows expire after 90 days.
+     */
+    const checkHistoryTable = new dynamodb.Table(this, 'CheckHistoryTable', {
+      partitionKey: { name: 'transactionId', type: dynamodb.AttributeType.NUMBER },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    /**
+     * 1p) Alert suppression.
+     *     When each alert fingerprint was last sent and how many repeats were
+     *     dropped since, shared by every alerting Lambda. Rows expire a week
+     *     after their window ends.
+     */
+    const alertSuppressionTable = new dynamodb.Table(this, 'AlertSuppressionTable', {
+      partitionKey: { name: 'fingerprint', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    /**
+     * 1q) Alert digest buffer.
+     *     Alerts of digest alert types, held until the daily digest posts
+     *     them. Unposted rows expire after 7 days.
+     */
+    const alertDigestTable = new dynamodb.Table(this, 'AlertDigestTable', {
+      partitionKey: { name: 'alertType', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'entryId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    /**
+     * 1d) Transaction queue + dead-letter queue.
+     *     The webhook handler enqueues raw payloads; the worker evaluates them.
+     *     Override the retry count with `cdk deploy -c transactionMaxReceiveCount=5`.
+     */
+    const transactionMaxReceiveCount = Number(
+      this.node.tryGetContext('transactionMaxReceiveCount') ?? 3
+    );
+
+    const transactionDeadLetterQueue = new sqs.Queue(this, 'TransactionDeadLetterQueue', {
+      retentionPeriod: cdk.Duration.days(14),
+      enforceSSL: true,
+    });
+
+    const transactionQueue = new sqs.Queue(this, 'TransactionQueue', {
+      // Must exceed the worker timeout so in-flight messages are not redelivered.
+      visibilityTimeout: cdk.Duration.minutes(6),
+      enforceSSL: true,
+      deadLetterQueue: {
+        queue: transactionDeadLetterQueue,
+        maxReceiveCount: transactionMaxReceiveCount,
+      },
+    });
+
+    new cdk.CfnOutput(this, 'TransactionDeadLetterQueueUrl', {
+      value: transactionDeadLetterQueue.queueUrl,
+      description: 'Dead-letter queue for transactions that failed evaluation',
+    });
+
+    /**
+     * 1h) Transaction strategy config.
+     *     Optional SSM parameter (JSON) selecting which checks run and with
+     *     which thresholds. Without `strategyConfigParameter` context the
+     *     bundled default config in heartland-webhook is used.
+     *     `shadowGroupMeBotId` context routes alerts from strategies in
+     *     shadow mode to a separate admin GroupMe bot. Remediations are
+     *     only recorded until deployed with `-c remediationDryRun=false`.
+     */
+    const strategyConfigParameterName: string | undefined =
+      this.node.tryGetContext('strategyConfigParameter');
+    const strategyConfigParameter = strategyConfigParameterName
+      ? ssm.StringParameter.fromStringParameterName(
+          this,
+          'TransactionStrategyConfig',
+          strategyConfigParameterName
+        )
+      : undefined;
+    const shadowGroupMeBotId: string | undefined = this.node.tryGetContext('shadowGroupMeBotId');
+    const strategyConfigEnvironment: Record<string, string> = {
+      ...(strategyConfigParameterName
+        ? { STRATEGY_CONFIG_SSM_PARAMETER: strategyConfigParameterName }
+        : {}),
+      ...(shadowGroupMeBotId ? { SHADOW_GROUPME_BOT_ID: shadowGroupMeBotId } : {}),
+      REMEDIATION_TABLE_NAME: remediationTable.tableName,
+      REMEDIATION_DRY_RUN: String(this.node.tryGetContext('remediationDryRun') ?? 'true'),
+    };
+
+    /**
+     * 1o) Notification routing.
+     *     `notificationRoutes` context (an object, or its JSON) becomes
+     *     NOTIFICATION_ROUTES on every Lambda that alerts, sending each alert
+     *     type to GroupMe, Slack, SES email or SNS channels. Without it every
+     *     alert goes to GROUPME_BOT_ID. Lambdas get ses:SendEmail or
+     *     sns:Publish only when an email or SNS channel is configured.
+     *     Repeats of an alert are suppressed for `alertSuppressionWindowMinutes`
+     *     (context, default 60; 0 turns suppression off).
+     *     `groupMeAccessToken` context lets GroupMe alerts upload images.
+     */
+    const notificationRoutesContext: unknown = this.node.tryGetContext('notificationRoutes');
+    const notificationRoutes: string | undefined =
+      notificationRoutesContext === undefined
+        ? undefined
+        : typeof notificationRoutesContext === 'string'
+          ? notificationRoutesContext
+          : JSON.stringify(notificationRoutesContext);
+    const groupMeAccessToken: string | undefined = this.node.tryGetContext('groupMeAccessToken');
+    const notificationEnvironment: Record<string, string> = {
+      ...(notificationRoutes ? { NOTIFICATION_ROUTES: notificationRoutes } : {}),
+      ...(groupMeAccessToken ? { GROUPME_ACCESS_TOKEN: groupMeAccessToken } : {}),
+      ALERT_SUPPRESSION_TABLE_NAME: alertSuppressionTable.tableName,
+      ALERT_DIGEST_TABLE_NAME: alertDigestTable.tableName,
+      ALERT_SUPPRESSION_WINDOW_MINUTES: String(
+        this.node.tryGetContext('alertSuppressionWindowMinutes') ?? 60
+      ),
+    };
+    type NotificationChannel = { type?: string; topicArn?: string };
+    const notificationChannels: NotificationChannel[] = notificationRoutes
+      ? Object.values(
+          (JSON.parse(notificationRoutes) as { channels?: Record<string, NotificationChannel> })
+            .channels ?? {}
+        )
+      : [];
+    const notificationTopicArns = notificationChannels
+      .filter((channel) => channel.type === 'sns' && channel.topicArn)
+      .map((channel) => channel.topicArn as string);
+    const sendsEmail = notificationChannels.some((channel) => channel.type === 'email');
+    const grantNotify = (fn: lambda.Function): void => {
+      alertSuppressionTable.grantReadWriteData(fn);
+      alertDigestTable.grantWriteData(fn);
+      if (sendsEmail) {
+        fn.addToRolePolicy(
+          new iam.PolicyStatement({
+            actions: ['ses:SendEmail'],
+            resources: [`arn:aws:ses:${this.region}:${this.account}:identity/*`],
+          })
+        );
+      }
+      if (notificationTopicArns.length > 0) {
+        fn.addToRolePolicy(
+          new iam.PolicyStatement({
+            actions: ['sns:Publish'],
+            resources: notificationTopicArns,
+          })
+        );
+      }
+    };
+
     /**
      * 2) Webhook handler Lambda
      *    Code comes from ../heartland-webhook/dist (compiled TS).
+     *    Authenticates and enqueues; checks run in the transaction worker.
      */
     const transactionWebhookFn = new lambda.Function(this, 'HeartlandTransactionWebhookFn', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -58,16 +298,65 @@ export class OperationalHooksStack extends cdk.Stack {
         HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
         OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
         GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
         TOYHOUSE_MASTER_DATA_S3_URI: `s3://${toyhouseDataBucket.bucketName}/toyhouse_master_data.csv`,
+        WEBHOOK_AUTH_REQUIRED: 'true',
+        TRANSACTION_QUEUE_URL: transactionQueue.queueUrl,
+        WEBHOOK_ARCHIVE_BUCKET: webhookArchiveBucket.bucketName,
       },
 
     });
     
-    // allow webhook Lambda to read the token secret
+    // allow webhook Lambda to read the webhook secret and enqueue payloads
     operationalSecrets.grantRead(transactionWebhookFn);
+    grantNotify(transactionWebhookFn);
     toyhouseDataBucket.grantRead(transactionWebhookFn);
+    transactionQueue.grantSendMessages(transactionWebhookFn);
+    webhookArchiveBucket.grantPut(transactionWebhookFn);
 
-    // Lambda Function URL (public) so Heartland can POST directly
+    /**
+     * 2a) Transaction worker Lambda
+     *     Runs the TransactionCompletionStrategy checks for queued payloads.
+     */
+    const transactionWorkerFn = new lambda.Function(this, 'HeartlandTransactionWorkerFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/transaction-worker/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Evaluates queued sales_transaction_completed webhook payloads',
+      timeout: cdk.Duration.minutes(1),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
+        GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+        IDEMPOTENCY_TABLE_NAME: deliveryLedgerTable.tableName,
+        INVENTORY_EXCLUSIONS_TABLE_NAME: inventoryExclusionsTable.tableName,
+        REP_ACTIVITY_TABLE_NAME: repActivityTable.tableName,
+        CHECK_HISTORY_TABLE_NAME: checkHistoryTable.tableName,
+        ...strategyConfigEnvironment,
+      },
+    });
+    operationalSecrets.grantRead(transactionWorkerFn);
+    grantNotify(transactionWorkerFn);
+    deliveryLedgerTable.grantReadWriteData(transactionWorkerFn);
+    // Read-write: the first cold start seeds the legacy exclusions
+    inventoryExclusionsTable.grantReadWriteData(transactionWorkerFn);
+    repActivityTable.grantReadWriteData(transactionWorkerFn);
+    remediationTable.grantReadWriteData(transactionWorkerFn);
+    checkHistoryTable.grantReadWriteData(transactionWorkerFn);
+    strategyConfigParameter?.grantRead(transactionWorkerFn);
+
+    transactionWorkerFn.addEventSource(
+      new lambdaEventSources.SqsEventSource(transactionQueue, {
+        batchSize: 5,
+        reportBatchItemFailures: true,
+      })
+    );
+
+    // Lambda Function URL (public) so Heartland can POST directly.
+    // Requests are authenticated in the handler against heartland.webhookSecret.
     const webhookFnUrl = transactionWebhookFn.addFunctionUrl({
       authType: lambda.FunctionUrlAuthType.NONE,
     });
@@ -93,10 +382,17 @@ export class OperationalHooksStack extends cdk.Stack {
         OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
         TOYHOUSE_MASTER_DATA_S3_URI: `s3://${toyhouseDataBucket.bucketName}/toyhouse_master_data.csv`,
         GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+        WEBHOOK_AUTH_REQUIRED: 'true',
+        IDEMPOTENCY_TABLE_NAME: deliveryLedgerTable.tableName,
+        WEBHOOK_ARCHIVE_BUCKET: webhookArchiveBucket.bucketName,
       },
     });
     operationalSecrets.grantRead(itemCreatedFn);
+    grantNotify(itemCreatedFn);
     toyhouseDataBucket.grantRead(itemCreatedFn);
+    deliveryLedgerTable.grantReadWriteData(itemCreatedFn);
+    webhookArchiveBucket.grantPut(itemCreatedFn);
 
     const itemCreatedFnUrl = itemCreatedFn.addFunctionUrl({
       authType: lambda.FunctionUrlAuthType.NONE,
@@ -107,6 +403,199 @@ export class OperationalHooksStack extends cdk.Stack {
       description: 'Public Lambda Function URL for Heartland item_created webhook',
     });
 
+    /**
+     * 1e) Replay handler Lambda
+     *     Re-drives dead-lettered, archived or supplied webhook events through
+     *     the handler logic. IAM-authenticated; invoked by operators only.
+     */
+    const replayFn = new lambda.Function(this, 'HeartlandReplayFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/replay/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Replays failed Heartland webhook events',
+      timeout: cdk.Duration.minutes(5),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
+        GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+        TOYHOUSE_MASTER_DATA_S3_URI: `s3://${toyhouseDataBucket.bucketName}/toyhouse_master_data.csv`,
+        IDEMPOTENCY_TABLE_NAME: deliveryLedgerTable.tableName,
+        TRANSACTION_DLQ_URL: transactionDeadLetterQueue.queueUrl,
+        WEBHOOK_ARCHIVE_BUCKET: webhookArchiveBucket.bucketName,
+        INVENTORY_EXCLUSIONS_TABLE_NAME: inventoryExclusionsTable.tableName,
+        REP_ACTIVITY_TABLE_NAME: repActivityTable.tableName,
+        CHECK_HISTORY_TABLE_NAME: checkHistoryTable.tableName,
+        ...strategyConfigEnvironment,
+      },
+    });
+    operationalSecrets.grantRead(replayFn);
+    grantNotify(replayFn);
+    // Read-write: the first cold start seeds the legacy exclusions
+    inventoryExclusionsTable.grantReadWriteData(replayFn);
+    repActivityTable.grantReadWriteData(replayFn);
+    remediationTable.grantReadWriteData(replayFn);
+    checkHistoryTable.grantReadWriteData(replayFn);
+    strategyConfigParameter?.grantRead(replayFn);
+    toyhouseDataBucket.grantRead(replayFn);
+    deliveryLedgerTable.grantReadWriteData(replayFn);
+    transactionDeadLetterQueue.grantConsumeMessages(replayFn);
+    webhookArchiveBucket.grantRead(replayFn);
+
+    const replayFnUrl = replayFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+    });
+
+    new cdk.CfnOutput(this, 'ReplayFunctionUrl', {
+      value: replayFnUrl.url,
+      description: 'IAM-authenticated Lambda Function URL for replaying failed webhook events',
+    });
+
+    /**
+     * 1f) Webhook router Lambda
+     *     Single Function URL registered for every Heartland event type.
+     *     `webhookRoutes` drives both the Heartland registrations (section 4)
+     *     and the router's dispatch map (WEBHOOK_ROUTES). `handler` names a
+     *     module in handlers/router; `log` archives and logs the payload only.
+     */
+    const webhookRoutes: { eventType: string; handler: 'transaction' | 'item' | 'log' }[] = [
+      { eventType: 'sales_transaction_completed', handler: 'transaction' },
+      { eventType: 'sales_transaction_updated', handler: 'transaction' },
+      { eventType: 'sales_transaction_voided', handler: 'transaction' },
+      { eventType: 'item_created', handler: 'item' },
+      { eventType: 'item_updated', handler: 'log' },
+      { eventType: 'customer_created', handler: 'log' },
+      { eventType: 'purchase_order_updated', handler: 'log' },
+    ];
+
+    const webhookRouterFn = new lambda.Function(this, 'HeartlandWebhookRouterFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/router/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Routes Heartland webhook events to their handler modules by event type',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
+        GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+        TOYHOUSE_MASTER_DATA_S3_URI: `s3://${toyhouseDataBucket.bucketName}/toyhouse_master_data.csv`,
+        WEBHOOK_AUTH_REQUIRED: 'true',
+        TRANSACTION_QUEUE_URL: transactionQueue.queueUrl,
+        IDEMPOTENCY_TABLE_NAME: deliveryLedgerTable.tableName,
+        WEBHOOK_ARCHIVE_BUCKET: webhookArchiveBucket.bucketName,
+        WEBHOOK_ROUTES: JSON.stringify(
+          Object.fromEntries(webhookRoutes.map((route) => [route.eventType, route.handler]))
+        ),
+      },
+    });
+    operationalSecrets.grantRead(webhookRouterFn);
+    grantNotify(webhookRouterFn);
+    toyhouseDataBucket.grantRead(webhookRouterFn);
+    transactionQueue.grantSendMessages(webhookRouterFn);
+    deliveryLedgerTable.grantReadWriteData(webhookRouterFn);
+    webhookArchiveBucket.grantPut(webhookRouterFn);
+
+    // Public; each handler module authenticates against heartland.webhookSecret.
+    const webhookRouterFnUrl = webhookRouterFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+    });
+
+    new cdk.CfnOutput(this, 'WebhookRouterFunctionUrl', {
+      value: webhookRouterFnUrl.url,
+      description: 'Public Lambda Function URL registered with Heartland for all webhook events',
+    });
+
+    /**
+     * 1g) Payload lookup Lambda
+     *     Returns the archived webhook body for a ticket or item id.
+     */
+    const payloadLookupFn = new lambda.Function(this, 'WebhookPayloadLookupFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/payload-lookup/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Looks up archived Heartland webhook payloads by ticket or item id',
+      timeout: cdk.Duration.seconds(10),
+      environment: {
+        WEBHOOK_ARCHIVE_BUCKET: webhookArchiveBucket.bucketName,
+      },
+    });
+    webhookArchiveBucket.grantRead(payloadLookupFn);
+
+    const payloadLookupFnUrl = payloadLookupFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+    });
+
+    new cdk.CfnOutput(this, 'PayloadLookupFunctionUrl', {
+      value: payloadLookupFnUrl.url,
+      description: 'IAM-authenticated Lambda Function URL for archived webhook payload lookups',
+    });
+
+    /**
+     * 1j) Inventory exclusions admin Lambda
+     *     Lists, adds and removes inventory-non-negative exclusions and
+     *     returns their audit trail. Changes are attributed to the IAM caller.
+     */
+    const inventoryExclusionsFn = new lambda.Function(this, 'InventoryExclusionsFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/inventory-exclusions/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Manages inventory-non-negative exclusions and their audit trail',
+      timeout: cdk.Duration.seconds(10),
+      environment: {
+        INVENTORY_EXCLUSIONS_TABLE_NAME: inventoryExclusionsTable.tableName,
+      },
+    });
+    inventoryExclusionsTable.grantReadWriteData(inventoryExclusionsFn);
+
+    const inventoryExclusionsFnUrl = inventoryExclusionsFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+    });
+
+    new cdk.CfnOutput(this, 'InventoryExclusionsFunctionUrl', {
+      value: inventoryExclusionsFnUrl.url,
+      description: 'IAM-authenticated Lambda Function URL for managing inventory exclusions',
+    });
+
+    /**
+     * 1m) Remediations admin Lambda
+     *     Lists the remediations recorded for a transaction and reverts
+     *     applied ones in Heartland. Reverts are attributed to the IAM caller.
+     */
+    const remediationsFn = new lambda.Function(this, 'RemediationsFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/remediations/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Lists and reverts remediations applied by transaction checks',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
+        REMEDIATION_TABLE_NAME: remediationTable.tableName,
+      },
+    });
+    operationalSecrets.grantRead(remediationsFn);
+    remediationTable.grantReadWriteData(remediationsFn);
+
+    const remediationsFnUrl = remediationsFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.AWS_IAM,
+    });
+
+    new cdk.CfnOutput(this, 'RemediationsFunctionUrl', {
+      value: remediationsFnUrl.url,
+      description: 'IAM-authenticated Lambda Function URL for listing and reverting remediations',
+    });
+
     const undersoldItemsFn = new lambda.Function(this, 'UndersoldItemsFn', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'dist/handlers/undersold-items/index.handler',
@@ -119,10 +608,12 @@ export class OperationalHooksStack extends cdk.Stack {
         HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
         OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
         GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
         UNDERSOLD_REPORTS_S3_BUCKET: toyhouseDataBucket.bucketName,
       },
     });
     operationalSecrets.grantRead(undersoldItemsFn);
+    grantNotify(undersoldItemsFn);
     toyhouseDataBucket.grantReadWrite(undersoldItemsFn);
 
     const undersoldItemsFnUrl = undersoldItemsFn.addFunctionUrl({
@@ -159,9 +650,11 @@ export class OperationalHooksStack extends cdk.Stack {
         HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
         OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
         GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
       },
     });
     operationalSecrets.grantRead(receiveOpenOrdersFn);
+    grantNotify(receiveOpenOrdersFn);
 
     const receiveOpenOrdersFnUrl = receiveOpenOrdersFn.addFunctionUrl({
       authType: lambda.FunctionUrlAuthType.AWS_IAM,
@@ -181,6 +674,100 @@ export class OperationalHooksStack extends cdk.Stack {
       targets: [new targets.LambdaFunction(receiveOpenOrdersFn)],
     });
 
+    /**
+     * 2d) Alert digest Lambda
+     *     Posts the buffered alerts of digest alert types as one summary per
+     *     set of channels, daily at `alertDigestHourUtc` (context, default
+     *     02:00 UTC, the evening before in US time zones).
+     */
+    const alertDigestFn = new lambda.Function(this, 'AlertDigestFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/alert-digest/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Daily: posts the alert digest',
+      timeout: cdk.Duration.minutes(1),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+      },
+    });
+    grantNotify(alertDigestFn);
+    alertDigestTable.grantReadWriteData(alertDigestFn);
+
+    new events.Rule(this, 'AlertDigestDailySchedule', {
+      description: 'Trigger AlertDigest Lambda daily',
+      schedule: events.Schedule.cron({
+        minute: '0',
+        hour: String(this.node.tryGetContext('alertDigestHourUtc') ?? 2),
+      }),
+      targets: [new targets.LambdaFunction(alertDigestFn)],
+    });
+
+    /**
+     * 2e) GroupMe command bot Lambda
+     *     Set the Function URL, with `?token=<groupme.callbackToken>`, as the
+     *     callback URL of the GroupMe bot given as `groupMeCommandBotId`
+     *     context. Only the GroupMe user ids in the comma-separated
+     *     `groupMeCommandUserIds` context may run commands.
+     */
+    const groupCommandsFn = new lambda.Function(this, 'GroupCommandsFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/group-commands/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Answers store lookup commands posted in GroupMe',
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        OPERATIONAL_SECRET_ARN: operationalSecrets.secretArn,
+        GROUPME_COMMAND_BOT_ID: String(this.node.tryGetContext('groupMeCommandBotId') ?? ''),
+        GROUPME_COMMAND_USER_IDS: String(this.node.tryGetContext('groupMeCommandUserIds') ?? ''),
+        ...(groupMeAccessToken ? { GROUPME_ACCESS_TOKEN: groupMeAccessToken } : {}),
+        WEBHOOK_AUTH_REQUIRED: 'true',
+      },
+    });
+    operationalSecrets.grantRead(groupCommandsFn);
+
+    const groupCommandsFnUrl = groupCommandsFn.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+    });
+
+    new cdk.CfnOutput(this, 'GroupCommandsFunctionUrl', {
+      value: groupCommandsFnUrl.url,
+      description: 'Public Lambda Function URL for the GroupMe command bot callback',
+    });
+
+    /**
+     * 2f) Alert suppression sweep Lambda
+     *     Every 15 minutes, reports the suppressed repeats of fingerprints
+     *     whose window closed without a later alert to report them.
+     */
+    const alertSuppressionSweepFn = new lambda.Function(this, 'AlertSuppressionSweepFn', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'handlers/alert-suppression-sweep/index.handler',
+      code: lambda.Code.fromAsset(
+        path.join(__dirname, '..', '..', 'heartland-webhook', 'dist')
+      ),
+      description: 'Every 15 minutes: reports suppressed repeat alerts',
+      timeout: cdk.Duration.minutes(1),
+      environment: {
+        HEARTLAND_API_BASE_URL: 'https://bamherndon.retail.heartland.us',
+        GROUPME_BOT_ID: '89bc08a0ee7697547bd331852d',
+        ...notificationEnvironment,
+      },
+    });
+    grantNotify(alertSuppressionSweepFn);
+
+    new events.Rule(this, 'AlertSuppressionSweepSchedule', {
+      description: 'Trigger AlertSuppressionSweep Lambda every 15 minutes',
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      targets: [new targets.LambdaFunction(alertSuppressionSweepFn)],
+    });
+
     /**
      * 3) Custom resource Lambda that registers/deregisters the webhook.
      *    Uses the compiled JS from ../heartland-webhook-custom-resource/dist.
@@ -227,47 +814,37 @@ export class OperationalHooksStack extends cdk.Stack {
     /**
      * 4) CustomResource: registers webhook on stack Create/Update,
      *    and deregisters on Delete.
+     *    The transaction and item Function URLs stay deployed for direct
+     *    posts and integration tests, but Heartland only calls the router.
      */
 
-    const transactionEvents = ['sales_transaction_completed'];
-
-    const webhookRegistration = new cdk.CustomResource(
-      this,
-      'HeartlandWebhookRegistration',
-      {
-        serviceToken: provider.serviceToken,
-        properties: {
-          WebhookUrl: webhookFnUrl.url, // passed to your Lambda as event.ResourceProperties.WebhookUrl
-          Events: transactionEvents,    // passed as event.ResourceProperties.Events
-        },
-      }
-    );
-
-    const itemCreatedEvents = ['item_created'];
-
-    const itemCreatedWebhookRegistration = new cdk.CustomResource(
-      this,
-      'HeartlandItemCreatedWebhookRegistration',
-      {
-        serviceToken: provider.serviceToken,
-        properties: {
-          WebhookUrl: itemCreatedFnUrl.url,
-          Events: itemCreatedEvents,
-        },
-      }
-    );
-
-    // Expose Heartland Webhook ID returned by your custom-resource Lambda
-    new cdk.CfnOutput(this, 'HeartlandWebhookId', {
-      value: webhookRegistration.getAttString('WebhookId'),
-      description:
-        'Webhook ID returned by Heartland when registering the webhook',
-    });
-
-    new cdk.CfnOutput(this, 'HeartlandItemCreatedWebhookId', {
-      value: itemCreatedWebhookRegistration.getAttString('WebhookId'),
-      description:
-        'Webhook ID returned by Heartland when registering the item_created webhook',
-    });
+    // One Heartland webhook per routed event type, all pointing at the router.
+    for (const route of webhookRoutes) {
+      const resourceName = route.eventType
+        .split('_')
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+
+      const registration = new cdk.CustomResource(
+        this,
+        `HeartlandWebhookRegistration${resourceName}`,
+        {
+          serviceToken: provider.serviceToken,
+          properties: {
+            WebhookUrl: `${webhookRouterFnUrl.url}?event=${route.eventType}`,
+            Events: [route.eventType],
+            // Registered URLs carry `heartland.webhookSecret` as `?token=`.
+            // Changing this re-registers every webhook, e.g. after rotating
+            // the secret.
+            Authentication: 'token-v1',
+          },
+        }
+      );
+
+      new cdk.CfnOutput(this, `HeartlandWebhookId${resourceName}`, {
+        value: registration.getAttString('WebhookId'),
+        description: `Webhook ID returned by Heartland when registering the ${route.eventType} webhook`,
+      });
+    }
   }
 }
@@ -0,0 +1,27 @@
+import * as crypto from 'crypto';
+
+/**
+ * Build headers for posting to the public webhook Function URLs.
+ *
+ * When WEBHOOK_SECRET is set (the `heartland.webhookSecret` value from
+ * OperationalSecrets), the body is signed the same way the handlers verify it.
+ */
+export const buildWebhookHeaders = (body: string): Record<string, string> => {
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    return headers;
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return {
+    ...headers,
+    'x-heartland-timestamp': timestamp,
+    'x-heartland-signature': signature,
+  };
+};
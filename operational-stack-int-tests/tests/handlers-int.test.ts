@@ -1,4 +1,5 @@
 import { getHandlerUrls } from '../src/stack-outputs';
+import { buildWebhookHeaders } from '../src/webhook-signing';
 
 const stackName = process.env.STACK_NAME || 'OperationalHooksStack';
 
@@ -82,7 +83,7 @@ describe('Operational Hooks handlers (deployed)', () => {
   test.skip('transaction handler accepts a webhook payload', async () => {
     const response = await fetch(transactionWebhookUrl, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: buildWebhookHeaders(JSON.stringify({})),
       body: JSON.stringify({}),
     });
 
@@ -92,7 +93,7 @@ describe('Operational Hooks handlers (deployed)', () => {
   test.skip('item created handler accepts a webhook payload', async () => {
     const response = await fetch(itemCreatedUrl, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: buildWebhookHeaders(JSON.stringify({})),
       body: JSON.stringify({}),
     });
 
@@ -102,7 +103,7 @@ describe('Operational Hooks handlers (deployed)', () => {
   test('item created handler accepts used set payload', async () => {
     const response = await fetch(itemCreatedUrl, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: buildWebhookHeaders(JSON.stringify(usedSetItemPayload)),
       body: JSON.stringify(usedSetItemPayload),
     });
 
@@ -183,7 +184,7 @@ describe('Operational Hooks handlers (deployed)', () => {
   test('item created handler accepts retired new in box payload', async () => {
     const response = await fetch(itemCreatedUrl, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: buildWebhookHeaders(JSON.stringify(retiredNewInBoxPayload)),
       body: JSON.stringify(retiredNewInBoxPayload),
     });
 
@@ -265,7 +266,7 @@ describe('Operational Hooks handlers (deployed)', () => {
   test('item created handler accepts minifig payload', async () => {
     const response = await fetch(itemCreatedUrl, {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: buildWebhookHeaders(JSON.stringify(minifigPayload)),
       body: JSON.stringify(minifigPayload),
     });
 